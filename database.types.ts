@@ -14,6 +14,48 @@ export type Database = {
   }
   public: {
     Tables: {
+      brand_aliases: {
+        Row: {
+          alias: string
+          alias_normalized: string | null
+          brand_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+        }
+        Insert: {
+          alias: string
+          alias_normalized?: string | null
+          brand_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+        }
+        Update: {
+          alias?: string
+          alias_normalized?: string | null
+          brand_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brand_aliases_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "brand_aliases_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       brands: {
         Row: {
           id: string
@@ -32,6 +74,60 @@ export type Database = {
         }
         Relationships: []
       }
+      crop_threshold_versions: {
+        Row: {
+          average_brix: number | null
+          created_at: string
+          created_by: string | null
+          crop_id: string
+          effective_from: string
+          excellent_brix: number | null
+          good_brix: number | null
+          id: string
+          poor_brix: number | null
+          source: string | null
+        }
+        Insert: {
+          average_brix?: number | null
+          created_at?: string
+          created_by?: string | null
+          crop_id: string
+          effective_from?: string
+          excellent_brix?: number | null
+          good_brix?: number | null
+          id?: string
+          poor_brix?: number | null
+          source?: string | null
+        }
+        Update: {
+          average_brix?: number | null
+          created_at?: string
+          created_by?: string | null
+          crop_id?: string
+          effective_from?: string
+          excellent_brix?: number | null
+          good_brix?: number | null
+          id?: string
+          poor_brix?: number | null
+          source?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crop_threshold_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "crop_threshold_versions_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       crops: {
         Row: {
           average_brix: number | null
@@ -42,6 +138,7 @@ export type Database = {
           label: string | null
           name: string
           poor_brix: number | null
+          threshold_source: string | null
         }
         Insert: {
           average_brix?: number | null
@@ -52,6 +149,7 @@ export type Database = {
           label?: string | null
           name: string
           poor_brix?: number | null
+          threshold_source?: string | null
         }
         Update: {
           average_brix?: number | null
@@ -62,6 +160,7 @@ export type Database = {
           label?: string | null
           name?: string
           poor_brix?: number | null
+          threshold_source?: string | null
         }
         Relationships: []
       }
@@ -90,6 +189,7 @@ export type Database = {
         Row: {
           city: string | null
           country: string | null
+          geom: unknown | null
           id: string
           label: string | null
           latitude: number
@@ -133,6 +233,77 @@ export type Database = {
           },
         ]
       }
+      product_codes: {
+        Row: {
+          brand_id: string | null
+          code: string
+          code_type: string
+          created_at: string
+          crop_id: string | null
+          id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_by: string | null
+          variety: string | null
+        }
+        Insert: {
+          brand_id?: string | null
+          code: string
+          code_type: string
+          created_at?: string
+          crop_id?: string | null
+          id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_by?: string | null
+          variety?: string | null
+        }
+        Update: {
+          brand_id?: string | null
+          code?: string
+          code_type?: string
+          created_at?: string
+          crop_id?: string | null
+          id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_by?: string | null
+          variety?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_codes_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_codes_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_codes_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_codes_submitted_by_fkey"
+            columns: ["submitted_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       spatial_ref_sys: {
         Row: {
           auth_name: string | null
@@ -159,22 +330,40 @@ export type Database = {
       }
       submission_images: {
         Row: {
+          byte_size: number | null
+          content_hash: string | null
+          content_type: string | null
+          height: number | null
           id: string
           image_url: string
           submission_id: string
+          thumbnail_url: string | null
           uploaded_at: string
+          width: number | null
         }
         Insert: {
+          byte_size?: number | null
+          content_hash?: string | null
+          content_type?: string | null
+          height?: number | null
           id?: string
           image_url: string
           submission_id: string
+          thumbnail_url?: string | null
           uploaded_at?: string
+          width?: number | null
         }
         Update: {
+          byte_size?: number | null
+          content_hash?: string | null
+          content_type?: string | null
+          height?: number | null
           id?: string
           image_url?: string
           submission_id?: string
+          thumbnail_url?: string | null
           uploaded_at?: string
+          width?: number | null
         }
         Relationships: [
           {
@@ -197,17 +386,34 @@ export type Database = {
         Row: {
           assessment_date: string | null
           brand_id: string | null
+          brix_median: number | null
+          brix_readings: number[] | null
+          brix_stdev: number | null
           brix_value: number
           contributor_name: string | null
           crop_id: string
           crop_variety: string | null
           farm_location: string | null
+          growing_method: string | null
           harvest_time: string | null
           id: string
           location_id: string | null
+          origin_country: string | null
+          outlier_flagged: boolean
           outlier_notes: string | null
+          outlier_reason: string | null
+          outlier_score: number | null
+          photo_distance_m: number | null
           place_id: string
+          price: number | null
+          price_currency: string | null
+          price_unit: string | null
           purchase_date: string | null
+          rejected: boolean
+          rejected_at: string | null
+          rejected_by: string | null
+          rejection_reason: string | null
+          sample_source: string
           user_id: string | null
           verified: boolean
           verified_at: string | null
@@ -216,17 +422,34 @@ export type Database = {
         Insert: {
           assessment_date?: string | null
           brand_id?: string | null
+          brix_median?: number | null
+          brix_readings?: number[] | null
+          brix_stdev?: number | null
           brix_value: number
           contributor_name?: string | null
           crop_id: string
           crop_variety?: string | null
           farm_location?: string | null
+          growing_method?: string | null
           harvest_time?: string | null
           id?: string
           location_id?: string | null
+          origin_country?: string | null
+          outlier_flagged?: boolean
           outlier_notes?: string | null
+          outlier_reason?: string | null
+          outlier_score?: number | null
+          photo_distance_m?: number | null
           place_id: string
+          price?: number | null
+          price_currency?: string | null
+          price_unit?: string | null
           purchase_date?: string | null
+          rejected?: boolean
+          rejected_at?: string | null
+          rejected_by?: string | null
+          rejection_reason?: string | null
+          sample_source?: string
           user_id?: string | null
           verified?: boolean
           verified_at?: string | null
@@ -235,17 +458,34 @@ export type Database = {
         Update: {
           assessment_date?: string | null
           brand_id?: string | null
+          brix_median?: number | null
+          brix_readings?: number[] | null
+          brix_stdev?: number | null
           brix_value?: number
           contributor_name?: string | null
           crop_id?: string
           crop_variety?: string | null
           farm_location?: string | null
+          growing_method?: string | null
           harvest_time?: string | null
           id?: string
           location_id?: string | null
+          origin_country?: string | null
+          outlier_flagged?: boolean
           outlier_notes?: string | null
+          outlier_reason?: string | null
+          outlier_score?: number | null
+          photo_distance_m?: number | null
           place_id?: string
+          price?: number | null
+          price_currency?: string | null
+          price_unit?: string | null
           purchase_date?: string | null
+          rejected?: boolean
+          rejected_at?: string | null
+          rejected_by?: string | null
+          rejection_reason?: string | null
+          sample_source?: string
           user_id?: string | null
           verified?: boolean
           verified_at?: string | null
@@ -280,6 +520,13 @@ export type Database = {
             referencedRelation: "places"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "submissions_rejected_by_fkey"
+            columns: ["rejected_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "submissions_user_id_fkey"
             columns: ["user_id"]
@@ -395,6 +642,8 @@ export type Database = {
           is_outlier: boolean | null
           label: string | null
           location_id: string | null
+          outlier_reason: string | null
+          outlier_score: number | null
           poor_brix: number | null
           store_id: string | null
           timestamp: string | null
@@ -656,6 +905,31 @@ export type Database = {
         Args: { geom1: unknown; geom2: unknown }
         Returns: boolean
       }
+      filter_submissions: {
+        Args: { filters?: Json }
+        Returns: Database["public"]["Tables"]["submissions"]["Row"][]
+      }
+      find_possible_duplicate_submissions: {
+        Args: {
+          p_assessment_date: string
+          p_brix: number
+          p_brix_tolerance?: number
+          p_crop_name: string
+          p_image_hashes?: string[]
+          p_latitude: number
+          p_longitude: number
+          p_radius_m?: number
+        }
+        Returns: {
+          assessment_date: string
+          brix_value: number
+          crop_name: string
+          is_own: boolean
+          match_reason: string
+          place_label: string
+          submission_id: string
+        }[]
+      }
       geography: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
@@ -907,6 +1181,24 @@ export type Database = {
           submission_count: number
         }[]
       }
+      get_brix_trend: {
+        Args: {
+          brand_filter?: string
+          bucket?: string
+          city_filter?: string
+          country_filter?: string
+          crop_filter?: string
+          location_filter?: string
+          place_id_filter?: string
+          state_filter?: string
+        }
+        Returns: {
+          average_brix: number
+          average_normalized_score: number
+          period: string
+          submission_count: number
+        }[]
+      }
       get_crop_leaderboard: {
         Args:
           | {
@@ -932,6 +1224,42 @@ export type Database = {
           submission_count: number
         }[]
       }
+      get_crop_seasonality: {
+        Args: {
+          crop_filter?: string
+          hemisphere_filter?: string
+          month_filter?: number
+        }
+        Returns: {
+          crop_id: string
+          crop_name: string
+          hemisphere: string
+          month: number
+          p10: number
+          p25: number
+          p50: number
+          p75: number
+          p90: number
+          submission_count: number
+        }[]
+      }
+      get_duplicate_submission_clusters: {
+        Args: { p_brix_tolerance?: number }
+        Returns: {
+          assessment_date: string
+          brand_name: string
+          brix_value: number
+          cluster_key: string
+          crop_name: string
+          image_count: number
+          match_reason: string
+          place_label: string
+          submission_id: string
+          user_id: string
+          user_name: string
+          verified: boolean
+        }[]
+      }
       get_location_leaderboard: {
         Args:
           | {
@@ -957,14 +1285,86 @@ export type Database = {
           submission_count: number
         }[]
       }
+      get_nearby_place_candidates: {
+        Args: { p_max_distance_m?: number }
+        Returns: {
+          city: string
+          label: string
+          latitude: number
+          location_id: string
+          location_name: string
+          longitude: number
+          neighbours: Json
+          normalized_address: string
+          place_id: string
+          state: string
+          street_address: string
+          submission_count: number
+        }[]
+      }
       get_normalized_brix_1_to_2: {
         Args: { brix_value_arg: number; crop_id_arg: string }
         Returns: number
       }
+      get_place_scores_in_bbox: {
+        Args: {
+          filters?: Json
+          max_lat: number
+          max_lng: number
+          max_results?: number
+          min_lat: number
+          min_lng: number
+        }
+        Returns: {
+          average_normalized_score: number
+          city: string
+          country: string
+          id: string
+          label: string
+          last_assessed: string
+          latitude: number
+          location_id: string
+          location_name: string
+          longitude: number
+          outlier_count: number
+          state: string
+          street_address: string
+          submission_count: number
+          total_places: number
+        }[]
+      }
+      get_places_in_bbox: {
+        Args: {
+          max_lat: number
+          max_lng: number
+          max_results?: number
+          min_lat: number
+          min_lng: number
+        }
+        Returns: {
+          city: string
+          country: string
+          id: string
+          label: string
+          latitude: number
+          location_id: string
+          longitude: number
+          state: string
+        }[]
+      }
       get_proj4_from_srid: {
         Args: { "": number }
         Returns: string
       }
+      get_region_scores: {
+        Args: { filters?: Json; level?: string }
+        Returns: {
+          average_normalized_score: number
+          country: string
+          state: string
+          submission_count: number
+        }[]
+      }
       get_submission_count_leaderboard: {
         Args: {
           city_filter?: string
@@ -998,6 +1398,31 @@ export type Database = {
         Args: { user_uuid: string }
         Returns: string
       }
+      get_value_leaderboard: {
+        Args: {
+          city_filter?: string
+          country_filter?: string
+          crop_filter?: string
+          state_filter?: string
+        }
+        Returns: {
+          average_normalized_score: number
+          average_price: number
+          average_value_score: number
+          brand_label: string
+          brand_name: string
+          city: string
+          country: string
+          crop_label: string
+          crop_name: string
+          location_id: string
+          location_name: string
+          rank: number
+          state: string
+          submission_count: number
+          value_basis: string
+        }[]
+      }
       gettransactionid: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -1026,10 +1451,30 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      merge_brands: {
+        Args: { p_keep_id: string; p_merge_ids: string[] }
+        Returns: number
+      }
+      merge_duplicate_submissions: {
+        Args: { p_duplicate_ids: string[]; p_keep_id: string }
+        Returns: number
+      }
+      merge_locations: {
+        Args: { p_keep_id: string; p_merge_ids: string[] }
+        Returns: number
+      }
+      merge_places: {
+        Args: { p_keep_id: string; p_location_id: string; p_merge_ids: string[] }
+        Returns: number
+      }
       normalize_address: {
         Args: { address: string }
         Returns: string
       }
+      normalize_brand_name: {
+        Args: { p_name: string }
+        Returns: string
+      }
       path: {
         Args: { "": unknown }
         Returns: unknown
@@ -1220,6 +1665,10 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      resolve_brand_id: {
+        Args: { p_name: string }
+        Returns: string
+      }
       spheroid_in: {
         Args: { "": unknown }
         Returns: unknown
@@ -2307,6 +2756,14 @@ export type Database = {
         }
         Returns: string
       }
+      value_basis: {
+        Args: { s: Database["public"]["Tables"]["submissions"]["Row"] }
+        Returns: string
+      }
+      value_score: {
+        Args: { s: Database["public"]["Tables"]["submissions"]["Row"] }
+        Returns: number
+      }
     }
     Enums: {
       crop_category: "fruit" | "vegetable" | "grass"
@@ -0,0 +1,67 @@
+// Service worker for offline data entry: caches the app shell and the crop, brand and store lists
+// (the useStaticData reference data) so the form still opens without a connection. Submissions
+// themselves are queued in IndexedDB by the app (src/lib/submissionOutbox.ts), not here.
+
+const SHELL_CACHE = 'brix-shell-v1';
+const DATA_CACHE = 'brix-reference-data-v1';
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/favicon.ico'];
+// Supabase REST tables read by useStaticData
+const REFERENCE_TABLES = ['crops', 'brands', 'locations'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_FILES)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((keys) =>
+      Promise.all(keys.filter((key) => key !== SHELL_CACHE && key !== DATA_CACHE).map((key) => caches.delete(key)))
+    )
+  );
+  self.clients.claim();
+});
+
+const isReferenceDataRequest = (url) => {
+  const match = url.pathname.match(/^\/rest\/v1\/([^/?]+)$/);
+  return !!match && REFERENCE_TABLES.includes(match[1]);
+};
+
+// Network first, falling back to the last good response when offline
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Vite build assets have content hashes in their names, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    // Client-side routes (/data-entry, /your-data, ...) all load the same index.html
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (isReferenceDataRequest(url)) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  }
+});
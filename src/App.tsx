@@ -7,7 +7,10 @@ import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import MapView from "./pages/MapView";
 import Leaderboard from "./pages/Leaderboard";
 import DataBrowser from "./pages/DataBrowser";
+import ChainDetail from "./pages/ChainDetail";
+import BranchDetail from "./pages/BranchDetail";
 import DataEntry from "./pages/DataEntry";
+import DataImport from "./pages/DataImport";
 import YourData from "./pages/YourData";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
@@ -18,6 +21,12 @@ import ForgotPassword from "./pages/ForgotPassword";
 import ResetPassword from "./pages/ResetPassword";
 import ResetPasswordOTP from "./pages/ResetPasswordOTP";
 import AuthCallback from "./pages/AuthCallback";
+import AdminReview from "./pages/AdminReview";
+import AdminDuplicates from "./pages/AdminDuplicates";
+import AdminProductCodes from "./pages/AdminProductCodes";
+import AdminCrops from "./pages/AdminCrops";
+import AdminBrands from "./pages/AdminBrands";
+import AdminPlaces from "./pages/AdminPlaces";
 import ProtectedRoute from "./components/misc/ProtectedRoute";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -68,6 +77,22 @@ const RootContent = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/chains/:chainId"
+          element={
+            <ProtectedRoute>
+              <ChainDetail />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/branches/:placeId"
+          element={
+            <ProtectedRoute>
+              <BranchDetail />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/data"
           element={
@@ -84,6 +109,14 @@ const RootContent = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/data-entry/import"
+          element={
+            <ProtectedRoute>
+              <DataImport />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/your-data"
           element={
@@ -100,6 +133,56 @@ const RootContent = () => {
             </ProtectedRoute>
           }
         />
+
+        {/* Admin routes */}
+        <Route
+          path="/admin/review"
+          element={
+            <ProtectedRoute requireAdmin>
+              <AdminReview />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/duplicates"
+          element={
+            <ProtectedRoute requireAdmin>
+              <AdminDuplicates />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/product-codes"
+          element={
+            <ProtectedRoute requireAdmin>
+              <AdminProductCodes />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/crops"
+          element={
+            <ProtectedRoute requireAdmin>
+              <AdminCrops />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/brands"
+          element={
+            <ProtectedRoute requireAdmin>
+              <AdminBrands />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/places"
+          element={
+            <ProtectedRoute requireAdmin>
+              <AdminPlaces />
+            </ProtectedRoute>
+          }
+        />
       </Routes>
     </BrowserRouter>
   );
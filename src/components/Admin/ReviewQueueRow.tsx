@@ -0,0 +1,193 @@
+import React, { forwardRef } from 'react';
+import { TableCell, TableRow } from '../ui/table';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { BrixDataPoint } from '../../types';
+import { BrixThresholds, getBrixQuality, isOutsideThresholds } from '../../lib/getBrixQuality';
+import { getBrixColor } from '../../lib/getBrixColor';
+import { getSubmissionImageUrl } from '../../lib/imageStorage';
+import { isPhotoLocationMismatch } from '../../lib/photoExif';
+import { formatDistance } from '../../lib/geo';
+import { AlertTriangle, Calendar, Camera, Check, Image as ImageIcon, MapPin, User, X } from 'lucide-react';
+
+interface ReviewQueueRowProps {
+  submission: BrixDataPoint;
+  thresholds: BrixThresholds | undefined;
+  isSelected: boolean;
+  isFocused: boolean;
+  isProcessing: boolean;
+  onToggleSelect: (id: string) => void;
+  onFocus: () => void;
+  onApprove: (submission: BrixDataPoint) => void;
+  onReject: (submission: BrixDataPoint) => void;
+  onPreviewImages: (submission: BrixDataPoint) => void;
+}
+
+const ReviewQueueRow = forwardRef<HTMLTableRowElement, ReviewQueueRowProps>(({
+  submission,
+  thresholds,
+  isSelected,
+  isFocused,
+  isProcessing,
+  onToggleSelect,
+  onFocus,
+  onApprove,
+  onReject,
+  onPreviewImages,
+}, ref) => {
+  const colorClass = getBrixColor(submission.brixLevel, thresholds, 'bg');
+  const quality = getBrixQuality(submission.brixLevel, thresholds);
+  const outlier = isOutsideThresholds(submission.brixLevel, thresholds);
+  const firstImage = submission.images?.[0];
+
+  return (
+    <TableRow
+      ref={ref}
+      onClick={onFocus}
+      data-state={isSelected ? 'selected' : undefined}
+      className={`cursor-pointer transition-colors ${isFocused ? 'ring-2 ring-inset ring-blue-400 bg-blue-50' : ''}`}
+    >
+      <TableCell className="w-10" onClick={(e) => e.stopPropagation()}>
+        <Checkbox
+          checked={isSelected}
+          onCheckedChange={() => onToggleSelect(submission.id)}
+          aria-label={`Select ${submission.cropType} submission`}
+        />
+      </TableCell>
+
+      {/* Crop / Brand */}
+      <TableCell className="py-3">
+        <div className="font-semibold text-gray-900">{submission.cropLabel ?? submission.cropType}</div>
+        {submission.variety && <div className="text-xs text-gray-500">{submission.variety}</div>}
+        {submission.brandName && <div className="text-xs text-gray-800 mt-1">Brand: {submission.brandName}</div>}
+      </TableCell>
+
+      {/* BRIX with crop thresholds */}
+      <TableCell className="py-3">
+        <div className="flex items-center space-x-3">
+          <Badge className={`${colorClass} text-white px-3 py-1 rounded-xl font-bold text-base shadow-sm`}>
+            {submission.brixLevel}
+          </Badge>
+          <div className="text-xs text-gray-600">
+            <div className="font-medium">{quality}</div>
+            {thresholds ? (
+              <div className="whitespace-nowrap">
+                P {thresholds.poor} · A {thresholds.average} · G {thresholds.good} · E {thresholds.excellent}
+              </div>
+            ) : (
+              <div className="italic">No thresholds</div>
+            )}
+          </div>
+        </div>
+        {outlier && (
+          <Badge className="mt-2 flex w-fit items-center space-x-1 bg-amber-100 text-amber-800 hover:bg-amber-100">
+            <AlertTriangle className="w-3 h-3" />
+            <span>Outside crop range</span>
+          </Badge>
+        )}
+        {submission.outlierFlagged && (
+          <Badge
+            title={submission.outlierReason ?? undefined}
+            className="mt-2 flex w-fit items-center space-x-1 bg-amber-100 text-amber-800 hover:bg-amber-100"
+          >
+            <AlertTriangle className="w-3 h-3" />
+            <span>Statistical outlier{typeof submission.outlierScore === 'number' ? ` (z ${submission.outlierScore.toFixed(1)})` : ''}</span>
+          </Badge>
+        )}
+      </TableCell>
+
+      {/* Place / Submitter */}
+      <TableCell className="py-3 text-sm text-gray-700">
+        <div className="flex items-center space-x-1">
+          <MapPin className="w-4 h-4 text-gray-500 flex-shrink-0" />
+          <span className="font-medium">{submission.locationName || submission.placeName || 'Unknown'}</span>
+        </div>
+        {(submission.city || submission.state) && (
+          <div className="text-xs text-gray-500 ml-5">
+            {[submission.city, submission.state].filter(Boolean).join(', ')}
+          </div>
+        )}
+        {isPhotoLocationMismatch(submission.photoDistanceMeters) && (
+          <Badge
+            title="The photo's GPS position is far from the chosen store"
+            className="mt-1 flex w-fit items-center space-x-1 bg-amber-100 text-amber-800 hover:bg-amber-100"
+          >
+            <Camera className="w-3 h-3" />
+            <span>Photo taken {formatDistance(submission.photoDistanceMeters)} away</span>
+          </Badge>
+        )}
+        <div className="flex items-center space-x-1 text-xs text-gray-500 mt-1">
+          <User className="w-3 h-3" />
+          <span>{submission.submittedBy}</span>
+        </div>
+      </TableCell>
+
+      {/* Date */}
+      <TableCell className="py-3">
+        <div className="flex items-center space-x-1 text-sm text-gray-700">
+          <Calendar className="w-4 h-4 text-gray-500" />
+          <span>{new Date(submission.submittedAt).toLocaleDateString()}</span>
+        </div>
+      </TableCell>
+
+      {/* Images */}
+      <TableCell className="py-3" onClick={(e) => e.stopPropagation()}>
+        {firstImage ? (
+          <button
+            type="button"
+            onClick={() => onPreviewImages(submission)}
+            className="relative w-12 h-12 rounded-md overflow-hidden border border-gray-200"
+            aria-label="Preview images"
+          >
+            <img
+              src={getSubmissionImageUrl(submission.thumbnails?.[0] ?? firstImage)}
+              loading="lazy"
+              alt="Submission thumbnail"
+              className="w-full h-full object-cover"
+            />
+            {submission.images.length > 1 && (
+              <span className="absolute bottom-0 right-0 bg-black/60 text-white text-[10px] px-1 rounded-tl">
+                +{submission.images.length - 1}
+              </span>
+            )}
+          </button>
+        ) : (
+          <span className="flex items-center text-xs text-gray-400">
+            <ImageIcon className="w-4 h-4 mr-1" /> None
+          </span>
+        )}
+      </TableCell>
+
+      {/* Actions */}
+      <TableCell className="py-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-end space-x-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-green-700 hover:text-green-800 hover:bg-green-50"
+            onClick={() => onApprove(submission)}
+            disabled={isProcessing}
+            aria-label="Approve submission"
+          >
+            <Check className="w-5 h-5" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-red-600 hover:text-red-800 hover:bg-red-50"
+            onClick={() => onReject(submission)}
+            disabled={isProcessing}
+            aria-label="Reject submission"
+          >
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+});
+
+ReviewQueueRow.displayName = 'ReviewQueueRow';
+
+export default ReviewQueueRow;
@@ -16,13 +16,15 @@ import {
   Search,
   ChevronLeft,
   ChevronRight,
-  Check, ChevronDown, X
+  Check, ChevronDown, X,
+  Download, Loader2
 } from 'lucide-react';
-import { fetchFormattedSubmissions } from '../../lib/fetchSubmissions';
+import { fetchSubmissionsPage, fetchAllMatchingSubmissions, SubmissionSortField } from '../../lib/querySubmissions';
 import { useFilters, DEFAULT_MAP_FILTERS } from '../../contexts/FilterContext';
-import { applyFilters, getFilterSummary } from '../../lib/filterUtils';
+import { getFilterSummary } from '../../lib/filterUtils';
 import SubmissionTableRow from '../common/SubmissionTableRow';
 import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../ui/use-toast';
 import { Command, CommandInput, CommandItem, CommandList, CommandEmpty } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Slider } from "@/components/ui/slider";
@@ -30,6 +32,19 @@ import DataPointDetailModal from '../common/DataPointDetailModal';
 import { useStaticData } from '../../hooks/useStaticData';
 import { fetchCropCategories } from '../../lib/fetchCropCategories';
 import { parseURLSearchParams, mergeFiltersWithDefaults } from '../../lib/urlFilterUtils';
+import { downloadSubmissions, ExportFormat } from '../../lib/exportSubmissions';
+import ProvenanceFilters from '../common/ProvenanceFilters';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+
+// Delay before a typed search term is sent to the server
+const SEARCH_DEBOUNCE_MS = 300;
 
 // Constants for Brix Range Slider
 const STEP = 0.5;
@@ -110,9 +125,16 @@ const BrixRangeSlider = ({
   );
 };
 
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV (spreadsheets)' },
+  { format: 'json', label: 'JSON' },
+  { format: 'geojson', label: 'GeoJSON (QGIS, map tools)' },
+];
+
 const DataTable: React.FC = () => {
   const { filters, setFilters, isAdmin, setFilteredCount } = useFilters();
   const { user } = useAuth();
+  const { toast } = useToast();
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const [urlFiltersApplied, setUrlFiltersApplied] = useState(false);
@@ -123,17 +145,23 @@ const DataTable: React.FC = () => {
   // Re-added local state for categories since the hook doesn't provide it.
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
 
-  // State for data submissions
+  // Current page of submissions plus the total number matching the filters, both from the server
   const [data, setData] = useState<BrixDataPoint[]>([]);
-  // Local loading state for fetching submissions and categories
+  const [totalCount, setTotalCount] = useState(0);
+  // Local loading state for the first load; pageLoading covers later page/filter changes
   const [loading, setLoading] = useState(true);
+  const [pageLoading, setPageLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Bumped to refetch the current page, e.g. after a delete
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
 
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(10);
-  const [sortBy, setSortBy] = useState<keyof BrixDataPoint>('submittedAt');
+  const [sortBy, setSortBy] = useState<SubmissionSortField>('submittedAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [showFilters, setShowFilters] = useState(false);
 
   // Queries for searching within filter popovers
@@ -166,81 +194,83 @@ const DataTable: React.FC = () => {
     }
   }, [searchParams, urlFiltersApplied, setFilters, setSearchParams]);
 
-  // Use a single useEffect to fetch submissions and categories
+  // Categories for the filter panel only need loading once
+  useEffect(() => {
+    fetchCropCategories()
+      .then(setAvailableCategories)
+      .catch((err) => {
+        console.error('Error fetching categories:', err);
+        setAvailableCategories([]);
+      });
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchTerm(searchTerm), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Reset to first page whenever filters or search terms change
   useEffect(() => {
-    const loadData = async () => {
-      setLoading(true);
+    setCurrentPage(1);
+  }, [filters, debouncedSearchTerm]);
+
+  const submissionQuery = useMemo(() => ({
+    filters,
+    isAdmin,
+    search: debouncedSearchTerm,
+    sortBy,
+    sortOrder,
+  }), [filters, isAdmin, debouncedSearchTerm, sortBy, sortOrder]);
+
+  // Filtering, sorting and pagination all happen server side
+  useEffect(() => {
+    let cancelled = false;
+    const loadPage = async () => {
+      setPageLoading(true);
       try {
-        const [submissions, categories] = await Promise.all([
-          fetchFormattedSubmissions(),
-          fetchCropCategories()
-        ]);
-        setData(submissions);
-        setAvailableCategories(categories);
+        const page = await fetchSubmissionsPage(submissionQuery, currentPage, itemsPerPage);
+        if (cancelled) return;
+        setData(page.data);
+        setTotalCount(page.totalCount);
+        setFilteredCount(page.totalCount);
         setError(null);
       } catch (err) {
+        if (cancelled) return;
         console.error('Error fetching data:', err);
         setError('Failed to load data.');
         setData([]);
-        setAvailableCategories([]);
+        setTotalCount(0);
       } finally {
-        setLoading(false);
+        if (!cancelled) {
+          setPageLoading(false);
+          setLoading(false);
+        }
       }
     };
-    loadData();
-  }, []);
-
-  // Reset to first page whenever filters or search terms change
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [filters, searchTerm]);
-
-  const filteredAndSortedData = useMemo(() => {
-    let filtered = applyFilters(data, filters, isAdmin);
-
-    if (searchTerm) {
-      const searchLower = searchTerm.toLowerCase();
-      filtered = filtered.filter((point) => {
-        const matches =
-          (point.cropType && point.cropType.toLowerCase().includes(searchLower)) ||
-          (point.submittedBy && point.submittedBy.toLowerCase().includes(searchLower)) ||
-          // Refactored search term from `storeName` to `locationName`
-          (point.locationName && point.locationName.toLowerCase().includes(searchLower)) ||
-          (point.brandName && point.brandName.toLowerCase().includes(searchLower)) ||
-          (point.outlier_notes && point.outlier_notes.toLowerCase().includes(searchLower));
-        return matches;
+    loadPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [submissionQuery, currentPage, itemsPerPage, reloadKey, setFilteredCount]);
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / itemsPerPage));
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchAllMatchingSubmissions(submissionQuery);
+      downloadSubmissions(rows, format);
+    } catch (err) {
+      console.error('Error exporting submissions:', err);
+      toast({
+        title: 'Export failed',
+        description: 'Could not export the matching submissions. Please try again.',
+        variant: 'destructive',
       });
+    } finally {
+      setIsExporting(false);
     }
-
-    setFilteredCount(filtered.length);
-
-    filtered = [...filtered].sort((a, b) => {
-      let aValue: any = a[sortBy];
-      let bValue: any = b[sortBy];
-
-      if (typeof aValue === 'string') {
-        aValue = aValue.toLowerCase();
-        bValue = bValue.toLowerCase();
-      }
-
-      if (aValue < bValue) {
-        return sortOrder === 'asc' ? -1 : 1;
-      }
-      if (aValue > bValue) {
-        return sortOrder === 'asc' ? 1 : -1;
-      }
-      return 0;
-    });
-
-    return filtered;
-  }, [data, filters, isAdmin, searchTerm, sortBy, sortOrder, setFilteredCount]);
-
-  const totalPages = Math.ceil(filteredAndSortedData.length / itemsPerPage);
-  const currentItems = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    const endIndex = startIndex + itemsPerPage;
-    return filteredAndSortedData.slice(startIndex, endIndex);
-  }, [filteredAndSortedData, currentPage, itemsPerPage]);
+  };
 
   const handlePageChange = (newPage: number) => {
     if (newPage > 0 && newPage <= totalPages) {
@@ -248,7 +278,7 @@ const DataTable: React.FC = () => {
     }
   };
 
-  const handleSort = (column: keyof BrixDataPoint) => {
+  const handleSort = (column: SubmissionSortField) => {
     if (sortBy === column) {
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
     } else {
@@ -329,6 +359,8 @@ const DataTable: React.FC = () => {
 
   const handleDeleteSuccess = (deletedId: string) => {
     setData(currentData => currentData.filter(dp => dp.id !== deletedId));
+    // Refetch so the page is topped back up from the next one and the total stays right
+    setReloadKey(key => key + 1);
     handleCloseModal();
   };
 
@@ -387,6 +419,33 @@ const DataTable: React.FC = () => {
           <Filter className="w-4 h-4" />
           <span>{showFilters ? 'Hide Filters' : 'Show Filters'}</span>
         </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              className="flex items-center space-x-2"
+              disabled={totalCount === 0 || isExporting}
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              <span>Export</span>
+              <ChevronDown className="w-4 h-4 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>
+              Export {totalCount} filtered row{totalCount === 1 ? '' : 's'}
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {EXPORT_OPTIONS.map(option => (
+              <DropdownMenuItem
+                key={option.format}
+                onSelect={() => handleExport(option.format)}
+              >
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
         {filterSummary !== 'No active filters' && (
           <Button variant="ghost" onClick={clearFilters} className="text-red-600">
             Clear Filters ({filterSummary.split(', ').filter(f => f !== 'None').length})
@@ -602,6 +661,8 @@ const DataTable: React.FC = () => {
               </Popover>
             </div>
 
+            <ProvenanceFilters filters={filters} onChange={handleFilterChange} />
+
             <div>
               <Label className="text-sm font-medium">Has Image</Label>
               <Switch
@@ -655,6 +716,14 @@ const DataTable: React.FC = () => {
                     BRIX
                     {sortBy === 'brixLevel' && (sortOrder === 'asc' ? '↑' : '↓')}
                   </TableHead>
+                  <TableHead
+                    className="text-center whitespace-nowrap cursor-pointer"
+                    title="Normalized score per unit of price; compared only within the same currency and unit"
+                    onClick={() => handleSort('valueScore')}
+                  >
+                    Value
+                    {sortBy === 'valueScore' && (sortOrder === 'asc' ? '↑' : '↓')}
+                  </TableHead>
                   <TableHead
                     className="cursor-pointer"
                     onClick={() => handleSort('locationName')}
@@ -674,14 +743,21 @@ const DataTable: React.FC = () => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {currentItems.length === 0 ? (
+                {pageLoading && data.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                      <Loader2 className="w-5 h-5 animate-spin inline mr-2" />
+                      Loading submissions...
+                    </TableCell>
+                  </TableRow>
+                ) : data.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                    <TableCell colSpan={7} className="text-center py-8 text-gray-500">
                       No data found for the current filters.
                     </TableCell>
                   </TableRow>
                 ) : (
-                  currentItems.map((submission) => {
+                  data.map((submission) => {
                     const isOwner = user?.id === submission.userId;
                     const canDeleteByOwner = (isOwner && !submission.verified) || isAdmin;
 
@@ -693,6 +769,7 @@ const DataTable: React.FC = () => {
                         isOwner={isOwner}
                         canDeleteByOwner={canDeleteByOwner}
                         onOpenModal={handleOpenModal}
+                        showValue
                       />
                     );
                   })
@@ -707,17 +784,18 @@ const DataTable: React.FC = () => {
         <Button
           variant="outline"
           onClick={() => handlePageChange(currentPage - 1)}
-          disabled={currentPage === 1}
+          disabled={currentPage === 1 || pageLoading}
         >
           <ChevronLeft className="w-4 h-4 mr-2" /> Previous
         </Button>
-        <span className="text-sm text-gray-700">
-          Page {currentPage} of {totalPages}
+        <span className="text-sm text-gray-700 flex items-center">
+          {pageLoading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+          Page {currentPage} of {totalPages} · {totalCount} submission{totalCount === 1 ? '' : 's'}
         </span>
         <Button
           variant="outline"
           onClick={() => handlePageChange(currentPage + 1)}
-          disabled={currentPage === totalPages}
+          disabled={currentPage >= totalPages || pageLoading}
         >
           Next <ChevronRight className="w-4 h-4 ml-2" />
         </Button>
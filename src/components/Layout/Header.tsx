@@ -13,6 +13,7 @@ import {
   Trophy,
   Menu,
   X,
+  ShieldCheck,
 } from "lucide-react";
 
 const Header = () => {
@@ -94,6 +95,20 @@ const Header = () => {
         </Button>
       </Link>
 
+      {hasRole("admin") && (
+        <Link to="/admin/review">
+          <Button
+            variant={isActive("/admin/review") ? "default" : "ghost"}
+            className={`flex items-center space-x-2 w-full justify-start ${
+              isActive("/admin/review") ? "border-b-2 border-green-600" : ""
+            }`}
+          >
+            <ShieldCheck className="w-4 h-4" />
+            <span>Review</span>
+          </Button>
+        </Link>
+      )}
+
       {hasRole("contributor") && (
         <Link to="/data-entry">
           <Button
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import mapboxgl from 'mapbox-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { getMapboxToken } from '@/lib/getMapboxToken';
+import { rankColorFromNormalized } from '../../lib/getBrixColor';
+
+export interface MiniMapBranch {
+  id: string;
+  label: string;
+  latitude: number;
+  longitude: number;
+  // Average normalized score (1-2); null draws a grey marker
+  score: number | null;
+}
+
+interface BranchMiniMapProps {
+  branches: MiniMapBranch[];
+  onSelect?: (branchId: string) => void;
+  className?: string;
+}
+
+const NO_SCORE_COLOR = '#9ca3af';
+
+/** Small street map with one marker per branch, coloured by its average score. */
+const BranchMiniMap: React.FC<BranchMiniMapProps> = ({ branches, onSelect, className = 'h-64 w-full' }) => {
+  const container = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<mapboxgl.Map | null>(null);
+  const markersRef = useRef<mapboxgl.Marker[]>([]);
+  const [mapReady, setMapReady] = useState(false);
+  // Latest callback without re-creating the markers on every render
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const token = await getMapboxToken();
+      if (!token || cancelled || !container.current) {
+        if (!token) console.error('Failed to retrieve Mapbox token. Mini map will not initialize.');
+        return;
+      }
+      mapboxgl.accessToken = token;
+      mapRef.current = new mapboxgl.Map({
+        container: container.current,
+        style: 'mapbox://styles/mapbox/streets-v12',
+        center: [0, 20],
+        zoom: 1,
+      });
+      mapRef.current.addControl(new mapboxgl.NavigationControl({ showCompass: false }), 'top-right');
+      setMapReady(true);
+    })();
+
+    return () => {
+      cancelled = true;
+      mapRef.current?.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!mapReady || !map) return;
+
+    markersRef.current.forEach(marker => marker.remove());
+    markersRef.current = branches.map(branch => {
+      const element = document.createElement('button');
+      element.type = 'button';
+      element.title = branch.label;
+      element.className = 'h-4 w-4 rounded-full border-2 border-white shadow';
+      element.style.backgroundColor = branch.score === null ? NO_SCORE_COLOR : rankColorFromNormalized(branch.score).hex;
+      element.addEventListener('click', () => onSelectRef.current?.(branch.id));
+      return new mapboxgl.Marker({ element })
+        .setLngLat([branch.longitude, branch.latitude])
+        .addTo(map);
+    });
+
+    if (branches.length === 1) {
+      map.jumpTo({ center: [branches[0].longitude, branches[0].latitude], zoom: 14 });
+    } else if (branches.length > 1) {
+      const bounds = new mapboxgl.LngLatBounds();
+      branches.forEach(branch => bounds.extend([branch.longitude, branch.latitude]));
+      map.fitBounds(bounds, { padding: 40, maxZoom: 14, duration: 0 });
+    }
+  }, [branches, mapReady]);
+
+  return <div ref={container} className={`rounded-md overflow-hidden ${className}`} />;
+};
+
+export default BranchMiniMap;
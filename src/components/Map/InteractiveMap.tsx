@@ -3,18 +3,35 @@ import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react'
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { BrixDataPoint } from '../../types';
-import { fetchFormattedSubmissions } from '../../lib/fetchSubmissions';
+import { fetchSubmissionById } from '../../lib/fetchSubmissions';
+import { fetchSubmissionsForPlaces } from '../../lib/querySubmissions';
+import { fetchPlaceScoresInBounds, PlaceScore } from '../../lib/fetchMapPlaces';
 import { useFilters } from '../../contexts/FilterContext';
-import { applyFilters } from '../../lib/filterUtils';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
-import { MapPin, X, ArrowLeft } from 'lucide-react';
-import { useLocation } from 'react-router-dom';
+import { MapPin, X, ArrowLeft, AlertTriangle, History, Store } from 'lucide-react';
+import { Link, useLocation } from 'react-router-dom';
 import { getMapboxToken } from '@/lib/getMapboxToken';
 import { useCropThresholds } from '../../contexts/CropThresholdContext';
 import { getBrixColor, computeNormalizedScore, rankColorFromNormalized } from '../../lib/getBrixColor';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { BottomSheet } from '@/components/ui/bottom-sheet';
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group';
+import MapLegend from './MapLegend';
+import SubmissionThumbnail from '../common/SubmissionThumbnail';
+import {
+  MapLayerMode,
+  ChoroplethLevel,
+  MAP_LAYER_OPTIONS,
+  CHOROPLETH_LEVEL_OPTIONS,
+  CHOROPLETH_BOUNDARIES,
+  HEATMAP_COLOR_RAMP,
+  HEATMAP_WEIGHT,
+  scoreColorExpression,
+  regionFillExpression,
+  RegionScore,
+} from '../../lib/mapLayers';
+import { fetchRegionScores } from '../../lib/fetchRegionScores';
 
 // Leaderboard API imports
 import {
@@ -34,13 +51,47 @@ interface InteractiveMapProps {
 type SelectedView =
   | {
       type: 'crop' | 'brand';
+      // Crop name for crops, the displayed label for brands
       id: string;
       label: string;
     }
   | null;
 
+// The place whose drawer is open
+type SelectedPlace = Pick<
+  PlaceScore,
+  'id' | 'label' | 'locationId' | 'locationName' | 'streetAddress' | 'city' | 'state' | 'country'
+>;
+
+const placeFromSubmission = (point: BrixDataPoint): SelectedPlace => ({
+  id: point.placeId,
+  label: point.placeName ?? '',
+  locationId: point.locationId || null,
+  locationName: point.locationName ?? '',
+  streetAddress: point.streetAddress ?? '',
+  city: point.city ?? '',
+  state: point.state ?? '',
+  country: point.country ?? '',
+});
+
 const safeStr = (v?: any) => (v === null || v === undefined ? '' : String(v));
 
+const PLACES_SOURCE_ID = 'places';
+const CLUSTER_LAYER_ID = 'place-clusters';
+const CLUSTER_COUNT_LAYER_ID = 'place-cluster-count';
+const POINT_LAYER_ID = 'place-points';
+const POINT_LABEL_LAYER_ID = 'place-labels';
+const HEATMAP_SOURCE_ID = 'submission-heat';
+const HEATMAP_LAYER_ID = 'submission-heatmap';
+const regionSourceId = (level: ChoroplethLevel) => `region-boundaries-${level}`;
+const regionFillLayerId = (level: ChoroplethLevel) => `region-fill-${level}`;
+const regionOutlineLayerId = (level: ChoroplethLevel) => `region-outline-${level}`;
+
+const CHOROPLETH_LEVELS = Object.keys(CHOROPLETH_BOUNDARIES) as ChoroplethLevel[];
+const POINT_LAYER_IDS = [CLUSTER_LAYER_ID, CLUSTER_COUNT_LAYER_ID, POINT_LAYER_ID, POINT_LABEL_LAYER_ID];
+
+const EMPTY_FEATURE_COLLECTION: GeoJSON.FeatureCollection<GeoJSON.Point> = { type: 'FeatureCollection', features: [] };
+
 const InteractiveMap: React.FC<InteractiveMapProps> = ({
   userLocation,
   nearMeTriggered,
@@ -52,14 +103,23 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
 
   const mapContainer = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
-  const markersRef = useRef<mapboxgl.Marker[]>([]);
-
-  const [allData, setAllData] = useState<BrixDataPoint[]>([]);
-  const [filteredData, setFilteredData] = useState<BrixDataPoint[]>([]);
-  const [selectedPoint, setSelectedPoint] = useState<BrixDataPoint | null>(null);
+  // Ignores responses from viewport loads that were superseded by a later pan/zoom
+  const viewportRequestRef = useRef(0);
+
+  // Places inside the current map viewport with scores over the filtered submissions
+  const [viewportPlaces, setViewportPlaces] = useState<PlaceScore[]>([]);
+  // Matching places in the viewport, including any beyond the cap that were not loaded
+  const [totalPlaces, setTotalPlaces] = useState(0);
+  const [selectedPlace, setSelectedPlace] = useState<SelectedPlace | null>(null);
+  // Filtered submissions at the selected place, loaded when its drawer opens
+  const [placeSubmissions, setPlaceSubmissions] = useState<BrixDataPoint[]>([]);
+  const [isPlaceLoading, setIsPlaceLoading] = useState(false);
 
   const [isMapLoaded, setIsMapLoaded] = useState(false);
   const [groupBy, setGroupBy] = useState<'none' | 'crop' | 'brand'>('crop');
+  const [layerMode, setLayerMode] = useState<MapLayerMode>('points');
+  const [choroplethLevel, setChoroplethLevel] = useState<ChoroplethLevel>('country');
+  const [regionScores, setRegionScores] = useState<RegionScore[]>([]);
   const [minBrix, setMinBrix] = useState<number>(0);
   const [maxBrix, setMaxBrix] = useState<number>(1);
   const [isLoading, setIsLoading] = useState(false);
@@ -69,7 +129,7 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
   const [cropLeaderboard, setCropLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [brandLeaderboard, setBrandLeaderboard] = useState<LeaderboardEntry[]>([]);
 
-  const { cache, loading: thresholdsLoading } = useCropThresholds();
+  const { thresholdsFor, loading: thresholdsLoading } = useCropThresholds();
 
   // mobile sheet visibility (start open by default)
   const [mobileSheetOpen, setMobileSheetOpen] = useState<boolean>(true);
@@ -92,115 +152,188 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
     return isMobile;
   }
 
-  // Fetch submissions once
-  useEffect(() => {
-    fetchFormattedSubmissions()
-      .then((data) => setAllData(data || []))
-      .catch((error) => {
-        console.error('Error fetching submissions:', error);
-        setAllData([]);
-      });
-  }, []);
+  // The heatmap and choropleth follow the crop picked in the drawer's crop rankings
+  const focusCrop = groupBy === 'crop' && selectedEntry?.type === 'crop' ? selectedEntry : null;
+  // Markers always show every crop; only the other layers narrow to the focus crop
+  const layerCrop = layerMode !== 'points' ? focusCrop?.id ?? null : null;
+  const layerFilters = useMemo(
+    () => (layerCrop ? { ...filters, cropTypes: [layerCrop] } : filters),
+    [filters, layerCrop]
+  );
+
+  // Load per-place scores for the places currently in view
+  const loadViewport = useCallback(async () => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const requestId = ++viewportRequestRef.current;
+    const bounds = map.getBounds();
+    try {
+      const { places, totalPlaces } = await fetchPlaceScoresInBounds(
+        {
+          west: bounds.getWest(),
+          south: bounds.getSouth(),
+          east: bounds.getEast(),
+          north: bounds.getNorth(),
+        },
+        { filters: layerFilters, isAdmin }
+      );
+      if (requestId !== viewportRequestRef.current) return;
+      setViewportPlaces(places);
+      setTotalPlaces(totalPlaces);
+    } catch (error) {
+      console.error('Error loading map viewport:', error);
+      if (requestId !== viewportRequestRef.current) return;
+      setViewportPlaces([]);
+      setTotalPlaces(0);
+    }
+  }, [layerFilters, isAdmin]);
 
-  // When a point is selected, ensure group and entry state are set
+  // When a place is selected, reset the drawer to its crop rankings
   useEffect(() => {
-    if (selectedPoint) {
+    if (selectedPlace) {
       setGroupBy('crop');
       setSelectedEntry(null);
       // open mobile sheet when user selects a marker
       setMobileSheetOpen(true);
     }
-  }, [selectedPoint]);
+  }, [selectedPlace]);
 
-  // Base dataset for the selected place (uses filteredData for consistency with map)
-  const selectedPlaceId = useMemo(() => {
-    if (!selectedPoint) return null;
-    return (selectedPoint as any).placeId ?? (selectedPoint as any).place_id ?? null;
-  }, [selectedPoint]);
+  const selectedPlaceId = selectedPlace?.id ?? null;
 
-  const placeSubmissions = useMemo(() => {
-    if (!selectedPlaceId) return [] as BrixDataPoint[];
-    return filteredData.filter((d) => ((d as any).placeId ?? (d as any).place_id) === selectedPlaceId);
-  }, [filteredData, selectedPlaceId]);
-
-  type LocalRankEntry = {
-    label: string;
-    submission_count: number;
-    average_normalized_score: number;
-  };
-
-  const placeCropRankings: LocalRankEntry[] = useMemo(() => {
-    const groups = new Map<string, { total: number; count: number }>();
-    for (const sub of placeSubmissions) {
-      const cropKey = (sub.cropLabel ?? sub.cropType ?? (sub as any).crop_name ?? 'Unknown').toString();
-      const thresholds = cache?.[cropKey] ?? null;
-      const brixVal = sub.brixLevel ?? (sub as any).brix_value;
-      if (typeof brixVal === 'number' && !isNaN(brixVal)) {
-        const norm = computeNormalizedScore(brixVal, thresholds, minBrix, maxBrix);
-        const g = groups.get(cropKey) || { total: 0, count: 0 };
-        g.total += norm;
-        g.count += 1;
-        groups.set(cropKey, g);
-      } else {
-        const g = groups.get(cropKey) || { total: 0, count: 0 };
-        groups.set(cropKey, g);
-      }
-    }
-    const out: LocalRankEntry[] = [];
-    for (const [label, g] of groups.entries()) {
-      out.push({ label, submission_count: g.count, average_normalized_score: g.count ? g.total / g.count : 1.5 });
-    }
-    out.sort((a, b) => b.average_normalized_score - a.average_normalized_score);
-    return out;
-  }, [placeSubmissions, cache, minBrix, maxBrix]);
-
-  const placeBrandRankings: LocalRankEntry[] = useMemo(() => {
-    const groups = new Map<string, { total: number; count: number }>();
-    for (const sub of placeSubmissions) {
-      const brandKey = (sub.brandLabel ?? sub.brandName ?? (sub as any).brand_name ?? 'Unknown').toString();
-      const cropKey = (sub.cropLabel ?? sub.cropType ?? (sub as any).crop_name ?? 'Unknown').toString();
-      const thresholds = cache?.[cropKey] ?? null;
-      const brixVal = sub.brixLevel ?? (sub as any).brix_value;
-      if (typeof brixVal === 'number' && !isNaN(brixVal)) {
-        const norm = computeNormalizedScore(brixVal, thresholds, minBrix, maxBrix);
-        const g = groups.get(brandKey) || { total: 0, count: 0 };
-        g.total += norm;
-        g.count += 1;
-        groups.set(brandKey, g);
-      } else {
-        const g = groups.get(brandKey) || { total: 0, count: 0 };
-        groups.set(brandKey, g);
-      }
-    }
-    const out: LocalRankEntry[] = [];
-    for (const [label, g] of groups.entries()) {
-      out.push({ label, submission_count: g.count, average_normalized_score: g.count ? g.total / g.count : 1.5 });
+  // Only the open place's submissions are downloaded
+  useEffect(() => {
+    if (!selectedPlaceId) {
+      setPlaceSubmissions([]);
+      return;
     }
-    out.sort((a, b) => b.average_normalized_score - a.average_normalized_score);
-    return out;
-  }, [placeSubmissions, cache, minBrix, maxBrix]);
+    let cancelled = false;
+    setIsPlaceLoading(true);
+    fetchSubmissionsForPlaces({ filters, isAdmin }, [selectedPlaceId])
+      .then((rows) => {
+        if (!cancelled) setPlaceSubmissions(rows);
+      })
+      .catch((err) => {
+        console.error('Error loading place submissions:', err);
+        if (!cancelled) setPlaceSubmissions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsPlaceLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPlaceId, filters, isAdmin]);
 
   // compute min/max Brix
   useEffect(() => {
-    if (!allData || allData.length === 0) return;
-    const bVals = allData
+    if (placeSubmissions.length === 0) return;
+    const bVals = placeSubmissions
       .map((d) => d.brixLevel ?? (d as any).brix_value)
       .filter((v): v is number => typeof v === 'number' && !isNaN(v));
     if (bVals.length > 0) {
       setMinBrix(Math.min(...bVals));
       setMaxBrix(Math.max(...bVals));
     }
-  }, [allData]);
+  }, [placeSubmissions]);
+
+  const scoreOf = useCallback(
+    (p: BrixDataPoint): number | null => {
+      if (typeof p.brixLevel !== 'number' || isNaN(p.brixLevel)) return null;
+      const cropKey = (p.cropType ?? p.cropLabel ?? 'unknown').toString();
+      return computeNormalizedScore(p.brixLevel, thresholdsFor(cropKey, p.submittedAt) ?? null, minBrix, maxBrix);
+    },
+    [thresholdsFor, minBrix, maxBrix]
+  );
+
+  type LocalRankEntry = {
+    id: string;
+    label: string;
+    submission_count: number;
+    average_normalized_score: number;
+  };
 
-  // apply filters
+  const rankBy = useCallback(
+    (keyOf: (sub: BrixDataPoint) => { id: string; label: string }): LocalRankEntry[] => {
+      const groups = new Map<string, { label: string; total: number; count: number }>();
+      for (const sub of placeSubmissions) {
+        const { id, label } = keyOf(sub);
+        const g = groups.get(id) || { label, total: 0, count: 0 };
+        const score = scoreOf(sub);
+        if (score !== null) {
+          g.total += score;
+          g.count += 1;
+        }
+        groups.set(id, g);
+      }
+      const out: LocalRankEntry[] = [];
+      for (const [id, g] of groups.entries()) {
+        out.push({ id, label: g.label, submission_count: g.count, average_normalized_score: g.count ? g.total / g.count : 1.5 });
+      }
+      out.sort((a, b) => b.average_normalized_score - a.average_normalized_score);
+      return out;
+    },
+    [placeSubmissions, scoreOf]
+  );
+
+  const placeCropRankings = useMemo(
+    () => rankBy((sub) => ({
+      id: (sub.cropType ?? 'Unknown').toString(),
+      label: (sub.cropLabel ?? sub.cropType ?? 'Unknown').toString(),
+    })),
+    [rankBy]
+  );
+
+  const placeBrandRankings = useMemo(
+    () => rankBy((sub) => {
+      const label = (sub.brandLabel ?? sub.brandName ?? 'Unknown').toString();
+      return { id: label, label };
+    }),
+    [rankBy]
+  );
+
+  // One GeoJSON point per place, carrying its average normalized score for cluster coloring
+  const placeFeatures = useMemo<GeoJSON.FeatureCollection<GeoJSON.Point>>(() => ({
+    type: 'FeatureCollection',
+    features: viewportPlaces.map((place) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [place.longitude, place.latitude] },
+      properties: {
+        placeId: place.id,
+        label: place.locationName || place.label,
+        score: place.averageScore,
+        submissionCount: place.submissionCount,
+        outlierCount: place.outlierCount,
+      },
+    })),
+  }), [viewportPlaces]);
+
+  // One heatmap point per place, weighted by its readings and their average score
+  const heatFeatures = useMemo<GeoJSON.FeatureCollection<GeoJSON.Point>>(() => ({
+    type: 'FeatureCollection',
+    features: viewportPlaces.map((place) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [place.longitude, place.latitude] },
+      properties: { score: place.averageScore, count: place.submissionCount },
+    })),
+  }), [viewportPlaces]);
+
+  // Region averages cover every matching submission, not just the ones in view
   useEffect(() => {
-    try {
-      setFilteredData(applyFilters(allData, filters, isAdmin));
-    } catch (err) {
-      console.error('Error applying filters:', err);
-      setFilteredData(allData);
-    }
-  }, [filters, allData, isAdmin]);
+    if (layerMode !== 'choropleth') return;
+    let cancelled = false;
+    fetchRegionScores(choroplethLevel, { filters: layerFilters, isAdmin })
+      .then((regions) => {
+        if (!cancelled) setRegionScores(regions);
+      })
+      .catch((err) => {
+        console.error('Error loading region scores:', err);
+        if (!cancelled) setRegionScores([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [layerMode, choroplethLevel, layerFilters, isAdmin]);
 
   // near me handling
   useEffect(() => {
@@ -235,6 +368,113 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
       mapRef.current = map;
       map.on('load', () => {
         if (!mounted) return;
+
+        // Region and heatmap layers start hidden and sit below the place markers
+        CHOROPLETH_LEVELS.forEach((level) => {
+          const { url, sourceLayer } = CHOROPLETH_BOUNDARIES[level];
+          map.addSource(regionSourceId(level), { type: 'vector', url });
+          map.addLayer({
+            id: regionFillLayerId(level),
+            type: 'fill',
+            source: regionSourceId(level),
+            'source-layer': sourceLayer,
+            layout: { visibility: 'none' },
+            paint: { 'fill-color': 'rgba(0,0,0,0)', 'fill-opacity': 0.6 },
+          });
+          map.addLayer({
+            id: regionOutlineLayerId(level),
+            type: 'line',
+            source: regionSourceId(level),
+            'source-layer': sourceLayer,
+            layout: { visibility: 'none' },
+            paint: { 'line-color': '#ffffff', 'line-width': 0.5, 'line-opacity': 0.6 },
+          });
+        });
+
+        map.addSource(HEATMAP_SOURCE_ID, { type: 'geojson', data: EMPTY_FEATURE_COLLECTION });
+        map.addLayer({
+          id: HEATMAP_LAYER_ID,
+          type: 'heatmap',
+          source: HEATMAP_SOURCE_ID,
+          layout: { visibility: 'none' },
+          paint: {
+            'heatmap-weight': HEATMAP_WEIGHT,
+            'heatmap-color': HEATMAP_COLOR_RAMP,
+            'heatmap-radius': ['interpolate', ['linear'], ['zoom'], 0, 4, 9, 20, 15, 40],
+            'heatmap-intensity': ['interpolate', ['linear'], ['zoom'], 0, 1, 15, 3],
+            'heatmap-opacity': 0.8,
+          },
+        });
+
+        map.addSource(PLACES_SOURCE_ID, {
+          type: 'geojson',
+          data: EMPTY_FEATURE_COLLECTION,
+          cluster: true,
+          clusterRadius: 50,
+          clusterMaxZoom: 14,
+          clusterProperties: {
+            scoreSum: ['+', ['get', 'score']],
+          },
+        });
+
+        map.addLayer({
+          id: CLUSTER_LAYER_ID,
+          type: 'circle',
+          source: PLACES_SOURCE_ID,
+          filter: ['has', 'point_count'],
+          paint: {
+            'circle-color': scoreColorExpression(['/', ['get', 'scoreSum'], ['get', 'point_count']]),
+            'circle-radius': ['step', ['get', 'point_count'], 16, 10, 22, 50, 30],
+            'circle-stroke-width': 2,
+            'circle-stroke-color': '#ffffff',
+          },
+        });
+
+        map.addLayer({
+          id: CLUSTER_COUNT_LAYER_ID,
+          type: 'symbol',
+          source: PLACES_SOURCE_ID,
+          filter: ['has', 'point_count'],
+          layout: {
+            'text-field': ['get', 'point_count_abbreviated'],
+            'text-size': 12,
+          },
+          paint: { 'text-color': '#ffffff' },
+        });
+
+        map.addLayer({
+          id: POINT_LAYER_ID,
+          type: 'circle',
+          source: PLACES_SOURCE_ID,
+          filter: ['!', ['has', 'point_count']],
+          paint: {
+            'circle-color': scoreColorExpression(['get', 'score']),
+            'circle-radius': 7,
+            // Amber ring marks places with readings flagged as statistical outliers
+            'circle-stroke-width': ['case', ['>', ['get', 'outlierCount'], 0], 3, 2],
+            'circle-stroke-color': ['case', ['>', ['get', 'outlierCount'], 0], '#f59e0b', '#ffffff'],
+          },
+        });
+
+        map.addLayer({
+          id: POINT_LABEL_LAYER_ID,
+          type: 'symbol',
+          source: PLACES_SOURCE_ID,
+          filter: ['!', ['has', 'point_count']],
+          layout: {
+            'text-field': ['get', 'label'],
+            'text-size': 12,
+            'text-offset': [0, -1.4],
+            'text-anchor': 'bottom',
+            'text-max-width': 12,
+          },
+          paint: {
+            'text-color': '#ffffff',
+            'text-halo-color': 'rgba(0,0,0,0.7)',
+            'text-halo-width': 1.5,
+          },
+        });
+
         setIsMapLoaded(true);
       });
       map.on('error', (e) => console.error('Mapbox error:', e.error));
@@ -252,130 +492,124 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
 
   // handle highlighted point (from navigation state)
   useEffect(() => {
-    if (highlightedPoint && mapRef.current) {
-      const point = allData.find((d) => d.id === highlightedPoint.id);
-      if (point && (point.latitude ?? (point as any).lat) && (point.longitude ?? (point as any).lng)) {
-        mapRef.current.easeTo({
-          center: [(point.longitude ?? (point as any).lng), (point.latitude ?? (point as any).lat)],
-          zoom: 16,
-          duration: 1000,
-        });
-        setSelectedPoint(point);
-      }
-    }
-  }, [highlightedPoint, allData]);
+    if (!highlightedPoint?.id || !isMapLoaded) return;
+    let cancelled = false;
+    fetchSubmissionById(highlightedPoint.id)
+      .then((point) => {
+        if (cancelled || !point || !mapRef.current) return;
+        if (point.latitude && point.longitude) {
+          mapRef.current.easeTo({
+            center: [point.longitude, point.latitude],
+            zoom: 16,
+            duration: 1000,
+          });
+          setSelectedPlace(placeFromSubmission(point));
+        }
+      })
+      .catch((err) => console.error('Error loading highlighted submission:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [highlightedPoint, isMapLoaded]);
 
-  // Draw markers and attach click handlers
+  // Refetch whenever the viewport settles or the filters change
   useEffect(() => {
-    if (!mapRef.current || !isMapLoaded) return;
-
-    // Remove previous markers
-    markersRef.current.forEach((m) => m.remove());
-    markersRef.current = [];
-
-    const storeGroups: Record<string, BrixDataPoint[]> = {};
-    const averageScores: Record<string, number> = {};
-
-    for (const point of filteredData) {
-      const lat = point.latitude ?? (point as any).lat;
-      const lon = point.longitude ?? (point as any).lng;
-      const locName = point.locationName ?? (point as any).location_name ?? (point as any).place_label ?? null;
-      if (!lat || !lon || !locName) continue;
-      if (!storeGroups[locName]) storeGroups[locName] = [];
-      storeGroups[locName].push(point);
-    }
-
-    Object.entries(storeGroups).forEach(([storeName, points]) => {
-      if (!points || points.length === 0) return;
+    const map = mapRef.current;
+    if (!map || !isMapLoaded) return;
 
-      let totalScore = 0;
-      let validCount = 0;
+    loadViewport();
+    map.on('moveend', loadViewport);
+    return () => {
+      map.off('moveend', loadViewport);
+    };
+  }, [isMapLoaded, loadViewport]);
 
-      for (const p of points) {
-        const cropKey = (p.cropType ?? p.cropLabel ?? (p as any).crop_name ?? 'unknown').toString();
-        const thresholds = cache?.[cropKey];
+  // Push the latest place features into the clustered source
+  useEffect(() => {
+    const source = mapRef.current?.getSource(PLACES_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+    if (!isMapLoaded || !source) return;
+    source.setData(placeFeatures);
+  }, [placeFeatures, isMapLoaded]);
 
-        let normalized = 1.5;
-        const brixVal = p.brixLevel ?? (p as any).brix_value;
-        if (typeof brixVal === 'number' && !isNaN(brixVal)) {
-          normalized = computeNormalizedScore(brixVal, thresholds ?? null, minBrix, maxBrix);
-          totalScore += normalized;
-          validCount++;
-        }
-      }
+  useEffect(() => {
+    const source = mapRef.current?.getSource(HEATMAP_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+    if (!isMapLoaded || !source) return;
+    source.setData(heatFeatures);
+  }, [heatFeatures, isMapLoaded]);
 
-      averageScores[storeName] = validCount > 0 ? totalScore / validCount : 1.5;
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isMapLoaded) return;
+    map.setPaintProperty(regionFillLayerId(choroplethLevel), 'fill-color', regionFillExpression(regionScores, choroplethLevel));
+  }, [regionScores, choroplethLevel, isMapLoaded]);
 
-      const first = points[0];
-      const lat = first.latitude ?? (first as any).lat;
-      const lon = first.longitude ?? (first as any).lng;
-      if (!lat || !lon) return;
+  // Show only the layers belonging to the selected mode
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isMapLoaded) return;
+    const setVisible = (layerId: string, visible: boolean) =>
+      map.setLayoutProperty(layerId, 'visibility', visible ? 'visible' : 'none');
+
+    POINT_LAYER_IDS.forEach((id) => setVisible(id, layerMode === 'points'));
+    setVisible(HEATMAP_LAYER_ID, layerMode === 'heatmap');
+    CHOROPLETH_LEVELS.forEach((level) => {
+      const visible = layerMode === 'choropleth' && level === choroplethLevel;
+      setVisible(regionFillLayerId(level), visible);
+      setVisible(regionOutlineLayerId(level), visible);
+    });
+  }, [layerMode, choroplethLevel, isMapLoaded]);
 
-      const markerHex = getBrixColor(
-        averageScores[storeName],
-        { poor: 1.0, average: 1.25, good: 1.5, excellent: 1.75 },
-        'hex'
-      );
+  // Cluster clicks zoom in, point clicks open the place drawer, anything else clears it
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isMapLoaded) return;
+
+    const handleClick = (e: mapboxgl.MapMouseEvent) => {
+      // Keep the drawer (and any crop it focuses the layers on) while browsing other layers
+      if (layerMode !== 'points') return;
+
+      const [cluster] = map.queryRenderedFeatures(e.point, { layers: [CLUSTER_LAYER_ID] });
+      if (cluster) {
+        const source = map.getSource(PLACES_SOURCE_ID) as mapboxgl.GeoJSONSource;
+        source.getClusterExpansionZoom(cluster.properties?.cluster_id, (err, zoom) => {
+          if (err) return;
+          map.easeTo({ center: (cluster.geometry as GeoJSON.Point).coordinates as [number, number], zoom });
+        });
+        return;
+      }
 
-      // build marker element (keeps your original styling)
-      const markerContainer = document.createElement('div');
-      markerContainer.className = 'flex flex-col items-center cursor-pointer select-none';
-
-      const dot = document.createElement('div');
-      dot.style.backgroundColor = markerHex;
-      dot.style.width = '12px';
-      dot.style.height = '12px';
-      dot.style.borderRadius = '50%';
-      dot.style.border = '2px solid white';
-      dot.style.boxShadow = '0 0 5px rgba(0,0,0,0.5)';
-      markerContainer.appendChild(dot);
-
-      const label = document.createElement('div');
-      label.innerText = storeName;
-      label.style.backgroundColor = 'rgba(0,0,0,0.6)';
-      label.style.color = 'white';
-      label.style.padding = '2px 8px';
-      label.style.borderRadius = '4px';
-      label.style.fontSize = '12px';
-      label.style.fontWeight = '600';
-      label.style.whiteSpace = 'nowrap';
-      label.style.maxWidth = '140px';
-      label.style.overflow = 'hidden';
-      label.style.textOverflow = 'ellipsis';
-      markerContainer.appendChild(label);
-
-      const marker = new mapboxgl.Marker({ element: markerContainer, anchor: 'bottom' })
-        .setLngLat([lon, lat])
-        .addTo(mapRef.current!);
-
-      markersRef.current.push(marker);
-
-      // clicking a marker selects the first submission (representative) at that location
-      markerContainer.addEventListener('click', () => {
-        setSelectedPoint(first);
+      const [point] = map.queryRenderedFeatures(e.point, { layers: [POINT_LAYER_ID, POINT_LABEL_LAYER_ID] });
+      const placeId = point?.properties?.placeId;
+      const place = placeId ? viewportPlaces.find((p) => p.id === placeId) : undefined;
+      if (place) {
+        setSelectedPlace(place);
         setMobileSheetOpen(true); // ensure mobile sheet re-opens if user previously closed it
-      });
-    });
-
-    // clicking map (not markers) clears selection
-    const mapClickListener = (e: mapboxgl.MapMouseEvent) => {
-      const isMarkerClick = markersRef.current.some((m) =>
-        m.getElement().contains(e.originalEvent.target as Node)
-      );
-      if (!isMarkerClick) {
-        setSelectedPoint(null);
+      } else {
+        setSelectedPlace(null);
       }
     };
 
-    mapRef.current.on('click', mapClickListener);
+    const interactiveLayers = [CLUSTER_LAYER_ID, POINT_LAYER_ID, POINT_LABEL_LAYER_ID];
+    const setPointer = () => { map.getCanvas().style.cursor = 'pointer'; };
+    const clearPointer = () => { map.getCanvas().style.cursor = ''; };
+
+    map.on('click', handleClick);
+    interactiveLayers.forEach((layer) => {
+      map.on('mouseenter', layer, setPointer);
+      map.on('mouseleave', layer, clearPointer);
+    });
     return () => {
-      if (mapRef.current) mapRef.current.off('click', mapClickListener);
+      map.off('click', handleClick);
+      interactiveLayers.forEach((layer) => {
+        map.off('mouseenter', layer, setPointer);
+        map.off('mouseleave', layer, clearPointer);
+      });
     };
-  }, [filteredData, isMapLoaded, cache, minBrix, maxBrix]);
+  }, [isMapLoaded, viewportPlaces, layerMode]);
 
-  // Leaderboards fetching when a point selected
+  // Leaderboards fetching when a place is selected
   useEffect(() => {
-    if (!selectedPoint) {
+    if (!selectedPlace) {
       setLocationLeaderboard([]);
       setCropLeaderboard([]);
       setBrandLeaderboard([]);
@@ -385,9 +619,9 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
     setIsLoading(true);
 
     const localFilters: Filter = {
-      city: selectedPoint.city ?? (selectedPoint as any).city_name ?? undefined,
-      state: selectedPoint.state ?? undefined,
-      country: selectedPoint.country ?? undefined,
+      city: selectedPlace.city || undefined,
+      state: selectedPlace.state || undefined,
+      country: selectedPlace.country || undefined,
     };
 
     Promise.all([
@@ -408,12 +642,12 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
         setBrandLeaderboard([]);
       })
       .finally(() => setIsLoading(false));
-  }, [selectedPoint, filters]);
+  }, [selectedPlace, filters]);
 
   // Render helpers (kept your original markup and logic)
   const renderSubmissionItem = (sub: BrixDataPoint, key: string) => {
     const cropKey = (sub.cropType ?? sub.cropLabel ?? (sub as any).crop_name ?? 'unknown').toString();
-    const thresholds = cache?.[cropKey];
+    const thresholds = thresholdsFor(cropKey, sub.submittedAt);
     const brixVal = sub.brixLevel ?? (sub as any).brix_value;
     const pillClass = getBrixColor(
       typeof brixVal === 'number' ? brixVal : null,
@@ -427,9 +661,17 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
     );
 
     return (
-      <div key={key} className="flex justify-between items-start py-3 border-b border-gray-100 last:border-b-0">
+      <div key={key} className="flex justify-between items-start gap-3 py-3 border-b border-gray-100 last:border-b-0">
+        <SubmissionThumbnail submission={sub} />
         <div className="flex flex-col min-w-0 flex-1">
-          <span className="font-semibold text-sm truncate">{safeStr(sub.cropLabel ?? sub.cropType ?? 'Unknown Crop')}</span>
+          <span className="font-semibold text-sm truncate flex items-center">
+            {safeStr(sub.cropLabel ?? sub.cropType ?? 'Unknown Crop')}
+            {sub.outlierFlagged && (
+              <span title={sub.outlierReason ?? 'Statistical outlier'}>
+                <AlertTriangle className="w-3 h-3 ml-1 text-amber-500 flex-shrink-0" />
+              </span>
+            )}
+          </span>
           <span className="text-xs text-gray-500 mt-1 truncate">
             {safeStr(sub.brandLabel ?? sub.brandName ?? 'Unknown Brand')} —{' '}
             {sub.submittedAt ? new Date(sub.submittedAt).toLocaleDateString() : '-'}
@@ -445,12 +687,12 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
   };
 
   const renderDetailedSubmissions = () => {
-    if (!selectedEntry || !selectedPoint) return null;
+    if (!selectedEntry || !selectedPlace) return null;
 
     const filteredSubmissions = placeSubmissions.filter((d) =>
       selectedEntry.type === 'crop'
-        ? (d.cropLabel ?? d.cropType) === selectedEntry.label
-        : (d.brandLabel ?? d.brandName) === selectedEntry.label
+        ? (d.cropType ?? 'Unknown') === selectedEntry.id
+        : (d.brandLabel ?? d.brandName ?? 'Unknown') === selectedEntry.id
     );
 
     return (
@@ -475,7 +717,7 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
   };
 
   const renderLeaderboard = () => {
-    if (!selectedPoint) {
+    if (!selectedPlace) {
       return (
         <div className="flex flex-col items-center justify-center h-full text-center p-6">
           <MapPin className="w-16 h-16 text-gray-300 mb-4" />
@@ -488,7 +730,7 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
       );
     }
 
-    if (isLoading || thresholdsLoading) {
+    if (isLoading || isPlaceLoading || thresholdsLoading) {
       return <div className="p-4 text-center">Loading leaderboards...</div>;
     }
 
@@ -496,6 +738,25 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
 
     return (
       <div className="h-full flex flex-col">
+        {/* The place's own page and its chain's page with every branch */}
+        <div className="flex flex-wrap gap-2 mb-3">
+          {selectedPlaceId && (
+            <Button asChild variant="outline" size="sm">
+              <Link to={`/branches/${selectedPlaceId}`}>
+                <History className="w-4 h-4 mr-1" />
+                Store history
+              </Link>
+            </Button>
+          )}
+          {selectedPlace.locationId && (
+            <Button asChild variant="outline" size="sm">
+              <Link to={`/chains/${selectedPlace.locationId}`}>
+                <Store className="w-4 h-4 mr-1" />
+                All branches
+              </Link>
+            </Button>
+          )}
+        </div>
         <Tabs defaultValue="crop" value={groupBy} onValueChange={(val) => setGroupBy(val as any)} className="flex-1 flex flex-col">
           <TabsList className="grid w-full grid-cols-3 mb-4">
             <TabsTrigger value="none">All</TabsTrigger>
@@ -528,12 +789,12 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
                       const label = c.label ?? 'Unknown';
                       return (
                         <div
-                          key={label}
+                          key={c.id}
                           className="p-3 cursor-pointer hover:bg-gray-50 active:bg-gray-100 rounded-lg flex justify-between items-center transition-colors"
                           onClick={() =>
                             setSelectedEntry({
                               type: 'crop',
-                              id: label,
+                              id: c.id,
                               label,
                             })
                           }
@@ -601,15 +862,61 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
   };
 
   // Panel header values
-  const locTitle = selectedPoint?.locationName ?? (selectedPoint as any)?.location_name ?? safeStr((selectedPoint as any)?.place_label ?? '');
-  const street = selectedPoint?.streetAddress ?? (selectedPoint as any)?.street_address ?? '';
-  const city = selectedPoint?.city ?? (selectedPoint as any)?.city ?? '';
-  const state = selectedPoint?.state ?? (selectedPoint as any)?.state ?? '';
+  const locTitle = selectedPlace?.locationName || selectedPlace?.label || '';
+  const street = selectedPlace?.streetAddress ?? '';
+  const city = selectedPlace?.city ?? '';
+  const state = selectedPlace?.state ?? '';
 
   return (
     <div className="flex flex-col md:flex-row h-[calc(100vh-4rem)] w-full">
       {/* Map container must be non-zero height for Mapbox to render correctly */}
-      <div ref={mapContainer} className="flex-1 relative" />
+      <div className="flex-1 relative">
+        <div ref={mapContainer} className="h-full w-full" />
+
+        <div className="absolute top-3 left-3 z-10 flex flex-col items-start gap-2">
+          <ToggleGroup
+            type="single"
+            value={layerMode}
+            onValueChange={(val) => val && setLayerMode(val as MapLayerMode)}
+            className="rounded-md bg-white/90 shadow p-1"
+          >
+            {MAP_LAYER_OPTIONS.map(({ value, label }) => (
+              <ToggleGroupItem key={value} value={value} size="sm">
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          {layerMode === 'choropleth' && (
+            <ToggleGroup
+              type="single"
+              value={choroplethLevel}
+              onValueChange={(val) => val && setChoroplethLevel(val as ChoroplethLevel)}
+              className="rounded-md bg-white/90 shadow p-1"
+            >
+              {CHOROPLETH_LEVEL_OPTIONS.map(({ value, label }) => (
+                <ToggleGroupItem key={value} value={value} size="sm">
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+        </div>
+
+        {totalPlaces > viewportPlaces.length && (
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 rounded-md bg-white/90 shadow px-3 py-2 text-xs text-gray-700">
+            <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />
+            <span>
+              Showing the {viewportPlaces.length.toLocaleString()} busiest of {totalPlaces.toLocaleString()} places in view.
+              Zoom in to see the rest.
+            </span>
+          </div>
+        )}
+
+        <div className="absolute bottom-8 left-3 z-10">
+          <MapLegend mode={layerMode} cropLabel={layerMode === 'points' ? null : focusCrop?.label} />
+        </div>
+      </div>
 
      {/* Desktop Right Panel (persistent, integrated into layout) */}
       <div className="hidden md:flex md:w-96 flex-col border-l border-gray-200 bg-white shadow-inner">
@@ -618,7 +925,7 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
             <h2 className="text-lg font-semibold truncate">
               {locTitle || "Location details"}
             </h2>
-            {selectedPoint && (
+            {selectedPlace && (
               <p className="text-sm text-gray-500 mt-1 truncate">
                 {`${street ? `${street}, ` : ""}${city}${
                   city && state ? `, ${state}` : state ? `, ${state}` : ""
@@ -626,9 +933,9 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
               </p>
             )}
           </div>
-          {selectedPoint && (
+          {selectedPlace && (
             <Button
-              onClick={() => setSelectedPoint(null)}
+              onClick={() => setSelectedPlace(null)}
               variant="ghost"
               size="icon"
             >
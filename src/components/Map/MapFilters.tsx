@@ -12,6 +12,7 @@ import { fetchLocations } from '@/lib/fetchLocations';
 import { fetchCropCategories } from '@/lib/fetchCropCategories';
 import { Range, getTrackBackground } from 'react-range';
 import { useFilters, DEFAULT_MAP_FILTERS } from '../../contexts/FilterContext';
+import ProvenanceFilters from '../common/ProvenanceFilters';
 
 import {
   Command,
@@ -461,6 +462,9 @@ const MapFilters: React.FC = () => {
           </Popover>
         </div>
 
+        {/* Growing method, sample source and country of origin */}
+        <ProvenanceFilters filters={filters} onChange={updateFilters} />
+
         {/* Has Image */}
         <div className="flex items-center justify-between">
           <Label className="text-sm font-medium">Has Image</Label>
@@ -0,0 +1,35 @@
+import React from 'react';
+import { SCORE_LEGEND, MapLayerMode } from '../../lib/mapLayers';
+import { SERVER_GRADING_NOTE } from '../../lib/thresholdVersions';
+
+interface MapLegendProps {
+  mode: MapLayerMode;
+  // Crop the heatmap/choropleth is currently limited to, if any
+  cropLabel?: string | null;
+}
+
+const CAPTIONS: Record<MapLayerMode, string> = {
+  points: 'Average normalized score per store',
+  heatmap: 'Reading density weighted by normalized score',
+  choropleth: 'Average normalized score per region',
+};
+
+const MapLegend: React.FC<MapLegendProps> = ({ mode, cropLabel }) => (
+  <div className="rounded-md bg-white/90 shadow px-3 py-2 text-xs text-gray-700">
+    <div className="font-medium mb-1">
+      {CAPTIONS[mode]}
+      {cropLabel && <span className="text-gray-500"> · {cropLabel}</span>}
+    </div>
+    <div className="flex items-center gap-3">
+      {SCORE_LEGEND.map(({ label, color }) => (
+        <div key={label} className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+          <span>{label}</span>
+        </div>
+      ))}
+    </div>
+    <div className="mt-1 text-gray-500">{SERVER_GRADING_NOTE}</div>
+  </div>
+);
+
+export default MapLegend;
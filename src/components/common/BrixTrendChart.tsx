@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '../ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group';
+import { useStaticData } from '../../hooks/useStaticData';
+import { useCropThresholds } from '../../contexts/CropThresholdContext';
+import { fetchBrixTrend, getTrendBands, TREND_SCORE_DOMAIN, TrendFilter, TrendInterval, TrendPoint } from '../../lib/fetchBrixTrend';
+import { SERVER_GRADING_NOTE } from '../../lib/thresholdVersions';
+
+interface BrixTrendChartProps {
+  title?: string;
+  // Starting crop/brand/store plus any fixed scope (place or region) the chart is limited to
+  initialFilter?: TrendFilter;
+  // Hides the store picker where the chart is already scoped to a single place
+  showLocationFilter?: boolean;
+}
+
+// Radix Select items cannot have an empty value
+const ALL = '__all__';
+
+const chartConfig = {
+  averageNormalizedScore: {
+    label: 'Avg normalized score',
+    color: '#2563eb',
+  },
+} satisfies ChartConfig;
+
+const formatPeriod = (period: string, bucket: TrendInterval) => {
+  const date = new Date(`${period}T00:00:00`);
+  return bucket === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit' });
+};
+
+const BrixTrendChart: React.FC<BrixTrendChartProps> = ({
+  title = 'BRIX Trend',
+  initialFilter = {},
+  showLocationFilter = true,
+}) => {
+  const { crops, brands, locations } = useStaticData();
+  const { cache } = useCropThresholds();
+
+  const [bucket, setBucket] = useState<TrendInterval>('month');
+  const [crop, setCrop] = useState(initialFilter.crop ?? '');
+  const [brand, setBrand] = useState(initialFilter.brand ?? '');
+  const [location, setLocation] = useState(initialFilter.location ?? '');
+  const [points, setPoints] = useState<TrendPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { placeId, city, state, country } = initialFilter;
+
+  // Follow the caller when it switches to another crop/brand/store
+  useEffect(() => {
+    setCrop(initialFilter.crop ?? '');
+    setBrand(initialFilter.brand ?? '');
+    setLocation(initialFilter.location ?? '');
+  }, [initialFilter.crop, initialFilter.brand, initialFilter.location]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchBrixTrend({ crop, brand, location, placeId, city, state, country }, bucket)
+      .then((data) => {
+        if (!cancelled) setPoints(data);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setPoints([]);
+        setError(err instanceof Error ? err.message : 'Failed to load trend data.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crop, brand, location, placeId, city, state, country, bucket]);
+
+  const bands = useMemo(() => getTrendBands(crop ? cache?.[crop] : null), [crop, cache]);
+
+  const renderFilter = (
+    value: string,
+    onChange: (value: string) => void,
+    items: { id: string; name: string; label?: string }[],
+    allLabel: string
+  ) => (
+    <Select value={value || ALL} onValueChange={(v) => onChange(v === ALL ? '' : v)}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>{allLabel}</SelectItem>
+        {items.map((item) => (
+          <SelectItem key={item.id} value={item.name}>
+            {item.label || item.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-bold text-gray-900">{title}</h3>
+        <ToggleGroup
+          type="single"
+          value={bucket}
+          onValueChange={(val) => val && setBucket(val as TrendInterval)}
+          size="sm"
+        >
+          <ToggleGroupItem value="week">Weekly</ToggleGroupItem>
+          <ToggleGroupItem value="month">Monthly</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className={`grid gap-2 ${showLocationFilter ? 'grid-cols-3' : 'grid-cols-2'}`}>
+        {renderFilter(crop, setCrop, crops, 'All crops')}
+        {renderFilter(brand, setBrand, brands, 'All brands')}
+        {showLocationFilter && renderFilter(location, setLocation, locations, 'All stores')}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-48">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : points.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No verified readings for this selection yet.</p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+          <LineChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+            <CartesianGrid vertical={false} />
+            {bands.map((band) => (
+              <ReferenceArea
+                key={band.label}
+                y1={band.from}
+                y2={band.to}
+                fill={band.color}
+                fillOpacity={0.12}
+                ifOverflow="hidden"
+                label={{ value: band.label, position: 'insideRight', fontSize: 10, fill: band.color }}
+              />
+            ))}
+            <XAxis
+              dataKey="period"
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value) => formatPeriod(value, bucket)}
+              minTickGap={16}
+            />
+            <YAxis domain={TREND_SCORE_DOMAIN} tickCount={5} tickLine={false} axisLine={false} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => formatPeriod(payload?.[0]?.payload?.period, bucket)}
+                  formatter={(value, _name, item) => (
+                    <div className="flex flex-col">
+                      <span className="font-medium">Score {Number(value).toFixed(2)}</span>
+                      <span className="text-muted-foreground">
+                        Avg {item.payload.averageBrix.toFixed(1)} BRIX · {item.payload.submissionCount} readings
+                      </span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            <Line
+              type="monotone"
+              dataKey="averageNormalizedScore"
+              stroke="var(--color-averageNormalizedScore)"
+              strokeWidth={2}
+              dot={{ r: 3 }}
+            />
+          </LineChart>
+        </ChartContainer>
+      )}
+      <p className="text-xs text-muted-foreground">{SERVER_GRADING_NOTE}</p>
+    </div>
+  );
+};
+
+export default BrixTrendChart;
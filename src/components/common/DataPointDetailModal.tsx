@@ -24,6 +24,10 @@ import {
   MapIcon,
   FileText,
   Building,
+  XCircle,
+  AlertTriangle,
+  Camera,
+  Sprout,
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { deleteSubmission } from '../../lib/fetchSubmissions';
@@ -38,6 +42,16 @@ import { useCropThresholds } from '../../contexts/CropThresholdContext';
 import Combobox from '../ui/combo-box';
 import LocationSearch from './LocationSearch';
 import { useStaticData } from '../../hooks/useStaticData';
+import BrixTrendChart from './BrixTrendChart';
+import SeasonalComparison from './SeasonalComparison';
+import { useSubmissionImageUrls } from '../../hooks/useSubmissionImageUrls';
+import { isPhotoLocationMismatch } from '../../lib/photoExif';
+import { formatDistance } from '../../lib/geo';
+import { summarizeReadings } from '../../lib/brixReadings';
+import { describeVersion, GradingMode, SERVER_GRADING_NOTE } from '../../lib/thresholdVersions';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { formatPrice, growingMethodLabel, sampleSourceLabel } from '../../lib/provenance';
+import { computeValueScore, formatValueBasis, formatValueScore, valueBasis } from '../../lib/valueScore';
 
 interface DataPointDetailModalProps {
   dataPoint: BrixDataPoint | null;
@@ -56,7 +70,7 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
 }) => {
   const { isAdmin, user } = useAuth();
   const { toast } = useToast();
-  const { cache: thresholdsCache } = useCropThresholds();
+  const { thresholdsFor, versionFor, gradingMode, setGradingMode } = useCropThresholds();
 
   // Use the shared static data hook and destructure the new 'locations' property
   const { crops, brands, locations, isLoading: staticDataLoading, error: staticDataError } = useStaticData();
@@ -65,9 +79,8 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
   const [isDeleting, setIsDeleting] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [imagesLoading, setImagesLoading] = useState(false);
   const [isLocationLoading, setIsLocationLoading] = useState(false);
-  const [imageUrls, setImageUrls] = useState<string[]>([]);
+  const { urls: imageUrls, isLoading: imagesLoading } = useSubmissionImageUrls(initialDataPoint?.images, isOpen);
 
   // Remove the isLoading state since we're using staticDataLoading
   const [isInitializing, setIsInitializing] = useState(true);
@@ -117,8 +130,6 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
         setVerified(false);
         setVerifiedBy('');
         setVerifiedAt('');
-        setImageUrls([]);
-        setImagesLoading(false);
         setError(null);
         setIsEditing(false);
         console.log('Modal is not open or initialDataPoint is null. Exiting useEffect.');
@@ -165,27 +176,6 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
     initializeModalData();
   }, [isOpen, initialDataPoint, staticDataError, staticDataLoading, crops, brands, locations]); // Updated dependency array to 'locations'
 
-  useEffect(() => {
-    // Separate image fetching into its own effect to prevent state reset race conditions
-    const fetchImages = async () => {
-      if (!isOpen || !initialDataPoint) return;
-      setImagesLoading(true);
-      console.log('Attempting to fetch images. initialDataPoint.images:', initialDataPoint.images);
-
-      const urls = Array.isArray(initialDataPoint.images)
-        ? initialDataPoint.images.map(imagePath =>
-            `https://wbkzczcqlorsewoofwqe.supabase.co/storage/v1/object/public/submission-images-bucket/${imagePath}`
-          )
-        : [];
-
-      console.log('Generated image URLs:', urls);
-      setImageUrls(urls);
-      setImagesLoading(false);
-    };
-
-    fetchImages();
-  }, [isOpen, initialDataPoint]);
-
   const handleDelete = async () => {
     if (!initialDataPoint) return;
 
@@ -214,6 +204,8 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
     }
   };
 
+  const isOwner = !!initialDataPoint && user?.id === initialDataPoint.userId;
+
   const handleSave = async () => {
     console.log('=== SAVE OPERATION DEBUG ===');
     console.log('Starting save operation...');
@@ -328,6 +320,15 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
       if (brandIdToSet !== undefined) updateData.brand_id = brandIdToSet;
       if (locationIdToSet !== undefined) updateData.location_id = locationIdToSet;
 
+      // Saving a rejected submission sends it back to the review queue, unless an admin verifies it
+      const clearsRejection = initialDataPoint.rejected && (isOwner || (isAdmin && verified));
+      if (clearsRejection) {
+        updateData.rejected = false;
+        updateData.rejected_by = null;
+        updateData.rejected_at = null;
+        updateData.rejection_reason = null;
+      }
+
       // Only admin can update verification status
       if (isAdmin) {
         updateData.verified = verified;
@@ -356,13 +357,19 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
 
       toast({
         title: 'Success',
-        description: 'Submission updated successfully',
+        description: clearsRejection && !verified
+          ? 'Submission resubmitted for review'
+          : 'Submission updated successfully',
       });
 
       // Build updated data point for UI
       const updatedDataPoint: BrixDataPoint = {
         ...initialDataPoint,
         brixLevel: brixToSave,
+        // Changing the value by hand replaces the replicates (see aggregate_submission_brix_readings)
+        ...(brixToSave !== initialDataPoint.brixLevel
+          ? { brixReadings: null, brixMedian: null, brixStdev: null }
+          : {}),
         cropType: cropType,
         variety: variety || '',
         locationName: locationName,
@@ -377,6 +384,9 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
         // Keep display name stable; don't overwrite with a UUID
         verifiedBy: initialDataPoint.verifiedBy,
         verifiedAt: (isAdmin && verified && !initialDataPoint.verified) ? new Date().toISOString() : initialDataPoint.verifiedAt,
+        rejected: clearsRejection ? false : initialDataPoint.rejected,
+        rejectedAt: clearsRejection ? null : initialDataPoint.rejectedAt,
+        rejectionReason: clearsRejection ? null : initialDataPoint.rejectionReason,
       };
 
       onUpdateSuccess?.(updatedDataPoint);
@@ -421,11 +431,10 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
     );
   }
 
-  const isOwner = user?.id === initialDataPoint.userId;
   const canEdit = isAdmin || (isOwner && !initialDataPoint.verified);
   const canDelete = isAdmin || (isOwner && !initialDataPoint.verified);
 
-  const cropThresholds = initialDataPoint.cropType ? (thresholdsCache[initialDataPoint.cropType] || {
+  const cropThresholds = initialDataPoint.cropType ? (thresholdsFor(initialDataPoint.cropType, initialDataPoint.submittedAt) || {
     poor: initialDataPoint.poorBrix,
     average: initialDataPoint.averageBrix,
     good: initialDataPoint.goodBrix,
@@ -434,6 +443,29 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
 
   const colorClass = getBrixColor(initialDataPoint.brixLevel, cropThresholds, 'bg');
   const qualityText = getBrixQuality(initialDataPoint.brixLevel, cropThresholds);
+  const thresholdVersion = versionFor(initialDataPoint.cropType, initialDataPoint.submittedAt);
+  const readingSummary = summarizeReadings(initialDataPoint.brixReadings);
+  const pointValueBasis = valueBasis(initialDataPoint);
+  const provenance = [
+    { label: 'Source', value: sampleSourceLabel(initialDataPoint.sampleSource) },
+    { label: 'Growing method', value: growingMethodLabel(initialDataPoint.growingMethod) },
+    { label: 'Origin', value: initialDataPoint.originCountry },
+    {
+      label: 'Price',
+      value: formatPrice(initialDataPoint.price, initialDataPoint.priceUnit, initialDataPoint.priceCurrency),
+    },
+    {
+      label: 'Value',
+      value: pointValueBasis
+        ? `${formatValueScore(computeValueScore(initialDataPoint))} ${formatValueBasis(pointValueBasis)}`
+        : null,
+    },
+    { label: 'Farm', value: initialDataPoint.farmLocation },
+    {
+      label: 'Harvested',
+      value: initialDataPoint.harvestTime ? new Date(initialDataPoint.harvestTime).toLocaleDateString() : null,
+    },
+  ].filter(item => item.value);
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -468,6 +500,45 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
           )}
 
           <div className="space-y-6">
+            {initialDataPoint.rejected && (
+              <div className="flex items-start p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg">
+                <XCircle className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold">
+                    Rejected{initialDataPoint.rejectedAt ? ` on ${new Date(initialDataPoint.rejectedAt).toLocaleDateString()}` : ''}
+                  </p>
+                  <p className="text-sm">{initialDataPoint.rejectionReason || 'No reason given.'}</p>
+                  {isOwner && (
+                    <p className="text-xs mt-2 text-red-700">
+                      Edit the reading and save to resubmit it for review.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {initialDataPoint.outlierFlagged && (
+              <div className="flex items-start p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg">
+                <AlertTriangle className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold">Flagged as a statistical outlier</p>
+                  <p className="text-sm">{initialDataPoint.outlierReason || 'Unusual compared with similar readings.'}</p>
+                </div>
+              </div>
+            )}
+
+            {(isAdmin || isOwner) && isPhotoLocationMismatch(initialDataPoint.photoDistanceMeters) && (
+              <div className="flex items-start p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg">
+                <Camera className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold">Photo location does not match the store</p>
+                  <p className="text-sm">
+                    The photo was taken about {formatDistance(initialDataPoint.photoDistanceMeters)} from the chosen location.
+                  </p>
+                </div>
+              </div>
+            )}
+
             <div className="bg-gray-50 rounded-lg p-6 text-center">
               <div className="flex items-center justify-center space-x-4 mb-4">
                 <div className={`${colorClass} w-16 h-16 rounded-full flex items-center justify-center`}>
@@ -475,12 +546,58 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
                 </div>
                 <div className="text-left">
                   <p className="text-2xl font-bold text-gray-900">{initialDataPoint.brixLevel} BRIX</p>
-                  <p className="text-sm text-gray-600">Refractometer Reading</p>
+                  <p className="text-sm text-gray-600">
+                    {readingSummary && readingSummary.count > 1
+                      ? `Mean of ${readingSummary.count} refractometer readings`
+                      : 'Refractometer Reading'}
+                  </p>
                   <Badge className={`${colorClass} mt-1 text-white`}>
                     {qualityText} Quality
                   </Badge>
                 </div>
               </div>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-center gap-2 mb-3 text-xs text-gray-600">
+                <span>
+                  Graded with {thresholdVersion ? describeVersion(thresholdVersion) : 'current thresholds'}
+                </span>
+                <Select value={gradingMode} onValueChange={value => setGradingMode(value as GradingMode)}>
+                  <SelectTrigger className="h-7 w-auto text-xs" aria-label="Grading thresholds">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">Current thresholds</SelectItem>
+                    <SelectItem value="as_of">As of assessment date</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {gradingMode === 'as_of' && (
+                <p className="-mt-2 mb-3 text-xs text-gray-500">
+                  Leaderboards, map colours and trend charts are not affected: {SERVER_GRADING_NOTE.toLowerCase()}.
+                </p>
+              )}
+              {readingSummary && readingSummary.count > 1 && (
+                <div className="text-left text-sm text-gray-700 mb-3">
+                  <p className="font-semibold mb-1">Measurement spread</p>
+                  <div className="flex flex-wrap gap-1 mb-1">
+                    {initialDataPoint.brixReadings.map((reading, index) => (
+                      <Badge key={index} variant="outline">{reading}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-gray-600">
+                    Median {readingSummary.median} · SD {readingSummary.stdev} · range {readingSummary.min}–{readingSummary.max}
+                  </p>
+                </div>
+              )}
+              {!isEditing && (
+                <div className="text-left">
+                  <SeasonalComparison
+                    cropName={initialDataPoint.cropType}
+                    brixValue={initialDataPoint.brixLevel}
+                    date={initialDataPoint.submittedAt}
+                    latitude={initialDataPoint.latitude ?? null}
+                  />
+                </div>
+              )}
             </div>
 
             <div className="pt-4 border-t border-gray-100">
@@ -608,6 +725,23 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
                 </div>
               </div>
 
+              {provenance.length > 0 && (
+                <div className="bg-gray-50 rounded-lg p-4 mt-4">
+                  <h3 className="font-semibold text-gray-900 mb-2 flex items-center space-x-2">
+                    <Sprout className="w-5 h-5 text-gray-600" />
+                    <span>Provenance</span>
+                  </h3>
+                  <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-4 gap-y-2 text-sm">
+                    {provenance.map(item => (
+                      <div key={item.label}>
+                        <dt className="text-gray-500">{item.label}</dt>
+                        <dd className="font-medium text-gray-900">{item.value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+
               <div className="bg-gray-50 rounded-lg p-4 mt-4">
                 <h3 className="font-semibold text-gray-900 mb-2 flex items-center space-x-2">
                   <FileText className="w-5 h-5 text-gray-600" />
@@ -650,6 +784,16 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
               )}
             </div>
 
+            {!isEditing && initialDataPoint.placeId && (
+              <div className="pt-4 border-t border-gray-100">
+                <BrixTrendChart
+                  title="Trend at this place"
+                  initialFilter={{ placeId: initialDataPoint.placeId, crop: initialDataPoint.cropType }}
+                  showLocationFilter={false}
+                />
+              </div>
+            )}
+
             <div className="pt-4 border-t border-gray-100">
               <h3 className="flex items-center space-x-2 text-lg font-bold text-gray-900 mb-4">
                 <ImageIcon className="w-6 h-6 text-gray-600" />
@@ -687,7 +831,7 @@ const DataPointDetailModal: React.FC<DataPointDetailModalProps> = ({
           {isEditing ? (
             <>
               <Button onClick={handleSave} disabled={saving}>
-                {saving ? 'Saving...' : 'Save Changes'}
+                {saving ? 'Saving...' : (initialDataPoint.rejected && isOwner ? 'Resubmit for Review' : 'Save Changes')}
               </Button>
               <Button variant="outline" onClick={() => setIsEditing(false)} disabled={saving}>
                 Cancel
@@ -0,0 +1,95 @@
+import React from 'react';
+import { FileClock, FilePlus, Trash2, Check } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { DataEntryDraft, draftDisplayName } from '../../lib/dataEntryDrafts';
+
+interface DraftBarProps {
+  drafts: DataEntryDraft[];
+  currentDraftId: string | null;
+  draftName: string;
+  savedAt: string | null;
+  onNameChange: (name: string) => void;
+  onResume: (draft: DataEntryDraft) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+}
+
+// Names the draft being edited and lists the other saved drafts so they can be resumed.
+const DraftBar: React.FC<DraftBarProps> = ({
+  drafts,
+  currentDraftId,
+  draftName,
+  savedAt,
+  onNameChange,
+  onResume,
+  onDelete,
+  onNew,
+}) => {
+  const otherDrafts = drafts.filter(d => d.id !== currentDraftId);
+
+  return (
+    <div className="mb-6 p-4 bg-white border border-blue-100 rounded-lg shadow-sm space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <FileClock className="hidden sm:block w-5 h-5 text-blue-600 flex-shrink-0" />
+        <Input
+          value={draftName}
+          onChange={e => onNameChange(e.target.value)}
+          placeholder="Name this draft (optional), e.g. Farmers market, stall 3"
+          className="sm:max-w-sm"
+          aria-label="Draft name"
+        />
+        <span className="text-xs text-gray-500 flex items-center sm:flex-1">
+          {savedAt ? (
+            <>
+              <Check className="w-3 h-3 mr-1 text-green-600" />
+              Draft saved {new Date(savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </>
+          ) : (
+            'Changes are saved on this device as you type'
+          )}
+        </span>
+        <Button type="button" variant="outline" size="sm" onClick={onNew} disabled={!currentDraftId}>
+          <FilePlus className="w-4 h-4 mr-2" />
+          Start another reading
+        </Button>
+      </div>
+
+      {otherDrafts.length > 0 && (
+        <div>
+          <p className="text-sm font-semibold text-gray-700 mb-1">
+            Resume a draft ({otherDrafts.length})
+          </p>
+          <ul className="divide-y divide-gray-100">
+            {otherDrafts.map(draft => (
+              <li key={draft.id} className="py-1.5 flex items-center justify-between gap-2">
+                <button
+                  type="button"
+                  onClick={() => onResume(draft)}
+                  className="text-sm text-left text-blue-700 hover:underline min-w-0 truncate"
+                >
+                  {draftDisplayName(draft)}
+                  <span className="text-gray-500">
+                    {' '}· edited {new Date(draft.updatedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                  </span>
+                </button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 text-gray-500 hover:text-red-600 flex-shrink-0"
+                  onClick={() => onDelete(draft.id)}
+                  title="Delete this draft"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DraftBar;
@@ -3,6 +3,7 @@ import { Input } from '../ui/input';
 import { Loader2, MapPin } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { getMapboxToken } from '@/lib/getMapboxToken';
+import { DetailedLocationInfo, extractDetailedLocationInfo } from '@/lib/mapboxSearch';
 
 interface LocationSuggestion {
   mapbox_id: string;
@@ -11,19 +12,6 @@ interface LocationSuggestion {
   place_formatted?: string;
 }
 
-interface DetailedLocationInfo {
-  name: string;
-  latitude: number;
-  longitude: number;
-  street_address?: string;
-  city?: string;
-  state?: string;
-  country?: string;
-  poi_name?: string;
-  normalized_address?: string;
-  business_name?: string;
-}
-
 interface LocationSearchProps {
   value: string;
   onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
@@ -139,58 +127,6 @@ const LocationSearch: React.FC<LocationSearchProps> = ({
     };
   }, [value, searchLocations, hasSelected]);
 
-  const extractDetailedLocationInfo = (feature: any): DetailedLocationInfo => {
-    const [longitude, latitude] = feature.geometry.coordinates;
-    const properties = feature.properties || {};
-    const context = properties.context || {};
-
-    // Log to debug structure
-    console.log('Mapbox feature:', feature);
-
-    const poi_name = properties.name || '';
-    const business_name = properties.category ? properties.name : '';
-
-    let street_address = '';
-
-    
-    if (properties.address_number || properties.street) {
-      const parts = [];
-      if (properties.address_number) parts.push(properties.address_number);
-      if (properties.street) parts.push(properties.street);
-      street_address = parts.join(' ');
-    }
-
-    if (!street_address && properties.full_address) {
-      street_address = properties.full_address; // fallback
-    }
-
-    const city = context.place?.name || context.locality?.name || '';
-    const state = context.region?.name || context.region?.region_code || '';
-    const country = context.country?.name || context.country?.country_code || '';
-
-    const address_components = [street_address, city, state].filter(Boolean);
-    const normalized_address = address_components.join(', ').toLowerCase().trim();
-
-    const display_name = properties.full_address ||
-      properties.place_formatted ||
-      `${street_address}${city ? ', ' + city : ''}`.trim() ||
-      poi_name ||
-      'Unknown Location';
-
-    return {
-      name: display_name,
-      latitude,
-      longitude,
-      street_address: street_address || undefined,
-      city: city || undefined,
-      state: state || undefined,
-      country: country || undefined,
-      poi_name: poi_name || undefined,
-      business_name: business_name || undefined,
-      normalized_address: normalized_address || undefined
-    };
-  };
-
   const handleSelect = async (suggestion: LocationSuggestion) => {
     if (!mapboxToken || !sessionRef.current) return;
 
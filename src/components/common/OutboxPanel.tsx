@@ -0,0 +1,92 @@
+import React from 'react';
+import { CloudOff, Loader2, RefreshCw, Trash2, AlertCircle, Camera } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { OutboxEntry } from '../../lib/submissionOutbox';
+
+interface OutboxPanelProps {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  isRetrying: boolean;
+  onRetry: () => void;
+  onDiscard: (id: string) => void;
+}
+
+const statusBadge = (entry: OutboxEntry) => {
+  switch (entry.status) {
+    case 'sending':
+      return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">Sending</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">Queued</Badge>;
+  }
+};
+
+// Readings saved on this device that have not reached the server yet.
+const OutboxPanel: React.FC<OutboxPanelProps> = ({ entries, isOnline, isRetrying, onRetry, onDiscard }) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-2">
+        <div className="flex items-center space-x-2 text-amber-900 font-semibold">
+          <CloudOff className="w-5 h-5" />
+          <span>
+            {entries.length} reading{entries.length > 1 ? 's are' : ' is'} waiting to be sent
+          </span>
+        </div>
+        <Button size="sm" variant="outline" onClick={onRetry} disabled={!isOnline || isRetrying}>
+          {isRetrying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+          Retry now
+        </Button>
+      </div>
+      <p className="text-sm text-amber-800 mb-3">
+        {isOnline
+          ? 'Queued readings are sent automatically. Failed ones were refused by the server; retry or discard them.'
+          : 'You are offline. These readings and their photos are stored on this device and will be sent when you reconnect.'}
+      </p>
+      <ul className="divide-y divide-amber-200">
+        {entries.map(entry => (
+          <li key={entry.id} className="py-2 flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium text-gray-900">{entry.payload.cropName}</span>
+                <span className="text-sm text-gray-700">{entry.payload.brixValue} BRIX</span>
+                {statusBadge(entry)}
+                {entry.images.length > 0 && (
+                  <span className="flex items-center text-xs text-gray-600">
+                    <Camera className="w-3 h-3 mr-1" />
+                    {entry.uploadedImages.length}/{entry.images.length}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-600 truncate">
+                {entry.payload.locationName} · {new Date(entry.payload.assessmentDate).toLocaleDateString()}
+                {entry.submissionId && ' · reading saved, photos pending'}
+              </p>
+              {entry.status === 'failed' && entry.lastError && (
+                <p className="text-xs text-red-700 flex items-center mt-1">
+                  <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+                  {entry.lastError}
+                </p>
+              )}
+            </div>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="text-gray-500 hover:text-red-600 flex-shrink-0"
+              onClick={() => onDiscard(entry.id)}
+              disabled={isRetrying && entry.status === 'sending'}
+              title="Discard this reading"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default OutboxPanel;
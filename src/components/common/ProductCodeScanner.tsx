@@ -0,0 +1,192 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Camera, Image as ImageIcon, Loader2, ScanBarcode, Search, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  detectProductCode,
+  isBarcodeScanningSupported,
+  ParsedProductCode,
+  parseProductCode,
+} from '../../lib/productCodes';
+
+interface ProductCodeScannerProps {
+  onDetected: (code: ParsedProductCode) => void;
+  onClose: () => void;
+}
+
+// Milliseconds between decode attempts on the camera preview
+const SCAN_INTERVAL_MS = 250;
+
+// Reads a UPC/EAN barcode from the camera or a photo, or takes a typed barcode or PLU number.
+const ProductCodeScanner: React.FC<ProductCodeScannerProps> = ({ onDetected, onClose }) => {
+  const supported = isBarcodeScanningSupported();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [decodingPhoto, setDecodingPhoto] = useState(false);
+  const [typedCode, setTypedCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setCameraOn(false);
+  }, []);
+
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const startCamera = async () => {
+    setMessage(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      setCameraOn(true);
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+    } catch (err) {
+      console.error('Could not start the camera:', err);
+      setMessage('The camera is not available. Scan a photo or type the number instead.');
+      stopCamera();
+    }
+  };
+
+  // Decode the preview until a code is found or the camera is turned off
+  useEffect(() => {
+    if (!cameraOn) return;
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled) return;
+      if (video && video.readyState >= 2) {
+        try {
+          const code = await detectProductCode(video);
+          if (code && !cancelled) {
+            stopCamera();
+            onDetected(code);
+            return;
+          }
+        } catch (err) {
+          console.error('Barcode detection failed:', err);
+        }
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+    scan();
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [cameraOn, onDetected, stopCamera]);
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    setDecodingPhoto(true);
+    try {
+      const bitmap = await createImageBitmap(file);
+      try {
+        const code = await detectProductCode(bitmap);
+        if (code) onDetected(code);
+        else setMessage('No barcode found in that photo. Try a closer, sharper shot or type the number.');
+      } finally {
+        bitmap.close();
+      }
+    } catch (err) {
+      console.error('Could not read the photo:', err);
+      setMessage('That photo could not be read. Type the number instead.');
+    } finally {
+      setDecodingPhoto(false);
+    }
+  };
+
+  const handleTypedCode = () => {
+    const code = parseProductCode(typedCode);
+    if (!code) {
+      setMessage('Enter a 4–5 digit PLU or the 8, 12 or 13 digits under the barcode.');
+      return;
+    }
+    setMessage(null);
+    onDetected(code);
+  };
+
+  return (
+    <div className="p-4 bg-white border border-blue-100 rounded-lg shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-gray-800 flex items-center">
+          <ScanBarcode className="w-5 h-5 mr-2 text-blue-600" />
+          Scan a barcode or PLU
+        </p>
+        <Button type="button" variant="ghost" size="icon" onClick={onClose} aria-label="Close scanner">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {supported ? (
+        <>
+          <video
+            ref={videoRef}
+            className={`w-full max-h-64 rounded-md bg-black object-cover ${cameraOn ? '' : 'hidden'}`}
+            playsInline
+            muted
+          />
+          <div className="flex flex-wrap gap-2">
+            {cameraOn ? (
+              <Button type="button" variant="outline" size="sm" onClick={stopCamera}>
+                Stop camera
+              </Button>
+            ) : (
+              <Button type="button" variant="outline" size="sm" onClick={startCamera}>
+                <Camera className="w-4 h-4 mr-2" />
+                Use camera
+              </Button>
+            )}
+            <Button type="button" variant="outline" size="sm" asChild disabled={decodingPhoto}>
+              <label className="cursor-pointer">
+                {decodingPhoto ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ImageIcon className="w-4 h-4 mr-2" />}
+                Scan a photo
+                <input type="file" accept="image/*" className="hidden" onChange={handlePhoto} />
+              </label>
+            </Button>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">
+          This browser has no built-in barcode reader (Safari and Firefox do not offer one), so the
+          camera and photo scan are unavailable. Type the number printed under the barcode or on
+          the PLU sticker instead.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={typedCode}
+          onChange={e => setTypedCode(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleTypedCode();
+            }
+          }}
+          inputMode="numeric"
+          placeholder="PLU (e.g. 4011) or barcode number"
+          aria-label="Barcode or PLU number"
+        />
+        <Button type="button" variant="secondary" onClick={handleTypedCode}>
+          <Search className="w-4 h-4 mr-1" />
+          Look up
+        </Button>
+      </div>
+
+      {message && <p className="text-sm text-amber-700">{message}</p>}
+    </div>
+  );
+};
+
+export default ProductCodeScanner;
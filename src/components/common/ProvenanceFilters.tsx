@@ -0,0 +1,73 @@
+import React from 'react';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { MapFilter } from '../../types';
+import {
+  GROWING_METHOD_LABELS,
+  GROWING_METHODS,
+  SAMPLE_SOURCE_LABELS,
+  SAMPLE_SOURCES,
+} from '../../lib/provenance';
+
+interface ProvenanceFiltersProps {
+  filters: MapFilter;
+  onChange: (key: 'growingMethod' | 'sampleSource' | 'originCountry', value: string) => void;
+}
+
+// Radix Select items cannot have an empty value, so "any" stands in for a cleared filter
+const ANY = 'any';
+
+// Growing method, bought vs farm-picked and country of origin; shared by the map and data browser.
+const ProvenanceFilters: React.FC<ProvenanceFiltersProps> = ({ filters, onChange }) => (
+  <>
+    <div>
+      <Label className="text-sm font-medium mb-2 block">Growing Method</Label>
+      <Select
+        value={filters.growingMethod || ANY}
+        onValueChange={value => onChange('growingMethod', value === ANY ? '' : value)}
+      >
+        <SelectTrigger className="text-sm" aria-label="Growing method">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any method</SelectItem>
+          {GROWING_METHODS.map(method => (
+            <SelectItem key={method} value={method}>{GROWING_METHOD_LABELS[method]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+
+    <div>
+      <Label className="text-sm font-medium mb-2 block">Sample Source</Label>
+      <Select
+        value={filters.sampleSource || ANY}
+        onValueChange={value => onChange('sampleSource', value === ANY ? '' : value)}
+      >
+        <SelectTrigger className="text-sm" aria-label="Sample source">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Purchased or farm-picked</SelectItem>
+          {SAMPLE_SOURCES.map(source => (
+            <SelectItem key={source} value={source}>{SAMPLE_SOURCE_LABELS[source]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+
+    <div>
+      <Label htmlFor="origin-country-filter" className="text-sm font-medium mb-2 block">Country of Origin</Label>
+      <Input
+        id="origin-country-filter"
+        value={filters.originCountry || ''}
+        onChange={e => onChange('originCountry', e.target.value)}
+        placeholder="e.g. Mexico"
+        className="text-sm"
+      />
+    </div>
+  </>
+);
+
+export default ProvenanceFilters;
@@ -0,0 +1,14 @@
+import React from 'react';
+import { rankColorFromNormalized } from '../../lib/getBrixColor';
+
+/** Average normalized score (1-2) in the leaderboard rank colours; a dash when there is none. */
+const ScoreBadge: React.FC<{ score: number | null }> = ({ score }) =>
+  score === null ? (
+    <span className="text-gray-400">—</span>
+  ) : (
+    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full text-white ${rankColorFromNormalized(score).bgClass}`}>
+      {score.toFixed(2)}
+    </span>
+  );
+
+export default ScoreBadge;
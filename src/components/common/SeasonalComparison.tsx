@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarRange, Loader2 } from 'lucide-react';
+import {
+  SeasonalNorm,
+  SeasonalPosition,
+  MIN_SEASONAL_SAMPLES,
+  MONTH_NAMES,
+  fetchSeasonalNorm,
+  hemisphereOf,
+  compareToSeasonalNorm,
+} from '../../lib/fetchSeasonality';
+
+interface SeasonalComparisonProps {
+  cropName: string;
+  brixValue: number | null;
+  // Assessment date, YYYY-MM-DD or ISO timestamp
+  date: string;
+  latitude: number | null;
+}
+
+const POSITION_STYLES: Record<SeasonalPosition, string> = {
+  'well-below': 'bg-red-50 border-red-200 text-red-800',
+  below: 'bg-orange-50 border-orange-200 text-orange-800',
+  typical: 'bg-blue-50 border-blue-200 text-blue-800',
+  above: 'bg-green-50 border-green-200 text-green-800',
+  'well-above': 'bg-green-50 border-green-200 text-green-800',
+};
+
+/**
+ * Compares a reading with the crop's BRIX distribution for the same month and hemisphere.
+ */
+const SeasonalComparison: React.FC<SeasonalComparisonProps> = ({ cropName, brixValue, date, latitude }) => {
+  const [norm, setNorm] = useState<SeasonalNorm | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Month of the yyyy-mm-dd part, read directly rather than through local time: stored
+  // timestamps are in UTC, and get_crop_seasonality groups by the UTC month
+  const monthMatch = date ? /^\d{4}-(\d{2})-\d{2}/.exec(date) : null;
+  const month = monthMatch ? Number(monthMatch[1]) : null;
+  const hemisphere = typeof latitude === 'number' ? hemisphereOf(latitude) : null;
+
+  useEffect(() => {
+    if (!cropName || !month || !hemisphere) {
+      setNorm(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    fetchSeasonalNorm(cropName, month, hemisphere)
+      .then((result) => {
+        if (!cancelled) setNorm(result);
+      })
+      .catch(() => {
+        if (!cancelled) setNorm(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cropName, month, hemisphere]);
+
+  if (!cropName || !month || !hemisphere) return null;
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        Checking seasonal norm...
+      </div>
+    );
+  }
+
+  const season = `${MONTH_NAMES[month - 1]}, ${hemisphere === 'north' ? 'Northern' : 'Southern'} Hemisphere`;
+
+  if (!norm || norm.submissionCount < MIN_SEASONAL_SAMPLES) {
+    return (
+      <p className="text-sm text-gray-500 italic">
+        Not enough verified {cropName} readings for {season} to compare against yet.
+      </p>
+    );
+  }
+
+  const comparison = typeof brixValue === 'number' && !isNaN(brixValue) ? compareToSeasonalNorm(brixValue, norm) : null;
+
+  return (
+    <div className={`p-3 border rounded-lg text-sm ${comparison ? POSITION_STYLES[comparison.position] : 'bg-gray-50 border-gray-200 text-gray-700'}`}>
+      <div className="flex items-center font-semibold mb-1">
+        <CalendarRange className="w-4 h-4 mr-2" />
+        {comparison ? `${comparison.summary} (~${comparison.percentile}th percentile)` : 'Seasonal norm'}
+      </div>
+      <p>
+        Typical {cropName} in {season}: median {norm.p50.toFixed(1)} BRIX, middle half {norm.p25.toFixed(1)}–{norm.p75.toFixed(1)}{' '}
+        <span className="opacity-75">({norm.submissionCount} verified readings)</span>
+      </p>
+    </div>
+  );
+};
+
+export default SeasonalComparison;
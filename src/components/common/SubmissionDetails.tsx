@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { MapPin, Calendar, User, CheckCircle, AlertCircle, MessageSquare, Image as ImageIcon, Loader2, Tag, Building } from 'lucide-react';
@@ -6,7 +6,7 @@ import { useCropThresholds } from '../../contexts/CropThresholdContext';
 import { getBrixColor } from '../../lib/getBrixColor';
 import { getBrixQuality } from '../../lib/getBrixQuality';
 import { BrixDataPoint } from '../../types';
-import { supabase } from '../../integrations/supabase/client';
+import { useSubmissionImageUrls } from '../../hooks/useSubmissionImageUrls';
 
 interface SubmissionDetailsProps {
   dataPoint: BrixDataPoint;
@@ -14,8 +14,8 @@ interface SubmissionDetailsProps {
 }
 
 const SubmissionDetails: React.FC<SubmissionDetailsProps> = ({ dataPoint, showImages = true }) => {
-  const { cache: thresholdsCache } = useCropThresholds();
-  const cropThresholds = dataPoint.cropType ? (thresholdsCache[dataPoint.cropType] || {
+  const { thresholdsFor } = useCropThresholds();
+  const cropThresholds = dataPoint.cropType ? (thresholdsFor(dataPoint.cropType, dataPoint.submittedAt) || {
     poor: dataPoint.poorBrix,
     average: dataPoint.averageBrix,
     good: dataPoint.goodBrix,
@@ -25,41 +25,7 @@ const SubmissionDetails: React.FC<SubmissionDetailsProps> = ({ dataPoint, showIm
   const colorClass = getBrixColor(dataPoint.brixLevel, cropThresholds, 'bg');
   const qualityText = getBrixQuality(dataPoint.brixLevel, cropThresholds);
 
-  const [imageUrls, setImageUrls] = useState<string[]>([]);
-  const [imagesLoading, setImagesLoading] = useState(false);
-  const [imagesError, setImagesError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchImageUrls = async () => {
-      if (!showImages || !dataPoint.images || !Array.isArray(dataPoint.images) || dataPoint.images.length === 0) {
-        setImageUrls([]);
-        setImagesLoading(false);
-        return;
-      }
-
-      setImagesLoading(true);
-      setImagesError(null);
-      const urls: string[] = [];
-      const projectRef = 'wbkzczcqlorsewoofwqe'; // Your Supabase Project Reference
-      const bucketName = 'submission-images-bucket';
-
-      for (const imagePath of dataPoint.images) {
-        if (typeof imagePath !== 'string' || imagePath === '') {
-          console.warn('Invalid image path found:', imagePath);
-          continue;
-        }
-
-        // The key fix: Manually construct the public URL
-        const publicUrl = `https://${projectRef}.supabase.co/storage/v1/object/public/${bucketName}/${imagePath}`;
-        urls.push(publicUrl);
-      }
-
-      setImageUrls(urls);
-      setImagesLoading(false);
-    };
-
-    fetchImageUrls();
-  }, [dataPoint.images, showImages]);
+  const { urls: imageUrls, isLoading: imagesLoading } = useSubmissionImageUrls(dataPoint.images, showImages);
 
   return (
     <Card>
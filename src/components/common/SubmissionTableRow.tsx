@@ -3,8 +3,11 @@ import { TableCell, TableRow } from '../ui/table';
 import { Badge } from '../ui/badge';
 import { Button } from '../ui/button';
 import { BrixDataPoint } from '../../types';
-import { MapPin, Calendar, CheckCircle, Edit, Trash2, Eye, MessageSquare, Clock, Lock, User } from 'lucide-react';
+import { MapPin, Calendar, CheckCircle, Edit, Trash2, Eye, MessageSquare, Clock, Lock, User, XCircle, AlertTriangle } from 'lucide-react';
 import { useBrixColorFromContext } from '../../lib/getBrixColor';
+import SubmissionThumbnail from './SubmissionThumbnail';
+import { computeValueScore, formatValueBasis, formatValueScore, valueBasis } from '../../lib/valueScore';
+import { formatPrice } from '../../lib/provenance';
 
 interface SubmissionTableRowProps {
   submission: BrixDataPoint;
@@ -12,18 +15,24 @@ interface SubmissionTableRowProps {
   isOwner: boolean; // Indicates if the current user is the owner (passed from parent)
   canDeleteByOwner: boolean; // Indicates if owner can delete (based on RLS and verified status, passed from parent)
   onOpenModal: (submission: BrixDataPoint) => void;
+  showValue?: boolean; // Adds the score-per-price column used by the data browser
 }
 
-const SubmissionTableRow: React.FC<SubmissionTableRowProps> = ({ submission, onDelete, isOwner, canDeleteByOwner, onOpenModal }) => {
+const SubmissionTableRow: React.FC<SubmissionTableRowProps> = ({ submission, onDelete, isOwner, canDeleteByOwner, onOpenModal, showValue = false }) => {
   // Use the useBrixColorFromContext to get the background color class
   const brixColorClass = useBrixColorFromContext(
     submission.cropType?.toLowerCase().trim() || '',
-    submission.brixLevel
+    submission.brixLevel,
+    'bg',
+    submission.submittedAt
   );
 
   // Determine if the edit button should be visible (only owner can edit)
   const canEdit = isOwner;
 
+  const basis = showValue ? valueBasis(submission) : null;
+  const value = basis ? computeValueScore(submission) : null;
+
   return (
     <TableRow
       key={submission.id}
@@ -32,7 +41,9 @@ const SubmissionTableRow: React.FC<SubmissionTableRowProps> = ({ submission, onD
     >
       {/* Crop / Variety / Brand / Store Cell */}
       <TableCell className="py-3 px-4 break-words">
-        <div>
+        <div className="flex items-start gap-3">
+        <SubmissionThumbnail submission={submission} />
+        <div className="min-w-0">
           <div className="font-semibold text-gray-900">{submission.cropType}</div>
 
           {submission.variety && (
@@ -58,6 +69,7 @@ const SubmissionTableRow: React.FC<SubmissionTableRowProps> = ({ submission, onD
             </Badge>
           )}
         </div>
+        </div>
       </TableCell>
 
       {/* BRIX Level Cell - uses dynamic color from useBrixColorFromContext */}
@@ -67,8 +79,31 @@ const SubmissionTableRow: React.FC<SubmissionTableRowProps> = ({ submission, onD
         >
           {submission.brixLevel ?? 'N/A'}
         </Badge>
+        {submission.outlierFlagged && (
+          <div
+            title={submission.outlierReason ?? undefined}
+            className="mt-1 flex items-center justify-center space-x-1 text-xs font-medium text-amber-700"
+          >
+            <AlertTriangle className="w-3 h-3" />
+            <span>Outlier</span>
+          </div>
+        )}
       </TableCell>
 
+      {/* Value Cell - normalized score per unit price */}
+      {showValue && (
+        <TableCell className="text-center py-3 px-4">
+          {value != null ? (
+            <div title={formatPrice(submission.price, submission.priceUnit, submission.priceCurrency) ?? undefined}>
+              <div className="font-semibold text-gray-900">{formatValueScore(value)}</div>
+              <div className="text-xs text-gray-500 whitespace-nowrap">{formatValueBasis(basis)}</div>
+            </div>
+          ) : (
+            <span className="text-xs text-gray-400">No price</span>
+          )}
+        </TableCell>
+      )}
+
       {/* Location / Notes Cell */}
       <TableCell className="py-3 px-4 break-words">
         <div className="space-y-1">
@@ -122,13 +157,21 @@ const SubmissionTableRow: React.FC<SubmissionTableRowProps> = ({ submission, onD
         </div>
       </TableCell>
 
-      {/* Verified Status Cell - uses distinct, softer colors */}
+      {/* Status Cell - uses distinct, softer colors */}
       <TableCell className="text-center py-3 px-4">
         {submission.verified ? (
           <Badge className="flex items-center space-x-1 px-3 py-1 rounded-full bg-green-100 text-green-700 font-semibold text-sm shadow-sm">
             <CheckCircle className="w-4 h-4" />
             <span>Verified</span>
           </Badge>
+        ) : submission.rejected ? (
+          <Badge
+            title={submission.rejectionReason ?? undefined}
+            className="flex items-center space-x-1 px-3 py-1 rounded-full bg-red-100 text-red-700 font-semibold text-sm shadow-sm"
+          >
+            <XCircle className="w-4 h-4" />
+            <span>Rejected</span>
+          </Badge>
         ) : (
           <Badge className="flex items-center space-x-1 px-3 py-1 rounded-full bg-orange-100 text-orange-700 font-semibold text-sm shadow-sm">
             <Clock className="w-4 h-4" />
@@ -0,0 +1,29 @@
+import React from 'react';
+import { BrixDataPoint } from '../../types';
+import { getSubmissionImageUrl } from '../../lib/imageStorage';
+import { cn } from '@/lib/utils';
+
+interface SubmissionThumbnailProps {
+  submission: BrixDataPoint;
+  className?: string;
+}
+
+// Small preview of a submission's first photo for tables and map lists; renders nothing without one.
+const SubmissionThumbnail: React.FC<SubmissionThumbnailProps> = ({ submission, className }) => {
+  const path = submission.thumbnails?.[0] ?? submission.images?.[0];
+  if (!path) return null;
+
+  return (
+    <img
+      src={getSubmissionImageUrl(path)}
+      alt=""
+      loading="lazy"
+      className={cn('w-10 h-10 rounded-md object-cover border border-gray-200 flex-shrink-0', className)}
+      onError={(e) => {
+        e.currentTarget.style.display = 'none';
+      }}
+    />
+  );
+};
+
+export default SubmissionThumbnail;
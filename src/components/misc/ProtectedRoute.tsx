@@ -4,10 +4,11 @@ import { useAuth } from "../../contexts/AuthContext";
 
 interface ProtectedRouteProps {
   children: React.ReactElement;
+  requireAdmin?: boolean; // Only users whose profile role is 'admin' may pass
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated, isLoading, authError, profileLoading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requireAdmin = false }) => {
+  const { isAuthenticated, isAdmin, isLoading, authError, profileLoading } = useAuth();
   const location = useLocation();
 
   if (isLoading || profileLoading) {
@@ -37,6 +38,10 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  if (requireAdmin && !isAdmin) {
+    return <Navigate to="/leaderboard" replace />;
+  }
+
   return children;
 };
 
@@ -11,11 +11,14 @@ import {
 } from '../ui/command';
 import { ChevronsUpDown, Check, PlusCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { normalizeBrandName } from '@/lib/duplicateBrands';
 
 interface Item {
   id?: string;
   name: string;
   label?: string;
+  // Other names that should find this item, e.g. brands merged into it
+  aliases?: string[];
 }
 
 interface ComboBoxAddableProps {
@@ -39,18 +42,27 @@ const ComboBoxAddable: React.FC<ComboBoxAddableProps> = ({
   const safeItems = Array.isArray(items) ? items : [];
   const selectedItem = safeItems.find((item) => item.name === value);
 
+  // Matching ignores case and punctuation, so "Driscolls" finds "Driscoll's"
+  const queryKey = normalizeBrandName(query) || query.trim().toLowerCase();
+  const namesOf = (item: Item) =>
+    [item.label || item.name, item.name, ...(item.aliases ?? [])].map(
+      (name) => normalizeBrandName(name) || name.toLowerCase()
+    );
+  // The alias a query matched, shown when the item's own names don't match
+  const matchedAlias = (item: Item) =>
+    queryKey && !namesOf({ ...item, aliases: [] }).some((name) => name.includes(queryKey))
+      ? item.aliases?.find((alias) => normalizeBrandName(alias).includes(queryKey))
+      : undefined;
+
   const filteredItems = query
     ? safeItems.filter((item) =>
-        (item.label || item.name).toLowerCase().includes(query.toLowerCase())
+        namesOf(item).some((name) => name.includes(queryKey))
       )
     : safeItems;
 
   const isNewEntry =
     query.trim() !== '' &&
-    !safeItems.some(
-      (item) =>
-        (item.label || item.name).toLowerCase() === query.trim().toLowerCase()
-    );
+    !safeItems.some((item) => namesOf(item).includes(queryKey));
 
   const handleSelect = (currentValue: string) => {
     onSelect(currentValue);
@@ -100,7 +112,8 @@ const ComboBoxAddable: React.FC<ComboBoxAddableProps> = ({
         </Button>
       </PopoverTrigger>
       <PopoverContent className="z-50 w-[300px] p-0 bg-popover">
-        <Command>
+        {/* Items are filtered above, including by alias */}
+        <Command shouldFilter={false}>
           <CommandInput
             placeholder={placeholder}
             value={query}
@@ -122,6 +135,11 @@ const ComboBoxAddable: React.FC<ComboBoxAddableProps> = ({
                       )}
                     />
                     {item.label || item.name}
+                    {matchedAlias(item) && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        (also "{matchedAlias(item)}")
+                      </span>
+                    )}
                   </CommandItem>
                 ))}
               </CommandGroup>
@@ -1,7 +1,15 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { fetchBrixByCrop } from '../lib/fetchBrixByCrop';
 import { fetchCropTypes } from '../lib/fetchCropTypes';
 import { BrixThresholds } from '../lib/getBrixQuality';
+import {
+  fetchThresholdVersions,
+  GradingMode,
+  loadGradingMode,
+  saveGradingMode,
+  ThresholdVersion,
+  versionAsOf,
+} from '../lib/thresholdVersions';
 
 type CropThresholdCache = Record<string, BrixThresholds>;
 
@@ -9,6 +17,15 @@ type CropThresholdContextType = {
   cache: CropThresholdCache;
   loading: boolean;
   reloadCache: () => Promise<void>;
+  // Threshold history per normalized crop name, oldest first
+  versions: Record<string, ThresholdVersion[]>;
+  // Whether readings are graded by today's thresholds or those in force on their assessment date
+  gradingMode: GradingMode;
+  setGradingMode: (mode: GradingMode) => void;
+  // The thresholds to grade a reading with under the current grading mode
+  thresholdsFor: (cropName: string | null | undefined, assessmentDate?: string | null) => BrixThresholds | undefined;
+  // The version those thresholds come from; null when the current crop thresholds are used
+  versionFor: (cropName: string | null | undefined, assessmentDate?: string | null) => ThresholdVersion | null;
 };
 
 const CropThresholdContext = createContext<CropThresholdContextType | undefined>(undefined);
@@ -19,6 +36,8 @@ type CropThresholdProviderProps = {
 
 export const CropThresholdProvider: React.FC<CropThresholdProviderProps> = ({ children }) => {
   const [cache, setCache] = useState<CropThresholdCache>({});
+  const [versions, setVersions] = useState<Record<string, ThresholdVersion[]>>({});
+  const [gradingMode, setGradingModeState] = useState<GradingMode>(loadGradingMode);
   const [loading, setLoading] = useState(true);
 
   const reloadCache = async () => {
@@ -50,6 +69,14 @@ export const CropThresholdProvider: React.FC<CropThresholdProviderProps> = ({ ch
 
       console.log('🌾 CropThresholdContext: Final cache keys:', Object.keys(newCache));
       setCache(newCache);
+
+      try {
+        setVersions(await fetchThresholdVersions());
+      } catch (error) {
+        // Without history every reading is graded by the current thresholds
+        console.error('🌾 CropThresholdContext: Failed to fetch threshold history', error);
+        setVersions({});
+      }
     } catch (error) {
       console.error('🌾 CropThresholdContext: Error reloading cache:', error);
     } finally {
@@ -61,8 +88,38 @@ export const CropThresholdProvider: React.FC<CropThresholdProviderProps> = ({ ch
     reloadCache();
   }, []);
 
+  const setGradingMode = useCallback((mode: GradingMode) => {
+    saveGradingMode(mode);
+    setGradingModeState(mode);
+  }, []);
+
+  const versionFor = useCallback(
+    (cropName: string | null | undefined, assessmentDate?: string | null) => {
+      const history = cropName ? versions[cropName.toLowerCase().trim()] : undefined;
+      if (!history || history.length === 0) return null;
+      const version = gradingMode === 'as_of' && assessmentDate
+        ? versionAsOf(history, assessmentDate)
+        : history[history.length - 1];
+      // A version without thresholds is not used for grading, so it is not reported either
+      return version?.thresholds ? version : null;
+    },
+    [versions, gradingMode]
+  );
+
+  const thresholdsFor = useCallback(
+    (cropName: string | null | undefined, assessmentDate?: string | null) => {
+      if (!cropName) return undefined;
+      const current = cache[cropName.toLowerCase().trim()];
+      if (gradingMode !== 'as_of') return current;
+      return versionFor(cropName, assessmentDate)?.thresholds ?? current;
+    },
+    [cache, gradingMode, versionFor]
+  );
+
   return (
-    <CropThresholdContext.Provider value={{ cache, loading, reloadCache }}>
+    <CropThresholdContext.Provider
+      value={{ cache, loading, reloadCache, versions, gradingMode, setGradingMode, thresholdsFor, versionFor }}
+    >
       {children}
     </CropThresholdContext.Provider>
   );
@@ -16,6 +16,9 @@ export const DEFAULT_MAP_FILTERS: MapFilter = {
   city: '',
   state: '',
   country: '',
+  growingMethod: '',
+  sampleSource: '',
+  originCountry: '',
 };
 
 interface FilterContextType {
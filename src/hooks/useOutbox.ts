@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  flushOutbox,
+  listOutbox,
+  OUTBOX_CHANGED_EVENT,
+  OutboxEntry,
+  removeOutboxEntry,
+} from '../lib/submissionOutbox';
+import { isLocalDatabaseAvailable } from '../lib/localDatabase';
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  isRetrying: boolean;
+  retry: () => Promise<number>;
+  discard: (id: string) => Promise<void>;
+}
+
+// Keeps a live list of the contributor's readings waiting in the offline outbox.
+export const useOutbox = (userId: string | undefined): OutboxState => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  useEffect(() => {
+    if (!userId || !isLocalDatabaseAvailable()) {
+      setEntries([]);
+      return;
+    }
+    let cancelled = false;
+    const load = () => {
+      listOutbox(userId)
+        .then(list => { if (!cancelled) setEntries(list); })
+        .catch(err => console.error('Failed to read the offline outbox:', err));
+    };
+    load();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, load);
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const retry = useCallback(async () => {
+    setIsRetrying(true);
+    try {
+      return await flushOutbox();
+    } finally {
+      setIsRetrying(false);
+    }
+  }, []);
+
+  return { entries, isOnline, isRetrying, retry, discard: removeOutboxEntry };
+};
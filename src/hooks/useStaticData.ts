@@ -8,6 +8,8 @@ interface DatabaseItem {
   id: string;
   name: string;
   label?: string;
+  // Other names the item is known by, e.g. brands merged into it
+  aliases?: string[];
 }
 
 // Interface for the static data returned by the hook.
@@ -56,6 +58,7 @@ const normalizeToItems = (data: any[], type: string): DatabaseItem[] => {
         id: String(item.id),
         name: item.name,
         label: item.label || item.name,
+        ...(Array.isArray(item.aliases) && { aliases: item.aliases }),
       };
     }
 
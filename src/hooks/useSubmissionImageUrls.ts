@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { getSubmissionImageUrls } from '../lib/imageStorage';
+
+// Resolves stored photo paths to displayable URLs (public or signed, see lib/imageStorage).
+export const useSubmissionImageUrls = (paths: string[] | null | undefined, enabled = true) => {
+  const [urls, setUrls] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Joined so a new array with the same paths does not refetch
+  const key = enabled && Array.isArray(paths) ? paths.join('|') : '';
+
+  useEffect(() => {
+    if (!key) {
+      setUrls([]);
+      setIsLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getSubmissionImageUrls(key.split('|'))
+      .then(result => { if (!cancelled) setUrls(result); })
+      .catch(err => {
+        console.error('Failed to load image URLs:', err);
+        if (!cancelled) {
+          setUrls([]);
+          setError('Could not load images.');
+        }
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return { urls, isLoading, error };
+};
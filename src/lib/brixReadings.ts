@@ -0,0 +1,41 @@
+// Replicate readings: several refractometer readings of one sample, summarized into the single
+// BRIX value used for grading (the mean, matching the aggregate_submission_brix_readings trigger).
+
+// The limit is the brix_readings CHECK constraint in the 20251004120000 migration; the
+// auto-verify-submission edge function mirrors it too
+export const MAX_BRIX_READINGS = 20;
+
+export interface ReadingSummary {
+  count: number;
+  mean: number;
+  median: number;
+  // Sample standard deviation; null for a single reading
+  stdev: number | null;
+  min: number;
+  max: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Mean, median and spread of a set of readings, or null when there are none. */
+export function summarizeReadings(readings: number[] | null | undefined): ReadingSummary | null {
+  const values = (readings ?? []).filter(v => typeof v === 'number' && Number.isFinite(v));
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const stdev = values.length > 1
+    ? Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1))
+    : null;
+
+  return {
+    count: values.length,
+    mean: round2(mean),
+    median: round2(median),
+    stdev: stdev == null ? null : round2(stdev),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
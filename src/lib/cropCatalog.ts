@@ -0,0 +1,171 @@
+import { supabase } from '../integrations/supabase/client';
+import type { Database } from 'database.types';
+import { BrixThresholds, getBrixQuality } from './getBrixQuality';
+
+// Admin view of the crops table: labels, categories and the BRIX thresholds that drive grading
+// and colours everywhere (CropThresholdContext, getBrixColor, getBrixQuality).
+
+export type CropCategory = Database['public']['Enums']['crop_category'];
+export const CROP_CATEGORIES: CropCategory[] = ['fruit', 'vegetable', 'grass'];
+
+export const THRESHOLD_KEYS: (keyof BrixThresholds)[] = ['poor', 'average', 'good', 'excellent'];
+
+export interface CatalogCrop {
+  id: string;
+  name: string;
+  label: string | null;
+  category: CropCategory | null;
+  // Null when the crop has no thresholds yet
+  thresholds: BrixThresholds | null;
+  // Source or citation for the current thresholds; kept with each version (see lib/thresholdVersions)
+  thresholdSource: string | null;
+}
+
+export interface CropDraft {
+  name: string;
+  label: string;
+  category: CropCategory | null;
+  thresholds: BrixThresholds;
+  thresholdSource: string;
+}
+
+// Grades a reading can move between; 'Unknown' covers readings beyond the poor end of the scale
+export const GRADES = ['Excellent', 'Good', 'Average', 'Poor', 'Unknown'];
+
+export interface RegradePreview {
+  total: number;
+  changed: number;
+  // counts[from][to]
+  counts: Record<string, Record<string, number>>;
+}
+
+// PostgREST caps responses at 1000 rows by default
+const BRIX_PAGE_SIZE = 1000;
+
+type CropRow = Database['public']['Tables']['crops']['Row'];
+
+const toThresholds = (row: CropRow): BrixThresholds | null =>
+  row.poor_brix == null || row.average_brix == null || row.good_brix == null || row.excellent_brix == null
+    ? null
+    : { poor: row.poor_brix, average: row.average_brix, good: row.good_brix, excellent: row.excellent_brix };
+
+/** Crop names are stored lower case; lookups such as fetchBrixByCrop depend on it. */
+export const normalizeCropName = (name: string) => name.trim().toLowerCase();
+
+/** 'ascending' when higher BRIX is better, 'descending' when lower is. */
+export const thresholdDirection = (thresholds: BrixThresholds) =>
+  thresholds.excellent > thresholds.poor ? 'ascending' : 'descending';
+
+/**
+ * Checks a crop before it is saved. Thresholds must be numbers ordered strictly in one direction
+ * from poor to excellent, matching the crops_thresholds_monotonic constraint.
+ * @returns Error messages keyed by field ('name', 'thresholds' or a threshold key); empty when valid.
+ */
+export function validateCropDraft(draft: CropDraft): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!normalizeCropName(draft.name)) errors.name = 'Name is required';
+
+  const values = THRESHOLD_KEYS.map(key => draft.thresholds[key]);
+  THRESHOLD_KEYS.forEach((key, i) => {
+    if (typeof values[i] !== 'number' || !Number.isFinite(values[i])) errors[key] = 'Enter a number';
+    else if (values[i] < 0 || values[i] > 100) errors[key] = 'Must be between 0 and 100';
+  });
+  if (Object.keys(errors).some(key => THRESHOLD_KEYS.includes(key as keyof BrixThresholds))) return errors;
+
+  const ascending = values.every((value, i) => i === 0 || value > values[i - 1]);
+  const descending = values.every((value, i) => i === 0 || value < values[i - 1]);
+  if (!ascending && !descending) {
+    errors.thresholds = 'Thresholds must increase from poor to excellent, or decrease for crops where lower BRIX is better';
+  }
+  return errors;
+}
+
+export async function fetchCropCatalog(): Promise<CatalogCrop[]> {
+  const { data, error } = await supabase
+    .from('crops')
+    .select('id, name, label, category, poor_brix, average_brix, good_brix, excellent_brix, threshold_source')
+    .order('label');
+
+  if (error) {
+    console.error('Error fetching crop catalog:', error);
+    throw error;
+  }
+
+  return (data as CropRow[] ?? []).map(row => ({
+    id: row.id,
+    name: row.name,
+    label: row.label,
+    category: row.category,
+    thresholds: toThresholds(row),
+    thresholdSource: row.threshold_source,
+  }));
+}
+
+/**
+ * Creates a crop, or updates it when an id is given.
+ * @throws A friendly error when another crop already has the name.
+ */
+export async function saveCrop(draft: CropDraft, id?: string): Promise<void> {
+  const values = {
+    name: normalizeCropName(draft.name),
+    label: draft.label.trim() || null,
+    category: draft.category,
+    poor_brix: draft.thresholds.poor,
+    average_brix: draft.thresholds.average,
+    good_brix: draft.thresholds.good,
+    excellent_brix: draft.thresholds.excellent,
+    threshold_source: draft.thresholdSource.trim() || null,
+  };
+
+  const { error } = id
+    ? await supabase.from('crops').update(values).eq('id', id)
+    : await supabase.from('crops').insert(values);
+
+  if (error) {
+    console.error('Error saving crop:', error);
+    if (error.code === '23505') {
+      throw new Error(`A crop named "${values.name}" already exists.`);
+    }
+    throw error;
+  }
+}
+
+/** Every BRIX value recorded for a crop, a page at a time. */
+export async function fetchCropBrixValues(cropId: string): Promise<number[]> {
+  const values: number[] = [];
+  for (let from = 0; ; from += BRIX_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('submissions')
+      .select('brix_value')
+      .eq('crop_id', cropId)
+      .order('id')
+      .range(from, from + BRIX_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching BRIX values for crop:', error);
+      throw error;
+    }
+    (data ?? []).forEach(row => {
+      if (row.brix_value != null) values.push(Number(row.brix_value));
+    });
+    if (!data || data.length < BRIX_PAGE_SIZE) return values;
+  }
+}
+
+/** How the given readings would move between grades if the thresholds changed. */
+export function previewRegrade(
+  brixValues: number[],
+  current: BrixThresholds | null,
+  proposed: BrixThresholds,
+): RegradePreview {
+  const counts: Record<string, Record<string, number>> = {};
+  let changed = 0;
+  brixValues.forEach(brix => {
+    const from = getBrixQuality(brix, current ?? undefined);
+    const to = getBrixQuality(brix, proposed);
+    counts[from] = counts[from] ?? {};
+    counts[from][to] = (counts[from][to] ?? 0) + 1;
+    if (from !== to) changed++;
+  });
+  return { total: brixValues.length, changed, counts };
+}
@@ -0,0 +1,191 @@
+// CSV parsing, column mapping and fuzzy lookup helpers for the bulk import flow.
+
+export interface NamedItem {
+  id?: string;
+  name: string;
+  label?: string;
+}
+
+// Fields a CSV column can be mapped to; keys match the edge function payload where one exists.
+export type ImportField =
+  | 'cropName'
+  | 'brandName'
+  | 'variety'
+  | 'brixValue'
+  | 'assessmentDate'
+  | 'purchaseDate'
+  | 'store_name'
+  | 'locationName'
+  | 'latitude'
+  | 'longitude'
+  | 'street_address'
+  | 'city'
+  | 'state'
+  | 'country'
+  | 'outlierNotes';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'cropName', label: 'Crop', required: true, aliases: ['crop', 'crop type', 'crop name', 'produce'] },
+  { field: 'brandName', label: 'Farm / Brand', required: true, aliases: ['brand', 'brand name', 'farm', 'farm name'] },
+  { field: 'variety', label: 'Variety', required: false, aliases: ['variety', 'crop variety', 'cultivar'] },
+  { field: 'brixValue', label: 'BRIX', required: true, aliases: ['brix', 'brix value', 'brix level', 'reading'] },
+  { field: 'assessmentDate', label: 'Assessment Date', required: true, aliases: ['assessment date', 'measurement date', 'date', 'measured'] },
+  { field: 'purchaseDate', label: 'Purchase Date', required: true, aliases: ['purchase date', 'purchased', 'bought'] },
+  { field: 'store_name', label: 'Point of Purchase', required: true, aliases: ['store', 'store name', 'point of purchase', 'shop', 'retailer'] },
+  { field: 'locationName', label: 'Sample Location', required: true, aliases: ['location', 'location name', 'address', 'place'] },
+  { field: 'latitude', label: 'Latitude', required: true, aliases: ['latitude', 'lat'] },
+  { field: 'longitude', label: 'Longitude', required: true, aliases: ['longitude', 'lng', 'lon', 'long'] },
+  { field: 'street_address', label: 'Street Address', required: false, aliases: ['street address', 'street'] },
+  { field: 'city', label: 'City', required: false, aliases: ['city', 'town'] },
+  { field: 'state', label: 'State', required: false, aliases: ['state', 'province', 'region'] },
+  { field: 'country', label: 'Country', required: false, aliases: ['country'] },
+  { field: 'outlierNotes', label: 'Notes', required: false, aliases: ['notes', 'outlier notes', 'observations', 'comments'] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// Below this similarity a value is treated as a new entry rather than a typo of an existing one.
+const FUZZY_MATCH_THRESHOLD = 0.8;
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells with embedded commas, quotes and
+ * newlines, CRLF line endings and a leading byte order mark. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+export function normalizeName(value: string): string {
+  return (value || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Guesses which CSV column feeds each import field by comparing normalized headers
+ * against the field aliases.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalizedHeaders = headers.map(normalizeName);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalizedHeaders.findIndex((h, i) => !used.has(i) && (h === normalizeName(field) || aliases.includes(h)));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical strings, approaching 0 as the edit distance grows relative to length.
+export function nameSimilarity(a: string, b: string): number {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  const maxLength = Math.max(x.length, y.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshtein(x, y) / maxLength;
+}
+
+export interface FuzzyMatch<T extends NamedItem> {
+  item: T;
+  exact: boolean;
+  score: number;
+}
+
+/**
+ * Finds the closest item by `name` or `label`. Returns null when nothing is similar enough.
+ */
+export function fuzzyMatchItem<T extends NamedItem>(value: string, items: T[]): FuzzyMatch<T> | null {
+  const target = normalizeName(value);
+  if (!target) return null;
+
+  let best: FuzzyMatch<T> | null = null;
+  for (const item of items) {
+    for (const candidate of [item.name, item.label]) {
+      if (!candidate) continue;
+      if (normalizeName(candidate) === target) {
+        return { item, exact: true, score: 1 };
+      }
+      const score = nameSimilarity(candidate, value);
+      if (!best || score > best.score) {
+        best = { item, exact: false, score };
+      }
+    }
+  }
+
+  return best && best.score >= FUZZY_MATCH_THRESHOLD ? best : null;
+}
+
+/**
+ * Normalizes a spreadsheet date cell to YYYY-MM-DD. Accepts ISO dates and anything
+ * `Date` can parse; returns an empty string when the cell is not a date.
+ */
+export function normalizeDateCell(value: string): string {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return '';
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) return '';
+  const month = String(parsed.getMonth() + 1).padStart(2, '0');
+  const day = String(parsed.getDate()).padStart(2, '0');
+  return `${parsed.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,116 @@
+import { deleteRecord, getAllForUser, putRecord } from './localDatabase';
+import { PriceUnit, SampleSource } from './provenance';
+
+// DataEntry form contents, autosaved on the device so a refresh, navigation or sign-in redirect
+// does not lose a half-entered reading. Several drafts can be kept, one per reading being prepared.
+
+export interface DataEntryForm {
+  cropType: string;
+  variety: string;
+  brixLevel: number;
+  replicateReadings: number[];
+  latitude: number;
+  longitude: number;
+  location: string;
+  street_address: string;
+  city: string;
+  state: string;
+  country: string;
+  poi_name: string;
+  business_name: string;
+  normalized_address: string;
+  measurementDate: string; // yyyy-mm-dd
+  purchaseDate: string; // yyyy-mm-dd
+  outlierNotes: string;
+  // Provenance; empty strings are not recorded
+  sampleSource: SampleSource;
+  harvestDate: string; // yyyy-mm-dd, farm-picked samples only
+  farmLocation: string;
+  growingMethod: string;
+  originCountry: string;
+  price: string; // as typed, so the field can be left empty
+  priceUnit: PriceUnit;
+  priceCurrency: string; // ISO 4217; empty means the local currency of the location
+  brand: string;
+  store: string;
+  images: File[];
+  // GPS position read from the first photo's EXIF; only the distance to the location is submitted
+  photoLatitude: number | null;
+  photoLongitude: number | null;
+}
+
+export interface DataEntryDraft {
+  id: string;
+  userId: string;
+  // Empty until the contributor names the draft; see draftDisplayName
+  name: string;
+  form: DataEntryForm;
+  pendingBrands: string[];
+  pendingStores: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const emptyDataEntryForm = (): DataEntryForm => ({
+  cropType: '',
+  variety: '',
+  brixLevel: 12,
+  replicateReadings: [],
+  latitude: 0,
+  longitude: 0,
+  location: '',
+  street_address: '',
+  city: '',
+  state: '',
+  country: '',
+  poi_name: '',
+  business_name: '',
+  normalized_address: '',
+  measurementDate: new Date().toISOString().split('T')[0],
+  purchaseDate: '',
+  outlierNotes: '',
+  sampleSource: 'purchased',
+  harvestDate: '',
+  farmLocation: '',
+  growingMethod: '',
+  originCountry: '',
+  price: '',
+  priceUnit: 'each',
+  priceCurrency: '',
+  brand: '',
+  store: '',
+  images: [],
+  photoLatitude: null,
+  photoLongitude: null,
+});
+
+/** True once the contributor has entered anything worth keeping. */
+export function hasDraftContent(form: DataEntryForm, pendingBrands: string[], pendingStores: string[]) {
+  const blank = emptyDataEntryForm();
+  return (
+    pendingBrands.length > 0 ||
+    pendingStores.length > 0 ||
+    form.images.length > 0 ||
+    (Object.keys(blank) as (keyof DataEntryForm)[]).some(
+      key => key !== 'images' && JSON.stringify(form[key]) !== JSON.stringify(blank[key]),
+    )
+  );
+}
+
+/** Name shown for a draft: the contributor's own, or what and where it was measured. */
+export function draftDisplayName(draft: Pick<DataEntryDraft, 'name' | 'form'>) {
+  if (draft.name.trim()) return draft.name.trim();
+  const parts = [draft.form.cropType, draft.form.store || draft.form.location].filter(Boolean);
+  return parts.length > 0 ? parts.join(' @ ') : 'Untitled draft';
+}
+
+/** Lists a contributor's drafts, most recently edited first. */
+export async function listDrafts(userId: string): Promise<DataEntryDraft[]> {
+  const drafts = await getAllForUser<DataEntryDraft>('drafts', userId);
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export const saveDraft = (draft: DataEntryDraft) =>
+  putRecord('drafts', { ...draft, updatedAt: new Date().toISOString() });
+
+export const deleteDraft = (id: string) => deleteRecord('drafts', id);
@@ -0,0 +1,187 @@
+import { supabase } from '../integrations/supabase/client';
+
+// Brands entered as free text end up duplicated ("Driscoll's", "Driscolls", "driscoll's berries").
+// Similar brands are grouped into clusters for an admin to review; merging one repoints its
+// submissions and keeps the merged names as aliases. See the add_brand_aliases migration.
+
+export interface BrandUsage {
+  id: string;
+  name: string;
+  label: string | null;
+  aliases: string[];
+  submissionCount: number;
+}
+
+export interface BrandCluster {
+  key: string;
+  // Why the brands were grouped, e.g. "Same name, Similar spelling"
+  reasons: string[];
+  // Most used first
+  brands: BrandUsage[];
+}
+
+interface BrandUsageRow {
+  id: string;
+  name: string;
+  label: string | null;
+  brand_aliases: { alias: string }[] | null;
+  submissions: { count: number }[] | null;
+}
+
+/**
+ * Brand name as compared for duplicates, matching normalize_brand_name in the database:
+ * lower case, apostrophes dropped, other punctuation treated as spaces.
+ */
+export const normalizeBrandName = (name: string | null | undefined) =>
+  (name ?? '')
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/** Levenshtein distance: the number of single-character edits turning a into b. */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Share of the shorter name's words that also appear in the other name, 0 to 1. */
+export function tokenOverlap(a: string, b: string): number {
+  const tokensA = new Set(a.split(' ').filter(Boolean));
+  const tokensB = new Set(b.split(' ').filter(Boolean));
+  const smaller = Math.min(tokensA.size, tokensB.size);
+  if (smaller === 0) return 0;
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / smaller;
+}
+
+// Edits allowed between two names of this length before they stop counting as the same brand
+const allowedEdits = (length: number) => (length < 5 ? 0 : length <= 8 ? 1 : 2);
+
+/**
+ * Why two normalized names look like the same brand or store chain, or null when they don't.
+ * Words shorter than four letters ("the", "co") are too common to group brands on their own.
+ */
+export function similarityReason(a: string, b: string): string | null {
+  if (!a || !b) return null;
+  if (a === b || a.replace(/ /g, '') === b.replace(/ /g, '')) return 'Same name';
+  const shorter = Math.min(a.length, b.length);
+  if (Math.abs(a.length - b.length) <= 2 && editDistance(a, b) <= allowedEdits(shorter)) {
+    return 'Similar spelling';
+  }
+  const shortName = a.length <= b.length ? a : b;
+  if (shortName.replace(/ /g, '').length >= 4 && tokenOverlap(a, b) === 1) return 'Shared words';
+  return null;
+}
+
+/**
+ * Groups items whose names look alike. An item similar to any member of a group joins it, so
+ * chains of near-matches end up together for the admin to split by hand.
+ * @param namesOf Every name an item is known by; compared after normalizeBrandName.
+ * @returns Groups of two or more items, in input order, with the reasons they were grouped.
+ */
+export function groupSimilarNames<T>(items: T[], namesOf: (item: T) => (string | null)[]) {
+  const names = items.map(item => Array.from(new Set(namesOf(item).map(normalizeBrandName).filter(Boolean))));
+
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<number, Set<string>>();
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      let reason: string | null = null;
+      for (const a of names[i]) {
+        for (const b of names[j]) {
+          reason = similarityReason(a, b);
+          if (reason) break;
+        }
+        if (reason) break;
+      }
+      if (!reason) continue;
+
+      const rootI = find(i);
+      const rootJ = find(j);
+      const merged = new Set([...(reasons.get(rootI) ?? []), ...(reasons.get(rootJ) ?? []), reason]);
+      parent[rootJ] = rootI;
+      reasons.delete(rootJ);
+      reasons.set(rootI, merged);
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), item]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ members, reasons: Array.from(reasons.get(root) ?? []) }));
+}
+
+/** Brands whose names, labels or aliases look alike, largest cluster first. */
+export function clusterBrands(brands: BrandUsage[]): BrandCluster[] {
+  return groupSimilarNames(brands, brand => [brand.name, brand.label, ...brand.aliases])
+    .map(({ members, reasons }) => {
+      const sorted = [...members].sort((a, b) => b.submissionCount - a.submissionCount);
+      return { key: sorted.map(b => b.id).sort().join(':'), reasons, brands: sorted };
+    })
+    .sort((a, b) => b.brands.length - a.brands.length);
+}
+
+/** Every brand with its aliases and how many submissions use it. */
+export async function fetchBrandUsage(): Promise<BrandUsage[]> {
+  const { data, error } = await supabase
+    .from('brands')
+    .select('id, name, label, brand_aliases(alias), submissions(count)')
+    .order('label');
+
+  if (error) {
+    console.error('Error fetching brand usage:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as BrandUsageRow[]).map(row => ({
+    id: row.id,
+    name: row.name,
+    label: row.label,
+    aliases: (row.brand_aliases ?? []).map(a => a.alias),
+    submissionCount: row.submissions?.[0]?.count ?? 0,
+  }));
+}
+
+/** Similar brands grouped into clusters. Admins only. */
+export async function fetchBrandClusters(): Promise<BrandCluster[]> {
+  return clusterBrands(await fetchBrandUsage());
+}
+
+/**
+ * Merges brands into the one that is kept: submissions and product codes are repointed and the
+ * merged names become aliases. Admins only.
+ * @returns The number of submissions repointed.
+ */
+export async function mergeBrands(keepId: string, mergeIds: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc('merge_brands', {
+    p_keep_id: keepId,
+    p_merge_ids: mergeIds,
+  });
+  if (error) {
+    console.error('Error merging brands:', error);
+    throw error;
+  }
+  return data ?? 0;
+}
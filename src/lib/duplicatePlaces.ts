@@ -0,0 +1,215 @@
+import { supabase } from '../integrations/supabase/client';
+import { editDistance, groupSimilarNames, tokenOverlap } from './duplicateBrands';
+import { distanceInMeters } from './geo';
+
+// The same store can end up as several places (one per slightly different pin) and the same chain
+// under several spellings. Places are grouped when they are close together and their normalized
+// addresses are similar; chains when their names are. See the add_place_dedupe migration.
+
+export const DEFAULT_PLACE_DISTANCE_M = 100;
+
+export interface PlaceCandidate {
+  id: string;
+  label: string | null;
+  streetAddress: string | null;
+  city: string | null;
+  state: string | null;
+  // As stored, or normalize_address(street_address) for older places
+  normalizedAddress: string | null;
+  latitude: number;
+  longitude: number;
+  locationId: string | null;
+  locationName: string | null;
+  submissionCount: number;
+  neighbours: { id: string; distanceM: number }[];
+}
+
+export interface PlaceCluster {
+  key: string;
+  // Most used first
+  places: PlaceCandidate[];
+  // Largest distance between two places of the cluster, in metres
+  spanM: number;
+}
+
+export interface ChainUsage {
+  id: string;
+  name: string;
+  label: string | null;
+  placeCount: number;
+  submissionCount: number;
+}
+
+export interface ChainCluster {
+  key: string;
+  reasons: string[];
+  // Most used first
+  chains: ChainUsage[];
+}
+
+interface ChainUsageRow {
+  id: string;
+  name: string;
+  label: string | null;
+  places: { count: number }[] | null;
+  submissions: { count: number }[] | null;
+}
+
+/**
+ * Whether two normalized addresses (see normalize_address) look like the same street address.
+ * House numbers must match when both have one; "2340 dexter ave" and "2340 dexter rd" match.
+ */
+export function similarAddress(a: string | null, b: string | null): boolean {
+  if (!a || !b) return false;
+  if (a === b) return true;
+  const numberA = a.match(/^\d+\w*/)?.[0];
+  const numberB = b.match(/^\d+\w*/)?.[0];
+  if (numberA && numberB && numberA !== numberB) return false;
+  return tokenOverlap(a, b) >= 0.6 || editDistance(a, b) <= 2;
+}
+
+/**
+ * Groups nearby places whose addresses are similar. A place matching any member of a cluster
+ * joins it.
+ * @returns Clusters of two or more places, largest first.
+ */
+export function clusterPlaces(candidates: PlaceCandidate[]): PlaceCluster[] {
+  const byId = new Map(candidates.map(place => [place.id, place]));
+  const parent = new Map(candidates.map(place => [place.id, place.id]));
+  const find = (id: string): string => {
+    const root = parent.get(id);
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  candidates.forEach(place => {
+    place.neighbours.forEach(({ id }) => {
+      const other = byId.get(id);
+      if (!other || !similarAddress(place.normalizedAddress, other.normalizedAddress)) return;
+      parent.set(find(other.id), find(place.id));
+    });
+  });
+
+  const clusters = new Map<string, PlaceCandidate[]>();
+  candidates.forEach(place => {
+    const root = find(place.id);
+    clusters.set(root, [...(clusters.get(root) ?? []), place]);
+  });
+
+  return Array.from(clusters.values())
+    .filter(places => places.length > 1)
+    .map(places => {
+      const sorted = [...places].sort((a, b) => b.submissionCount - a.submissionCount);
+      let spanM = 0;
+      sorted.forEach((a, i) => sorted.slice(i + 1).forEach(b => {
+        spanM = Math.max(spanM, distanceInMeters(a, b));
+      }));
+      return { key: sorted.map(p => p.id).sort().join(':'), places: sorted, spanM };
+    })
+    .sort((a, b) => b.places.length - a.places.length);
+}
+
+/**
+ * Places within `maxDistanceM` of each other with similar addresses, grouped into clusters.
+ * Admins only.
+ */
+export async function fetchPlaceClusters(maxDistanceM = DEFAULT_PLACE_DISTANCE_M): Promise<PlaceCluster[]> {
+  const { data, error } = await supabase.rpc('get_nearby_place_candidates', {
+    p_max_distance_m: maxDistanceM,
+  });
+  if (error) {
+    console.error('Error fetching nearby places:', error);
+    throw error;
+  }
+
+  return clusterPlaces((data ?? []).map(row => ({
+    id: row.place_id,
+    label: row.label,
+    streetAddress: row.street_address,
+    city: row.city,
+    state: row.state,
+    normalizedAddress: row.normalized_address,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    locationId: row.location_id,
+    locationName: row.location_name,
+    submissionCount: row.submission_count ?? 0,
+    neighbours: ((row.neighbours ?? []) as { id: string; distance_m: number }[]).map(n => ({
+      id: n.id,
+      distanceM: Number(n.distance_m),
+    })),
+  })));
+}
+
+/** Every store chain with how many places and submissions use it. */
+export async function fetchChainUsage(): Promise<ChainUsage[]> {
+  const { data, error } = await supabase
+    .from('locations')
+    .select('id, name, label, places(count), submissions(count)')
+    .order('label');
+
+  if (error) {
+    console.error('Error fetching store chain usage:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as ChainUsageRow[]).map(row => ({
+    id: row.id,
+    name: row.name,
+    label: row.label,
+    placeCount: row.places?.[0]?.count ?? 0,
+    submissionCount: row.submissions?.[0]?.count ?? 0,
+  }));
+}
+
+/** Store chains whose names or labels look alike, largest cluster first. */
+export function clusterChains(chains: ChainUsage[]): ChainCluster[] {
+  return groupSimilarNames(chains, chain => [chain.name.replace(/_/g, ' '), chain.label])
+    .map(({ members, reasons }) => {
+      const sorted = [...members].sort((a, b) => b.submissionCount - a.submissionCount);
+      return { key: sorted.map(c => c.id).sort().join(':'), reasons, chains: sorted };
+    })
+    .sort((a, b) => b.chains.length - a.chains.length);
+}
+
+/**
+ * Merges places into the one that is kept and links it to a store chain: submissions of the
+ * merged places move to it and take the chain. A place the chain already has at the kept
+ * place's address is merged in as well. Admins only.
+ * @param locationId The chain the kept place belongs to, or null for an independent store.
+ * @returns The number of submissions moved.
+ */
+export async function mergePlaces(keepId: string, mergeIds: string[], locationId: string | null): Promise<number> {
+  const { data, error } = await supabase.rpc('merge_places', {
+    p_keep_id: keepId,
+    p_merge_ids: mergeIds,
+    p_location_id: locationId,
+  });
+  if (error) {
+    console.error('Error merging places:', error);
+    throw error;
+  }
+  return data ?? 0;
+}
+
+/**
+ * Merges store chains into the one that is kept, along with their places and submissions.
+ * Admins only.
+ * @returns The number of submissions moved.
+ */
+export async function mergeChains(keepId: string, mergeIds: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc('merge_locations', {
+    p_keep_id: keepId,
+    p_merge_ids: mergeIds,
+  });
+  if (error) {
+    console.error('Error merging store chains:', error);
+    if (error.code === '23505') {
+      throw new Error('Two of these chains have places at the same address. Merge those places first.');
+    }
+    throw error;
+  }
+  return data ?? 0;
+}
@@ -0,0 +1,125 @@
+import { supabase } from '../integrations/supabase/client';
+import { hashFile } from './imageProcessing';
+
+// Likely duplicate readings: the same contributor, crop, place and day with a near-identical
+// BRIX value, or a photo that was already uploaded. See the duplicate_submission_detection migration.
+
+export interface PossibleDuplicate {
+  submissionId: string;
+  cropName: string;
+  placeLabel: string | null;
+  assessmentDate: string | null;
+  brixValue: number;
+  // False when only a photo matches someone else's verified submission
+  isOwn: boolean;
+  matchReason: string;
+}
+
+export interface DuplicateClusterMember {
+  submissionId: string;
+  userId: string | null;
+  userName: string | null;
+  cropName: string;
+  placeLabel: string | null;
+  brandName: string | null;
+  assessmentDate: string | null;
+  brixValue: number;
+  verified: boolean;
+  imageCount: number;
+}
+
+export interface DuplicateCluster {
+  key: string;
+  reason: string;
+  members: DuplicateClusterMember[];
+}
+
+export interface DuplicateCheck {
+  cropName: string;
+  latitude: number;
+  longitude: number;
+  assessmentDate: string; // yyyy-mm-dd
+  brixValue: number;
+  // The files that will be uploaded, so their hashes match the stored content_hash
+  images: File[];
+}
+
+/**
+ * Looks for submissions the reading about to be sent would duplicate.
+ * Returns an empty list when the check cannot run (e.g. offline) so it never blocks submitting.
+ */
+export async function findPossibleDuplicates(check: DuplicateCheck): Promise<PossibleDuplicate[]> {
+  try {
+    const imageHashes = await Promise.all(check.images.map(hashFile));
+    const { data, error } = await supabase.rpc('find_possible_duplicate_submissions', {
+      p_crop_name: check.cropName,
+      p_latitude: check.latitude,
+      p_longitude: check.longitude,
+      p_assessment_date: check.assessmentDate,
+      p_brix: check.brixValue,
+      p_image_hashes: imageHashes,
+    });
+    if (error) throw error;
+
+    return (data ?? []).map(row => ({
+      submissionId: row.submission_id,
+      cropName: row.crop_name,
+      placeLabel: row.place_label,
+      assessmentDate: row.assessment_date,
+      brixValue: Number(row.brix_value),
+      isOwn: row.is_own,
+      matchReason: row.match_reason,
+    }));
+  } catch (err) {
+    console.error('Duplicate check failed:', err);
+    return [];
+  }
+}
+
+/** Existing duplicates grouped into clusters, largest first. Admins only. */
+export async function fetchDuplicateClusters(): Promise<DuplicateCluster[]> {
+  const { data, error } = await supabase.rpc('get_duplicate_submission_clusters');
+  if (error) {
+    console.error('Error fetching duplicate clusters:', error);
+    throw error;
+  }
+
+  const clusters = new Map<string, DuplicateCluster>();
+  for (const row of data ?? []) {
+    let cluster = clusters.get(row.cluster_key);
+    if (!cluster) {
+      cluster = { key: row.cluster_key, reason: row.match_reason, members: [] };
+      clusters.set(row.cluster_key, cluster);
+    }
+    cluster.members.push({
+      submissionId: row.submission_id,
+      userId: row.user_id,
+      userName: row.user_name,
+      cropName: row.crop_name,
+      placeLabel: row.place_label,
+      brandName: row.brand_name,
+      assessmentDate: row.assessment_date,
+      brixValue: Number(row.brix_value),
+      verified: row.verified,
+      imageCount: row.image_count,
+    });
+  }
+  return Array.from(clusters.values()).sort((a, b) => b.members.length - a.members.length);
+}
+
+/**
+ * Merges duplicates into the submission that is kept: missing details and photos are carried
+ * over, then the duplicates are deleted. Admins only.
+ * @returns The number of submissions deleted.
+ */
+export async function mergeDuplicateSubmissions(keepId: string, duplicateIds: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc('merge_duplicate_submissions', {
+    p_keep_id: keepId,
+    p_duplicate_ids: duplicateIds,
+  });
+  if (error) {
+    console.error('Error merging duplicate submissions:', error);
+    throw error;
+  }
+  return data ?? 0;
+}
@@ -0,0 +1,178 @@
+import { BrixDataPoint } from '../types';
+import { BrixThresholds, getBrixQuality } from './getBrixQuality';
+import { computeValueScore, valueBasis } from './valueScore';
+
+export type ExportFormat = 'csv' | 'json' | 'geojson';
+
+// One flat record per submission; shared by every export format so the columns stay in sync.
+export interface SubmissionExportRecord {
+  id: string;
+  crop: string;
+  variety: string;
+  category: string;
+  brand: string;
+  brix: number;
+  quality: string;
+  poorBrix: number | null;
+  averageBrix: number | null;
+  goodBrix: number | null;
+  excellentBrix: number | null;
+  location: string;
+  place: string;
+  streetAddress: string;
+  city: string;
+  state: string;
+  country: string;
+  latitude: number | null;
+  longitude: number | null;
+  assessmentDate: string;
+  purchaseDate: string | null;
+  growingMethod: string | null;
+  originCountry: string | null;
+  sampleSource: string;
+  price: number | null;
+  priceUnit: string | null;
+  priceCurrency: string | null;
+  // Normalized score per unit of currency; comparable only within the same valueBasis
+  valueScore: number | null;
+  valueBasis: string | null;
+  farmLocation: string | null;
+  harvestTime: string | null;
+  verified: boolean;
+  submittedBy: string;
+  notes: string;
+  imageCount: number;
+}
+
+// Column order for CSV output
+const CSV_COLUMNS: (keyof SubmissionExportRecord)[] = [
+  'id', 'crop', 'variety', 'category', 'brand', 'brix', 'quality',
+  'poorBrix', 'averageBrix', 'goodBrix', 'excellentBrix',
+  'location', 'place', 'streetAddress', 'city', 'state', 'country', 'latitude', 'longitude',
+  'assessmentDate', 'purchaseDate',
+  'growingMethod', 'originCountry', 'sampleSource', 'price', 'priceUnit', 'priceCurrency',
+  'valueScore', 'valueBasis', 'farmLocation', 'harvestTime',
+  'verified', 'submittedBy', 'notes', 'imageCount',
+];
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  geojson: 'application/geo+json',
+};
+
+function getDataPointThresholds(point: BrixDataPoint): BrixThresholds | undefined {
+  const { poorBrix, averageBrix, goodBrix, excellentBrix } = point;
+  if ([poorBrix, averageBrix, goodBrix, excellentBrix].some(v => v === null || v === undefined)) {
+    return undefined;
+  }
+  return { poor: poorBrix, average: averageBrix, good: goodBrix, excellent: excellentBrix };
+}
+
+export function toExportRecord(point: BrixDataPoint): SubmissionExportRecord {
+  return {
+    id: point.id,
+    crop: point.cropLabel ?? point.cropType,
+    variety: point.variety || '',
+    category: point.category || '',
+    brand: point.brandLabel ?? point.brandName ?? '',
+    brix: point.brixLevel,
+    quality: getBrixQuality(point.brixLevel, getDataPointThresholds(point)),
+    poorBrix: point.poorBrix,
+    averageBrix: point.averageBrix,
+    goodBrix: point.goodBrix,
+    excellentBrix: point.excellentBrix,
+    location: point.locationName || '',
+    place: point.placeName || '',
+    streetAddress: point.streetAddress || '',
+    city: point.city || '',
+    state: point.state || '',
+    country: point.country || '',
+    latitude: point.latitude,
+    longitude: point.longitude,
+    assessmentDate: point.submittedAt,
+    purchaseDate: point.purchaseDate,
+    growingMethod: point.growingMethod ?? null,
+    originCountry: point.originCountry ?? null,
+    sampleSource: point.sampleSource ?? 'purchased',
+    price: point.price ?? null,
+    priceUnit: point.priceUnit ?? null,
+    priceCurrency: point.priceCurrency ?? null,
+    valueScore: computeValueScore(point),
+    valueBasis: valueBasis(point),
+    farmLocation: point.farmLocation ?? null,
+    harvestTime: point.harvestTime ?? null,
+    verified: point.verified,
+    submittedBy: point.submittedBy,
+    notes: point.outlier_notes || '',
+    imageCount: point.images?.length ?? 0,
+  };
+}
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes a CSV cell when needed. Text that a spreadsheet would run as a formula (free text such
+ * as variety, notes or brand names) gets a leading apostrophe so it is shown as typed; numbers
+ * such as negative coordinates are left alone.
+ */
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const str = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+export function submissionsToCsv(points: BrixDataPoint[]): string {
+  const lines = points
+    .map(toExportRecord)
+    .map(record => CSV_COLUMNS.map(column => escapeCsvValue(record[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n');
+}
+
+export function submissionsToJson(points: BrixDataPoint[]): string {
+  return JSON.stringify(points.map(toExportRecord), null, 2);
+}
+
+/**
+ * Builds a GeoJSON FeatureCollection of Point features. Submissions without coordinates are
+ * skipped since they cannot be placed on a map.
+ */
+export function submissionsToGeoJson(points: BrixDataPoint[]): string {
+  const features = points
+    .filter(p => typeof p.latitude === 'number' && typeof p.longitude === 'number')
+    .map(p => {
+      const { latitude, longitude, ...properties } = toExportRecord(p);
+      return {
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: [longitude, latitude] },
+        properties,
+      };
+    });
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+export function serializeSubmissions(points: BrixDataPoint[], format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return submissionsToCsv(points);
+    case 'geojson':
+      return submissionsToGeoJson(points);
+    case 'json':
+    default:
+      return submissionsToJson(points);
+  }
+}
+
+// Triggers a browser download of the serialized submissions.
+export function downloadSubmissions(points: BrixDataPoint[], format: ExportFormat, baseName = 'brix-submissions') {
+  const blob = new Blob([serializeSubmissions(points, format)], { type: EXPORT_MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}-${new Date().toISOString().split('T')[0]}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -7,6 +7,14 @@ export interface Brand {
   id: string;
   name: string; // This is the unique identifier from the database.
   label: string; // This is the human-readable display name.
+  aliases: string[]; // Names of brands merged into this one (see lib/duplicateBrands).
+}
+
+interface BrandRow {
+  id: string;
+  name: string;
+  label: string;
+  brand_aliases: { alias: string }[] | null;
 }
 
 /**
@@ -16,7 +24,7 @@ export interface Brand {
 export const fetchBrands = async (): Promise<Brand[]> => {
   const { data, error } = await supabase
     .from('brands')
-    .select('id, name, label') 
+    .select('id, name, label, brand_aliases(alias)')
     .order('label'); 
 
   if (error) {
@@ -24,5 +32,10 @@ export const fetchBrands = async (): Promise<Brand[]> => {
     throw error;
   }
 
-  return data || [];
+  return ((data ?? []) as BrandRow[]).map(row => ({
+    id: row.id,
+    name: row.name,
+    label: row.label,
+    aliases: (row.brand_aliases ?? []).map(a => a.alias),
+  }));
 };
@@ -0,0 +1,103 @@
+import { supabase } from '../integrations/supabase/client';
+import { BrixThresholds } from './getBrixQuality';
+import { computeNormalizedScore, rankColorFromNormalized } from './getBrixColor';
+
+export type TrendInterval = 'week' | 'month';
+
+export interface TrendFilter {
+  crop?: string;
+  brand?: string;
+  location?: string;
+  placeId?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+}
+
+export interface TrendPoint {
+  // First day of the week/month bucket, YYYY-MM-DD
+  period: string;
+  averageNormalizedScore: number;
+  averageBrix: number;
+  submissionCount: number;
+}
+
+// Y axis of the trend chart. get_brix_trend scores readings linearly from the crop's poor
+// threshold (1) to its excellent threshold (2), clamped to this range.
+export const TREND_SCORE_DOMAIN: [number, number] = [1, 2];
+
+// Readings at or above the excellent threshold all score 2, so the Excellent band would have
+// no height; it keeps this much of the top of the axis instead
+const EXCELLENT_BAND_HEIGHT = 0.05;
+
+export interface TrendBand {
+  label: string;
+  from: number;
+  to: number;
+  color: string;
+}
+
+/**
+ * Fetches the average normalized BRIX (1..2, as on the leaderboards) per week or month of
+ * assessment date for verified submissions matching the filters.
+ */
+export async function fetchBrixTrend(filters: TrendFilter, interval: TrendInterval): Promise<TrendPoint[]> {
+  const { data, error } = await supabase.rpc('get_brix_trend', {
+    bucket: interval,
+    crop_filter: filters.crop || null,
+    brand_filter: filters.brand || null,
+    location_filter: filters.location || null,
+    place_id_filter: filters.placeId || null,
+    country_filter: filters.country || null,
+    state_filter: filters.state || null,
+    city_filter: filters.city || null,
+  });
+
+  if (error) {
+    console.error('Error fetching BRIX trend:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(row => ({
+    period: row.period,
+    averageNormalizedScore: Number(row.average_normalized_score),
+    averageBrix: Number(row.average_brix),
+    submissionCount: Number(row.submission_count),
+  }));
+}
+
+/**
+ * Reference bands for the trend chart in normalized units. With a crop's thresholds each band
+ * starts where that crop's poor, average, good and excellent BRIX thresholds normalize to on
+ * the chart's axis; otherwise the generic rankColorFromNormalized buckets are used.
+ */
+export function getTrendBands(thresholds?: BrixThresholds | null): TrendBand[] {
+  // Colors follow the grade, so each band is colored by a score inside its generic bucket
+  const band = (label: string, from: number, to: number, gradeScore: number): TrendBand => ({
+    label,
+    from,
+    to,
+    color: rankColorFromNormalized(gradeScore).hex,
+  });
+  const [min, max] = TREND_SCORE_DOMAIN;
+
+  if (thresholds && thresholds.excellent > thresholds.poor) {
+    const normalize = (brix: number) => Math.min(max, Math.max(min, computeNormalizedScore(brix, thresholds)));
+    const excellent = Math.min(normalize(thresholds.excellent), max - EXCELLENT_BAND_HEIGHT);
+    const good = Math.min(normalize(thresholds.good), excellent);
+    const average = Math.min(normalize(thresholds.average), good);
+    return [
+      band('Poor', normalize(thresholds.poor), average, 1),
+      band('Average', average, good, 1.25),
+      band('Good', good, excellent, 1.5),
+      band('Excellent', excellent, max, 1.75),
+    ];
+  }
+
+  return [
+    band('Poor', min, 1.25, 1),
+    band('Average', 1.25, 1.5, 1.25),
+    band('Good', 1.5, 1.75, 1.5),
+    band('Excellent', 1.75, max, 1.75),
+  ];
+}
@@ -31,6 +31,16 @@ export interface LeaderboardEntry {
   entity_name?: string;
 }
 
+// One crop + brand + store combination; ranks restart within each value_basis (see lib/valueScore)
+export interface ValueLeaderboardEntry extends LeaderboardEntry {
+  value_basis: string;
+  average_value_score: number;
+  average_price: number;
+  city?: string;
+  state?: string;
+  country?: string;
+}
+
 async function fetchLeaderboard<R extends LeaderboardEntry>(
   rpcName: string,
   filters: Filter = {}
@@ -64,7 +74,7 @@ async function fetchLeaderboard<R extends LeaderboardEntry>(
     if (Array.isArray(data)) {
       return data.map((item) => {
         // normalize numeric fields
-        ['average_normalized_score', 'average_brix', 'submission_count', 'rank'].forEach(field => {
+        ['average_normalized_score', 'average_brix', 'average_value_score', 'average_price', 'submission_count', 'rank'].forEach(field => {
           if (item[field] !== null && item[field] !== undefined) {
             const val = Number(item[field]);
             item[field] = isNaN(val) ? 0 : val;
@@ -98,6 +108,10 @@ export async function fetchUserLeaderboard(filters: Filter = {}) {
   return await fetchLeaderboard('get_user_leaderboard_safe', filters);
 }
 
+export async function fetchValueLeaderboard(filters: Filter = {}) {
+  return await fetchLeaderboard<ValueLeaderboardEntry>('get_value_leaderboard', filters);
+}
+
 // Utility function for debugging in browser console
 if (typeof window !== 'undefined') {
   (window as any).fetchBrandLeaderboard = fetchBrandLeaderboard;
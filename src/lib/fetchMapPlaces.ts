@@ -0,0 +1,117 @@
+import { supabase } from '../integrations/supabase/client';
+import { SubmissionQuery, toFilterParams } from './querySubmissions';
+
+export interface MapBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface MapPlace {
+  id: string;
+  label: string;
+  latitude: number;
+  longitude: number;
+  locationId: string | null;
+  city: string;
+  state: string;
+  country: string;
+}
+
+// A place with the aggregated readings that match the map filters
+export interface PlaceScore extends MapPlace {
+  locationName: string;
+  streetAddress: string;
+  submissionCount: number;
+  // Average normalized score (1-2) as computed by the leaderboards
+  averageScore: number;
+  lastAssessed: string | null;
+  outlierCount: number;
+}
+
+export interface PlaceScoresInBounds {
+  places: PlaceScore[];
+  // Places with matching readings in the bounds, including any left out by the cap
+  totalPlaces: number;
+}
+
+// Most places the map draws for one viewport; the busiest places are kept
+export const MAX_MAP_PLACES = 2000;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// RPC bounds; bounds that wrap around the antimeridian fall back to the full longitude range
+function toBboxArgs(bounds: MapBounds) {
+  const wraps = bounds.east - bounds.west >= 360 || bounds.west < -180 || bounds.east > 180;
+  return {
+    min_lng: wraps ? -180 : bounds.west,
+    min_lat: clamp(bounds.south, -90, 90),
+    max_lng: wraps ? 180 : bounds.east,
+    max_lat: clamp(bounds.north, -90, 90),
+  };
+}
+
+/**
+ * Fetches the places inside the given map bounds via the `get_places_in_bbox` PostGIS RPC.
+ */
+export async function fetchPlacesInBounds(bounds: MapBounds): Promise<MapPlace[]> {
+  const { data, error } = await supabase.rpc('get_places_in_bbox', toBboxArgs(bounds));
+
+  if (error) {
+    console.error('Error fetching places in bounds:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(place => ({
+    id: place.id,
+    label: place.label ?? '',
+    latitude: place.latitude,
+    longitude: place.longitude,
+    locationId: place.location_id ?? null,
+    city: place.city ?? '',
+    state: place.state ?? '',
+    country: place.country ?? '',
+  }));
+}
+
+/**
+ * Fetches one row per place inside the map bounds with its count, average normalized score and
+ * last assessment date over the submissions matching the query's filters.
+ */
+export async function fetchPlaceScoresInBounds(
+  bounds: MapBounds,
+  query: SubmissionQuery,
+): Promise<PlaceScoresInBounds> {
+  const { data, error } = await supabase.rpc('get_place_scores_in_bbox', {
+    ...toBboxArgs(bounds),
+    filters: toFilterParams(query),
+    max_results: MAX_MAP_PLACES,
+  });
+
+  if (error) {
+    console.error('Error fetching place scores in bounds:', error);
+    throw error;
+  }
+
+  const rows = data ?? [];
+  return {
+    places: rows.map(place => ({
+      id: place.id,
+      label: place.label ?? '',
+      latitude: place.latitude,
+      longitude: place.longitude,
+      locationId: place.location_id ?? null,
+      locationName: place.location_name ?? '',
+      streetAddress: place.street_address ?? '',
+      city: place.city ?? '',
+      state: place.state ?? '',
+      country: place.country ?? '',
+      submissionCount: Number(place.submission_count),
+      averageScore: Number(place.average_normalized_score ?? 1.5),
+      lastAssessed: place.last_assessed ?? null,
+      outlierCount: Number(place.outlier_count),
+    })),
+    totalPlaces: rows.length > 0 ? Number(rows[0].total_places) : 0,
+  };
+}
@@ -0,0 +1,27 @@
+import { supabase } from '../integrations/supabase/client';
+import { ChoroplethLevel, RegionScore } from './mapLayers';
+import { SubmissionQuery, toFilterParams } from './querySubmissions';
+
+/**
+ * Average normalized score per country, or per state, over every submission matching the
+ * query's filters. Grouped by the `get_region_scores` RPC, so it does not depend on the map
+ * viewport.
+ */
+export async function fetchRegionScores(level: ChoroplethLevel, query: SubmissionQuery): Promise<RegionScore[]> {
+  const { data, error } = await supabase.rpc('get_region_scores', {
+    level,
+    filters: toFilterParams(query),
+  });
+
+  if (error) {
+    console.error('Error fetching region scores:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(region => ({
+    country: region.country,
+    state: region.state ?? null,
+    averageScore: Number(region.average_normalized_score),
+    count: Number(region.submission_count),
+  }));
+}
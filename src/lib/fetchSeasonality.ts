@@ -0,0 +1,121 @@
+import { supabase } from '../integrations/supabase/client';
+
+export type Hemisphere = 'north' | 'south';
+
+export interface SeasonalNorm {
+  cropName: string;
+  month: number; // 1-12
+  hemisphere: Hemisphere;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  submissionCount: number;
+}
+
+export type SeasonalPosition = 'well-below' | 'below' | 'typical' | 'above' | 'well-above';
+
+export interface SeasonalComparison {
+  position: SeasonalPosition;
+  // Approximate percentile of the reading within the seasonal distribution, 0-100
+  percentile: number;
+  summary: string;
+}
+
+// Fewer verified readings than this make the percentiles too noisy to compare against
+export const MIN_SEASONAL_SAMPLES = 5;
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+export function hemisphereOf(latitude: number): Hemisphere {
+  return latitude >= 0 ? 'north' : 'south';
+}
+
+/**
+ * Fetches the seasonal BRIX distribution for a crop in a given month and hemisphere.
+ * Returns null when there is no data for that combination.
+ */
+export async function fetchSeasonalNorm(
+  cropName: string,
+  month: number,
+  hemisphere: Hemisphere,
+): Promise<SeasonalNorm | null> {
+  const { data, error } = await supabase.rpc('get_crop_seasonality', {
+    crop_filter: cropName,
+    month_filter: month,
+    hemisphere_filter: hemisphere,
+  });
+
+  if (error) {
+    console.error('Error fetching crop seasonality:', error);
+    throw error;
+  }
+
+  const row = data?.[0];
+  if (!row) return null;
+
+  return {
+    cropName: row.crop_name,
+    month: row.month,
+    hemisphere: row.hemisphere as Hemisphere,
+    p10: Number(row.p10),
+    p25: Number(row.p25),
+    p50: Number(row.p50),
+    p75: Number(row.p75),
+    p90: Number(row.p90),
+    submissionCount: Number(row.submission_count),
+  };
+}
+
+/**
+ * Places a reading within a seasonal distribution by interpolating between its known
+ * percentiles. Readings outside P10-P90 are clamped to the 10 point steps beyond them.
+ */
+export function compareToSeasonalNorm(brix: number, norm: SeasonalNorm): SeasonalComparison {
+  const knots: [number, number][] = [
+    [norm.p10, 10],
+    [norm.p25, 25],
+    [norm.p50, 50],
+    [norm.p75, 75],
+    [norm.p90, 90],
+  ];
+
+  let percentile: number;
+  if (brix < norm.p10) {
+    percentile = 5;
+  } else if (brix > norm.p90) {
+    percentile = 95;
+  } else {
+    percentile = 50;
+    for (let i = 1; i < knots.length; i++) {
+      const [lowValue, lowPct] = knots[i - 1];
+      const [highValue, highPct] = knots[i];
+      if (brix <= highValue) {
+        const span = highValue - lowValue;
+        percentile = span > 0 ? lowPct + ((brix - lowValue) / span) * (highPct - lowPct) : highPct;
+        break;
+      }
+    }
+  }
+
+  let position: SeasonalPosition;
+  if (brix < norm.p10) position = 'well-below';
+  else if (brix < norm.p25) position = 'below';
+  else if (brix <= norm.p75) position = 'typical';
+  else if (brix <= norm.p90) position = 'above';
+  else position = 'well-above';
+
+  const summaries: Record<SeasonalPosition, string> = {
+    'well-below': 'Well below the seasonal norm',
+    below: 'Below the seasonal norm',
+    typical: 'Typical for the season',
+    above: 'Above the seasonal norm',
+    'well-above': 'Well above the seasonal norm',
+  };
+
+  return { position, percentile: Math.round(percentile), summary: summaries[position] };
+}
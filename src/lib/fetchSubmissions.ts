@@ -2,12 +2,30 @@ import { supabase } from '../integrations/supabase/client';
 import { BrixDataPoint } from '../types';
 
 // This query selects a flat list of submission fields and joins related tables.
-const SUBMISSIONS_SELECT_QUERY_STRING = `
+export const SUBMISSIONS_SELECT_QUERY_STRING = `
   id,
   assessment_date,
   brix_value,
+  brix_readings,
+  brix_median,
+  brix_stdev,
   verified,
   verified_at,
+  rejected,
+  rejected_at,
+  rejection_reason,
+  outlier_score,
+  outlier_reason,
+  outlier_flagged,
+  photo_distance_m,
+  growing_method,
+  origin_country,
+  sample_source,
+  price,
+  price_unit,
+  price_currency,
+  farm_location,
+  harvest_time,
   crop_variety,
   outlier_notes,
   purchase_date,
@@ -16,17 +34,35 @@ const SUBMISSIONS_SELECT_QUERY_STRING = `
   brand:brand_id(id,name,label),
   user:users!user_id(id,display_name),
   verifier:users!verified_by(id,display_name),
-  submission_images(image_url),
+  submission_images(image_url,thumbnail_url),
   crop:crop_id(id,name,label,poor_brix,average_brix,good_brix,excellent_brix,category)
 `;
 
 // This interface reflects the structure of the data returned by the Supabase query.
-interface SupabaseSubmissionRow {
+export interface SupabaseSubmissionRow {
   id: string;
   assessment_date: string;
   brix_value: number;
+  brix_readings: number[] | null;
+  brix_median: number | null;
+  brix_stdev: number | null;
   verified: boolean;
   verified_at: string | null;
+  rejected: boolean;
+  rejected_at: string | null;
+  rejection_reason: string | null;
+  outlier_score: number | null;
+  outlier_reason: string | null;
+  outlier_flagged: boolean;
+  photo_distance_m: number | null;
+  growing_method: string | null;
+  origin_country: string | null;
+  sample_source: string | null;
+  price: number | null;
+  price_unit: string | null;
+  price_currency: string | null;
+  farm_location: string | null;
+  harvest_time: string | null;
   crop_variety: string | null;
   outlier_notes: string | null;
   purchase_date: string | null;
@@ -62,6 +98,7 @@ interface SupabaseSubmissionRow {
   } | null;
   submission_images: {
     image_url: string;
+    thumbnail_url: string | null;
   }[];
   // The 'crop' property is unchanged, but included here for completeness.
   crop: {
@@ -79,12 +116,30 @@ interface SupabaseSubmissionRow {
 /**
  * Helper function to format raw Supabase submission data into the BrixDataPoint interface.
  */
-function formatSubmissionData(item: SupabaseSubmissionRow): BrixDataPoint {
+export function formatSubmissionData(item: SupabaseSubmissionRow): BrixDataPoint {
   return {
     id: item.id,
     brixLevel: item.brix_value,
+    brixReadings: item.brix_readings ?? null,
+    brixMedian: item.brix_median ?? null,
+    brixStdev: item.brix_stdev ?? null,
     verified: item.verified,
     verifiedAt: item.verified_at,
+    rejected: item.rejected ?? false,
+    rejectedAt: item.rejected_at,
+    rejectionReason: item.rejection_reason,
+    outlierScore: item.outlier_score,
+    outlierReason: item.outlier_reason,
+    outlierFlagged: item.outlier_flagged ?? false,
+    photoDistanceMeters: item.photo_distance_m ?? null,
+    growingMethod: item.growing_method ?? null,
+    originCountry: item.origin_country ?? null,
+    sampleSource: item.sample_source ?? 'purchased',
+    price: item.price ?? null,
+    priceUnit: item.price_unit ?? null,
+    priceCurrency: item.price_currency ?? null,
+    farmLocation: item.farm_location ?? null,
+    harvestTime: item.harvest_time ?? null,
     variety: item.crop_variety ?? '',
     // Use `name` as the unique identifier for the crop type
     cropType: item.crop?.name ?? 'Unknown',
@@ -107,6 +162,8 @@ function formatSubmissionData(item: SupabaseSubmissionRow): BrixDataPoint {
     outlier_notes: item.outlier_notes ?? '',
     purchaseDate: item.purchase_date,
     images: item.submission_images?.map(img => img.image_url) ?? [],
+    // Older uploads have no thumbnail; use the full image for those
+    thumbnails: item.submission_images?.map(img => img.thumbnail_url ?? img.image_url) ?? [],
     poorBrix: item.crop?.poor_brix,
     averageBrix: item.crop?.average_brix,
     goodBrix: item.crop?.good_brix,
@@ -140,6 +197,76 @@ export async function fetchFormattedSubmissions(): Promise<BrixDataPoint[]> {
   return (submissionsToFormat as SupabaseSubmissionRow[]).map(formatSubmissionData);
 }
 
+/**
+ * Fetches every submission still awaiting verification, oldest first, for the admin review queue.
+ * Rejected submissions stay out of the queue until their owner resubmits them.
+ */
+export async function fetchPendingSubmissions(): Promise<BrixDataPoint[]> {
+  const { data, error } = await supabase.from('submissions')
+    .select(SUBMISSIONS_SELECT_QUERY_STRING)
+    .eq('verified', false)
+    .eq('rejected', false)
+    .order('assessment_date', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching pending submissions from Supabase:', error);
+    throw error;
+  }
+  const submissionsToFormat = Array.isArray(data) ? data : [];
+  return (submissionsToFormat as SupabaseSubmissionRow[]).map(formatSubmissionData);
+}
+
+/**
+ * Marks the given submissions as verified by the given admin.
+ * Sets verified_by/verified_at the same way DataPointDetailModal does when an admin ticks "Verified".
+ * @returns The ISO timestamp written to verified_at.
+ */
+export async function approveSubmissions(submissionIds: string[], verifierId: string): Promise<string> {
+  const verifiedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('submissions')
+    .update({
+      verified: true,
+      verified_by: verifierId,
+      verified_at: verifiedAt,
+      rejected: false,
+      rejected_by: null,
+      rejected_at: null,
+      rejection_reason: null,
+    })
+    .in('id', submissionIds);
+
+  if (error) {
+    console.error('Error approving submissions:', error);
+    throw error;
+  }
+  return verifiedAt;
+}
+
+/**
+ * Rejects the given submissions with a reviewer reason. The rows are kept so the contributor
+ * can see why and resubmit an edited reading.
+ * @returns The ISO timestamp written to rejected_at.
+ */
+export async function rejectSubmissions(submissionIds: string[], reviewerId: string, reason: string): Promise<string> {
+  const rejectedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('submissions')
+    .update({
+      rejected: true,
+      rejected_by: reviewerId,
+      rejected_at: rejectedAt,
+      rejection_reason: reason,
+    })
+    .in('id', submissionIds);
+
+  if (error) {
+    console.error('Error rejecting submissions:', error);
+    throw error;
+  }
+  return rejectedAt;
+}
+
 export async function fetchSubmissionById(id: string): Promise<BrixDataPoint | null> {
   const { data, error } = await supabase.from('submissions')
     .select(SUBMISSIONS_SELECT_QUERY_STRING)
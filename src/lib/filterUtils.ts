@@ -2,6 +2,7 @@
 
 import { BrixDataPoint, MapFilter } from '../types'; // Removed QueryData from here
 import { DEFAULT_MAP_FILTERS } from '../contexts/FilterContext'; // Import DEFAULT_MAP_FILTERS
+import { growingMethodLabel, sampleSourceLabel } from './provenance';
 
 export function applyFilters(data: BrixDataPoint[], filters: MapFilter, isAdmin: boolean = false): BrixDataPoint[] {
   console.log(`Applying filters to ${data.length} submissions:`, {
@@ -131,6 +132,25 @@ export function applyFilters(data: BrixDataPoint[], filters: MapFilter, isAdmin:
       }
     }
 
+    // Provenance filters
+    if (filters.growingMethod && filters.growingMethod !== DEFAULT_MAP_FILTERS.growingMethod) {
+      if (point.growingMethod !== filters.growingMethod) {
+        return false;
+      }
+    }
+
+    if (filters.sampleSource && filters.sampleSource !== DEFAULT_MAP_FILTERS.sampleSource) {
+      if ((point.sampleSource ?? 'purchased') !== filters.sampleSource) {
+        return false;
+      }
+    }
+
+    if (filters.originCountry && filters.originCountry !== DEFAULT_MAP_FILTERS.originCountry) {
+      if (point.originCountry?.toLowerCase() !== filters.originCountry.toLowerCase()) {
+        return false;
+      }
+    }
+
     return true;
   });
 
@@ -212,5 +232,15 @@ export function getFilterSummary(filters: MapFilter, isAdmin: boolean): string {
     activeFilters.push(`location: ${locationParts.join(', ')}`);
   }
 
+  if (filters.growingMethod && filters.growingMethod !== DEFAULT_MAP_FILTERS.growingMethod) {
+    activeFilters.push(`grown: ${growingMethodLabel(filters.growingMethod)}`);
+  }
+  if (filters.sampleSource && filters.sampleSource !== DEFAULT_MAP_FILTERS.sampleSource) {
+    activeFilters.push(sampleSourceLabel(filters.sampleSource).toLowerCase());
+  }
+  if (filters.originCountry && filters.originCountry !== DEFAULT_MAP_FILTERS.originCountry) {
+    activeFilters.push(`origin: ${filters.originCountry}`);
+  }
+
   return activeFilters.length > 0 ? activeFilters.join(', ') : 'No active filters';
 }
@@ -0,0 +1,35 @@
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle (haversine) distance between two coordinates, in metres. */
+export function distanceInMeters(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number },
+): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Bounding box of roughly `radiusMeters` around a point, for bbox queries such as fetchPlacesInBounds. */
+export function boundsAround(latitude: number, longitude: number, radiusMeters: number) {
+  const dLat = radiusMeters / 111320;
+  const dLng = radiusMeters / (111320 * Math.max(Math.cos(toRadians(latitude)), 0.01));
+  return {
+    west: longitude - dLng,
+    south: latitude - dLat,
+    east: longitude + dLng,
+    north: latitude + dLat,
+  };
+}
+
+/** Short human-readable distance: "850 m", "1.2 km", "35 km". */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  const km = meters / 1000;
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+}
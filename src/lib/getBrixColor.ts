@@ -93,12 +93,18 @@ export function getBrixColor(
   return selectedColor;
 }
 
+/**
+ * Colour for a reading using the crop thresholds from CropThresholdContext.
+ * @param assessmentDate When given and the grading mode is "as of assessment date", the
+ *   thresholds in force on that date are used instead of the current ones.
+ */
 export function useBrixColorFromContext(
   cropName: string,
   brixLevel: number,
-  mode: 'bg' | 'hex' = 'bg'
+  mode: 'bg' | 'hex' = 'bg',
+  assessmentDate?: string | null
 ): string {
-  const { cache, loading } = useCropThresholds();
+  const { cache, loading, thresholdsFor } = useCropThresholds();
   
   if (loading) {
     console.log('🔍 useBrixColorFromContext: Still loading, returning fallback');
@@ -107,7 +113,7 @@ export function useBrixColorFromContext(
   
   // Normalize crop name for better matching
   const normalizedCropName = cropName.toLowerCase().trim();
-  const thresholds = cache?.[normalizedCropName];
+  const thresholds = thresholdsFor(normalizedCropName, assessmentDate);
   
   console.log('🔍 useBrixColorFromContext:', { 
     originalCropName: cropName,
@@ -33,4 +33,17 @@ export function getBrixQuality(
   }
 
   return 'Unknown';
-}
\ No newline at end of file
+}
+
+// True when a reading falls outside the crop's poor..excellent band, for either scale direction.
+export function isOutsideThresholds(
+  brixLevel: number | null | undefined,
+  thresholds: BrixThresholds | undefined
+): boolean {
+  if (brixLevel === null || brixLevel === undefined || isNaN(brixLevel) || !thresholds) {
+    return false;
+  }
+  const low = Math.min(thresholds.poor, thresholds.excellent);
+  const high = Math.max(thresholds.poor, thresholds.excellent);
+  return brixLevel < low || brixLevel > high;
+}
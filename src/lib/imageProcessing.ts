@@ -0,0 +1,84 @@
+// Prepares photos for upload in the browser: downscales and re-encodes them to WebP, makes a
+// thumbnail, and hashes the original so the same photo can be recognised later. Re-encoding
+// through a canvas also drops all EXIF metadata from the uploaded copy.
+
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  contentType: string;
+  extension: string;
+  // SHA-256 (hex) of the file passed in, i.e. before re-encoding
+  contentHash: string;
+}
+
+// Longest edge of the stored photo and of its thumbnail, in pixels
+export const MAX_IMAGE_EDGE = 2048;
+export const THUMBNAIL_EDGE = 320;
+const IMAGE_QUALITY = 0.82;
+const THUMBNAIL_QUALITY = 0.7;
+
+/** Hex SHA-256 of a file's bytes. */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const scaleToFit = (width: number, height: number, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
+
+// Draws the bitmap at the given size and encodes it, preferring WebP. Browsers that cannot
+// encode WebP silently return PNG, in which case JPEG is used instead.
+async function encode(bitmap: ImageBitmap, width: number, height: number, quality: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser.');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  const webp = await canvasToBlob(canvas, 'image/webp', quality);
+  if (webp?.type === 'image/webp') return webp;
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality);
+  if (!jpeg) throw new Error('Could not encode the image.');
+  return jpeg;
+}
+
+/**
+ * Resizes and re-encodes a photo for upload.
+ * @throws When the browser cannot decode the file (e.g. HEIC on most desktop browsers).
+ */
+export async function processImageForUpload(file: File): Promise<ProcessedImage> {
+  const [contentHash, bitmap] = await Promise.all([
+    hashFile(file),
+    // Applies the EXIF orientation so portrait photos stay upright once the EXIF is gone
+    createImageBitmap(file, { imageOrientation: 'from-image' }),
+  ]);
+
+  try {
+    const size = scaleToFit(bitmap.width, bitmap.height, MAX_IMAGE_EDGE);
+    const thumbSize = scaleToFit(bitmap.width, bitmap.height, THUMBNAIL_EDGE);
+    const image = await encode(bitmap, size.width, size.height, IMAGE_QUALITY);
+    const thumbnail = await encode(bitmap, thumbSize.width, thumbSize.height, THUMBNAIL_QUALITY);
+
+    return {
+      image,
+      thumbnail,
+      width: size.width,
+      height: size.height,
+      contentType: image.type,
+      extension: image.type === 'image/webp' ? 'webp' : 'jpg',
+      contentHash,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
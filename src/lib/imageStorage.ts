@@ -0,0 +1,49 @@
+import { supabase } from '../integrations/supabase/client';
+
+// One place for where submission photos live and how their URLs are built. Paths stored in
+// submission_images are relative to the bucket: `<userId>/<submissionId>/<file>`.
+
+export const SUBMISSION_IMAGES_BUCKET = 'submission-images-bucket';
+
+// The bucket is publicly readable (see the add_public_read_policy_to_images migration). Switch
+// this to 'signed' if it is ever made private; getSubmissionImageUrls then signs every path.
+export const SUBMISSION_IMAGE_URL_MODE: 'public' | 'signed' = 'public';
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/** Builds the storage path of a photo (or its thumbnail) for a submission. */
+export function buildSubmissionImagePath(
+  userId: string,
+  submissionId: string,
+  index: number,
+  extension: string,
+  variant: 'full' | 'thumb' = 'full',
+) {
+  const prefix = variant === 'thumb' ? 'thumb_' : '';
+  return [userId, submissionId, `${prefix}${Date.now()}_${index}.${extension}`].join('/');
+}
+
+/** Public URL of a stored photo. Synchronous, for lists and thumbnails. */
+export function getSubmissionImageUrl(path: string): string {
+  return supabase.storage.from(SUBMISSION_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/**
+ * URLs for a set of stored photos, signed when the bucket is private. Paths that fail to sign
+ * are left out rather than failing the whole set.
+ */
+export async function getSubmissionImageUrls(paths: string[]): Promise<string[]> {
+  const valid = paths.filter(path => typeof path === 'string' && path !== '');
+  if (SUBMISSION_IMAGE_URL_MODE === 'public' || valid.length === 0) {
+    return valid.map(getSubmissionImageUrl);
+  }
+
+  const { data, error } = await supabase.storage
+    .from(SUBMISSION_IMAGES_BUCKET)
+    .createSignedUrls(valid, SIGNED_URL_TTL_SECONDS);
+  if (error) {
+    console.error('Error signing image URLs:', error);
+    throw error;
+  }
+  return (data ?? []).filter(item => !item.error && item.signedUrl).map(item => item.signedUrl);
+}
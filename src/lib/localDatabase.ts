@@ -0,0 +1,59 @@
+// Small IndexedDB wrapper for data kept on the device: the offline submission outbox and
+// DataEntry drafts. IndexedDB (unlike localStorage) can hold the photo Files as they are.
+
+const DB_NAME = 'brix-outbox';
+// v1: submissions (outbox), v2: drafts
+const DB_VERSION = 2;
+
+export type LocalStore = 'submissions' | 'drafts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of ['submissions', 'drafts']) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' }).createIndex('userId', 'userId');
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  storeName: LocalStore,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** True when the browser can store data locally (not in some private modes or old browsers). */
+export const isLocalDatabaseAvailable = () => typeof indexedDB !== 'undefined';
+
+/** All records of one user in a store. */
+export const getAllForUser = <T>(storeName: LocalStore, userId: string) =>
+  runRequest<T[]>(storeName, 'readonly', store => store.index('userId').getAll(userId));
+
+/** Inserts or replaces a record (keyed by its `id`). */
+export const putRecord = <T extends { id: string; userId: string }>(storeName: LocalStore, record: T) =>
+  runRequest(storeName, 'readwrite', store => store.put(record)).then(() => undefined);
+
+export const deleteRecord = (storeName: LocalStore, id: string) =>
+  runRequest(storeName, 'readwrite', store => store.delete(id)).then(() => undefined);
@@ -0,0 +1,110 @@
+// Shared styling and aggregation helpers for the map's marker, heatmap and choropleth layers.
+
+import type { Expression } from 'mapbox-gl';
+import { rankColorFromNormalized } from './getBrixColor';
+import { stateRegionCode } from './regionCodes';
+
+export type MapLayerMode = 'points' | 'heatmap' | 'choropleth';
+export type ChoroplethLevel = 'country' | 'state';
+
+export const MAP_LAYER_OPTIONS: { value: MapLayerMode; label: string }[] = [
+  { value: 'points', label: 'Markers' },
+  { value: 'heatmap', label: 'Heatmap' },
+  { value: 'choropleth', label: 'Regions' },
+];
+
+export const CHOROPLETH_LEVEL_OPTIONS: { value: ChoroplethLevel; label: string }[] = [
+  { value: 'country', label: 'Country' },
+  { value: 'state', label: 'State' },
+];
+
+/**
+ * Vector tilesets the choropleth joins regions against, and the feature property it matches.
+ * Countries match by English name. Admin-1 features carry no names, only ISO 3166-2 codes,
+ * so states are matched by the code from lib/regionCodes. The admin-1 tileset is part of
+ * Mapbox Boundaries and only renders for tokens with access to it.
+ */
+export const CHOROPLETH_BOUNDARIES: Record<ChoroplethLevel, { url: string; sourceLayer: string; matchProperty: string }> = {
+  country: {
+    url: 'mapbox://mapbox.country-boundaries-v1',
+    sourceLayer: 'country_boundaries',
+    matchProperty: 'name_en',
+  },
+  state: {
+    url: 'mapbox://mapbox.boundaries-adm1-v4',
+    sourceLayer: 'boundaries_admin_1',
+    matchProperty: 'iso_3166_2',
+  },
+};
+
+// Lower bound of each rankColorFromNormalized bucket
+export const SCORE_LEGEND: { label: string; min: number; color: string }[] = [
+  { label: 'Poor', min: 1.0, color: rankColorFromNormalized(1.0).hex },
+  { label: 'Average', min: 1.25, color: rankColorFromNormalized(1.25).hex },
+  { label: 'Good', min: 1.5, color: rankColorFromNormalized(1.5).hex },
+  { label: 'Excellent', min: 1.75, color: rankColorFromNormalized(1.75).hex },
+];
+
+// Color by normalized score, using the same buckets as rankColorFromNormalized
+export function scoreColorExpression(score: Expression): Expression {
+  const [first, ...rest] = SCORE_LEGEND;
+  return ['step', score, first.color, ...rest.flatMap(({ min, color }) => [min, color])] as Expression;
+}
+
+// Heatmap density ramp running through the score colors, transparent where there is no data
+export const HEATMAP_COLOR_RAMP: Expression = [
+  'interpolate',
+  ['linear'],
+  ['heatmap-density'],
+  0, 'rgba(0,0,0,0)',
+  0.2, SCORE_LEGEND[0].color,
+  0.45, SCORE_LEGEND[1].color,
+  0.7, SCORE_LEGEND[2].color,
+  1, SCORE_LEGEND[3].color,
+];
+
+// Each heatmap point is a place: its normalized score (~1.0..2.0) maps to a 0..1 weight per
+// reading, times its number of readings
+export const HEATMAP_WEIGHT: Expression = [
+  '*',
+  ['interpolate', ['linear'], ['get', 'score'], 1, 0.1, 2, 1],
+  ['get', 'count'],
+];
+
+export interface RegionScore {
+  country: string;
+  // Only set for the state level
+  state: string | null;
+  averageScore: number;
+  count: number;
+}
+
+// Lower-cased value of the level's match property for a region, or null when it cannot be drawn
+function regionKey(region: RegionScore, level: ChoroplethLevel): string | null {
+  if (level === 'state') return stateRegionCode(region.country, region.state)?.toLowerCase() ?? null;
+  return region.country.trim().toLowerCase() || null;
+}
+
+/**
+ * Fill color for boundary polygons: regions with readings get their score color, everything
+ * else stays transparent. Rows spelled differently for the same region (e.g. "CA" and
+ * "California") are combined, weighting each average by its number of readings.
+ */
+export function regionFillExpression(regions: RegionScore[], level: ChoroplethLevel): Expression | string {
+  const totals = new Map<string, { scoreSum: number; count: number }>();
+  regions.forEach(region => {
+    const key = regionKey(region, level);
+    if (!key || region.count <= 0) return;
+    const total = totals.get(key) ?? { scoreSum: 0, count: 0 };
+    total.scoreSum += region.averageScore * region.count;
+    total.count += region.count;
+    totals.set(key, total);
+  });
+  if (totals.size === 0) return 'rgba(0,0,0,0)';
+  return [
+    'match',
+    ['downcase', ['coalesce', ['get', CHOROPLETH_BOUNDARIES[level].matchProperty], '']],
+    ...Array.from(totals).flatMap(([key, total]) => [key, rankColorFromNormalized(total.scoreSum / total.count).hex]),
+    'rgba(0,0,0,0)',
+  ] as Expression;
+}
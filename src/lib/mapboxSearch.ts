@@ -0,0 +1,124 @@
+import { getMapboxToken } from './getMapboxToken';
+
+// Mapbox Search Box API helpers shared by LocationSearch and the photo location lookup in DataEntry.
+
+export interface DetailedLocationInfo {
+  name: string;
+  latitude: number;
+  longitude: number;
+  street_address?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  poi_name?: string;
+  normalized_address?: string;
+  business_name?: string;
+}
+
+interface ContextName {
+  name?: string;
+  region_code?: string;
+  country_code?: string;
+}
+
+// The parts of a Search Box feature (retrieve / reverse responses) that are read here
+export interface MapboxFeature {
+  geometry: { coordinates: [number, number] };
+  properties?: {
+    name?: string;
+    category?: string;
+    address_number?: string;
+    street?: string;
+    full_address?: string;
+    place_formatted?: string;
+    context?: {
+      place?: ContextName;
+      locality?: ContextName;
+      region?: ContextName;
+      country?: ContextName;
+    };
+  };
+}
+
+export const extractDetailedLocationInfo = (feature: MapboxFeature): DetailedLocationInfo => {
+  const [longitude, latitude] = feature.geometry.coordinates;
+  const properties = feature.properties || {};
+  const context = properties.context || {};
+
+  // Log to debug structure
+  console.log('Mapbox feature:', feature);
+
+  const poi_name = properties.name || '';
+  const business_name = properties.category ? properties.name : '';
+
+  let street_address = '';
+
+  
+  if (properties.address_number || properties.street) {
+    const parts = [];
+    if (properties.address_number) parts.push(properties.address_number);
+    if (properties.street) parts.push(properties.street);
+    street_address = parts.join(' ');
+  }
+
+  if (!street_address && properties.full_address) {
+    street_address = properties.full_address; // fallback
+  }
+
+  const city = context.place?.name || context.locality?.name || '';
+  const state = context.region?.name || context.region?.region_code || '';
+  const country = context.country?.name || context.country?.country_code || '';
+
+  const address_components = [street_address, city, state].filter(Boolean);
+  const normalized_address = address_components.join(', ').toLowerCase().trim();
+
+  const display_name = properties.full_address ||
+    properties.place_formatted ||
+    `${street_address}${city ? ', ' + city : ''}`.trim() ||
+    poi_name ||
+    'Unknown Location';
+
+  return {
+    name: display_name,
+    latitude,
+    longitude,
+    street_address: street_address || undefined,
+    city: city || undefined,
+    state: state || undefined,
+    country: country || undefined,
+    poi_name: poi_name || undefined,
+    business_name: business_name || undefined,
+    normalized_address: normalized_address || undefined
+  };
+};
+
+/**
+ * Looks up the store or address at a coordinate, preferring points of interest (shops, markets).
+ * Resolves to null when Mapbox is unavailable or finds nothing.
+ */
+export async function reverseGeocode(latitude: number, longitude: number): Promise<DetailedLocationInfo | null> {
+  const token = await getMapboxToken();
+  if (!token) return null;
+
+  const params = new URLSearchParams({
+    latitude: String(latitude),
+    longitude: String(longitude),
+    access_token: token,
+    language: 'en',
+    limit: '1',
+    types: 'poi,address',
+  });
+
+  try {
+    const response = await fetch(`https://api.mapbox.com/search/searchbox/v1/reverse?${params}`);
+    if (!response.ok) {
+      throw new Error(`Mapbox API error: ${response.status}`);
+    }
+    const data = await response.json();
+    const feature: MapboxFeature | undefined = data.features?.[0];
+    return feature ? extractDetailedLocationInfo(feature) : null;
+  } catch (e) {
+    console.error('Reverse geocoding failed:', e);
+    return null;
+  }
+}
@@ -0,0 +1,262 @@
+// Reads the capture date and GPS position that phones write into photo EXIF, and removes the GPS
+// block from the copy that gets uploaded. Handles the EXIF containers of the formats DataEntry
+// accepts: JPEG (APP1 segment), PNG (eXIf chunk) and WebP (EXIF chunk).
+
+export interface PhotoMetadata {
+  takenOn: string | null; // yyyy-mm-dd, the camera's local date
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// A photo further than this from the chosen store is flagged for reviewers
+export const PHOTO_LOCATION_MISMATCH_METERS = 1000;
+
+export const isPhotoLocationMismatch = (distanceMeters: number | null | undefined) =>
+  distanceMeters != null && distanceMeters > PHOTO_LOCATION_MISMATCH_METERS;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const GPS_LATITUDE_REF = 0x0001;
+const GPS_LATITUDE = 0x0002;
+const GPS_LONGITUDE_REF = 0x0003;
+const GPS_LONGITUDE = 0x0004;
+
+// Byte size of each TIFF field type (1 BYTE, 2 ASCII, 3 SHORT, 4 LONG, 5 RATIONAL, ... 12 DOUBLE)
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // Absolute offset of the value bytes (inline in the entry when they fit in 4 bytes)
+  valueOffset: number;
+  byteLength: number;
+}
+
+// A TIFF structure (the payload of an EXIF block) inside the file's bytes
+class TiffReader {
+  private little: boolean;
+
+  constructor(private view: DataView, private start: number, private end: number) {
+    this.little = view.getUint16(start) === 0x4949; // 'II'
+  }
+
+  static at(view: DataView, start: number, end: number): TiffReader | null {
+    if (end - start < 8) return null;
+    const order = view.getUint16(start);
+    if (order !== 0x4949 && order !== 0x4d4d) return null;
+    const reader = new TiffReader(view, start, end);
+    return reader.u16(start + 2) === 42 ? reader : null;
+  }
+
+  u16(offset: number) {
+    return this.view.getUint16(offset, this.little);
+  }
+
+  u32(offset: number) {
+    return this.view.getUint32(offset, this.little);
+  }
+
+  firstIfd() {
+    return this.start + this.u32(this.start + 4);
+  }
+
+  entries(ifdOffset: number): IfdEntry[] {
+    if (ifdOffset + 2 > this.end) return [];
+    const count = this.u16(ifdOffset);
+    const entries: IfdEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const entryOffset = ifdOffset + 2 + i * 12;
+      if (entryOffset + 12 > this.end) break;
+      const type = this.u16(entryOffset + 2);
+      const valueCount = this.u32(entryOffset + 4);
+      const byteLength = (TYPE_SIZES[type] ?? 1) * valueCount;
+      const valueOffset = byteLength <= 4 ? entryOffset + 8 : this.start + this.u32(entryOffset + 8);
+      if (valueOffset + byteLength > this.end) continue;
+      entries.push({ tag: this.u16(entryOffset), type, count: valueCount, valueOffset, byteLength });
+    }
+    return entries;
+  }
+
+  subIfd(entries: IfdEntry[], tag: number): number | null {
+    const pointer = entries.find(e => e.tag === tag);
+    return pointer ? this.start + this.u32(pointer.valueOffset) : null;
+  }
+
+  ascii(entry: IfdEntry | undefined) {
+    if (!entry) return '';
+    let text = '';
+    for (let i = 0; i < entry.count; i++) {
+      const code = this.view.getUint8(entry.valueOffset + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim();
+  }
+
+  rationals(entry: IfdEntry | undefined): number[] {
+    if (!entry || entry.type !== 5) return [];
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const denominator = this.u32(entry.valueOffset + i * 8 + 4);
+      values.push(denominator ? this.u32(entry.valueOffset + i * 8) / denominator : 0);
+    }
+    return values;
+  }
+}
+
+interface ExifBlock {
+  start: number;
+  end: number;
+  // PNG chunks carry a CRC that must be rewritten after the block is edited
+  pngCrcOffset?: number;
+}
+
+const ascii4 = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+function findExifBlock(view: DataView): ExifBlock | null {
+  const length = view.byteLength;
+
+  // JPEG: FFD8, then marker segments until the image data starts
+  if (length > 4 && view.getUint16(0) === 0xffd8) {
+    let offset = 2;
+    while (offset + 4 <= length && view.getUint8(offset) === 0xff) {
+      const marker = view.getUint8(offset + 1);
+      const segmentLength = view.getUint16(offset + 2);
+      if (marker === 0xda) break; // start of scan
+      if (marker === 0xe1 && offset + 10 <= length && ascii4(view, offset + 4) === 'Exif') {
+        return { start: offset + 10, end: Math.min(offset + 2 + segmentLength, length) };
+      }
+      offset += 2 + segmentLength;
+    }
+    return null;
+  }
+
+  // PNG: 8-byte signature, then length/type/data/crc chunks
+  if (length > 8 && view.getUint32(0) === 0x89504e47) {
+    let offset = 8;
+    while (offset + 12 <= length) {
+      const chunkLength = view.getUint32(offset);
+      const type = ascii4(view, offset + 4);
+      if (type === 'eXIf') {
+        const start = offset + 8;
+        return { start, end: Math.min(start + chunkLength, length), pngCrcOffset: start + chunkLength };
+      }
+      if (type === 'IDAT' || type === 'IEND') break;
+      offset += 12 + chunkLength;
+    }
+    return null;
+  }
+
+  // WebP: RIFF container with little-endian chunk sizes, padded to even lengths
+  if (length > 12 && ascii4(view, 0) === 'RIFF' && ascii4(view, 8) === 'WEBP') {
+    let offset = 12;
+    while (offset + 8 <= length) {
+      const chunkLength = view.getUint32(offset + 4, true);
+      if (ascii4(view, offset) === 'EXIF') {
+        let start = offset + 8;
+        // Some encoders keep the JPEG-style "Exif\0\0" prefix
+        if (start + 6 <= length && ascii4(view, start) === 'Exif') start += 6;
+        return { start, end: Math.min(offset + 8 + chunkLength, length) };
+      }
+      offset += 8 + chunkLength + (chunkLength % 2);
+    }
+  }
+  return null;
+}
+
+// "2025:06:01 14:03:12" → "2025-06-01"
+function exifDateToDay(value: string): string | null {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+function toDegrees(parts: number[], ref: string): number | null {
+  if (parts.length < 3) return null;
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+/** Reads the capture date and position from a photo; fields are null when the photo has none. */
+export async function readPhotoMetadata(file: File): Promise<PhotoMetadata> {
+  const empty: PhotoMetadata = { takenOn: null, latitude: null, longitude: null };
+  try {
+    const view = new DataView(await file.arrayBuffer());
+    const block = findExifBlock(view);
+    const tiff = block && TiffReader.at(view, block.start, block.end);
+    if (!tiff) return empty;
+
+    const ifd0 = tiff.entries(tiff.firstIfd());
+    const exifIfd = tiff.subIfd(ifd0, TAG_EXIF_IFD);
+    const exifEntries = exifIfd ? tiff.entries(exifIfd) : [];
+    const takenOn =
+      exifDateToDay(tiff.ascii(exifEntries.find(e => e.tag === TAG_DATE_TIME_ORIGINAL))) ??
+      exifDateToDay(tiff.ascii(ifd0.find(e => e.tag === TAG_DATE_TIME)));
+
+    const gpsIfd = tiff.subIfd(ifd0, TAG_GPS_IFD);
+    const gps = gpsIfd ? tiff.entries(gpsIfd) : [];
+    const latitude = toDegrees(tiff.rationals(gps.find(e => e.tag === GPS_LATITUDE)), tiff.ascii(gps.find(e => e.tag === GPS_LATITUDE_REF)));
+    const longitude = toDegrees(tiff.rationals(gps.find(e => e.tag === GPS_LONGITUDE)), tiff.ascii(gps.find(e => e.tag === GPS_LONGITUDE_REF)));
+    // 0,0 is what some cameras write when they had no fix
+    const hasFix = latitude != null && longitude != null && (latitude !== 0 || longitude !== 0);
+
+    return {
+      takenOn,
+      latitude: hasFix ? latitude : null,
+      longitude: hasFix ? longitude : null,
+    };
+  } catch (err) {
+    console.error('Failed to read photo metadata:', err);
+    return empty;
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Returns a copy of the photo without its GPS position, or the photo itself when it has none.
+ * The GPS directory is emptied in place, so the rest of the EXIF (orientation, date) is kept.
+ */
+export async function stripGpsMetadata(file: File): Promise<File> {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const block = findExifBlock(view);
+    const tiff = block && TiffReader.at(view, block.start, block.end);
+    const gpsIfd = tiff && tiff.subIfd(tiff.entries(tiff.firstIfd()), TAG_GPS_IFD);
+    if (!gpsIfd) return file;
+
+    const entries = tiff.entries(gpsIfd);
+    if (entries.length === 0) return file;
+    for (const entry of entries) {
+      bytes.fill(0, entry.valueOffset, entry.valueOffset + entry.byteLength);
+    }
+    // An empty directory: zero entries, then the entries themselves
+    bytes.fill(0, gpsIfd, Math.min(gpsIfd + 2 + tiff.u16(gpsIfd) * 12, block.end));
+
+    if (block.pngCrcOffset != null) {
+      const typeAndData = bytes.subarray(block.start - 4, block.end);
+      view.setUint32(block.pngCrcOffset, crc32(typeAndData));
+    }
+
+    return new File([bytes], file.name, { type: file.type, lastModified: file.lastModified });
+  } catch (err) {
+    // Never fall back to the original here: the caller decides whether to send it without cleaning
+    console.error('Failed to strip photo GPS metadata:', err);
+    throw err;
+  }
+}
@@ -0,0 +1,242 @@
+import { supabase } from '../integrations/supabase/client';
+
+// Product codes identify the brand and crop of a scanned item: UPC/EAN barcodes on packaging and
+// PLU codes on produce stickers. Contributors register unknown codes, admins approve them.
+
+// 'gtin' covers UPC-A and EAN-13, stored as 13 digits so both scans of one product match
+export type ProductCodeType = 'gtin' | 'ean8' | 'plu';
+export type ProductCodeStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ParsedProductCode {
+  code: string;
+  type: ProductCodeType;
+}
+
+export interface ProductCode {
+  id: string;
+  code: string;
+  codeType: ProductCodeType;
+  status: ProductCodeStatus;
+  brandName: string | null;
+  brandLabel: string | null;
+  cropName: string | null;
+  cropLabel: string | null;
+  variety: string | null;
+  submittedBy: string | null;
+  createdAt: string;
+}
+
+export interface NewProductCode extends ParsedProductCode {
+  brandId: string | null;
+  cropId: string | null;
+  variety: string | null;
+  userId: string;
+}
+
+const PRODUCT_CODE_SELECT = `
+  id,
+  code,
+  code_type,
+  status,
+  variety,
+  created_at,
+  brand:brand_id(name,label),
+  crop:crop_id(name,label),
+  submitter:users!submitted_by(display_name)
+`;
+
+interface ProductCodeRow {
+  id: string;
+  code: string;
+  code_type: string;
+  status: string;
+  variety: string | null;
+  created_at: string;
+  brand: { name: string; label: string | null } | null;
+  crop: { name: string; label: string | null } | null;
+  submitter: { display_name: string | null } | null;
+}
+
+const formatProductCode = (row: ProductCodeRow): ProductCode => ({
+  id: row.id,
+  code: row.code,
+  codeType: row.code_type as ProductCodeType,
+  status: row.status as ProductCodeStatus,
+  brandName: row.brand?.name ?? null,
+  brandLabel: row.brand?.label ?? row.brand?.name ?? null,
+  cropName: row.crop?.name ?? null,
+  cropLabel: row.crop?.label ?? row.crop?.name ?? null,
+  variety: row.variety,
+  submittedBy: row.submitter?.display_name ?? null,
+  createdAt: row.created_at,
+});
+
+// GS1 check digit: weights 3 and 1 alternate from the rightmost data digit
+function hasValidCheckDigit(digits: string) {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const weight = (body.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(body[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Recognises a scanned or typed code. PLUs are 4 digits, or 5 with a 9 (organic) prefix;
+ * UPC-E codes are stored as the GTIN of their UPC-A form.
+ * @returns null when the input is not a PLU or a GTIN with a valid check digit.
+ */
+export function parseProductCode(raw: string): ParsedProductCode | null {
+  const digits = raw.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return null;
+
+  if (/^[3-4]\d{3}$/.test(digits) || /^9[3-4]\d{3}$/.test(digits)) {
+    return { code: digits, type: 'plu' };
+  }
+  if (digits.length === 8 && hasValidCheckDigit(digits)) {
+    return { code: digits, type: 'ean8' };
+  }
+  // A typed 8-digit code that is not a valid EAN-8 may be a UPC-E
+  const upcA = digits.length === 8 ? expandUpcE(digits) : null;
+  if (upcA && hasValidCheckDigit(upcA)) {
+    return { code: upcA.padStart(13, '0'), type: 'gtin' };
+  }
+  if ((digits.length === 12 || digits.length === 13) && hasValidCheckDigit(digits)) {
+    return { code: digits.padStart(13, '0'), type: 'gtin' };
+  }
+  return null;
+}
+
+/**
+ * Expands an 8-digit UPC-E code (number system, six digits, check digit) to its 12-digit UPC-A
+ * form, so it is stored as the same GTIN as a UPC-A scan of the product.
+ * @returns null when the input is not a UPC-E code.
+ */
+export function expandUpcE(raw: string): string | null {
+  if (!/^[01]\d{7}$/.test(raw)) return null;
+  const [system, d1, d2, d3, d4, d5, d6, check] = raw;
+  let body: string;
+  if ('012'.includes(d6)) body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  else if (d6 === '3') body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  else if (d6 === '4') body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  else body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${system}${body}${check}`;
+}
+
+export const productCodeTypeLabel = (type: ProductCodeType) =>
+  type === 'plu' ? 'PLU' : type === 'ean8' ? 'EAN-8' : 'UPC/EAN';
+
+// The Barcode Detection API is not in the DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const BARCODE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+const barcodeDetectorClass = () =>
+  (globalThis as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+/**
+ * True when the browser can decode barcodes itself. Only Chromium browsers ship the Barcode
+ * Detection API (Chrome and Edge on Android, macOS and ChromeOS); Safari and Firefox do not.
+ */
+export const isBarcodeScanningSupported = () => typeof barcodeDetectorClass() === 'function';
+
+let detector: BarcodeDetectorInstance | null = null;
+
+/**
+ * Decodes the first product barcode in a video frame or image.
+ * @returns null when none is found or the browser cannot decode barcodes.
+ */
+export async function detectProductCode(source: ImageBitmapSource): Promise<ParsedProductCode | null> {
+  const Detector = barcodeDetectorClass();
+  if (!Detector) return null;
+  detector = detector ?? new Detector({ formats: BARCODE_FORMATS });
+
+  const barcodes = await detector.detect(source);
+  for (const barcode of barcodes) {
+    // UPC-E has 8 digits like EAN-8 but a different check digit, so it is expanded first
+    const value = barcode.format === 'upc_e' ? expandUpcE(barcode.rawValue) : barcode.rawValue;
+    const parsed = value ? parseProductCode(value) : null;
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+/**
+ * Looks up a code; contributors see approved codes and the ones they registered themselves.
+ * A rejected code can be registered again, so the newest row wins.
+ */
+export async function lookupProductCode(code: string): Promise<ProductCode | null> {
+  const { data, error } = await supabase
+    .from('product_codes')
+    .select(PRODUCT_CODE_SELECT)
+    .eq('code', code)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error looking up product code:', error);
+    throw error;
+  }
+  return data ? formatProductCode(data as unknown as ProductCodeRow) : null;
+}
+
+/**
+ * Registers an unknown or previously rejected code for admin approval.
+ * @throws A friendly error when someone else already registered the code.
+ */
+export async function registerProductCode(newCode: NewProductCode): Promise<void> {
+  const { error } = await supabase.from('product_codes').insert({
+    code: newCode.code,
+    code_type: newCode.type,
+    brand_id: newCode.brandId,
+    crop_id: newCode.cropId,
+    variety: newCode.variety || null,
+    status: 'pending',
+    submitted_by: newCode.userId,
+  });
+
+  if (error) {
+    console.error('Error registering product code:', error);
+    if (error.code === '23505') {
+      throw new Error('This code has already been registered and is awaiting review.');
+    }
+    throw error;
+  }
+}
+
+/** Codes waiting for admin review, oldest first. */
+export async function fetchPendingProductCodes(): Promise<ProductCode[]> {
+  const { data, error } = await supabase
+    .from('product_codes')
+    .select(PRODUCT_CODE_SELECT)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching pending product codes:', error);
+    throw error;
+  }
+  return ((data ?? []) as unknown as ProductCodeRow[]).map(formatProductCode);
+}
+
+/** Approves or rejects registered codes. */
+export async function reviewProductCodes(ids: string[], status: 'approved' | 'rejected', reviewerId: string): Promise<void> {
+  const { error } = await supabase
+    .from('product_codes')
+    .update({ status, reviewed_by: reviewerId, reviewed_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) {
+    console.error('Error reviewing product codes:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,92 @@
+// Provenance of a sample: how it was grown, where it came from, what it cost and whether it was
+// bought or picked at the farm. The allowed values match the check constraints on submissions
+// and the lists in the auto-verify-submission edge function.
+
+export type GrowingMethod = 'organic' | 'conventional' | 'hydroponic';
+export type SampleSource = 'purchased' | 'farm_picked';
+export type PriceUnit = 'each' | 'lb' | 'oz' | 'kg' | 'g' | 'bunch' | 'pack';
+
+export const GROWING_METHOD_LABELS: Record<GrowingMethod, string> = {
+  organic: 'Organic',
+  conventional: 'Conventional',
+  hydroponic: 'Hydroponic',
+};
+
+export const SAMPLE_SOURCE_LABELS: Record<SampleSource, string> = {
+  purchased: 'Purchased',
+  farm_picked: 'Farm-picked',
+};
+
+export const PRICE_UNIT_LABELS: Record<PriceUnit, string> = {
+  each: 'each',
+  lb: 'per lb',
+  oz: 'per oz',
+  kg: 'per kg',
+  g: 'per g',
+  bunch: 'per bunch',
+  pack: 'per pack',
+};
+
+export const GROWING_METHODS = Object.keys(GROWING_METHOD_LABELS) as GrowingMethod[];
+export const SAMPLE_SOURCES = Object.keys(SAMPLE_SOURCE_LABELS) as SampleSource[];
+export const PRICE_UNITS = Object.keys(PRICE_UNIT_LABELS) as PriceUnit[];
+
+/** Label for a stored growing method, or null when it is not recorded. */
+export const growingMethodLabel = (method: string | null | undefined) =>
+  method ? GROWING_METHOD_LABELS[method as GrowingMethod] ?? method : null;
+
+export const sampleSourceLabel = (source: string | null | undefined) =>
+  source ? SAMPLE_SOURCE_LABELS[source as SampleSource] ?? source : null;
+
+// Currencies offered when entering a price; any ISO 4217 code is accepted by the server
+export const CURRENCIES = ['USD', 'CAD', 'MXN', 'EUR', 'GBP', 'AUD', 'NZD', 'JPY', 'INR', 'BRL', 'ZAR', 'CHF'];
+
+// Local currency by country name as stored on places; used to preselect the currency
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  'united states': 'USD',
+  'united states of america': 'USD',
+  canada: 'CAD',
+  mexico: 'MXN',
+  'united kingdom': 'GBP',
+  australia: 'AUD',
+  'new zealand': 'NZD',
+  japan: 'JPY',
+  india: 'INR',
+  brazil: 'BRL',
+  'south africa': 'ZAR',
+  switzerland: 'CHF',
+  austria: 'EUR',
+  belgium: 'EUR',
+  finland: 'EUR',
+  france: 'EUR',
+  germany: 'EUR',
+  greece: 'EUR',
+  ireland: 'EUR',
+  italy: 'EUR',
+  netherlands: 'EUR',
+  portugal: 'EUR',
+  spain: 'EUR',
+};
+
+/** The local currency for a country name, or null when it is not known. */
+export const currencyForCountry = (country: string | null | undefined) =>
+  country ? COUNTRY_CURRENCIES[country.trim().toLowerCase()] ?? null : null;
+
+/** "$3.49 per lb" (or "3.49 per lb" without a currency); null when no price was recorded. */
+export function formatPrice(
+  price: number | null | undefined,
+  unit: string | null | undefined,
+  currency?: string | null,
+): string | null {
+  if (price == null) return null;
+  const unitLabel = unit ? PRICE_UNIT_LABELS[unit as PriceUnit] ?? unit : '';
+  let amount = price.toFixed(2);
+  if (currency) {
+    try {
+      amount = new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(price);
+    } catch {
+      amount = `${price.toFixed(2)} ${currency}`;
+    }
+  }
+  return `${amount} ${unitLabel}`.trim();
+}
@@ -0,0 +1,160 @@
+// src/lib/querySubmissions.ts
+
+import { supabase } from '../integrations/supabase/client';
+import type { Json } from 'database.types';
+import { BrixDataPoint, MapFilter } from '../types';
+import { DEFAULT_MAP_FILTERS } from '../contexts/FilterContext';
+import {
+  SUBMISSIONS_SELECT_QUERY_STRING,
+  SupabaseSubmissionRow,
+  formatSubmissionData,
+} from './fetchSubmissions';
+
+export type SubmissionSortField = 'submittedAt' | 'brixLevel' | 'cropType' | 'locationName' | 'valueScore';
+
+export interface SubmissionQuery {
+  filters: MapFilter;
+  isAdmin: boolean;
+  search?: string;
+  sortBy?: SubmissionSortField;
+  sortOrder?: 'asc' | 'desc';
+  // Restricts results to these places, e.g. the branches of a store chain
+  placeIds?: string[];
+}
+
+export interface SubmissionPage {
+  data: BrixDataPoint[];
+  totalCount: number;
+}
+
+// PostgREST column (or embedded column) each sortable BrixDataPoint field maps to
+const SORT_COLUMNS: Record<SubmissionSortField, string> = {
+  submittedAt: 'assessment_date',
+  brixLevel: 'brix_value',
+  cropType: 'crop(name)',
+  locationName: 'location(name)',
+  // Computed column; see lib/valueScore
+  valueScore: 'value_score',
+};
+
+// PostgREST caps responses at 1000 rows by default
+const MAX_ROWS_PER_REQUEST = 1000;
+
+function isSet(value: string | undefined, defaultValue: string | undefined): boolean {
+  return !!value && value !== defaultValue;
+}
+
+/**
+ * The `filters` argument of the `filter_submissions` RPC for a query. Filters left at their
+ * defaults are omitted. It is sent in the request body, so long place id lists are fine.
+ */
+export function toFilterParams({ filters, isAdmin, search, placeIds }: SubmissionQuery): Json {
+  const params: { [key: string]: Json } = {
+    // Non-admins only ever see verified data
+    verified_only: !isAdmin || filters.verifiedOnly,
+  };
+  const text = (key: string, value: string | undefined, defaultValue: string | undefined) => {
+    if (isSet(value, defaultValue) && value.trim()) params[key] = value.trim();
+  };
+
+  const [minBrix, maxBrix] = filters.brixRange;
+  if (minBrix !== DEFAULT_MAP_FILTERS.brixRange[0] || maxBrix !== DEFAULT_MAP_FILTERS.brixRange[1]) {
+    params.min_brix = minBrix;
+    params.max_brix = maxBrix;
+  }
+
+  const [startDate, endDate] = filters.dateRange;
+  if (startDate) params.start_date = startDate;
+  if (endDate) params.end_date = endDate;
+
+  if (filters.cropTypes.length > 0) params.crop_names = filters.cropTypes;
+  text('category', filters.category, DEFAULT_MAP_FILTERS.category);
+  text('brand', filters.brand, DEFAULT_MAP_FILTERS.brand);
+  text('submitted_by', filters.submittedBy, DEFAULT_MAP_FILTERS.submittedBy);
+  text('city', filters.city, DEFAULT_MAP_FILTERS.city);
+  text('state', filters.state, DEFAULT_MAP_FILTERS.state);
+  text('country', filters.country, DEFAULT_MAP_FILTERS.country);
+  text('growing_method', filters.growingMethod, DEFAULT_MAP_FILTERS.growingMethod);
+  text('sample_source', filters.sampleSource, DEFAULT_MAP_FILTERS.sampleSource);
+  text('origin_country', filters.originCountry, DEFAULT_MAP_FILTERS.originCountry);
+  text('place', filters.place, DEFAULT_MAP_FILTERS.place);
+  text('location', filters.location, DEFAULT_MAP_FILTERS.location);
+  if (filters.hasImage) params.has_image = true;
+  text('search', search, '');
+  if (placeIds) params.place_ids = placeIds;
+
+  return params;
+}
+
+/**
+ * Builds the filtered submissions query for a MapFilter. Filtering happens in the
+ * `filter_submissions` RPC, which returns submission rows, so related tables are still
+ * embedded and sorting, counting and pagination still happen in PostgREST.
+ */
+function buildSubmissionsQuery(query: SubmissionQuery, count?: 'exact') {
+  const { sortBy = 'submittedAt', sortOrder = 'desc' } = query;
+  const selectString: string = SUBMISSIONS_SELECT_QUERY_STRING;
+
+  let builder = supabase
+    .rpc('filter_submissions', { filters: toFilterParams(query) }, count ? { count } : undefined)
+    .select(selectString);
+
+  if (sortBy === 'valueScore') {
+    // Values in different currencies or units are not comparable, so group by basis first;
+    // submissions without a usable price sort last either way
+    builder = builder
+      .order('value_basis', { ascending: true, nullsFirst: false })
+      .order(SORT_COLUMNS.valueScore, { ascending: sortOrder === 'asc', nullsFirst: false });
+  } else {
+    builder = builder.order(SORT_COLUMNS[sortBy], { ascending: sortOrder === 'asc' });
+  }
+  // Tie-breaker so range pagination is stable
+  return builder.order('id', { ascending: true });
+}
+
+/**
+ * Fetches one page of submissions matching the filters, sorted and paginated by the server.
+ * @param page 1-based page number.
+ */
+export async function fetchSubmissionsPage(query: SubmissionQuery, page: number, pageSize: number): Promise<SubmissionPage> {
+  if (query.placeIds?.length === 0) return { data: [], totalCount: 0 };
+
+  const from = (page - 1) * pageSize;
+  const { data, error, count } = await buildSubmissionsQuery(query, 'exact').range(from, from + pageSize - 1);
+
+  if (error) {
+    console.error('Error fetching submissions page:', error);
+    throw error;
+  }
+
+  return {
+    data: ((data ?? []) as unknown as SupabaseSubmissionRow[]).map(formatSubmissionData),
+    totalCount: count ?? 0,
+  };
+}
+
+/**
+ * Fetches every submission matching the filters in the requested order, a chunk at a time.
+ * Used for exports where the whole result set is needed rather than one page.
+ */
+export async function fetchAllMatchingSubmissions(query: SubmissionQuery): Promise<BrixDataPoint[]> {
+  const results: BrixDataPoint[] = [];
+  if (query.placeIds?.length === 0) return results;
+
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await buildSubmissionsQuery(query).range(from, from + MAX_ROWS_PER_REQUEST - 1);
+    if (error) {
+      console.error('Error fetching submissions for export:', error);
+      throw error;
+    }
+
+    const rows = (data ?? []) as unknown as SupabaseSubmissionRow[];
+    results.push(...rows.map(formatSubmissionData));
+    if (rows.length < MAX_ROWS_PER_REQUEST) return results;
+  }
+}
+
+/** Fetches every submission matching the filters at the given places. */
+export async function fetchSubmissionsForPlaces(query: SubmissionQuery, placeIds: string[]): Promise<BrixDataPoint[]> {
+  return fetchAllMatchingSubmissions({ ...query, placeIds });
+}
@@ -0,0 +1,64 @@
+// ISO 3166-2 codes for first-level regions, which the state choropleth matches against
+// boundary features. Places only store free-text state names, so this maps the names (and the
+// postal abbreviations people often type) of the countries we have readings for.
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  'united states': 'US',
+  'united states of america': 'US',
+  usa: 'US',
+  us: 'US',
+  canada: 'CA',
+  ca: 'CA',
+  australia: 'AU',
+  au: 'AU',
+};
+
+const REGION_NAMES: Record<string, Record<string, string>> = {
+  US: {
+    AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+    CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia',
+    HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas',
+    KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts',
+    MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi', MO: 'Missouri', MT: 'Montana',
+    NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico',
+    NY: 'New York', NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma',
+    OR: 'Oregon', PA: 'Pennsylvania', PR: 'Puerto Rico', RI: 'Rhode Island',
+    SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah',
+    VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin',
+    WY: 'Wyoming',
+  },
+  CA: {
+    AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick',
+    NL: 'Newfoundland and Labrador', NS: 'Nova Scotia', NT: 'Northwest Territories',
+    NU: 'Nunavut', ON: 'Ontario', PE: 'Prince Edward Island', QC: 'Quebec',
+    SK: 'Saskatchewan', YT: 'Yukon',
+  },
+  AU: {
+    ACT: 'Australian Capital Territory', NSW: 'New South Wales', NT: 'Northern Territory',
+    QLD: 'Queensland', SA: 'South Australia', TAS: 'Tasmania', VIC: 'Victoria',
+    WA: 'Western Australia',
+  },
+};
+
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+// country code -> normalized name or abbreviation -> ISO 3166-2 code
+const REGION_LOOKUP = new Map(
+  Object.entries(REGION_NAMES).map(([country, regions]) => {
+    const lookup = new Map<string, string>();
+    Object.entries(regions).forEach(([abbreviation, name]) => {
+      const code = `${country}-${abbreviation}`;
+      lookup.set(normalize(abbreviation), code);
+      lookup.set(normalize(name), code);
+    });
+    return [country, lookup] as const;
+  })
+);
+
+/** ISO 3166-2 code (e.g. `US-MI`) for a state name or abbreviation, or null when unknown. */
+export function stateRegionCode(country: string | null | undefined, state: string | null | undefined): string | null {
+  if (!country || !state) return null;
+  const countryCode = COUNTRY_ALIASES[normalize(country)];
+  return REGION_LOOKUP.get(countryCode)?.get(normalize(state)) ?? null;
+}
@@ -0,0 +1,185 @@
+import { supabase } from '../integrations/supabase/client';
+import { BrixDataPoint } from '../types';
+import { BrixThresholds } from './getBrixQuality';
+import { computeNormalizedScore } from './getBrixColor';
+import { fetchSubmissionsForPlaces } from './querySubmissions';
+import { DEFAULT_MAP_FILTERS } from '../contexts/FilterContext';
+
+// Store chains (`locations`) and their branches (`places`, one per physical store). The chain
+// page compares branches; the branch page shows one store's history.
+
+export interface StoreChain {
+  id: string;
+  name: string;
+  label: string | null;
+}
+
+export interface Branch {
+  id: string;
+  label: string | null;
+  streetAddress: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  latitude: number;
+  longitude: number;
+  // Null for an independent store
+  chain: StoreChain | null;
+}
+
+export interface CropSummary {
+  crop: string;
+  label: string;
+  submissionCount: number;
+  // Average normalized score (1-2), null when no reading could be scored
+  averageScore: number | null;
+  lastAssessed: string | null;
+}
+
+export interface BranchSummary {
+  branch: Branch;
+  submissionCount: number;
+  averageScore: number | null;
+  bestCrop: CropSummary | null;
+  // Only set when the branch has more than one scored crop
+  worstCrop: CropSummary | null;
+  lastAssessed: string | null;
+}
+
+export type ScoreOf = (point: BrixDataPoint) => number | null;
+
+interface PlaceRow {
+  id: string;
+  label: string | null;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  latitude: number;
+  longitude: number;
+  location: StoreChain | null;
+}
+
+const PLACE_COLUMNS = 'id, label, street_address, city, state, country, latitude, longitude, location:location_id(id, name, label)';
+
+const toBranch = (row: PlaceRow): Branch => ({
+  id: row.id,
+  label: row.label,
+  streetAddress: row.street_address,
+  city: row.city,
+  state: row.state,
+  country: row.country,
+  latitude: row.latitude,
+  longitude: row.longitude,
+  chain: row.location,
+});
+
+export const chainName = (chain: StoreChain | null) => (chain ? chain.label || chain.name : 'Independent store');
+
+export const branchName = (branch: Branch) =>
+  branch.label || branch.streetAddress || [branch.city, branch.state].filter(Boolean).join(', ') || 'Unnamed store';
+
+/** A chain and all of its branches, or null when the chain does not exist. */
+export async function fetchChain(chainId: string): Promise<{ chain: StoreChain; branches: Branch[] } | null> {
+  const [{ data: chain, error: chainError }, { data: places, error: placesError }] = await Promise.all([
+    supabase.from('locations').select('id, name, label').eq('id', chainId).maybeSingle(),
+    supabase.from('places').select(PLACE_COLUMNS).eq('location_id', chainId).order('city'),
+  ]);
+
+  if (chainError || placesError) {
+    console.error('Error fetching store chain:', chainError ?? placesError);
+    throw chainError ?? placesError;
+  }
+  if (!chain) return null;
+  return { chain, branches: ((places ?? []) as unknown as PlaceRow[]).map(toBranch) };
+}
+
+/** One branch with its chain, or null when the place does not exist. */
+export async function fetchBranch(placeId: string): Promise<Branch | null> {
+  const { data, error } = await supabase.from('places').select(PLACE_COLUMNS).eq('id', placeId).maybeSingle();
+
+  if (error) {
+    console.error('Error fetching branch:', error);
+    throw error;
+  }
+  return data ? toBranch(data as unknown as PlaceRow) : null;
+}
+
+/** Verified readings taken at the given branches, as counted on the map and leaderboards. */
+export async function fetchBranchSubmissions(placeIds: string[]): Promise<BrixDataPoint[]> {
+  if (placeIds.length === 0) return [];
+  return fetchSubmissionsForPlaces({ filters: DEFAULT_MAP_FILTERS, isAdmin: false }, placeIds);
+}
+
+/**
+ * Scores readings on the 1-2 normalized scale the map and leaderboards use, by their crop's
+ * thresholds. Crops without thresholds fall back to the BRIX range of the given readings.
+ */
+export function createScorer(
+  points: BrixDataPoint[],
+  thresholdsFor: (cropName: string, assessmentDate?: string | null) => BrixThresholds | undefined,
+): ScoreOf {
+  const values = points.map(p => p.brixLevel).filter(v => typeof v === 'number' && !isNaN(v));
+  const minBrix = values.length > 0 ? Math.min(...values) : 0;
+  const maxBrix = values.length > 0 ? Math.max(...values) : 20;
+  return point => {
+    if (typeof point.brixLevel !== 'number' || isNaN(point.brixLevel)) return null;
+    const thresholds = thresholdsFor(point.cropType ?? point.cropLabel, point.submittedAt) ?? null;
+    return computeNormalizedScore(point.brixLevel, thresholds, minBrix, maxBrix);
+  };
+}
+
+const latest = (a: string | null, b: string | null) => (!a ? b : !b ? a : a > b ? a : b);
+
+/** Per-crop averages for a set of readings, best first; crops that could not be scored go last. */
+export function summarizeCrops(points: BrixDataPoint[], scoreOf: ScoreOf): CropSummary[] {
+  const groups = new Map<string, CropSummary & { total: number; scored: number }>();
+  points.forEach(point => {
+    const crop = point.cropType || 'unknown';
+    const group = groups.get(crop) ?? {
+      crop,
+      label: point.cropLabel || point.cropType || 'Unknown',
+      submissionCount: 0,
+      averageScore: null,
+      lastAssessed: null,
+      total: 0,
+      scored: 0,
+    };
+    group.submissionCount++;
+    group.lastAssessed = latest(group.lastAssessed, point.submittedAt);
+    const score = scoreOf(point);
+    if (score !== null) {
+      group.total += score;
+      group.scored++;
+    }
+    groups.set(crop, group);
+  });
+
+  return Array.from(groups.values())
+    .map(({ total, scored, ...summary }) => ({ ...summary, averageScore: scored > 0 ? total / scored : null }))
+    .sort((a, b) => (b.averageScore ?? -1) - (a.averageScore ?? -1));
+}
+
+/** One summary per branch, best average score first; branches without readings go last. */
+export function summarizeBranches(branches: Branch[], points: BrixDataPoint[], scoreOf: ScoreOf): BranchSummary[] {
+  const byPlace = new Map<string, BrixDataPoint[]>();
+  points.forEach(point => {
+    byPlace.set(point.placeId, [...(byPlace.get(point.placeId) ?? []), point]);
+  });
+
+  return branches
+    .map(branch => {
+      const readings = byPlace.get(branch.id) ?? [];
+      const scores = readings.map(scoreOf).filter((s): s is number => s !== null);
+      const crops = summarizeCrops(readings, scoreOf).filter(c => c.averageScore !== null);
+      return {
+        branch,
+        submissionCount: readings.length,
+        averageScore: scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null,
+        bestCrop: crops[0] ?? null,
+        worstCrop: crops.length > 1 ? crops[crops.length - 1] : null,
+        lastAssessed: readings.reduce<string | null>((last, p) => latest(last, p.submittedAt), null),
+      };
+    })
+    .sort((a, b) => (b.averageScore ?? -1) - (a.averageScore ?? -1) || b.submissionCount - a.submissionCount);
+}
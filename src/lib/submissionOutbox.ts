@@ -0,0 +1,196 @@
+import { supabase } from '../integrations/supabase/client';
+import {
+  createBrandsAndStores,
+  isNetworkError,
+  postSubmission,
+  SubmissionPayload,
+  uploadSubmissionImage,
+} from './submitReading';
+import { deleteRecord, getAllForUser, isLocalDatabaseAvailable, putRecord } from './localDatabase';
+
+// Readings that could not be sent (no signal in the store or at the farm) are kept in IndexedDB
+// together with their photos and retried when the device is back online.
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  payload: SubmissionPayload;
+  images: File[];
+  // Brands and stores typed into the form that still have to be created
+  pendingBrands: string[];
+  pendingStores: string[];
+  status: OutboxStatus;
+  // Set once the edge function has stored the reading, so a retry only re-sends the photos
+  submissionId?: string;
+  verified?: boolean;
+  uploadedImages: number[];
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewOutboxEntry {
+  userId: string;
+  payload: SubmissionPayload;
+  images: File[];
+  pendingBrands: string[];
+  pendingStores: string[];
+}
+
+export interface SendOutcome {
+  // 'sent' when the reading and all photos reached the server, 'queued' when it was kept for later
+  state: 'sent' | 'queued';
+  verified: boolean;
+  submissionId?: string;
+  failedImages: number;
+}
+
+// Fired on window whenever the outbox changes, so lists can refresh
+export const OUTBOX_CHANGED_EVENT = 'brix-outbox-changed';
+// Fired after queued readings reached the server, so submission lists can reload
+export const OUTBOX_SENT_EVENT = 'brix-outbox-sent';
+
+const notifyChanged = () => window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+
+async function saveEntry(entry: OutboxEntry) {
+  await putRecord('submissions', { ...entry, updatedAt: new Date().toISOString() });
+  notifyChanged();
+}
+
+/** Lists the queued readings of one contributor, oldest first. */
+export async function listOutbox(userId: string): Promise<OutboxEntry[]> {
+  const entries = await getAllForUser<OutboxEntry>('submissions', userId);
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Drops a queued reading without sending it. */
+export async function removeOutboxEntry(id: string) {
+  await deleteRecord('submissions', id);
+  notifyChanged();
+}
+
+/**
+ * Runs the submission steps that have not completed yet for one entry: creating new brands and
+ * stores, posting the reading, then uploading each photo. Progress is written back to the outbox
+ * after every step, so an interrupted send resumes where it stopped.
+ */
+async function sendEntry(entry: OutboxEntry, persist: boolean): Promise<SendOutcome> {
+  const save = (changes: Partial<OutboxEntry>) => {
+    Object.assign(entry, changes);
+    return persist ? saveEntry(entry) : Promise.resolve();
+  };
+
+  if (!entry.submissionId) {
+    if (entry.pendingBrands.length || entry.pendingStores.length) {
+      await createBrandsAndStores(entry.pendingBrands, entry.pendingStores);
+      await save({ pendingBrands: [], pendingStores: [] });
+    }
+    const { submission_id, verified } = await postSubmission(entry.payload);
+    await save({ submissionId: submission_id, verified });
+  }
+
+  let failedImages = 0;
+  for (let i = 0; i < entry.images.length; i++) {
+    if (entry.uploadedImages.includes(i)) continue;
+    try {
+      await uploadSubmissionImage(entry.userId, entry.submissionId, entry.images[i], i);
+      await save({ uploadedImages: [...entry.uploadedImages, i] });
+    } catch (err) {
+      if (isNetworkError(err)) throw err;
+      // The server refused this photo; retrying will not help, so keep the reading without it
+      console.error('Image upload failed:', err);
+      failedImages++;
+      await save({ uploadedImages: [...entry.uploadedImages, i] });
+    }
+  }
+
+  return { state: 'sent', verified: !!entry.verified, submissionId: entry.submissionId, failedImages };
+}
+
+/**
+ * Submits a reading straight away, falling back to the outbox when the device is offline or the
+ * connection drops part-way. Errors from the server itself (e.g. validation) are thrown as before.
+ */
+export async function submitOrQueue(newEntry: NewOutboxEntry): Promise<SendOutcome> {
+  const now = new Date().toISOString();
+  const entry: OutboxEntry = {
+    ...newEntry,
+    id: crypto.randomUUID(),
+    status: 'queued',
+    uploadedImages: [],
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (navigator.onLine) {
+    try {
+      return await sendEntry(entry, false);
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+      entry.attempts = 1;
+      entry.lastError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  await saveEntry(entry);
+  return { state: 'queued', verified: false, submissionId: entry.submissionId, failedImages: 0 };
+}
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Retries every queued reading of the signed-in contributor. Only their own entries are sent,
+ * because the photos are stored under the uploader's folder. Resolves to the number sent.
+ * @param onlyQueued Skip entries that already failed with a server error (used by automatic retries).
+ */
+export function flushOutbox(onlyQueued = false): Promise<number> {
+  if (!flushing) {
+    flushing = (async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user || !navigator.onLine) return 0;
+
+      let sent = 0;
+      for (const entry of await listOutbox(session.user.id)) {
+        if (onlyQueued && entry.status === 'failed') continue;
+        entry.status = 'sending';
+        await saveEntry(entry);
+        try {
+          await sendEntry(entry, true);
+          await removeOutboxEntry(entry.id);
+          sent++;
+        } catch (err) {
+          const offline = isNetworkError(err);
+          await saveEntry({
+            ...entry,
+            status: offline ? 'queued' : 'failed',
+            attempts: entry.attempts + 1,
+            lastError: err instanceof Error ? err.message : String(err),
+          });
+          if (offline) break;
+        }
+      }
+      if (sent > 0) window.dispatchEvent(new Event(OUTBOX_SENT_EVENT));
+      return sent;
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+/** Retries queued readings on start-up, whenever connectivity returns and when a user signs in. */
+export function startOutboxSync() {
+  if (!isLocalDatabaseAvailable()) return;
+  const retry = () => {
+    flushOutbox(true).catch(err => console.error('Failed to send queued readings:', err));
+  };
+  window.addEventListener('online', retry);
+  supabase.auth.onAuthStateChange(event => {
+    if (event === 'SIGNED_IN') retry();
+  });
+  retry();
+}
@@ -0,0 +1,192 @@
+import { supabase } from '../integrations/supabase/client';
+import { getSupabaseUrl, getPublishableKey } from './utils';
+import { buildSubmissionImagePath, SUBMISSION_IMAGES_BUCKET } from './imageStorage';
+import { hashFile, processImageForUpload, ProcessedImage } from './imageProcessing';
+
+// Request body accepted by the auto-verify-submission edge function.
+export interface SubmissionPayload {
+  cropName: string;
+  brandName: string;
+  variety: string;
+  brixValue: number;
+  assessmentDate: string; // ISO timestamp
+  purchaseDate: string | null; // ISO timestamp; null for farm-picked samples
+  outlierNotes: string;
+  userId: string | undefined;
+  // Images are uploaded after the submission exists; the count lets the function apply its image rule
+  imageCount?: number;
+  // Metres between the photo's EXIF GPS position and the chosen location; the position itself is not sent
+  photoDistanceMeters?: number | null;
+  // Every replicate reading; brixValue is their mean
+  brixReadings?: number[] | null;
+  growingMethod?: string | null;
+  originCountry?: string | null;
+  sampleSource?: string;
+  price?: number | null;
+  priceUnit?: string | null;
+  priceCurrency?: string | null; // ISO 4217
+  farmLocation?: string | null;
+  harvestTime?: string | null; // ISO timestamp
+  latitude: number;
+  longitude: number;
+  locationName: string;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  poi_name: string | null;
+  business_name: string | null;
+  normalized_address: string | null;
+  store_name: string;
+}
+
+export interface SubmissionResult {
+  verified: boolean;
+  submission_id: string;
+}
+
+/**
+ * Sends one reading to the auto-verify-submission edge function, which only accepts signed-in
+ * contributors.
+ * @throws When there is no session, the function responds with an error or does not return a
+ *   submission id.
+ */
+export async function postSubmission(payload: SubmissionPayload): Promise<SubmissionResult> {
+  // The session token tells the function who the contributor is
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Sign in to submit readings.');
+  }
+  const response = await fetch(`${getSupabaseUrl()}/functions/v1/auto-verify-submission`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: getPublishableKey(),
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.details || errorData.error || 'Failed to submit data via Edge Function.');
+  }
+
+  const result = await response.json();
+  if (!result.submission_id) {
+    throw new Error('Submission ID was not returned by the server.');
+  }
+  return { verified: !!result.verified, submission_id: result.submission_id };
+}
+
+/**
+ * Inserts brands and stores (locations) that the contributor typed in but that do not exist yet.
+ * Failures are logged and skipped so one bad name does not block the rest.
+ */
+export async function createBrandsAndStores(brandNames: string[], storeNames: string[]) {
+  const createdBrands = [];
+  const createdStores = [];
+
+  for (const brandName of brandNames) {
+    try {
+      const { data, error } = await supabase
+        .from('brands')
+        .insert([{ name: brandName }])
+        .select();
+
+      if (error) {
+        console.error('Error creating brand:', error);
+        continue;
+      }
+
+      if (data && data.length > 0) {
+        createdBrands.push(data[0]);
+      }
+    } catch (err) {
+      console.error('Error creating brand:', err);
+    }
+  }
+
+  for (const storeName of storeNames) {
+    try {
+      const { data, error } = await supabase
+        .from('locations')
+        .insert([{ name: storeName }])
+        .select();
+
+      if (error) {
+        console.error('Error creating store:', error);
+        continue;
+      }
+
+      if (data && data.length > 0) {
+        createdStores.push(data[0]);
+      }
+    } catch (err) {
+      console.error('Error creating store:', err);
+    }
+  }
+
+  return { createdBrands, createdStores };
+}
+
+/**
+ * Uploads one photo, resized and re-encoded, plus its thumbnail to the submission images bucket
+ * and records them in submission_images. Photos the browser cannot decode are uploaded as they are.
+ * @throws When an upload or the metadata insert fails.
+ */
+export async function uploadSubmissionImage(userId: string, submissionId: string, file: File, index: number) {
+  const bucket = supabase.storage.from(SUBMISSION_IMAGES_BUCKET);
+
+  let processed: ProcessedImage | null = null;
+  try {
+    processed = await processImageForUpload(file);
+  } catch (err) {
+    console.warn('Could not process image, uploading the original:', err);
+  }
+
+  const extension = processed?.extension ?? (file.name?.split('.').pop()?.toLowerCase() || 'jpg');
+  const filePath = buildSubmissionImagePath(userId, submissionId, index, extension);
+  const { error: uploadError } = await bucket.upload(filePath, processed?.image ?? file, {
+    contentType: processed?.contentType ?? file.type,
+  });
+  if (uploadError) throw uploadError;
+
+  let thumbnailPath: string | null = null;
+  if (processed) {
+    thumbnailPath = buildSubmissionImagePath(userId, submissionId, index, processed.extension, 'thumb');
+    const { error: thumbError } = await bucket.upload(thumbnailPath, processed.thumbnail, {
+      contentType: processed.contentType,
+    });
+    // The full image is enough to show the reading; lists fall back to it
+    if (thumbError) {
+      console.error('Thumbnail upload failed:', thumbError);
+      thumbnailPath = null;
+    }
+  }
+
+  const { error: insertError } = await supabase
+    .from('submission_images')
+    .insert({
+      submission_id: submissionId,
+      image_url: filePath,
+      thumbnail_url: thumbnailPath,
+      width: processed?.width ?? null,
+      height: processed?.height ?? null,
+      byte_size: (processed?.image ?? file).size,
+      content_type: processed?.contentType ?? (file.type || null),
+      content_hash: processed?.contentHash ?? await hashFile(file),
+    });
+  if (insertError) throw insertError;
+}
+
+/**
+ * True when a request failed because the device could not reach the server (as opposed to the
+ * server rejecting it), i.e. when retrying later may succeed.
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (err instanceof TypeError) return true; // fetch rejects with a TypeError when the network is down
+  const message = err instanceof Error ? err.message : String(err ?? '');
+  return /failed to fetch|network ?error|load failed|networkerror/i.test(message);
+}
@@ -0,0 +1,106 @@
+import { supabase } from '../integrations/supabase/client';
+import { BrixThresholds } from './getBrixQuality';
+
+// Crop thresholds change over time; every change is kept as a version with the date it took
+// effect and its source. Readings can be graded by the current thresholds or by the version in
+// force on their assessment date, so the grade a reading had when it was taken can be reproduced.
+
+export type GradingMode = 'current' | 'as_of';
+
+// Server-side aggregates (leaderboards, map colours, trend charts) are computed by
+// get_normalized_brix_1_to_2, which only knows the current thresholds
+export const SERVER_GRADING_NOTE = 'Scored with current crop thresholds';
+
+export interface ThresholdVersion {
+  id: string;
+  cropId: string;
+  // Null for a version in which the crop had no thresholds
+  thresholds: BrixThresholds | null;
+  source: string | null;
+  effectiveFrom: string; // ISO timestamp
+}
+
+interface ThresholdVersionRow {
+  id: string;
+  crop_id: string;
+  poor_brix: number | null;
+  average_brix: number | null;
+  good_brix: number | null;
+  excellent_brix: number | null;
+  source: string | null;
+  effective_from: string;
+  crop: { name: string } | null;
+}
+
+const GRADING_MODE_KEY = 'brix-grading-mode';
+
+export function loadGradingMode(): GradingMode {
+  try {
+    return localStorage.getItem(GRADING_MODE_KEY) === 'as_of' ? 'as_of' : 'current';
+  } catch {
+    return 'current';
+  }
+}
+
+export function saveGradingMode(mode: GradingMode) {
+  try {
+    localStorage.setItem(GRADING_MODE_KEY, mode);
+  } catch {
+    // Private browsing; the choice lasts for this page only
+  }
+}
+
+/** Every crop's threshold versions, oldest first, keyed by normalized crop name. */
+export async function fetchThresholdVersions(): Promise<Record<string, ThresholdVersion[]>> {
+  const { data, error } = await supabase
+    .from('crop_threshold_versions')
+    .select('id, crop_id, poor_brix, average_brix, good_brix, excellent_brix, source, effective_from, crop:crop_id(name)')
+    .order('effective_from', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching crop threshold versions:', error);
+    throw error;
+  }
+
+  const byCrop: Record<string, ThresholdVersion[]> = {};
+  ((data ?? []) as unknown as ThresholdVersionRow[]).forEach(row => {
+    if (!row.crop?.name) return;
+    const key = row.crop.name.toLowerCase().trim();
+    const hasThresholds = [row.poor_brix, row.average_brix, row.good_brix, row.excellent_brix].every(v => v != null);
+    (byCrop[key] = byCrop[key] ?? []).push({
+      id: row.id,
+      cropId: row.crop_id,
+      thresholds: hasThresholds
+        ? { poor: row.poor_brix, average: row.average_brix, good: row.good_brix, excellent: row.excellent_brix }
+        : null,
+      source: row.source,
+      effectiveFrom: row.effective_from,
+    });
+  });
+  return byCrop;
+}
+
+/**
+ * The version in force on a date: the latest one that took effect on or before it. Readings older
+ * than every version use the first one.
+ * @param versions Oldest first, as returned by fetchThresholdVersions.
+ */
+export function versionAsOf(versions: ThresholdVersion[] | undefined, date: string | Date): ThresholdVersion | null {
+  if (!versions || versions.length === 0) return null;
+  const time = new Date(date).getTime();
+  if (isNaN(time)) return versions[versions.length - 1];
+  let match = versions[0];
+  for (const version of versions) {
+    if (new Date(version.effectiveFrom).getTime() <= time) match = version;
+    else break;
+  }
+  return match;
+}
+
+/** Short description of a version for display, e.g. "thresholds from 3/1/2025 · USDA handbook". */
+export function describeVersion(version: ThresholdVersion): string {
+  const from = new Date(version.effectiveFrom);
+  // The backfilled first version applies from the start of the data
+  const since = from.getUTCFullYear() <= 1970 ? 'original thresholds' : `thresholds from ${from.toLocaleDateString()}`;
+  return version.source ? `${since} · ${version.source}` : since;
+}
@@ -44,6 +44,16 @@ export const parseURLSearchParams = (searchParams: URLSearchParams): Partial<Map
   const country = searchParams.get('country');
   if (country) filters.country = country;
 
+  // Provenance
+  const growingMethod = searchParams.get('growingMethod');
+  if (growingMethod) filters.growingMethod = growingMethod;
+
+  const sampleSource = searchParams.get('sampleSource');
+  if (sampleSource) filters.sampleSource = sampleSource;
+
+  const originCountry = searchParams.get('originCountry');
+  if (originCountry) filters.originCountry = originCountry;
+
   // Parse generic location (for store/location names)
   const location = searchParams.get('location');
   if (location) filters.location = location;
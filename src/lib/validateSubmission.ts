@@ -0,0 +1,89 @@
+// Human-readable labels for validation/labels
+export const FIELD_LABELS: Record<string, string> = {
+  cropType: 'Crop Type',
+  brand: 'Farm/Brand Name',
+  store: 'Point of Purchase',
+  location: 'Sample Location',
+  purchaseDate: 'Purchase Date',
+  harvestDate: 'Harvest Date',
+  price: 'Price',
+  measurementDate: 'Assessment Date',
+  brixLevel: 'BRIX Level',
+  replicateReadings: 'Replicate Readings',
+  outlierNotes: 'Notes/Observations',
+  images: 'Images',
+};
+
+// The subset of submission form fields that the validation rules look at.
+export interface SubmissionFields {
+  cropType: string;
+  brand: string;
+  store: string;
+  location: string;
+  purchaseDate: string;
+  measurementDate: string;
+  brixLevel: number;
+  // Further readings of the same sample, in addition to brixLevel
+  replicateReadings?: number[];
+  outlierNotes: string;
+  // 'purchased' unless stated; farm-picked samples have a harvest date instead of a purchase date
+  sampleSource?: string;
+  harvestDate?: string;
+  price?: string;
+}
+
+const REQUIRED_FIELDS: (keyof SubmissionFields)[] = ['cropType', 'brand', 'store', 'location', 'purchaseDate', 'measurementDate'];
+
+/**
+ * Validates a single reading before it is sent to the auto-verify-submission edge function.
+ * Shared by the single-entry form and the CSV import so both enforce the same rules.
+ * @returns A map of field name to error message; empty when the reading is valid.
+ */
+export function validateSubmissionFields(fields: SubmissionFields): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  const farmPicked = fields.sampleSource === 'farm_picked';
+
+  REQUIRED_FIELDS.filter(field => !(farmPicked && field === 'purchaseDate')).forEach(field => {
+    const value = fields[field];
+    if (typeof value === 'string' && !value.trim()) {
+      errors[field] = `Please select ${FIELD_LABELS[field] || field}`;
+    }
+  });
+
+  if (typeof fields.brixLevel !== 'number' || isNaN(fields.brixLevel)) {
+    errors.brixLevel = 'Please enter a valid BRIX value';
+  } else if (fields.brixLevel < 0 || fields.brixLevel > 100) {
+    errors.brixLevel = 'BRIX must be between 0–100';
+  }
+
+  if ((fields.replicateReadings ?? []).some(r => typeof r !== 'number' || isNaN(r) || r < 0 || r > 100)) {
+    errors.replicateReadings = 'Every replicate reading must be between 0–100';
+  }
+
+  const today = new Date();
+  const purchaseDate = new Date(fields.purchaseDate);
+  const measurementDate = new Date(fields.measurementDate);
+
+  if (measurementDate > today) errors.measurementDate = 'Assessment date cannot be in the future';
+
+  if (!farmPicked) {
+    if (purchaseDate > today) errors.purchaseDate = 'Purchase date cannot be in the future';
+    if (purchaseDate > measurementDate) {
+      errors.purchaseDate = 'Purchase date should be before or same as assessment date';
+    }
+  } else if (fields.harvestDate) {
+    const harvestDate = new Date(fields.harvestDate);
+    if (harvestDate > today) errors.harvestDate = 'Harvest date cannot be in the future';
+    else if (harvestDate > measurementDate) errors.harvestDate = 'Harvest date should be before or same as assessment date';
+  }
+
+  const price = fields.price?.trim();
+  if (price && (isNaN(Number(price)) || Number(price) < 0)) {
+    errors.price = 'Price must be a number of at least 0';
+  }
+
+  if ((fields.outlierNotes || '').length > 500) errors.outlierNotes = 'Notes too long (max 500 characters)';
+
+  return errors;
+}
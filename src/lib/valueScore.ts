@@ -0,0 +1,51 @@
+import { BrixDataPoint } from '../types';
+import { computeNormalizedScore } from './getBrixColor';
+import { BrixThresholds } from './getBrixQuality';
+
+// Value: normalized score (1..2) per unit of money paid. A value is only comparable with others
+// on the same basis — same currency, and either per kg (any weight unit) or the same count unit.
+// Mirrors value_basis / value_score in supabase/migrations/20251008120000_add_submission_value_score.sql,
+// which the data browser sorts by and the best-value leaderboard ranks by.
+
+// Kilograms in one weight price unit; count units (each, bunch, pack) are not converted
+const KG_PER_UNIT: Record<string, number> = {
+  kg: 1,
+  g: 0.001,
+  lb: 0.45359237,
+  oz: 0.028349523125,
+};
+
+type PricedReading = Pick<BrixDataPoint, 'price' | 'priceUnit' | 'priceCurrency'>;
+
+/** e.g. 'USD/kg' or 'EUR/each'; null when the reading has no usable price. */
+export function valueBasis(point: PricedReading): string | null {
+  const { price, priceUnit, priceCurrency } = point;
+  if (price == null || price <= 0 || !priceUnit || !priceCurrency) return null;
+  return `${priceCurrency}/${priceUnit in KG_PER_UNIT ? 'kg' : priceUnit}`;
+}
+
+/** Normalized score per unit of currency on the reading's basis; null without a usable price. */
+export function computeValueScore(
+  point: PricedReading & Pick<BrixDataPoint, 'brixLevel' | 'poorBrix' | 'averageBrix' | 'goodBrix' | 'excellentBrix'>,
+): number | null {
+  if (!valueBasis(point)) return null;
+  const thresholds: BrixThresholds = {
+    poor: point.poorBrix,
+    average: point.averageBrix,
+    good: point.goodBrix,
+    excellent: point.excellentBrix,
+  };
+  // Clamped like get_normalized_brix_1_to_2 so a single very sweet reading cannot dominate
+  const score = Math.min(2, Math.max(1, computeNormalizedScore(point.brixLevel, thresholds)));
+  const pricePerBasis = point.price / (KG_PER_UNIT[point.priceUnit] ?? 1);
+  return score / pricePerBasis;
+}
+
+/** "per USD, by weight" for the basis 'USD/kg'. */
+export function formatValueBasis(basis: string): string {
+  const [currency, unit] = basis.split('/');
+  return unit === 'kg' ? `per ${currency}, by weight` : `per ${currency}, priced ${unit === 'each' ? 'each' : `by the ${unit}`}`;
+}
+
+/** Values are small for cheap currencies and large for expensive ones, so keep 3 significant digits. */
+export const formatValueScore = (value: number) => value.toPrecision(3);
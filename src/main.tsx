@@ -5,6 +5,17 @@ import './index.css'
 import 'react-spring-bottom-sheet/dist/style.css'
 import { FilterProvider } from './contexts/FilterContext'
 import { CropThresholdProvider } from './contexts/CropThresholdContext';
+import { startOutboxSync } from './lib/submissionOutbox';
+
+// Installable offline shell; skipped in dev so Vite's module reloading is not cached
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error('Service worker registration failed:', err));
+  });
+}
+
+// Send readings that were queued while offline
+startOutboxSync();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
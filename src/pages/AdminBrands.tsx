@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import Header from '../components/Layout/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Checkbox } from '../components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { ArrowLeft, Building2, GitMerge, Loader2, RefreshCw } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+import { useStaticData } from '../hooks/useStaticData';
+import { BrandCluster, BrandUsage, fetchBrandClusters, mergeBrands } from '../lib/duplicateBrands';
+
+// A merge waiting for confirmation
+interface PendingMerge {
+  cluster: BrandCluster;
+  keep: BrandUsage;
+  merged: BrandUsage[];
+}
+
+const brandLabel = (brand: BrandUsage) => brand.label || brand.name;
+
+const AdminBrands: React.FC = () => {
+  const { toast } = useToast();
+  const { refreshData } = useStaticData();
+
+  const [clusters, setClusters] = useState<BrandCluster[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  // Brand to keep per cluster, keyed by cluster key. The most used brand is kept by default.
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  // Brands left out of a merge because they only look similar
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+  const loadClusters = useCallback(async () => {
+    setLoading(true);
+    try {
+      const found = await fetchBrandClusters();
+      setClusters(found);
+      setKeepIds(Object.fromEntries(found.map(cluster => [cluster.key, cluster.brands[0].id])));
+      setExcludedIds(new Set());
+    } catch (e) {
+      console.error('Failed to load brand clusters:', e);
+      setClusters([]);
+      toast({ title: 'Error loading brands', description: 'Please try again later.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadClusters();
+  }, [loadClusters]);
+
+  const toggleExcluded = (brandId: string, included: boolean) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (included) next.delete(brandId);
+      else next.add(brandId);
+      return next;
+    });
+  };
+
+  const startMerge = (cluster: BrandCluster) => {
+    const keep = cluster.brands.find(b => b.id === keepIds[cluster.key]);
+    if (!keep) return;
+    const merged = cluster.brands.filter(b => b.id !== keep.id && !excludedIds.has(b.id));
+    setPendingMerge({ cluster, keep, merged });
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingMerge) return;
+    const { keep, merged } = pendingMerge;
+    setProcessing(true);
+    try {
+      const moved = await mergeBrands(keep.id, merged.map(b => b.id));
+      toast({
+        title: 'Brands merged',
+        description: `${merged.length} brand${merged.length === 1 ? '' : 's'} merged into ${brandLabel(keep)}; ${moved} submission${moved === 1 ? '' : 's'} moved.`,
+      });
+      setPendingMerge(null);
+      refreshData();
+      await loadClusters();
+    } catch (e) {
+      console.error('Brand merge error:', e);
+      toast({
+        title: 'Error',
+        description: e instanceof Error ? e.message : 'Failed to merge brands',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div>
+            <Link to="/admin/review" className="text-sm text-blue-700 hover:underline flex items-center mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Review queue
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center space-x-2">
+              <Building2 className="w-8 h-8 text-green-600" />
+              <span>Duplicate Brands</span>
+            </h1>
+            <p className="text-gray-600">
+              Brands with matching or similar names. Merged names are kept as aliases so they aren't created again.
+            </p>
+          </div>
+
+          <Button variant="outline" onClick={loadClusters} disabled={loading} className="mt-4 md:mt-0 flex items-center space-x-2">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-600">
+            <Loader2 className="w-6 h-6 animate-spin mr-2" />
+            Looking for similar brands...
+          </div>
+        ) : clusters.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-500">
+              No similar brands found.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {clusters.map(cluster => {
+              const keepId = keepIds[cluster.key];
+              const mergeCount = cluster.brands.filter(b => b.id !== keepId && !excludedIds.has(b.id)).length;
+              return (
+                <Card key={cluster.key}>
+                  <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between space-y-2 md:space-y-0">
+                    <CardTitle className="text-lg">
+                      {cluster.brands.map(brandLabel).join(' · ')}
+                      {cluster.reasons.map(reason => (
+                        <Badge key={reason} variant="secondary" className="ml-2 align-middle">{reason}</Badge>
+                      ))}
+                    </CardTitle>
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700 flex items-center space-x-1"
+                      disabled={processing || mergeCount === 0}
+                      onClick={() => startMerge(cluster)}
+                    >
+                      <GitMerge className="w-4 h-4" />
+                      <span>Merge into kept</span>
+                    </Button>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-16">Keep</TableHead>
+                            <TableHead className="w-16">Merge</TableHead>
+                            <TableHead>Label</TableHead>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Aliases</TableHead>
+                            <TableHead className="text-right">Submissions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {cluster.brands.map(brand => (
+                            <TableRow key={brand.id} className={excludedIds.has(brand.id) && brand.id !== keepId ? 'opacity-50' : ''}>
+                              <TableCell>
+                                <input
+                                  type="radio"
+                                  name={`keep-${cluster.key}`}
+                                  checked={brand.id === keepId}
+                                  onChange={() => setKeepIds(prev => ({ ...prev, [cluster.key]: brand.id }))}
+                                  aria-label="Keep this brand"
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Checkbox
+                                  checked={brand.id === keepId || !excludedIds.has(brand.id)}
+                                  disabled={brand.id === keepId}
+                                  onCheckedChange={(checked) => toggleExcluded(brand.id, checked === true)}
+                                  aria-label="Include this brand in the merge"
+                                />
+                              </TableCell>
+                              <TableCell className="font-medium">{brand.label || '—'}</TableCell>
+                              <TableCell className="font-mono text-xs">{brand.name}</TableCell>
+                              <TableCell className="text-sm text-gray-600">
+                                {brand.aliases.length > 0 ? brand.aliases.join(', ') : '—'}
+                              </TableCell>
+                              <TableCell className="text-right">{brand.submissionCount}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Dialog open={!!pendingMerge} onOpenChange={(open) => !open && !processing && setPendingMerge(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Merge into {pendingMerge && brandLabel(pendingMerge.keep)}</DialogTitle>
+              <DialogDescription>
+                {pendingMerge && (
+                  <>
+                    {pendingMerge.merged.map(brandLabel).join(', ')}{' '}
+                    {pendingMerge.merged.length === 1 ? 'is' : 'are'} merged into {brandLabel(pendingMerge.keep)}.{' '}
+                    {pendingMerge.merged.reduce((sum, b) => sum + b.submissionCount, 0)} submissions and any product
+                    codes move to the kept brand, and the merged names become its aliases. This cannot be undone.
+                  </>
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPendingMerge(null)} disabled={processing}>
+                Cancel
+              </Button>
+              <Button onClick={handleConfirm} disabled={processing}>
+                {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Merge
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  );
+};
+
+export default AdminBrands;
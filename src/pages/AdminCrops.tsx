@@ -0,0 +1,461 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import Header from '../components/Layout/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { ArrowDown, ArrowLeft, ArrowUp, Edit, Loader2, Plus, RefreshCw, Wheat } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+import { useCropThresholds } from '../contexts/CropThresholdContext';
+import { useStaticData } from '../hooks/useStaticData';
+import { BrixThresholds } from '../lib/getBrixQuality';
+import {
+  CatalogCrop,
+  CROP_CATEGORIES,
+  CropCategory,
+  CropDraft,
+  fetchCropBrixValues,
+  fetchCropCatalog,
+  GRADES,
+  previewRegrade,
+  saveCrop,
+  THRESHOLD_KEYS,
+  thresholdDirection,
+  validateCropDraft,
+} from '../lib/cropCatalog';
+import { describeVersion } from '../lib/thresholdVersions';
+
+// Thresholds are edited as text so a field can be cleared while typing
+type ThresholdInputs = Record<keyof BrixThresholds, string>;
+
+interface CropForm {
+  name: string;
+  label: string;
+  category: CropCategory | null;
+  thresholds: ThresholdInputs;
+  thresholdSource: string;
+}
+
+const THRESHOLD_LABELS: Record<keyof BrixThresholds, string> = {
+  poor: 'Poor',
+  average: 'Average',
+  good: 'Good',
+  excellent: 'Excellent',
+};
+
+// Radix Select items cannot have an empty value
+const NO_CATEGORY = 'none';
+
+const emptyForm = (): CropForm => ({
+  name: '',
+  label: '',
+  category: null,
+  thresholds: { poor: '', average: '', good: '', excellent: '' },
+  thresholdSource: '',
+});
+
+const formFromCrop = (crop: CatalogCrop): CropForm => ({
+  name: crop.name,
+  label: crop.label ?? '',
+  category: crop.category,
+  thresholds: crop.thresholds
+    ? {
+      poor: String(crop.thresholds.poor),
+      average: String(crop.thresholds.average),
+      good: String(crop.thresholds.good),
+      excellent: String(crop.thresholds.excellent),
+    }
+    : emptyForm().thresholds,
+  thresholdSource: crop.thresholdSource ?? '',
+});
+
+const toDraft = (form: CropForm): CropDraft => ({
+  name: form.name,
+  label: form.label,
+  category: form.category,
+  thresholds: {
+    poor: form.thresholds.poor.trim() === '' ? NaN : Number(form.thresholds.poor),
+    average: form.thresholds.average.trim() === '' ? NaN : Number(form.thresholds.average),
+    good: form.thresholds.good.trim() === '' ? NaN : Number(form.thresholds.good),
+    excellent: form.thresholds.excellent.trim() === '' ? NaN : Number(form.thresholds.excellent),
+  },
+  thresholdSource: form.thresholdSource,
+});
+
+const AdminCrops: React.FC = () => {
+  const { toast } = useToast();
+  const { reloadCache, versions } = useCropThresholds();
+  const { refreshData } = useStaticData();
+
+  const [crops, setCrops] = useState<CatalogCrop[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Crop being edited; null with the dialog open means a new crop
+  const [editing, setEditing] = useState<CatalogCrop | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<CropForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [brixValues, setBrixValues] = useState<number[] | null>(null);
+  const [loadingBrixValues, setLoadingBrixValues] = useState(false);
+
+  const loadCrops = useCallback(async () => {
+    setLoading(true);
+    try {
+      setCrops(await fetchCropCatalog());
+    } catch (e) {
+      console.error('Failed to load crops:', e);
+      setCrops([]);
+      toast({ title: 'Error loading crops', description: 'Please try again later.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadCrops();
+  }, [loadCrops]);
+
+  const openDialog = async (crop: CatalogCrop | null) => {
+    setEditing(crop);
+    setForm(crop ? formFromCrop(crop) : emptyForm());
+    setBrixValues(null);
+    setDialogOpen(true);
+    if (!crop) return;
+
+    setLoadingBrixValues(true);
+    try {
+      setBrixValues(await fetchCropBrixValues(crop.id));
+    } catch (e) {
+      console.error('Failed to load readings for the re-grade preview:', e);
+    } finally {
+      setLoadingBrixValues(false);
+    }
+  };
+
+  const draft = useMemo(() => toDraft(form), [form]);
+  const errors = useMemo(() => validateCropDraft(draft), [draft]);
+  const isValid = Object.keys(errors).length === 0;
+  const thresholdsValid = !THRESHOLD_KEYS.some(key => errors[key]) && !errors.thresholds;
+
+  const preview = useMemo(
+    () => (editing && brixValues && thresholdsValid ? previewRegrade(brixValues, editing.thresholds, draft.thresholds) : null),
+    [editing, brixValues, thresholdsValid, draft],
+  );
+
+  const setThreshold = (key: keyof BrixThresholds, value: string) =>
+    setForm(prev => ({ ...prev, thresholds: { ...prev.thresholds, [key]: value } }));
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setSaving(true);
+    try {
+      await saveCrop(draft, editing?.id);
+      // Grading and colours everywhere read from the threshold cache
+      await reloadCache();
+      refreshData();
+      setDialogOpen(false);
+      toast({ title: editing ? 'Crop updated' : 'Crop created', description: draft.label || draft.name });
+      loadCrops();
+    } catch (e) {
+      console.error('Crop save error:', e);
+      toast({
+        title: 'Error',
+        description: e instanceof Error ? e.message : 'Failed to save the crop',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderPreview = () => {
+    if (!editing) return null;
+    if (loadingBrixValues) {
+      return (
+        <p className="text-sm text-gray-600 flex items-center">
+          <Loader2 className="w-4 h-4 animate-spin mr-2" />
+          Loading existing readings...
+        </p>
+      );
+    }
+    if (!preview) return null;
+    if (preview.total === 0) return <p className="text-sm text-gray-500">No readings for this crop yet.</p>;
+
+    const before = (grade: string) => Object.values(preview.counts[grade] ?? {}).reduce((sum, n) => sum + n, 0);
+    const after = (grade: string) => Object.values(preview.counts).reduce((sum, to) => sum + (to[grade] ?? 0), 0);
+
+    return (
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-800">
+          {preview.changed} of {preview.total} readings would change grade
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Grade</TableHead>
+              <TableHead className="text-right">Now</TableHead>
+              <TableHead className="text-right">After saving</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {GRADES.filter(grade => before(grade) > 0 || after(grade) > 0).map(grade => (
+              <TableRow key={grade}>
+                <TableCell>{grade}</TableCell>
+                <TableCell className="text-right">{before(grade)}</TableCell>
+                <TableCell className={`text-right ${after(grade) !== before(grade) ? 'font-semibold text-blue-700' : ''}`}>
+                  {after(grade)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div>
+            <Link to="/admin/review" className="text-sm text-blue-700 hover:underline flex items-center mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Review queue
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center space-x-2">
+              <Wheat className="w-8 h-8 text-green-600" />
+              <span>Crop Catalog</span>
+            </h1>
+            <p className="text-gray-600">
+              Crops and the BRIX thresholds used to grade and colour every reading.
+            </p>
+          </div>
+
+          <div className="mt-4 md:mt-0 flex items-center space-x-2">
+            <Button onClick={() => openDialog(null)} className="flex items-center space-x-2">
+              <Plus className="w-4 h-4" />
+              <span>New crop</span>
+            </Button>
+            <Button variant="outline" onClick={loadCrops} disabled={loading} className="flex items-center space-x-2">
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Crops ({crops.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-12 text-gray-600">
+                <Loader2 className="w-6 h-6 animate-spin mr-2" />
+                Loading crops...
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Crop</TableHead>
+                      <TableHead>Category</TableHead>
+                      {THRESHOLD_KEYS.map(key => (
+                        <TableHead key={key} className="text-right">{THRESHOLD_LABELS[key]}</TableHead>
+                      ))}
+                      <TableHead>Scale</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {crops.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center py-8 text-gray-500">
+                          No crops yet.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      crops.map(crop => (
+                        <TableRow key={crop.id}>
+                          <TableCell>
+                            <div className="font-medium">{crop.label || crop.name}</div>
+                            <div className="text-xs text-gray-500 font-mono">{crop.name}</div>
+                          </TableCell>
+                          <TableCell className="capitalize">{crop.category || '—'}</TableCell>
+                          {THRESHOLD_KEYS.map(key => (
+                            <TableCell key={key} className="text-right">{crop.thresholds ? crop.thresholds[key] : '—'}</TableCell>
+                          ))}
+                          <TableCell>
+                            {crop.thresholds ? (
+                              <Badge variant="outline">
+                                {thresholdDirection(crop.thresholds) === 'ascending' ? 'Higher is better' : 'Lower is better'}
+                              </Badge>
+                            ) : (
+                              <Badge variant="secondary">No thresholds</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button size="sm" variant="outline" onClick={() => openDialog(crop)}>
+                              <Edit className="w-4 h-4 mr-1" />
+                              Edit
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={dialogOpen} onOpenChange={open => !saving && setDialogOpen(open)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.label || editing.name}` : 'New crop'}</DialogTitle>
+            <DialogDescription>
+              Thresholds run from poor to excellent. Enter them in decreasing order for crops where a lower BRIX is better.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="crop-name">Name</Label>
+                <Input
+                  id="crop-name"
+                  value={form.name}
+                  onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. tomato"
+                />
+                {errors.name && <p className="text-red-600 text-xs mt-1">{errors.name}</p>}
+              </div>
+              <div>
+                <Label htmlFor="crop-label">Label</Label>
+                <Input
+                  id="crop-label"
+                  value={form.label}
+                  onChange={e => setForm(prev => ({ ...prev, label: e.target.value }))}
+                  placeholder="e.g. Tomato"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>Category</Label>
+              <Select
+                value={form.category ?? NO_CATEGORY}
+                onValueChange={value => setForm(prev => ({ ...prev, category: value === NO_CATEGORY ? null : value as CropCategory }))}
+              >
+                <SelectTrigger aria-label="Category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                  {CROP_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label className="flex items-center">
+                BRIX thresholds
+                {thresholdsValid && (
+                  <span className="ml-2 text-xs font-normal text-gray-500 flex items-center">
+                    {thresholdDirection(draft.thresholds) === 'ascending'
+                      ? <><ArrowUp className="w-3 h-3 mr-1" />Higher is better</>
+                      : <><ArrowDown className="w-3 h-3 mr-1" />Lower is better</>}
+                  </span>
+                )}
+              </Label>
+              <div className="grid grid-cols-4 gap-2 mt-1">
+                {THRESHOLD_KEYS.map(key => (
+                  <div key={key}>
+                    <Label htmlFor={`threshold-${key}`} className="text-xs text-gray-600">{THRESHOLD_LABELS[key]}</Label>
+                    <Input
+                      id={`threshold-${key}`}
+                      type="number"
+                      inputMode="decimal"
+                      step="0.1"
+                      value={form.thresholds[key]}
+                      onChange={e => setThreshold(key, e.target.value)}
+                      className={errors[key] ? 'border-red-400' : ''}
+                    />
+                  </div>
+                ))}
+              </div>
+              {THRESHOLD_KEYS.filter(key => errors[key]).map(key => (
+                <p key={key} className="text-red-600 text-xs mt-1">{THRESHOLD_LABELS[key]}: {errors[key]}</p>
+              ))}
+              {errors.thresholds && <p className="text-red-600 text-xs mt-1">{errors.thresholds}</p>}
+            </div>
+
+            <div>
+              <Label htmlFor="threshold-source">Source / citation</Label>
+              <Input
+                id="threshold-source"
+                value={form.thresholdSource}
+                onChange={e => setForm(prev => ({ ...prev, thresholdSource: e.target.value }))}
+                placeholder="e.g. Reams refractometer chart"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Changed thresholds are kept as a new version from today; older readings can still be graded by the version in force when they were measured.
+              </p>
+            </div>
+
+            {renderPreview()}
+
+            {editing && (versions[editing.name.toLowerCase().trim()] ?? []).length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-800 mb-1">History</p>
+                <ul className="text-xs text-gray-600 space-y-1">
+                  {[...versions[editing.name.toLowerCase().trim()]].reverse().map(version => (
+                    <li key={version.id}>
+                      <span className="font-mono">
+                        {version.thresholds
+                          ? THRESHOLD_KEYS.map(key => version.thresholds[key]).join(' / ')
+                          : 'no thresholds'}
+                      </span>
+                      {' — '}
+                      {describeVersion(version)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!isValid || saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? 'Save changes' : 'Create crop'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminCrops;
@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import Header from '../components/Layout/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { ArrowLeft, Copy, GitMerge, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+import { deleteSubmission } from '../lib/fetchSubmissions';
+import {
+  DuplicateCluster,
+  DuplicateClusterMember,
+  fetchDuplicateClusters,
+  mergeDuplicateSubmissions,
+} from '../lib/duplicateSubmissions';
+
+// An action waiting for confirmation: merging a cluster into one member, or deleting one member
+interface PendingAction {
+  kind: 'merge' | 'delete';
+  cluster: DuplicateCluster;
+  member: DuplicateClusterMember;
+}
+
+// The member kept by default: verified first, then the one with the most photos
+function defaultKeep(cluster: DuplicateCluster): string {
+  const ranked = [...cluster.members].sort(
+    (a, b) => Number(b.verified) - Number(a.verified) || b.imageCount - a.imageCount,
+  );
+  return ranked[0].submissionId;
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+const AdminDuplicates: React.FC = () => {
+  const { toast } = useToast();
+
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  // Submission to keep per cluster, keyed by cluster key
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+  const loadClusters = useCallback(async () => {
+    setLoading(true);
+    try {
+      const found = await fetchDuplicateClusters();
+      setClusters(found);
+      setKeepIds(Object.fromEntries(found.map(cluster => [cluster.key, defaultKeep(cluster)])));
+    } catch (e) {
+      console.error('Failed to load duplicate clusters:', e);
+      setClusters([]);
+      toast({ title: 'Error loading duplicates', description: 'Please try again later.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadClusters();
+  }, [loadClusters]);
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+    const { kind, cluster, member } = pendingAction;
+    setProcessing(true);
+    try {
+      if (kind === 'merge') {
+        const duplicateIds = cluster.members
+          .map(m => m.submissionId)
+          .filter(id => id !== member.submissionId);
+        const deleted = await mergeDuplicateSubmissions(member.submissionId, duplicateIds);
+        toast({ title: 'Merged', description: `${deleted} duplicate${deleted === 1 ? '' : 's'} merged and removed.` });
+      } else {
+        const success = await deleteSubmission(member.submissionId);
+        if (!success) throw new Error('Delete failed');
+        toast({ title: 'Deleted', description: 'The duplicate submission was removed.' });
+      }
+      setPendingAction(null);
+      // A submission can sit in more than one cluster, so reload instead of patching locally
+      await loadClusters();
+    } catch (e) {
+      console.error('Duplicate resolution error:', e);
+      toast({
+        title: 'Error',
+        description: kind === 'merge' ? 'Failed to merge submissions' : 'Failed to delete submission',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div>
+            <Link to="/admin/review" className="text-sm text-blue-700 hover:underline flex items-center mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Review queue
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center space-x-2">
+              <Copy className="w-8 h-8 text-green-600" />
+              <span>Duplicate Submissions</span>
+            </h1>
+            <p className="text-gray-600">
+              Readings logged more than once by the same contributor, or sharing an identical photo
+            </p>
+          </div>
+
+          <Button variant="outline" onClick={loadClusters} disabled={loading} className="mt-4 md:mt-0 flex items-center space-x-2">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-600">
+            <Loader2 className="w-6 h-6 animate-spin mr-2" />
+            Looking for duplicates...
+          </div>
+        ) : clusters.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-500">
+              No duplicate submissions found.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {clusters.map(cluster => {
+              const keepId = keepIds[cluster.key];
+              const kept = cluster.members.find(m => m.submissionId === keepId);
+              return (
+                <Card key={cluster.key}>
+                  <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between space-y-2 md:space-y-0">
+                    <CardTitle className="text-lg">
+                      {cluster.members[0].cropName} · {cluster.members.length} submissions
+                      <Badge variant="secondary" className="ml-2 align-middle">{cluster.reason}</Badge>
+                    </CardTitle>
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700 flex items-center space-x-1"
+                      disabled={processing || !kept}
+                      onClick={() => setPendingAction({ kind: 'merge', cluster, member: kept })}
+                    >
+                      <GitMerge className="w-4 h-4" />
+                      <span>Merge into kept</span>
+                    </Button>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-16">Keep</TableHead>
+                            <TableHead>Submitter</TableHead>
+                            <TableHead>Place / Brand</TableHead>
+                            <TableHead>Assessment Date</TableHead>
+                            <TableHead>BRIX</TableHead>
+                            <TableHead>Photos</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {cluster.members.map(member => (
+                            <TableRow key={member.submissionId}>
+                              <TableCell>
+                                <input
+                                  type="radio"
+                                  name={`keep-${cluster.key}`}
+                                  checked={member.submissionId === keepId}
+                                  onChange={() => setKeepIds(prev => ({ ...prev, [cluster.key]: member.submissionId }))}
+                                  aria-label="Keep this submission"
+                                />
+                              </TableCell>
+                              <TableCell>{member.userName || 'Anonymous'}</TableCell>
+                              <TableCell>
+                                <div>{member.placeLabel || '—'}</div>
+                                {member.brandName && <div className="text-xs text-gray-500">Brand: {member.brandName}</div>}
+                              </TableCell>
+                              <TableCell>{formatDate(member.assessmentDate)}</TableCell>
+                              <TableCell className="font-semibold">{member.brixValue}</TableCell>
+                              <TableCell>{member.imageCount}</TableCell>
+                              <TableCell>
+                                {member.verified ? (
+                                  <Badge className="bg-green-600 text-white">Verified</Badge>
+                                ) : (
+                                  <Badge variant="outline">Pending</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  className="h-8 w-8 text-gray-500 hover:text-red-600"
+                                  disabled={processing}
+                                  onClick={() => setPendingAction({ kind: 'delete', cluster, member })}
+                                  title="Delete this submission"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Dialog open={!!pendingAction} onOpenChange={(open) => !open && !processing && setPendingAction(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>
+                {pendingAction?.kind === 'merge'
+                  ? `Merge ${pendingAction.cluster.members.length} submissions`
+                  : 'Delete submission'}
+              </DialogTitle>
+              <DialogDescription>
+                {pendingAction?.kind === 'merge'
+                  ? `The submission by ${pendingAction.member.userName || 'Anonymous'} from ${formatDate(pendingAction.member.assessmentDate)} is kept. Photos and missing details are carried over and the others are deleted.`
+                  : `The ${pendingAction?.member.brixValue} BRIX reading from ${formatDate(pendingAction?.member.assessmentDate ?? null)} and its photo records are deleted.`}
+                {' '}This cannot be undone.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPendingAction(null)} disabled={processing}>
+                Cancel
+              </Button>
+              <Button
+                variant={pendingAction?.kind === 'delete' ? 'destructive' : 'default'}
+                onClick={handleConfirm}
+                disabled={processing}
+              >
+                {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {pendingAction?.kind === 'merge' ? 'Merge' : 'Delete'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  );
+};
+
+export default AdminDuplicates;
@@ -0,0 +1,418 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import Header from '../components/Layout/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Checkbox } from '../components/ui/checkbox';
+import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { ArrowLeft, GitMerge, Loader2, MapPin, RefreshCw } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+import { useStaticData } from '../hooks/useStaticData';
+import { distanceInMeters, formatDistance } from '../lib/geo';
+import {
+  ChainCluster,
+  ChainUsage,
+  DEFAULT_PLACE_DISTANCE_M,
+  PlaceCandidate,
+  PlaceCluster,
+  clusterChains,
+  fetchChainUsage,
+  fetchPlaceClusters,
+  mergeChains,
+  mergePlaces,
+} from '../lib/duplicatePlaces';
+
+const DISTANCE_OPTIONS = [25, 50, 100, 250];
+
+// Select value for a place that belongs to no chain
+const NO_CHAIN = 'none';
+
+// A merge waiting for confirmation
+type PendingMerge =
+  | { kind: 'places'; keep: PlaceCandidate; merged: PlaceCandidate[]; locationId: string | null }
+  | { kind: 'chains'; keep: ChainUsage; merged: ChainUsage[] };
+
+const placeTitle = (place: PlaceCandidate) => place.label || place.streetAddress || 'Unnamed place';
+const chainLabel = (chain: ChainUsage) => chain.label || chain.name;
+
+// The chain a merged place is linked to by default: the kept place's, else the most used one
+function defaultChain(cluster: PlaceCluster, keepId: string): string | null {
+  const keep = cluster.places.find(p => p.id === keepId);
+  return keep?.locationId ?? cluster.places.find(p => p.locationId)?.locationId ?? null;
+}
+
+const AdminPlaces: React.FC = () => {
+  const { toast } = useToast();
+  const { locations, refreshData } = useStaticData();
+
+  const [maxDistance, setMaxDistance] = useState(DEFAULT_PLACE_DISTANCE_M);
+  const [placeClusters, setPlaceClusters] = useState<PlaceCluster[]>([]);
+  const [chainClusters, setChainClusters] = useState<ChainCluster[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  // Member to keep and chain to link, keyed by cluster key
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [chainIds, setChainIds] = useState<Record<string, string | null>>({});
+  // Members left out of a merge because they only look similar
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+  const loadClusters = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [places, chains] = await Promise.all([fetchPlaceClusters(maxDistance), fetchChainUsage()]);
+      const chainGroups = clusterChains(chains);
+      setPlaceClusters(places);
+      setChainClusters(chainGroups);
+      setKeepIds(Object.fromEntries([
+        ...places.map(cluster => [cluster.key, cluster.places[0].id]),
+        ...chainGroups.map(cluster => [cluster.key, cluster.chains[0].id]),
+      ]));
+      setChainIds(Object.fromEntries(places.map(cluster => [cluster.key, defaultChain(cluster, cluster.places[0].id)])));
+      setExcludedIds(new Set());
+    } catch (e) {
+      console.error('Failed to load duplicate places:', e);
+      setPlaceClusters([]);
+      setChainClusters([]);
+      toast({ title: 'Error loading places', description: 'Please try again later.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [maxDistance, toast]);
+
+  useEffect(() => {
+    loadClusters();
+  }, [loadClusters]);
+
+  const toggleExcluded = (id: string, included: boolean) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (included) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingMerge) return;
+    setProcessing(true);
+    try {
+      const mergeIds = pendingMerge.merged.map(m => m.id);
+      const moved = pendingMerge.kind === 'places'
+        ? await mergePlaces(pendingMerge.keep.id, mergeIds, pendingMerge.locationId)
+        : await mergeChains(pendingMerge.keep.id, mergeIds);
+      toast({
+        title: 'Merged',
+        description: `${mergeIds.length} ${pendingMerge.kind === 'places' ? 'place' : 'chain'}${mergeIds.length === 1 ? '' : 's'} merged; ${moved} submission${moved === 1 ? '' : 's'} moved.`,
+      });
+      setPendingMerge(null);
+      refreshData();
+      await loadClusters();
+    } catch (e) {
+      console.error('Place merge error:', e);
+      toast({
+        title: 'Error',
+        description: e instanceof Error ? e.message : 'Failed to merge',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const renderPlaceCluster = (cluster: PlaceCluster) => {
+    const keepId = keepIds[cluster.key];
+    const keep = cluster.places.find(p => p.id === keepId);
+    const merged = cluster.places.filter(p => p.id !== keepId && !excludedIds.has(p.id));
+    const chainId = chainIds[cluster.key] ?? null;
+    return (
+      <Card key={cluster.key}>
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between space-y-2 md:space-y-0">
+          <CardTitle className="text-lg">
+            {keep ? placeTitle(keep) : placeTitle(cluster.places[0])} · {cluster.places.length} places
+            <Badge variant="secondary" className="ml-2 align-middle">within {formatDistance(cluster.spanM)}</Badge>
+          </CardTitle>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <Label className="text-sm text-gray-600">Store chain</Label>
+            <Select
+              value={chainId ?? NO_CHAIN}
+              onValueChange={(value) => setChainIds(prev => ({ ...prev, [cluster.key]: value === NO_CHAIN ? null : value }))}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CHAIN}>Independent store</SelectItem>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={location.id}>{location.label || location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              className="bg-green-600 hover:bg-green-700 flex items-center space-x-1"
+              disabled={processing || !keep || merged.length === 0}
+              onClick={() => setPendingMerge({ kind: 'places', keep, merged, locationId: chainId })}
+            >
+              <GitMerge className="w-4 h-4" />
+              <span>Merge into kept</span>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Keep</TableHead>
+                  <TableHead className="w-16">Merge</TableHead>
+                  <TableHead>Place</TableHead>
+                  <TableHead>Normalized address</TableHead>
+                  <TableHead>Chain</TableHead>
+                  <TableHead>From kept</TableHead>
+                  <TableHead className="text-right">Submissions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cluster.places.map(place => (
+                  <TableRow key={place.id} className={excludedIds.has(place.id) && place.id !== keepId ? 'opacity-50' : ''}>
+                    <TableCell>
+                      <input
+                        type="radio"
+                        name={`keep-${cluster.key}`}
+                        checked={place.id === keepId}
+                        onChange={() => {
+                          setKeepIds(prev => ({ ...prev, [cluster.key]: place.id }));
+                          setChainIds(prev => ({ ...prev, [cluster.key]: defaultChain(cluster, place.id) }));
+                        }}
+                        aria-label="Keep this place"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={place.id === keepId || !excludedIds.has(place.id)}
+                        disabled={place.id === keepId}
+                        onCheckedChange={(checked) => toggleExcluded(place.id, checked === true)}
+                        aria-label="Include this place in the merge"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{placeTitle(place)}</div>
+                      <div className="text-xs text-gray-500">
+                        {[place.streetAddress, place.city, place.state].filter(Boolean).join(', ')}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{place.normalizedAddress || '—'}</TableCell>
+                    <TableCell>{place.locationName || '—'}</TableCell>
+                    <TableCell>{keep && place.id !== keep.id ? formatDistance(distanceInMeters(keep, place)) : '—'}</TableCell>
+                    <TableCell className="text-right">{place.submissionCount}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderChainCluster = (cluster: ChainCluster) => {
+    const keepId = keepIds[cluster.key];
+    const keep = cluster.chains.find(c => c.id === keepId);
+    const merged = cluster.chains.filter(c => c.id !== keepId && !excludedIds.has(c.id));
+    return (
+      <Card key={cluster.key}>
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between space-y-2 md:space-y-0">
+          <CardTitle className="text-lg">
+            {cluster.chains.map(chainLabel).join(' · ')}
+            {cluster.reasons.map(reason => (
+              <Badge key={reason} variant="secondary" className="ml-2 align-middle">{reason}</Badge>
+            ))}
+          </CardTitle>
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700 flex items-center space-x-1"
+            disabled={processing || !keep || merged.length === 0}
+            onClick={() => setPendingMerge({ kind: 'chains', keep, merged })}
+          >
+            <GitMerge className="w-4 h-4" />
+            <span>Merge into kept</span>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Keep</TableHead>
+                  <TableHead className="w-16">Merge</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Places</TableHead>
+                  <TableHead className="text-right">Submissions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cluster.chains.map(chain => (
+                  <TableRow key={chain.id} className={excludedIds.has(chain.id) && chain.id !== keepId ? 'opacity-50' : ''}>
+                    <TableCell>
+                      <input
+                        type="radio"
+                        name={`keep-${cluster.key}`}
+                        checked={chain.id === keepId}
+                        onChange={() => setKeepIds(prev => ({ ...prev, [cluster.key]: chain.id }))}
+                        aria-label="Keep this chain"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={chain.id === keepId || !excludedIds.has(chain.id)}
+                        disabled={chain.id === keepId}
+                        onCheckedChange={(checked) => toggleExcluded(chain.id, checked === true)}
+                        aria-label="Include this chain in the merge"
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{chain.label || '—'}</TableCell>
+                    <TableCell className="font-mono text-xs">{chain.name}</TableCell>
+                    <TableCell className="text-right">{chain.placeCount}</TableCell>
+                    <TableCell className="text-right">{chain.submissionCount}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const chainName = (id: string | null) => {
+    const location = locations.find(l => l.id === id);
+    return location ? location.label || location.name : 'no chain (independent store)';
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div>
+            <Link to="/admin/review" className="text-sm text-blue-700 hover:underline flex items-center mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Review queue
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center space-x-2">
+              <MapPin className="w-8 h-8 text-green-600" />
+              <span>Duplicate Places</span>
+            </h1>
+            <p className="text-gray-600">
+              Stores pinned more than once at nearly the same spot and address, and store chains entered under different names
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-2 mt-4 md:mt-0">
+            <Select value={String(maxDistance)} onValueChange={(value) => setMaxDistance(Number(value))}>
+              <SelectTrigger className="w-36" aria-label="Maximum distance between places">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISTANCE_OPTIONS.map(distance => (
+                  <SelectItem key={distance} value={String(distance)}>Within {distance} m</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={loadClusters} disabled={loading} className="flex items-center space-x-2">
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-600">
+            <Loader2 className="w-6 h-6 animate-spin mr-2" />
+            Looking for duplicates...
+          </div>
+        ) : (
+          <Tabs defaultValue="places">
+            <TabsList className="mb-4">
+              <TabsTrigger value="places">Places ({placeClusters.length})</TabsTrigger>
+              <TabsTrigger value="chains">Store chains ({chainClusters.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="places" className="space-y-6">
+              {placeClusters.length === 0 ? (
+                <Card>
+                  <CardContent className="py-8 text-center text-gray-500">
+                    No duplicate places within {maxDistance} m.
+                  </CardContent>
+                </Card>
+              ) : placeClusters.map(renderPlaceCluster)}
+            </TabsContent>
+            <TabsContent value="chains" className="space-y-6">
+              {chainClusters.length === 0 ? (
+                <Card>
+                  <CardContent className="py-8 text-center text-gray-500">
+                    No similar store chains found.
+                  </CardContent>
+                </Card>
+              ) : chainClusters.map(renderChainCluster)}
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <Dialog open={!!pendingMerge} onOpenChange={(open) => !open && !processing && setPendingMerge(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>
+                {pendingMerge?.kind === 'places'
+                  ? `Merge ${pendingMerge.merged.length + 1} places`
+                  : `Merge ${(pendingMerge?.merged.length ?? 0) + 1} store chains`}
+              </DialogTitle>
+              <DialogDescription>
+                {pendingMerge?.kind === 'places' && (
+                  <>
+                    {placeTitle(pendingMerge.keep)} is kept and linked to {chainName(pendingMerge.locationId)}.{' '}
+                    {pendingMerge.merged.reduce((sum, p) => sum + p.submissionCount, 0)} submissions move to it and
+                    the other places are deleted.
+                  </>
+                )}
+                {pendingMerge?.kind === 'chains' && (
+                  <>
+                    {pendingMerge.merged.map(chainLabel).join(', ')} {pendingMerge.merged.length === 1 ? 'is' : 'are'}{' '}
+                    merged into {chainLabel(pendingMerge.keep)}, with their places and submissions. Places at an
+                    address the kept chain already has are folded into that place.
+                  </>
+                )}
+                {' '}This cannot be undone.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPendingMerge(null)} disabled={processing}>
+                Cancel
+              </Button>
+              <Button onClick={handleConfirm} disabled={processing}>
+                {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Merge
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  );
+};
+
+export default AdminPlaces;
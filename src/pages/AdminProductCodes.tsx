@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import Header from '../components/Layout/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { ArrowLeft, CheckCircle, Loader2, RefreshCw, ScanBarcode, XCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../hooks/use-toast';
+import {
+  fetchPendingProductCodes,
+  ProductCode,
+  productCodeTypeLabel,
+  reviewProductCodes,
+} from '../lib/productCodes';
+
+const AdminProductCodes: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [codes, setCodes] = useState<ProductCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadCodes = useCallback(async () => {
+    setLoading(true);
+    try {
+      setCodes(await fetchPendingProductCodes());
+    } catch (e) {
+      console.error('Failed to load product codes:', e);
+      setCodes([]);
+      toast({ title: 'Error loading product codes', description: 'Please try again later.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadCodes();
+  }, [loadCodes]);
+
+  const handleReview = async (code: ProductCode, status: 'approved' | 'rejected') => {
+    if (!user?.id) return;
+    setProcessingId(code.id);
+    try {
+      await reviewProductCodes([code.id], status, user.id);
+      setCodes(prev => prev.filter(c => c.id !== code.id));
+      toast({
+        title: status === 'approved' ? 'Approved' : 'Rejected',
+        description: `${productCodeTypeLabel(code.codeType)} ${code.code}`,
+      });
+    } catch (e) {
+      console.error('Product code review error:', e);
+      toast({ title: 'Error', description: 'Failed to update the product code', variant: 'destructive' });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div>
+            <Link to="/admin/review" className="text-sm text-blue-700 hover:underline flex items-center mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Review queue
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center space-x-2">
+              <ScanBarcode className="w-8 h-8 text-green-600" />
+              <span>Product Codes</span>
+            </h1>
+            <p className="text-gray-600">
+              Barcodes and PLU codes registered by contributors. Approved codes prefill the crop and brand for everyone.
+            </p>
+          </div>
+
+          <Button variant="outline" onClick={loadCodes} disabled={loading} className="mt-4 md:mt-0 flex items-center space-x-2">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Codes ({codes.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-12 text-gray-600">
+                <Loader2 className="w-6 h-6 animate-spin mr-2" />
+                Loading product codes...
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Crop / Variety</TableHead>
+                      <TableHead>Brand</TableHead>
+                      <TableHead>Registered by</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {codes.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                          No codes waiting for review.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      codes.map(code => (
+                        <TableRow key={code.id}>
+                          <TableCell>
+                            <div className="font-mono">{code.code}</div>
+                            <Badge variant="outline" className="mt-1">{productCodeTypeLabel(code.codeType)}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div>{code.cropLabel || '—'}</div>
+                            {code.variety && <div className="text-xs text-gray-500">{code.variety}</div>}
+                          </TableCell>
+                          <TableCell>{code.brandLabel || '—'}</TableCell>
+                          <TableCell>
+                            <div>{code.submittedBy || 'Anonymous'}</div>
+                            <div className="text-xs text-gray-500">{new Date(code.createdAt).toLocaleDateString()}</div>
+                          </TableCell>
+                          <TableCell className="text-right space-x-2 whitespace-nowrap">
+                            <Button
+                              size="sm"
+                              className="bg-green-600 hover:bg-green-700"
+                              disabled={processingId !== null}
+                              onClick={() => handleReview(code, 'approved')}
+                            >
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              disabled={processingId !== null}
+                              onClick={() => handleReview(code, 'rejected')}
+                            >
+                              <XCircle className="w-4 h-4 mr-1" />
+                              Reject
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AdminProductCodes;
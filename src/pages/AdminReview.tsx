@@ -0,0 +1,424 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import Header from '../components/Layout/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Checkbox } from '../components/ui/checkbox';
+import { Label } from '../components/ui/label';
+import { Textarea } from '../components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { Building2, CheckCircle, Copy, Keyboard, Loader2, MapPin, RefreshCw, ScanBarcode, ShieldCheck, Wheat, XCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useCropThresholds } from '../contexts/CropThresholdContext';
+import { useToast } from '../hooks/use-toast';
+import { approveSubmissions, fetchPendingSubmissions, rejectSubmissions } from '../lib/fetchSubmissions';
+import { BrixThresholds } from '../lib/getBrixQuality';
+import { useSubmissionImageUrls } from '../hooks/useSubmissionImageUrls';
+import ReviewQueueRow from '../components/Admin/ReviewQueueRow';
+import { BrixDataPoint } from '../types';
+
+const KEYBOARD_HINTS: { keys: string; action: string }[] = [
+  { keys: '↑ / k', action: 'Previous' },
+  { keys: '↓ / j', action: 'Next' },
+  { keys: 'x', action: 'Toggle select' },
+  { keys: 'a', action: 'Approve' },
+  { keys: 'r', action: 'Reject' },
+  { keys: 'p', action: 'Preview images' },
+];
+
+const AdminReview: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { cache: thresholdsCache } = useCropThresholds();
+
+  const [submissions, setSubmissions] = useState<BrixDataPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const [previewSubmission, setPreviewSubmission] = useState<BrixDataPoint | null>(null);
+  const { urls: previewImageUrls } = useSubmissionImageUrls(previewSubmission?.images);
+  // Ids awaiting a rejection reason; the dialog is open while this is non-empty
+  const [rejectIds, setRejectIds] = useState<string[]>([]);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const rowRefs = useRef<(HTMLTableRowElement | null)[]>([]);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const pending = await fetchPendingSubmissions();
+      setSubmissions(pending);
+      setSelectedIds(new Set());
+      setFocusedIndex(0);
+    } catch (e) {
+      console.error('Failed to load review queue:', e);
+      setSubmissions([]);
+      toast({ title: 'Error loading review queue', description: 'Please try again later.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  // Keep the focused row visible while navigating with the keyboard
+  useEffect(() => {
+    rowRefs.current[focusedIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [focusedIndex]);
+
+  const getThresholds = useCallback((submission: BrixDataPoint): BrixThresholds | undefined => {
+    const cached = thresholdsCache[submission.cropType?.toLowerCase().trim() || ''];
+    if (cached) return cached;
+    if ([submission.poorBrix, submission.averageBrix, submission.goodBrix, submission.excellentBrix].some(v => v === null || v === undefined)) {
+      return undefined;
+    }
+    return {
+      poor: submission.poorBrix,
+      average: submission.averageBrix,
+      good: submission.goodBrix,
+      excellent: submission.excellentBrix,
+    };
+  }, [thresholdsCache]);
+
+  // Drop processed rows from the queue and keep the focus on a valid row
+  const removeFromQueue = useCallback((ids: string[]) => {
+    setSubmissions(prev => {
+      const next = prev.filter(s => !ids.includes(s.id));
+      setFocusedIndex(i => Math.max(0, Math.min(i, next.length - 1)));
+      return next;
+    });
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => next.delete(id));
+      return next;
+    });
+  }, []);
+
+  const handleApprove = useCallback(async (ids: string[]) => {
+    if (!user?.id || ids.length === 0) return;
+    setProcessing(true);
+    try {
+      await approveSubmissions(ids, user.id);
+      removeFromQueue(ids);
+      toast({ title: 'Approved', description: `${ids.length} submission${ids.length > 1 ? 's' : ''} verified.` });
+    } catch (e) {
+      console.error('Approve error:', e);
+      toast({ title: 'Error', description: 'Failed to approve submissions', variant: 'destructive' });
+    } finally {
+      setProcessing(false);
+    }
+  }, [user?.id, removeFromQueue, toast]);
+
+  const openRejectDialog = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    setRejectIds(ids);
+    setRejectReason('');
+  }, []);
+
+  const closeRejectDialog = () => {
+    setRejectIds([]);
+    setRejectReason('');
+  };
+
+  const handleReject = async () => {
+    const reason = rejectReason.trim();
+    if (!user?.id || rejectIds.length === 0 || !reason) return;
+    setProcessing(true);
+    try {
+      await rejectSubmissions(rejectIds, user.id, reason);
+      removeFromQueue(rejectIds);
+      toast({
+        title: 'Rejected',
+        description: `${rejectIds.length} submission${rejectIds.length > 1 ? 's' : ''} returned to the contributor.`,
+      });
+      closeRejectDialog();
+    } catch (e) {
+      console.error('Reject error:', e);
+      toast({ title: 'Error', description: 'Failed to reject submissions', variant: 'destructive' });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const toggleSelect = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const toggleSelectAll = () => {
+    setSelectedIds(prev => (prev.size === submissions.length ? new Set() : new Set(submissions.map(s => s.id))));
+  };
+
+  // Keyboard navigation across the queue
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (previewSubmission || rejectIds.length > 0 || processing || submissions.length === 0) return;
+
+      const focused = submissions[focusedIndex];
+      switch (e.key) {
+        case 'ArrowDown':
+        case 'j':
+          e.preventDefault();
+          setFocusedIndex(i => Math.min(i + 1, submissions.length - 1));
+          break;
+        case 'ArrowUp':
+        case 'k':
+          e.preventDefault();
+          setFocusedIndex(i => Math.max(i - 1, 0));
+          break;
+        case 'x':
+          if (focused) toggleSelect(focused.id);
+          break;
+        case 'a':
+          if (focused) handleApprove([focused.id]);
+          break;
+        case 'r':
+          if (focused) {
+            e.preventDefault();
+            openRejectDialog([focused.id]);
+          }
+          break;
+        case 'p':
+          if (focused?.images?.length) setPreviewSubmission(focused);
+          break;
+        default:
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [submissions, focusedIndex, previewSubmission, rejectIds, processing, toggleSelect, handleApprove, openRejectDialog]);
+
+  const selectedList = Array.from(selectedIds);
+  const allSelected = submissions.length > 0 && selectedIds.size === submissions.length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center space-x-2">
+              <ShieldCheck className="w-8 h-8 text-green-600" />
+              <span>Review Queue</span>
+            </h1>
+            <p className="text-gray-600">
+              Verify or reject BRIX readings that were not auto-verified
+            </p>
+          </div>
+
+          <div className="mt-4 md:mt-0 flex items-center space-x-2">
+            <Link to="/admin/crops">
+              <Button variant="outline" className="flex items-center space-x-2">
+                <Wheat className="w-4 h-4" />
+                <span>Crops</span>
+              </Button>
+            </Link>
+            <Link to="/admin/brands">
+              <Button variant="outline" className="flex items-center space-x-2">
+                <Building2 className="w-4 h-4" />
+                <span>Brands</span>
+              </Button>
+            </Link>
+            <Link to="/admin/places">
+              <Button variant="outline" className="flex items-center space-x-2">
+                <MapPin className="w-4 h-4" />
+                <span>Places</span>
+              </Button>
+            </Link>
+            <Link to="/admin/product-codes">
+              <Button variant="outline" className="flex items-center space-x-2">
+                <ScanBarcode className="w-4 h-4" />
+                <span>Product codes</span>
+              </Button>
+            </Link>
+            <Link to="/admin/duplicates">
+              <Button variant="outline" className="flex items-center space-x-2">
+                <Copy className="w-4 h-4" />
+                <span>Duplicates</span>
+              </Button>
+            </Link>
+            <Button variant="outline" onClick={loadQueue} disabled={loading} className="flex items-center space-x-2">
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between space-y-2 md:space-y-0">
+            <CardTitle>Pending Submissions ({submissions.length})</CardTitle>
+            <div className="flex items-center space-x-2">
+              <Button
+                size="sm"
+                className="bg-green-600 hover:bg-green-700 flex items-center space-x-1"
+                disabled={processing || selectedList.length === 0}
+                onClick={() => handleApprove(selectedList)}
+              >
+                <CheckCircle className="w-4 h-4" />
+                <span>Approve selected ({selectedList.length})</span>
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                className="flex items-center space-x-1"
+                disabled={processing || selectedList.length === 0}
+                onClick={() => openRejectDialog(selectedList)}
+              >
+                <XCircle className="w-4 h-4" />
+                <span>Reject selected ({selectedList.length})</span>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 mb-4">
+              <Keyboard className="w-4 h-4" />
+              {KEYBOARD_HINTS.map(hint => (
+                <span key={hint.keys}>
+                  <kbd className="px-1 border rounded bg-white">{hint.keys}</kbd> {hint.action}
+                </span>
+              ))}
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-12 text-gray-600">
+                <Loader2 className="w-6 h-6 animate-spin mr-2" />
+                Loading pending submissions...
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allSelected}
+                          onCheckedChange={toggleSelectAll}
+                          aria-label="Select all submissions"
+                        />
+                      </TableHead>
+                      <TableHead>Crop / Brand</TableHead>
+                      <TableHead>BRIX / Thresholds</TableHead>
+                      <TableHead>Place / Submitter</TableHead>
+                      <TableHead>Assessment Date</TableHead>
+                      <TableHead>Images</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {submissions.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                          Nothing to review. All submissions are verified.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      submissions.map((submission, index) => (
+                        <ReviewQueueRow
+                          key={submission.id}
+                          ref={(el) => { rowRefs.current[index] = el; }}
+                          submission={submission}
+                          thresholds={getThresholds(submission)}
+                          isSelected={selectedIds.has(submission.id)}
+                          isFocused={index === focusedIndex}
+                          isProcessing={processing}
+                          onToggleSelect={toggleSelect}
+                          onFocus={() => setFocusedIndex(index)}
+                          onApprove={(s) => handleApprove([s.id])}
+                          onReject={(s) => openRejectDialog([s.id])}
+                          onPreviewImages={setPreviewSubmission}
+                        />
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={rejectIds.length > 0} onOpenChange={(open) => !open && !processing && closeRejectDialog()}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>
+                Reject {rejectIds.length} submission{rejectIds.length > 1 ? 's' : ''}
+              </DialogTitle>
+              <DialogDescription>
+                The contributor will see this reason and can edit and resubmit their reading.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="rejection-reason">Reason</Label>
+              <Textarea
+                id="rejection-reason"
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="e.g. BRIX value looks like a typo, refractometer photo is unreadable..."
+                rows={4}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={closeRejectDialog} disabled={processing}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleReject}
+                disabled={processing || !rejectReason.trim()}
+              >
+                {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Reject
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!previewSubmission} onOpenChange={(open) => !open && setPreviewSubmission(null)}>
+          <DialogContent className="max-w-md md:max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>
+                {previewSubmission?.cropLabel ?? previewSubmission?.cropType} — {previewSubmission?.brixLevel} BRIX
+              </DialogTitle>
+              <DialogDescription>
+                Submitted by {previewSubmission?.submittedBy} at {previewSubmission?.locationName || previewSubmission?.placeName}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-h-[70vh] overflow-y-auto">
+              {previewImageUrls.map((url, index) => (
+                <img
+                  key={url}
+                  src={url}
+                  alt={`Submission image ${index + 1}`}
+                  className="w-full rounded-lg shadow-md object-contain"
+                />
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  );
+};
+
+export default AdminReview;
@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import Header from '../components/Layout/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { ArrowLeft, Loader2, MapPin, Store } from 'lucide-react';
+import BranchMiniMap, { MiniMapBranch } from '../components/Map/BranchMiniMap';
+import BrixTrendChart from '../components/common/BrixTrendChart';
+import DataPointDetailModal from '../components/common/DataPointDetailModal';
+import ScoreBadge from '../components/common/ScoreBadge';
+import { useCropThresholds } from '../contexts/CropThresholdContext';
+import {
+  Branch,
+  branchName,
+  chainName,
+  createScorer,
+  fetchBranch,
+  fetchBranchSubmissions,
+  summarizeCrops,
+} from '../lib/storeHierarchy';
+import { BrixDataPoint } from '../types';
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+const BranchDetail: React.FC = () => {
+  const { placeId } = useParams<{ placeId: string }>();
+  const { thresholdsFor } = useCropThresholds();
+
+  const [branch, setBranch] = useState<Branch | null>(null);
+  const [submissions, setSubmissions] = useState<BrixDataPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSubmission, setSelectedSubmission] = useState<BrixDataPoint | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [found, readings] = await Promise.all([fetchBranch(placeId), fetchBranchSubmissions([placeId])]);
+        if (cancelled) return;
+        if (!found) {
+          setError('This store does not exist or has been merged into another.');
+          return;
+        }
+        setBranch(found);
+        // Newest first
+        setSubmissions([...readings].sort((a, b) => (b.submittedAt ?? '').localeCompare(a.submittedAt ?? '')));
+      } catch (e) {
+        console.error('Failed to load branch:', e);
+        if (!cancelled) setError('Could not load this store. Please try again later.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [placeId]);
+
+  const scoreOf = useMemo(() => createScorer(submissions, thresholdsFor), [submissions, thresholdsFor]);
+  const crops = useMemo(() => summarizeCrops(submissions, scoreOf), [submissions, scoreOf]);
+
+  const scores = submissions.map(scoreOf).filter((s): s is number => s !== null);
+  const averageScore = scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null;
+
+  const miniMapBranches = useMemo<MiniMapBranch[]>(
+    () => (branch
+      ? [{ id: branch.id, label: branchName(branch), latitude: branch.latitude, longitude: branch.longitude, score: averageScore }]
+      : []),
+    [branch, averageScore]
+  );
+
+  const address = branch
+    ? [branch.streetAddress, branch.city, branch.state, branch.country].filter(Boolean).join(', ')
+    : '';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {branch?.chain ? (
+          <Link to={`/chains/${branch.chain.id}`} className="text-sm text-blue-700 hover:underline flex items-center mb-2">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            All {chainName(branch.chain)} branches
+          </Link>
+        ) : (
+          <Link to="/map" className="text-sm text-blue-700 hover:underline flex items-center mb-2">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Map
+          </Link>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-600">
+            <Loader2 className="w-6 h-6 animate-spin mr-2" />
+            Loading store...
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-500">{error}</CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="mb-6">
+              <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center space-x-2">
+                <MapPin className="w-8 h-8 text-green-600" />
+                <span>{branchName(branch)}</span>
+              </h1>
+              <p className="text-gray-600">{address}</p>
+              <p className="text-gray-600 flex items-center gap-2 mt-1">
+                <Store className="w-4 h-4" />
+                {branch.chain ? (
+                  <Link to={`/chains/${branch.chain.id}`} className="text-blue-700 hover:underline">
+                    {chainName(branch.chain)}
+                  </Link>
+                ) : (
+                  <span>{chainName(null)}</span>
+                )}
+                <span>· {submissions.length} verified submission{submissions.length === 1 ? '' : 's'}</span>
+                <ScoreBadge score={averageScore} />
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+              <Card>
+                <CardContent className="pt-6">
+                  <BranchMiniMap branches={miniMapBranches} className="h-64 w-full" />
+                </CardContent>
+              </Card>
+
+              <Card className="lg:col-span-2">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">Crops</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {crops.length === 0 ? (
+                    <p className="text-sm text-gray-500">No verified readings yet.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Crop</TableHead>
+                          <TableHead className="text-center">Avg score</TableHead>
+                          <TableHead className="text-right">Readings</TableHead>
+                          <TableHead>Last reading</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {crops.map(crop => (
+                          <TableRow key={crop.crop}>
+                            <TableCell className="font-medium">{crop.label}</TableCell>
+                            <TableCell className="text-center"><ScoreBadge score={crop.averageScore} /></TableCell>
+                            <TableCell className="text-right">{crop.submissionCount}</TableCell>
+                            <TableCell>{formatDate(crop.lastAssessed)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {submissions.length > 0 && (
+              <Card className="mb-6">
+                <CardContent className="pt-6">
+                  <BrixTrendChart
+                    title="History at this store"
+                    initialFilter={{ placeId: branch.id, crop: crops[0]?.crop }}
+                    showLocationFilter={false}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Readings</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {submissions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No verified readings yet.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Crop</TableHead>
+                          <TableHead>Brand</TableHead>
+                          <TableHead className="text-right">BRIX</TableHead>
+                          <TableHead className="text-center">Score</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {submissions.map(submission => (
+                          <TableRow
+                            key={submission.id}
+                            className="cursor-pointer hover:bg-gray-100"
+                            onClick={() => setSelectedSubmission(submission)}
+                          >
+                            <TableCell>{formatDate(submission.submittedAt)}</TableCell>
+                            <TableCell>
+                              {submission.cropLabel || submission.cropType}
+                              {submission.variety && <span className="ml-1 text-xs text-gray-500">{submission.variety}</span>}
+                            </TableCell>
+                            <TableCell>{submission.brandLabel || submission.brandName || '—'}</TableCell>
+                            <TableCell className="text-right font-semibold">{submission.brixLevel}</TableCell>
+                            <TableCell className="text-center"><ScoreBadge score={scoreOf(submission)} /></TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <DataPointDetailModal
+          dataPoint={selectedSubmission}
+          isOpen={!!selectedSubmission}
+          onClose={() => setSelectedSubmission(null)}
+        />
+      </main>
+    </div>
+  );
+};
+
+export default BranchDetail;
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import Header from '../components/Layout/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { ArrowLeft, Loader2, Store } from 'lucide-react';
+import BranchMiniMap, { MiniMapBranch } from '../components/Map/BranchMiniMap';
+import ScoreBadge from '../components/common/ScoreBadge';
+import { useCropThresholds } from '../contexts/CropThresholdContext';
+import {
+  Branch,
+  StoreChain,
+  branchName,
+  chainName,
+  createScorer,
+  fetchBranchSubmissions,
+  fetchChain,
+  summarizeBranches,
+  summarizeCrops,
+} from '../lib/storeHierarchy';
+import { BrixDataPoint } from '../types';
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+const ChainDetail: React.FC = () => {
+  const { chainId } = useParams<{ chainId: string }>();
+  const navigate = useNavigate();
+  const { thresholdsFor } = useCropThresholds();
+
+  const [chain, setChain] = useState<StoreChain | null>(null);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [submissions, setSubmissions] = useState<BrixDataPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const found = await fetchChain(chainId);
+        if (!found) {
+          if (!cancelled) setError('This store chain does not exist or has been merged into another.');
+          return;
+        }
+        const readings = await fetchBranchSubmissions(found.branches.map(b => b.id));
+        if (cancelled) return;
+        setChain(found.chain);
+        setBranches(found.branches);
+        setSubmissions(readings);
+      } catch (e) {
+        console.error('Failed to load store chain:', e);
+        if (!cancelled) setError('Could not load this store chain. Please try again later.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId]);
+
+  const scoreOf = useMemo(() => createScorer(submissions, thresholdsFor), [submissions, thresholdsFor]);
+  const summaries = useMemo(() => summarizeBranches(branches, submissions, scoreOf), [branches, submissions, scoreOf]);
+  const crops = useMemo(
+    () => summarizeCrops(submissions, scoreOf).filter(c => c.averageScore !== null),
+    [submissions, scoreOf]
+  );
+  const miniMapBranches = useMemo<MiniMapBranch[]>(
+    () => summaries.map(s => ({
+      id: s.branch.id,
+      label: branchName(s.branch),
+      latitude: s.branch.latitude,
+      longitude: s.branch.longitude,
+      score: s.averageScore,
+    })),
+    [summaries]
+  );
+
+  const scores = submissions.map(scoreOf).filter((s): s is number => s !== null);
+  const averageScore = scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link to="/leaderboard" className="text-sm text-blue-700 hover:underline flex items-center mb-2">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Leaderboard
+        </Link>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-gray-600">
+            <Loader2 className="w-6 h-6 animate-spin mr-2" />
+            Loading store chain...
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-500">{error}</CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="mb-6">
+              <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center space-x-2">
+                <Store className="w-8 h-8 text-green-600" />
+                <span>{chainName(chain)}</span>
+              </h1>
+              <p className="text-gray-600 flex items-center gap-2">
+                <span>
+                  {branches.length} branch{branches.length === 1 ? '' : 'es'} · {submissions.length} verified submission{submissions.length === 1 ? '' : 's'}
+                </span>
+                <ScoreBadge score={averageScore} />
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+              <Card className="lg:col-span-2">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">Branches</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <BranchMiniMap branches={miniMapBranches} onSelect={(id) => navigate(`/branches/${id}`)} className="h-72 w-full" />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">Crops across the chain</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {crops.length === 0 ? (
+                    <p className="text-sm text-gray-500">No verified readings yet.</p>
+                  ) : (
+                    <ul className="divide-y text-sm">
+                      {crops.map(crop => (
+                        <li key={crop.crop} className="flex items-center justify-between py-2">
+                          <span>
+                            <span className="font-medium">{crop.label}</span>
+                            <span className="ml-2 text-xs text-gray-500">{crop.submissionCount} readings</span>
+                          </span>
+                          <ScoreBadge score={crop.averageScore} />
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardContent className="pt-6">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Branch</TableHead>
+                        <TableHead className="text-center">Avg score</TableHead>
+                        <TableHead className="text-right">Submissions</TableHead>
+                        <TableHead>Best crop</TableHead>
+                        <TableHead>Worst crop</TableHead>
+                        <TableHead>Last reading</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summaries.map(summary => (
+                        <TableRow
+                          key={summary.branch.id}
+                          className="cursor-pointer hover:bg-gray-100"
+                          onClick={() => navigate(`/branches/${summary.branch.id}`)}
+                        >
+                          <TableCell>
+                            <Link
+                              to={`/branches/${summary.branch.id}`}
+                              className="font-medium text-blue-700 hover:underline"
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              {branchName(summary.branch)}
+                            </Link>
+                            <div className="text-xs text-gray-500">
+                              {[summary.branch.streetAddress, summary.branch.city, summary.branch.state].filter(Boolean).join(', ')}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-center"><ScoreBadge score={summary.averageScore} /></TableCell>
+                          <TableCell className="text-right">{summary.submissionCount}</TableCell>
+                          <TableCell>
+                            {summary.bestCrop
+                              ? `${summary.bestCrop.label} (${summary.bestCrop.averageScore.toFixed(2)})`
+                              : '—'}
+                          </TableCell>
+                          <TableCell>
+                            {summary.worstCrop
+                              ? `${summary.worstCrop.label} (${summary.worstCrop.averageScore.toFixed(2)})`
+                              : '—'}
+                          </TableCell>
+                          <TableCell>{formatDate(summary.lastAssessed)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ChainDetail;
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import Header from '../components/Layout/Header';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
@@ -20,42 +20,102 @@ import {
   Clock,
   FileText,
   Info,
-  Building2
+  Building2,
+  Plus,
+  ScanBarcode,
+  ShoppingBasket,
+  Tractor,
+  Sprout,
+  Globe,
+  Tag
 } from 'lucide-react';
 import { useToast } from '../hooks/use-toast';
-import { supabase } from '../integrations/supabase/client';
-import { getSupabaseUrl, getPublishableKey } from '@/lib/utils';
 import ComboBoxAddable from '../components/ui/combo-box-addable';
 import Combobox from '../components/ui/combo-box'; 
 import LocationSearch from '../components/common/LocationSearch';
+import SeasonalComparison from '../components/common/SeasonalComparison';
 import { useStaticData } from '../hooks/useStaticData';
 import { Slider } from '../components/ui/slider';
+import { validateSubmissionFields } from '../lib/validateSubmission';
+import { SubmissionPayload } from '../lib/submitReading';
+import { submitOrQueue } from '../lib/submissionOutbox';
+import { isLocalDatabaseAvailable } from '../lib/localDatabase';
+import {
+  DataEntryDraft,
+  DataEntryForm,
+  deleteDraft,
+  emptyDataEntryForm,
+  hasDraftContent,
+  listDrafts,
+  saveDraft,
+} from '../lib/dataEntryDrafts';
+import DraftBar from '../components/common/DraftBar';
+import { MAX_BRIX_READINGS, summarizeReadings } from '../lib/brixReadings';
+import { isPhotoLocationMismatch, readPhotoMetadata, stripGpsMetadata } from '../lib/photoExif';
+import { boundsAround, distanceInMeters, formatDistance } from '../lib/geo';
+import { fetchPlacesInBounds } from '../lib/fetchMapPlaces';
+import { DetailedLocationInfo, reverseGeocode } from '../lib/mapboxSearch';
+import { findPossibleDuplicates, PossibleDuplicate } from '../lib/duplicateSubmissions';
+import {
+  isBarcodeScanningSupported,
+  lookupProductCode,
+  ParsedProductCode,
+  ProductCode,
+  productCodeTypeLabel,
+  registerProductCode,
+} from '../lib/productCodes';
+import ProductCodeScanner from '../components/common/ProductCodeScanner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import {
+  GROWING_METHOD_LABELS,
+  GROWING_METHODS,
+  CURRENCIES,
+  currencyForCountry,
+  PRICE_UNIT_LABELS,
+  PRICE_UNITS,
+  SAMPLE_SOURCE_LABELS,
+  SAMPLE_SOURCES,
+} from '../lib/provenance';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
 
-interface DetailedLocationInfo {
-  name: string;
-  latitude: number;
-  longitude: number;
-  street_address?: string;
-  city?: string;
-  state?: string;
-  country?: string;
-  poi_name?: string;
-  normalized_address?: string;
-  business_name?: string;
+// A location suggested from a photo's GPS position: an existing place nearby, or Mapbox's guess
+interface PhotoLocationSuggestion {
+  location: DetailedLocationInfo;
+  storeName: string | null;
+  distanceMeters: number;
 }
 
-// Human-readable labels for validation/labels
-const FIELD_LABELS: Record<string, string> = {
-  cropType: 'Crop Type',
-  brand: 'Farm/Brand Name',
-  store: 'Point of Purchase',
-  location: 'Sample Location',
-  purchaseDate: 'Purchase Date',
-  measurementDate: 'Assessment Date',
-  brixLevel: 'BRIX Level',
-  outlierNotes: 'Notes/Observations',
-  images: 'Images',
-};
+// A scanned or typed product code and what it is registered as, if anything
+interface ScannedProductCode {
+  parsed: ParsedProductCode;
+  match: ProductCode | null;
+  registered: boolean;
+}
+
+// Existing places within this distance of the photo are offered before asking Mapbox
+const NEARBY_PLACE_METERS = 200;
+
+// The first reading plus any replicates of the same sample
+const allReadings = (form: DataEntryForm) => [form.brixLevel, ...form.replicateReadings];
+
+// The chosen currency, else the local one for the location, else US dollars
+const priceCurrencyOf = (form: DataEntryForm) => form.priceCurrency || currencyForCountry(form.country) || 'USD';
+
+// Metres between where the photo was taken and the chosen location, when both are known
+const photoDistanceToLocation = (form: DataEntryForm): number | null =>
+  form.photoLatitude != null && (form.latitude || form.longitude)
+    ? distanceInMeters(
+      { latitude: form.photoLatitude, longitude: form.photoLongitude },
+      { latitude: form.latitude, longitude: form.longitude },
+    )
+    : null;
 
 const DataEntry = () => {
   const { user } = useAuth();
@@ -64,27 +124,7 @@ const DataEntry = () => {
 
   const { crops, brands, locations, isLoading: staticDataLoading, error: staticDataError, refreshData } = useStaticData();
 
-  const [formData, setFormData] = useState({
-    cropType: '',
-    variety: '',
-    brixLevel: 12,
-    latitude: 0,
-    longitude: 0,
-    location: '',
-    street_address: '',
-    city: '',
-    state: '',
-    country: '',
-    poi_name: '',
-    business_name: '',
-    normalized_address: '',
-    measurementDate: new Date().toISOString().split('T')[0],
-    purchaseDate: '',
-    outlierNotes: '',
-    brand: '',
-    store: '',
-    images: [] as File[],
-  });
+  const [formData, setFormData] = useState<DataEntryForm>(emptyDataEntryForm);
 
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -93,6 +133,22 @@ const DataEntry = () => {
   const [pendingBrands, setPendingBrands] = useState<string[]>([]);
   const [pendingStores, setPendingStores] = useState<string[]>([]);
 
+  // Drafts autosaved on this device; draftId is null until the form has content
+  const [drafts, setDrafts] = useState<DataEntryDraft[]>([]);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftCreatedAt, setDraftCreatedAt] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+
+  const [photoSuggestion, setPhotoSuggestion] = useState<PhotoLocationSuggestion | null>(null);
+
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [scannedCode, setScannedCode] = useState<ScannedProductCode | null>(null);
+  const [registeringCode, setRegisteringCode] = useState(false);
+
+  // Likely duplicates found before sending; the dialog offers to send anyway
+  const [duplicateCheck, setDuplicateCheck] = useState<{ matches: PossibleDuplicate[]; images: File[] } | null>(null);
+
   useEffect(() => {
     if (!user || (user.role !== 'contributor' && user.role !== 'admin')) {
       navigate('/');
@@ -109,7 +165,81 @@ const DataEntry = () => {
     }
   }, [staticDataError, toast]);
 
-  const handleInputChange = (field: keyof typeof formData, value: any) => {
+  const refreshDrafts = useCallback(() => {
+    if (!user?.id || !isLocalDatabaseAvailable()) return;
+    listDrafts(user.id)
+      .then(setDrafts)
+      .catch(err => console.error('Failed to load drafts:', err));
+  }, [user?.id]);
+
+  useEffect(() => {
+    refreshDrafts();
+  }, [refreshDrafts]);
+
+  // Autosave shortly after the contributor stops typing
+  useEffect(() => {
+    if (!user?.id || !isLocalDatabaseAvailable()) return;
+    if (!draftId && !hasDraftContent(formData, pendingBrands, pendingStores)) return;
+
+    const timer = window.setTimeout(() => {
+      const id = draftId ?? crypto.randomUUID();
+      const createdAt = draftCreatedAt ?? new Date().toISOString();
+      saveDraft({
+        id,
+        userId: user.id,
+        name: draftName,
+        form: formData,
+        pendingBrands,
+        pendingStores,
+        createdAt,
+        updatedAt: createdAt,
+      })
+        .then(() => {
+          setDraftId(id);
+          setDraftCreatedAt(createdAt);
+          setDraftSavedAt(new Date().toISOString());
+          refreshDrafts();
+        })
+        .catch(err => console.error('Failed to save draft:', err));
+    }, 800);
+    return () => window.clearTimeout(timer);
+  }, [user?.id, draftId, draftCreatedAt, draftName, formData, pendingBrands, pendingStores, refreshDrafts]);
+
+  const resetForm = () => {
+    setFormData(emptyDataEntryForm());
+    setPendingBrands([]);
+    setPendingStores([]);
+    setErrors({});
+    setDraftId(null);
+    setDraftName('');
+    setDraftCreatedAt(null);
+    setDraftSavedAt(null);
+    setPhotoSuggestion(null);
+    setScannedCode(null);
+  };
+
+  const handleResumeDraft = (draft: DataEntryDraft) => {
+    setFormData({ ...emptyDataEntryForm(), ...draft.form });
+    setPendingBrands(draft.pendingBrands);
+    setPendingStores(draft.pendingStores);
+    setErrors({});
+    setDraftId(draft.id);
+    setDraftName(draft.name);
+    setDraftCreatedAt(draft.createdAt);
+    setDraftSavedAt(draft.updatedAt);
+  };
+
+  const handleDeleteDraft = async (id: string) => {
+    try {
+      await deleteDraft(id);
+      if (id === draftId) resetForm();
+      refreshDrafts();
+    } catch (err) {
+      console.error('Failed to delete draft:', err);
+    }
+  };
+
+  const handleInputChange = (field: keyof DataEntryForm, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: '' }));
@@ -130,6 +260,75 @@ const DataEntry = () => {
     }
   };
 
+  const handleReplicateChange = (index: number, value: number) => {
+    handleInputChange(
+      'replicateReadings',
+      formData.replicateReadings.map((reading, i) => (i === index ? Math.min(Math.max(value, 0), 100) : reading)),
+    );
+  };
+
+  // A new replicate starts at the current reading so the contributor only adjusts it
+  const addReplicate = () => {
+    handleInputChange('replicateReadings', [...formData.replicateReadings, formData.brixLevel]);
+  };
+
+  const removeReplicate = (index: number) => {
+    handleInputChange('replicateReadings', formData.replicateReadings.filter((_, i) => i !== index));
+  };
+
+  // Prefills crop, brand and variety from a known code; unknown codes can be registered below
+  const handleProductCode = useCallback(async (parsed: ParsedProductCode) => {
+    setScannerOpen(false);
+    try {
+      const match = await lookupProductCode(parsed.code);
+      setScannedCode({ parsed, match, registered: false });
+      if (match && match.status !== 'rejected') {
+        setFormData(prev => ({
+          ...prev,
+          cropType: match.cropName ?? prev.cropType,
+          brand: match.brandName ?? prev.brand,
+          variety: match.variety ?? prev.variety,
+        }));
+        setErrors(prev => ({ ...prev, cropType: '', brand: '' }));
+      }
+    } catch (err) {
+      console.error('Product code lookup failed:', err);
+      toast({ title: 'Could not look up that code', description: 'Please fill in the crop and brand by hand.', variant: 'destructive' });
+    }
+  }, [toast]);
+
+  const handleRegisterCode = async () => {
+    if (!scannedCode || !user) return;
+    const cropId = crops.find(c => c.name === formData.cropType)?.id ?? null;
+    // Brands still pending creation cannot be linked yet; the admin can add them on review
+    const brandId = brands.find(b => b.name === formData.brand)?.id ?? null;
+    if (!cropId && !brandId) {
+      toast({ title: 'Pick the crop or an existing brand first', variant: 'destructive' });
+      return;
+    }
+
+    setRegisteringCode(true);
+    try {
+      await registerProductCode({
+        ...scannedCode.parsed,
+        cropId,
+        brandId,
+        variety: formData.variety,
+        userId: user.id,
+      });
+      setScannedCode(prev => (prev ? { ...prev, registered: true } : prev));
+      toast({ title: 'Code registered', description: 'An admin will review it before others can scan it.' });
+    } catch (err) {
+      toast({
+        title: 'Could not register the code',
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setRegisteringCode(false);
+    }
+  };
+
   // Modified brand handler - only adds to pending list
   const handleAddBrand = (newBrandName: string) => {
     if (!pendingBrands.includes(newBrandName)) {
@@ -146,65 +345,16 @@ const DataEntry = () => {
     handleInputChange('store', newStoreName);
   };
 
-  // Helper function to actually create brands and stores in database
-  const createPendingEntries = async () => {
-    const createdBrands = [];
-    const createdStores = [];
-
-    // Create pending brands
-    for (const brandName of pendingBrands) {
-      try {
-        const { data, error } = await supabase
-          .from('brands')
-          .insert([{ name: brandName }])
-          .select();
-
-        if (error) {
-          console.error('Error creating brand:', error);
-          continue;
-        }
-
-        if (data && data.length > 0) {
-          createdBrands.push(data[0]);
-        }
-      } catch (err) {
-        console.error('Error creating brand:', err);
-      }
-    }
-
-    // Create pending stores
-    for (const storeName of pendingStores) {
-      try {
-        const { data, error } = await supabase
-          .from('locations')
-          .insert([{ name: storeName }])
-          .select();
-
-        if (error) {
-          console.error('Error creating store:', error);
-          continue;
-        }
-        
-        if (data && data.length > 0) {
-          createdStores.push(data[0]);
-        }
-      } catch (err) {
-        console.error('Error creating store:', err);
-      }
-    }
-
-    return { createdBrands, createdStores };
-  };
-
   const validateFile = (file: File): boolean => {
     const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
-    const maxSize = 5 * 1024 * 1024; // 5MB
+    // Photos are downscaled and re-encoded before upload, so only absurd sizes are refused
+    const maxSize = 20 * 1024 * 1024; // 20MB
     if (!allowedTypes.includes(file.type)) {
       setErrors(prev => ({ ...prev, images: 'Only JPEG, PNG, and WebP images are allowed' }));
       return false;
     }
     if (file.size > maxSize) {
-      setErrors(prev => ({ ...prev, images: 'File size must be less than 5MB' }));
+      setErrors(prev => ({ ...prev, images: 'File size must be less than 20MB' }));
       return false;
     }
     return true;
@@ -234,10 +384,85 @@ const DataEntry = () => {
       return;
     }
     handleInputChange('images', [...formData.images, ...validFiles]);
+    applyPhotoMetadata(validFiles);
+  };
+
+  // Suggests where a photo was taken: the nearest known place, otherwise a reverse geocode
+  const suggestPhotoLocation = async (latitude: number, longitude: number) => {
+    const photoPoint = { latitude, longitude };
+    const places = await fetchPlacesInBounds(boundsAround(latitude, longitude, NEARBY_PLACE_METERS)).catch(() => []);
+    const nearest = places
+      .map(place => ({ place, distance: distanceInMeters(photoPoint, place) }))
+      .filter(({ distance }) => distance <= NEARBY_PLACE_METERS)
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    if (nearest) {
+      const store = locations.find(l => l.id === nearest.place.locationId);
+      setPhotoSuggestion({
+        location: {
+          name: nearest.place.label || store?.label || store?.name || 'Nearby place',
+          latitude: nearest.place.latitude,
+          longitude: nearest.place.longitude,
+          city: nearest.place.city || undefined,
+          state: nearest.place.state || undefined,
+          country: nearest.place.country || undefined,
+        },
+        storeName: store?.name ?? null,
+        distanceMeters: nearest.distance,
+      });
+      return;
+    }
+
+    const geocoded = await reverseGeocode(latitude, longitude);
+    if (!geocoded) return;
+    const business = (geocoded.business_name || geocoded.poi_name || '').toLowerCase();
+    const store = business
+      ? locations.find(l => l.name.toLowerCase() === business || l.label?.toLowerCase() === business)
+      : undefined;
+    setPhotoSuggestion({
+      location: geocoded,
+      storeName: store?.name ?? null,
+      distanceMeters: distanceInMeters(photoPoint, geocoded),
+    });
+  };
+
+  // Prefills the measurement date and location from the first new photo that carries EXIF data
+  const applyPhotoMetadata = async (files: File[]) => {
+    for (const file of files) {
+      const { takenOn, latitude, longitude } = await readPhotoMetadata(file);
+      if (!takenOn && latitude == null) continue;
+
+      const today = new Date().toISOString().split('T')[0];
+      // Only replace the default date, never one the contributor picked
+      if (takenOn && takenOn < today && formData.measurementDate === today) {
+        handleInputChange('measurementDate', takenOn);
+        toast({ title: 'Date taken from photo', description: `Measurement date set to ${takenOn}.` });
+      }
+
+      if (latitude != null && formData.photoLatitude == null) {
+        setFormData(prev => ({ ...prev, photoLatitude: latitude, photoLongitude: longitude }));
+        if (!formData.latitude && !formData.longitude) {
+          await suggestPhotoLocation(latitude, longitude);
+        }
+      }
+      return;
+    }
+  };
+
+  const applyPhotoSuggestion = () => {
+    if (!photoSuggestion) return;
+    handleLocationSelect(photoSuggestion.location);
+    if (photoSuggestion.storeName) handleInputChange('store', photoSuggestion.storeName);
+    setPhotoSuggestion(null);
   };
 
   const removeImage = (index: number) => {
-    handleInputChange('images', formData.images.filter((_, i) => i !== index));
+    const images = formData.images.filter((_, i) => i !== index);
+    handleInputChange('images', images);
+    if (images.length === 0) {
+      setFormData(prev => ({ ...prev, photoLatitude: null, photoLongitude: null }));
+      setPhotoSuggestion(null);
+    }
   };
 
   const handleLocationSelect = (location: DetailedLocationInfo) => {
@@ -257,35 +482,7 @@ const DataEntry = () => {
   };
 
   const validateForm = () => {
-    const newErrors: Record<string, string> = {};
-
-    const requiredFields: (keyof typeof formData)[] = ['cropType', 'brand', 'store', 'location', 'purchaseDate', 'measurementDate'];
-    requiredFields.forEach(field => {
-      const value = formData[field];
-      if (typeof value === 'string' && !value.trim()) {
-        newErrors[field] = `Please select ${FIELD_LABELS[field] || field}`;
-      }
-    });
-
-    if (typeof formData.brixLevel !== 'number' || isNaN(formData.brixLevel)) {
-      newErrors.brixLevel = 'Please enter a valid BRIX value';
-    } else if (formData.brixLevel < 0 || formData.brixLevel > 100) {
-      newErrors.brixLevel = 'BRIX must be between 0–100';
-    }
-
-    const today = new Date();
-    const purchaseDate = new Date(formData.purchaseDate);
-    const measurementDate = new Date(formData.measurementDate);
-
-    if (purchaseDate > today) newErrors.purchaseDate = 'Purchase date cannot be in the future';
-    if (measurementDate > today) newErrors.measurementDate = 'Assessment date cannot be in the future';
-    
-    if (purchaseDate > measurementDate) {
-      newErrors.purchaseDate = 'Purchase date should be before or same as assessment date';
-    }
-
-    if (formData.outlierNotes.length > 500) newErrors.outlierNotes = 'Notes too long (max 500 characters)';
-
+    const newErrors = validateSubmissionFields(formData);
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -313,115 +510,23 @@ const DataEntry = () => {
     setIsLoading(true);
 
     try {
-      // First, create any pending brands and stores in the database
-      await createPendingEntries();
-      
-      // Clear pending lists since we've now created them
-      setPendingBrands([]);
-      setPendingStores([]);
-
-      // Prepare the enhanced payload with detailed location information
-      const payload = {
+      // Hashed after stripping, like the uploaded copy, so photo matches line up with content_hash
+      const images = await Promise.all(formData.images.map(stripGpsMetadata));
+      const readingSummary = summarizeReadings(allReadings(formData));
+      const matches = await findPossibleDuplicates({
         cropName: formData.cropType,
-        brandName: formData.brand,
-        variety: formData.variety,
-        brixValue: Number.isFinite(formData.brixLevel)
-          ? Number(formData.brixLevel.toFixed(2))
-          : 0,
-        assessmentDate: new Date(formData.measurementDate + 'T00:00:00.000Z').toISOString(),
-        purchaseDate: new Date(formData.purchaseDate + 'T00:00:00.000Z').toISOString(),
-        outlierNotes: formData.outlierNotes,
-        userId: user?.id,
-        // Enhanced location data from Mapbox geocoding
         latitude: formData.latitude,
         longitude: formData.longitude,
-        locationName: formData.location,
-        street_address: formData.street_address || null,
-        city: formData.city || null,
-        state: formData.state || null,
-        country: formData.country || null,
-        poi_name: formData.poi_name || null,
-        business_name: formData.business_name || null,
-        normalized_address: formData.normalized_address || null,
-        store_name: formData.store
-      };
-
-      // Call the Edge Function with enhanced location data
-      const supabaseUrl = getSupabaseUrl();
-      const publishKey = getPublishableKey();
-      const response = await fetch(`${supabaseUrl}/functions/v1/auto-verify-submission`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${publishKey}`,
-        },
-        body: JSON.stringify(payload),
+        assessmentDate: formData.measurementDate,
+        brixValue: readingSummary ? readingSummary.mean : formData.brixLevel,
+        images,
       });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || errorData.error || 'Failed to submit data via Edge Function.');
-      }
-      
-      const result = await response.json();
-      const { verified, submission_id } = result;
-      
-      if (!submission_id) {
-        throw new Error('Submission ID was not returned by the server.');
-      }
-      
-      // Handle image uploads
-      if (formData.images.length > 0) {
-        const userId = user?.id;
-        if (!userId) throw new Error('User not authenticated for image upload.');
-        
-        for (let i = 0; i < formData.images.length; i++) {
-          const file = formData.images[i];
-          const fileExtension = file.name?.split('.').pop()?.toLowerCase() || 'jpg';
-          const filePath = [userId, submission_id, `${Date.now()}_${i}.${fileExtension}`].join('/');
-          
-          const { error: uploadError } = await supabase.storage
-            .from('submission-images-bucket')
-            .upload(filePath, file);
-          
-          if (uploadError) {
-            console.error('Image upload failed:', uploadError);
-            toast({
-              title: 'Image upload failed',
-              description: `Some images could not be uploaded. Error: ${uploadError.message}`,
-              variant: 'destructive',
-            });
-            continue;
-          }
-          
-          const { error: insertError } = await supabase
-            .from('submission_images')
-            .insert({
-              submission_id: submission_id,
-              image_url: filePath,
-            });
-          
-          if (insertError) {
-            console.error('Failed to save image metadata:', insertError);
-          }
-        }
+      if (matches.length > 0) {
+        setDuplicateCheck({ matches, images });
+        return;
       }
-      
-      if (verified) {
-        toast({ 
-          title: 'Submission successful', 
-          description: 'Your BRIX reading was auto-verified. Thank you for contributing!', 
-          variant: 'default'
-        });
-      } else {
-        toast({ 
-          title: 'Submission received',
-          description: 'Your BRIX reading will be reviewed by an admin shortly.', 
-          variant: 'default' 
-        });
-      }
-      
-      navigate('/your-data');
+
+      await sendReading(images);
     } catch (err: any) {
       console.error(err);
       toast({ title: err.message || 'Something went wrong', variant: 'destructive' });
@@ -430,6 +535,121 @@ const DataEntry = () => {
     }
   };
 
+  // Sends the reading, or queues it in the outbox when offline. Images are already GPS-stripped.
+  const sendReading = async (images: File[]) => {
+    const photoDistance = photoDistanceToLocation(formData);
+    const readingSummary = summarizeReadings(allReadings(formData));
+    const farmPicked = formData.sampleSource === 'farm_picked';
+    const hasPrice = !farmPicked && formData.price.trim() !== '';
+
+    // Prepare the enhanced payload with detailed location information
+    const payload: SubmissionPayload = {
+      cropName: formData.cropType,
+      brandName: formData.brand,
+      variety: formData.variety,
+      // The mean of all readings; the edge function recomputes it from brixReadings
+      brixValue: readingSummary ? readingSummary.mean : 0,
+      brixReadings: formData.replicateReadings.length > 0
+        ? allReadings(formData).map(reading => Number(reading.toFixed(2)))
+        : null,
+      assessmentDate: new Date(formData.measurementDate + 'T00:00:00.000Z').toISOString(),
+      purchaseDate: !farmPicked && formData.purchaseDate
+        ? new Date(formData.purchaseDate + 'T00:00:00.000Z').toISOString()
+        : null,
+      outlierNotes: formData.outlierNotes,
+      sampleSource: formData.sampleSource,
+      harvestTime: farmPicked && formData.harvestDate
+        ? new Date(formData.harvestDate + 'T00:00:00.000Z').toISOString()
+        : null,
+      farmLocation: formData.farmLocation.trim() || null,
+      growingMethod: formData.growingMethod || null,
+      originCountry: formData.originCountry.trim() || null,
+      price: hasPrice ? Number(formData.price) : null,
+      priceUnit: hasPrice ? formData.priceUnit : null,
+      priceCurrency: hasPrice ? priceCurrencyOf(formData) : null,
+      userId: user?.id,
+      imageCount: formData.images.length,
+      // Only the distance leaves the device: the photo's own position is stripped below
+      photoDistanceMeters: photoDistance != null ? Math.round(photoDistance) : null,
+      // Enhanced location data from Mapbox geocoding
+      latitude: formData.latitude,
+      longitude: formData.longitude,
+      locationName: formData.location,
+      street_address: formData.street_address || null,
+      city: formData.city || null,
+      state: formData.state || null,
+      country: formData.country || null,
+      poi_name: formData.poi_name || null,
+      business_name: formData.business_name || null,
+      normalized_address: formData.normalized_address || null,
+      store_name: formData.store
+    };
+
+    // Creates any pending brands and stores, calls the Edge Function and uploads the photos,
+    // or keeps the whole reading in the offline outbox when there is no connection
+    const { state, verified, failedImages } = await submitOrQueue({
+      userId: user.id,
+      payload,
+      images,
+      pendingBrands,
+      pendingStores,
+    });
+
+    // Clear pending lists since they are now created (or queued with the reading)
+    setPendingBrands([]);
+    setPendingStores([]);
+
+    // The reading is sent or in the outbox, so its draft is no longer needed
+    if (draftId) {
+      await deleteDraft(draftId).catch(err => console.error('Failed to delete draft:', err));
+    }
+
+    if (failedImages > 0) {
+      toast({
+        title: 'Image upload failed',
+        description: `${failedImages} image${failedImages > 1 ? 's' : ''} could not be uploaded.`,
+        variant: 'destructive',
+      });
+    }
+
+    if (state === 'queued') {
+      toast({
+        title: 'Saved offline',
+        description: 'You appear to be offline. Your reading and photos will be sent automatically when you are back online.',
+        variant: 'default'
+      });
+    } else if (verified) {
+      toast({ 
+        title: 'Submission successful', 
+        description: 'Your BRIX reading was auto-verified. Thank you for contributing!', 
+        variant: 'default'
+      });
+    } else {
+      toast({ 
+        title: 'Submission received',
+        description: 'Your BRIX reading will be reviewed by an admin shortly.', 
+        variant: 'default' 
+      });
+    }
+    
+    navigate('/your-data');
+  };
+
+  const handleSubmitDespiteDuplicates = async () => {
+    if (!duplicateCheck) return;
+    const { images } = duplicateCheck;
+    setDuplicateCheck(null);
+    setIsLoading(true);
+    try {
+      await sendReading(images);
+    } catch (err) {
+      console.error(err);
+      toast({ title: err instanceof Error ? err.message : 'Something went wrong', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   if (!user || (user.role !== 'contributor' && user.role !== 'admin')) return null;
 
   if (staticDataLoading) {
@@ -454,6 +674,10 @@ const DataEntry = () => {
     ...pendingStores.map(name => ({ name, label: name }))
   ];
 
+  const photoDistance = photoDistanceToLocation(formData);
+  const readingSummary = summarizeReadings(allReadings(formData));
+  const aggregateBrix = readingSummary ? readingSummary.mean : formData.brixLevel;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
       <Header />
@@ -465,8 +689,27 @@ const DataEntry = () => {
           <p className="text-md text-gray-600 max-w-2xl mx-auto">
             Record your bionutrient density measurement from refractometer readings
           </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Logging many readings at once?{' '}
+            <Link to="/data-entry/import" className="text-blue-600 hover:underline font-medium">
+              Import them from a CSV file
+            </Link>
+          </p>
         </div>
 
+        {isLocalDatabaseAvailable() && (
+          <DraftBar
+            drafts={drafts}
+            currentDraftId={draftId}
+            draftName={draftName}
+            savedAt={draftSavedAt}
+            onNameChange={setDraftName}
+            onResume={handleResumeDraft}
+            onDelete={handleDeleteDraft}
+            onNew={resetForm}
+          />
+        )}
+
         <Card className="shadow-2xl border-0">
           <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-t-xl border-b">
             <CardTitle className="flex items-center space-x-3 text-xl">
@@ -478,6 +721,54 @@ const DataEntry = () => {
           </CardHeader>
           <CardContent className="p-4 sm:p-6 md:p-8">
             <form className="space-y-6 sm:space-y-8" autoComplete="off">
+              {/* Product code scanning: fills in crop and brand from a barcode or PLU */}
+              <div className="space-y-3">
+                {scannerOpen ? (
+                  <ProductCodeScanner onDetected={handleProductCode} onClose={() => setScannerOpen(false)} />
+                ) : (
+                  <Button type="button" variant="outline" onClick={() => setScannerOpen(true)}>
+                    <ScanBarcode className="w-4 h-4 mr-2" />
+                    {isBarcodeScanningSupported() ? 'Scan barcode / PLU' : 'Enter barcode / PLU'}
+                  </Button>
+                )}
+                {scannedCode && (
+                  <div className="p-3 rounded-lg border bg-gray-50 text-sm space-y-2">
+                    <p className="font-medium text-gray-900">
+                      {productCodeTypeLabel(scannedCode.parsed.type)} {scannedCode.parsed.code}
+                    </p>
+                    {scannedCode.match && scannedCode.match.status !== 'rejected' ? (
+                      <p className="text-gray-700">
+                        {[scannedCode.match.cropLabel, scannedCode.match.brandLabel, scannedCode.match.variety]
+                          .filter(Boolean)
+                          .join(' · ')}
+                        {' '}— filled in below.
+                        {scannedCode.match.status === 'pending' && ' This code is still awaiting admin approval.'}
+                      </p>
+                    ) : scannedCode.registered ? (
+                      <p className="text-green-700">Registered for review. Thank you!</p>
+                    ) : (
+                      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                        <p className="text-gray-700 sm:flex-1">
+                          {scannedCode.match
+                            ? 'An admin rejected this code. Pick the right crop and brand below, then register it again.'
+                            : 'Unknown code. Pick the crop and brand below, then register it so others can scan it.'}
+                        </p>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="secondary"
+                          onClick={handleRegisterCode}
+                          disabled={registeringCode || (!formData.cropType && !formData.brand)}
+                        >
+                          {registeringCode && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                          Register code
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
               <div className="border-l-4 border-blue-500 pl-4 sm:pl-6">
                 <div className="flex items-center space-x-2 mb-6">
                   <h3 className="text-xl font-bold text-gray-900">Required Information</h3>
@@ -593,6 +884,63 @@ const DataEntry = () => {
                     />
                     </div>
                     {errors.brixLevel && <p className="text-red-600 text-sm mt-2 flex items-center"><X className="w-4 h-4 mr-1" />{errors.brixLevel}</p>}
+
+                    {/* Replicate readings of the same sample */}
+                    <div className="mt-3 space-y-2">
+                      {formData.replicateReadings.map((reading, index) => (
+                        <div key={index} className="flex items-center space-x-2">
+                          <span className="text-xs text-gray-500 w-20">Reading {index + 2}</span>
+                          <Input
+                            type="number"
+                            step="0.1"
+                            min="0"
+                            max="100"
+                            inputMode="decimal"
+                            value={isNaN(reading) ? '' : reading}
+                            onChange={(e) => {
+                              const parsed = parseFloat(e.target.value);
+                              handleReplicateChange(index, isNaN(parsed) ? 0 : parsed);
+                            }}
+                            className="w-24 text-center"
+                            aria-label={`Reading ${index + 2}`}
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeReplicate(index)}
+                            aria-label={`Remove reading ${index + 2}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      {allReadings(formData).length < MAX_BRIX_READINGS && (
+                        <Button type="button" variant="outline" size="sm" onClick={addReplicate}>
+                          <Plus className="w-4 h-4 mr-1" />
+                          Add replicate reading
+                        </Button>
+                      )}
+                      {readingSummary && readingSummary.count > 1 && (
+                        <p className="text-sm text-gray-600">
+                          {readingSummary.count} readings · mean <span className="font-semibold">{readingSummary.mean}</span>
+                          {' '}· median {readingSummary.median} · SD {readingSummary.stdev}.
+                          {' '}The mean is submitted as the BRIX level.
+                        </p>
+                      )}
+                      {errors.replicateReadings && <p className="text-red-600 text-sm flex items-center"><X className="w-4 h-4 mr-1" />{errors.replicateReadings}</p>}
+                    </div>
+
+                    {formData.cropType && (
+                      <div className="mt-3">
+                        <SeasonalComparison
+                          cropName={formData.cropType}
+                          brixValue={aggregateBrix}
+                          date={formData.measurementDate}
+                          latitude={formData.location ? formData.latitude : null}
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -608,24 +956,84 @@ const DataEntry = () => {
                       onChange={e => handleInputChange('location', e.target.value)}
                       onLocationSelect={handleLocationSelect}
                     />
+                    {photoSuggestion && !formData.latitude && !formData.longitude && (
+                      <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-md text-sm flex flex-col sm:flex-row sm:items-center gap-2">
+                        <Camera className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                        <span className="flex-1 text-blue-900">
+                          Your photo was taken near <span className="font-medium">{photoSuggestion.location.name}</span>
+                          {photoSuggestion.distanceMeters >= 50 && ` (${formatDistance(photoSuggestion.distanceMeters)} away)`}
+                        </span>
+                        <div className="flex gap-2">
+                          <Button type="button" size="sm" onClick={applyPhotoSuggestion}>Use this location</Button>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => setPhotoSuggestion(null)}>Dismiss</Button>
+                        </div>
+                      </div>
+                    )}
+                    {isPhotoLocationMismatch(photoDistance) && (
+                      <p className="text-amber-700 text-sm mt-2 flex items-center">
+                        <Camera className="w-4 h-4 mr-1 flex-shrink-0" />
+                        Your photo was taken {formatDistance(photoDistance)} from this location. Reviewers will see this.
+                      </p>
+                    )}
                     {errors.location && <p className="text-red-600 text-sm mt-2 flex items-center"><X className="w-4 h-4 mr-1" />{errors.location}</p>}
                   </div>
 
-                  {/* Purchase Date */}
+                  {/* Sample Source with its Purchase or Harvest Date */}
                   <div>
-                    <Label htmlFor="purchaseDate" className="flex items-center mb-2 text-sm font-semibold text-gray-700">
-                      <Calendar className="inline w-4 h-4 mr-2" />
-                      Purchase Date <span className="ml-1 text-red-600">*</span>
+                    <Label className="flex items-center mb-2 text-sm font-semibold text-gray-700">
+                      {formData.sampleSource === 'farm_picked'
+                        ? <Tractor className="inline w-4 h-4 mr-2" />
+                        : <ShoppingBasket className="inline w-4 h-4 mr-2" />}
+                      Sample Source <span className="ml-1 text-red-600">*</span>
                     </Label>
-                    <Input
-                      id="purchaseDate"
-                      type="date"
-                      value={formData.purchaseDate}
-                      onChange={e => handleInputChange('purchaseDate', e.target.value)}
-                      max={new Date().toISOString().split('T')[0]}
-                      className={`w-full border-2 rounded-xl px-4 py-3 text-gray-900 transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-blue-200 hover:border-gray-300 ${errors.purchaseDate ? 'border-red-400 bg-red-50 focus:border-red-500' : 'border-gray-200 focus:border-blue-500 bg-white'}`}
-                    />
-                    {errors.purchaseDate && <p className="text-red-600 text-sm mt-2 flex items-center"><X className="w-4 h-4 mr-1" />{errors.purchaseDate}</p>}
+                    <div className="flex gap-2 mb-4" role="group" aria-label="Sample source">
+                      {SAMPLE_SOURCES.map(source => (
+                        <Button
+                          key={source}
+                          type="button"
+                          size="sm"
+                          variant={formData.sampleSource === source ? 'default' : 'outline'}
+                          aria-pressed={formData.sampleSource === source}
+                          onClick={() => handleInputChange('sampleSource', source)}
+                        >
+                          {SAMPLE_SOURCE_LABELS[source]}
+                        </Button>
+                      ))}
+                    </div>
+
+                    {formData.sampleSource === 'farm_picked' ? (
+                      <>
+                        <Label htmlFor="harvestDate" className="flex items-center mb-2 text-sm font-semibold text-gray-700">
+                          <Calendar className="inline w-4 h-4 mr-2" />
+                          Harvest Date
+                        </Label>
+                        <Input
+                          id="harvestDate"
+                          type="date"
+                          value={formData.harvestDate}
+                          onChange={e => handleInputChange('harvestDate', e.target.value)}
+                          max={new Date().toISOString().split('T')[0]}
+                          className={`w-full border-2 rounded-xl px-4 py-3 text-gray-900 transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-blue-200 hover:border-gray-300 ${errors.harvestDate ? 'border-red-400 bg-red-50 focus:border-red-500' : 'border-gray-200 focus:border-blue-500 bg-white'}`}
+                        />
+                        {errors.harvestDate && <p className="text-red-600 text-sm mt-2 flex items-center"><X className="w-4 h-4 mr-1" />{errors.harvestDate}</p>}
+                      </>
+                    ) : (
+                      <>
+                        <Label htmlFor="purchaseDate" className="flex items-center mb-2 text-sm font-semibold text-gray-700">
+                          <Calendar className="inline w-4 h-4 mr-2" />
+                          Purchase Date <span className="ml-1 text-red-600">*</span>
+                        </Label>
+                        <Input
+                          id="purchaseDate"
+                          type="date"
+                          value={formData.purchaseDate}
+                          onChange={e => handleInputChange('purchaseDate', e.target.value)}
+                          max={new Date().toISOString().split('T')[0]}
+                          className={`w-full border-2 rounded-xl px-4 py-3 text-gray-900 transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-blue-200 hover:border-gray-300 ${errors.purchaseDate ? 'border-red-400 bg-red-50 focus:border-red-500' : 'border-gray-200 focus:border-blue-500 bg-white'}`}
+                        />
+                        {errors.purchaseDate && <p className="text-red-600 text-sm mt-2 flex items-center"><X className="w-4 h-4 mr-1" />{errors.purchaseDate}</p>}
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
@@ -670,6 +1078,108 @@ const DataEntry = () => {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 sm:gap-8 mb-6 sm:mb-8">
+                  {/* Growing Method */}
+                  <div>
+                    <Label className="flex items-center mb-2 text-sm font-semibold text-gray-700">
+                      <Sprout className="inline w-4 h-4 mr-2" />
+                      Growing Method
+                    </Label>
+                    <Select
+                      value={formData.growingMethod || 'unknown'}
+                      onValueChange={value => handleInputChange('growingMethod', value === 'unknown' ? '' : value)}
+                    >
+                      <SelectTrigger className="h-auto border-2 rounded-xl px-4 py-3" aria-label="Growing method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="unknown">Not sure</SelectItem>
+                        {GROWING_METHODS.map(method => (
+                          <SelectItem key={method} value={method}>{GROWING_METHOD_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Country of Origin */}
+                  <div>
+                    <Label htmlFor="originCountry" className="flex items-center mb-2 text-sm font-semibold text-gray-700">
+                      <Globe className="inline w-4 h-4 mr-2" />
+                      Country of Origin
+                    </Label>
+                    <Input
+                      id="originCountry"
+                      type="text"
+                      placeholder="As shown on the label or sign, e.g., Mexico"
+                      value={formData.originCountry}
+                      onChange={e => handleInputChange('originCountry', e.target.value)}
+                      className="w-full border-2 rounded-xl px-4 py-3 text-gray-900 placeholder-gray-400 transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-blue-200 hover:border-gray-300 border-gray-200 focus:border-blue-500 bg-white"
+                    />
+                  </div>
+
+                  {/* Price */}
+                  {formData.sampleSource === 'purchased' && (
+                    <div>
+                      <Label htmlFor="price" className="flex items-center mb-2 text-sm font-semibold text-gray-700">
+                        <Tag className="inline w-4 h-4 mr-2" />
+                        Price Paid
+                      </Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="price"
+                          type="number"
+                          inputMode="decimal"
+                          min={0}
+                          step="0.01"
+                          placeholder="e.g., 3.49"
+                          value={formData.price}
+                          onChange={e => handleInputChange('price', e.target.value)}
+                          className={`flex-1 border-2 rounded-xl px-4 py-3 text-gray-900 transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-blue-200 hover:border-gray-300 placeholder-gray-400 ${errors.price ? 'border-red-400 bg-red-50 focus:border-red-500' : 'border-gray-200 focus:border-blue-500 bg-white'}`}
+                        />
+                        <Select value={priceCurrencyOf(formData)} onValueChange={value => handleInputChange('priceCurrency', value)}>
+                          <SelectTrigger className="w-24 h-auto border-2 rounded-xl px-4 py-3" aria-label="Currency">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CURRENCIES.map(currency => (
+                              <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select value={formData.priceUnit} onValueChange={value => handleInputChange('priceUnit', value)}>
+                          <SelectTrigger className="w-32 h-auto border-2 rounded-xl px-4 py-3" aria-label="Price unit">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PRICE_UNITS.map(unit => (
+                              <SelectItem key={unit} value={unit}>{PRICE_UNIT_LABELS[unit]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {errors.price && <p className="text-red-600 text-sm mt-2 flex items-center"><X className="w-4 h-4 mr-1" />{errors.price}</p>}
+                    </div>
+                  )}
+
+                  {/* Farm Location */}
+                  {formData.sampleSource === 'farm_picked' && (
+                    <div>
+                      <Label htmlFor="farmLocation" className="flex items-center mb-2 text-sm font-semibold text-gray-700">
+                        <Tractor className="inline w-4 h-4 mr-2" />
+                        Farm Location
+                      </Label>
+                      <Input
+                        id="farmLocation"
+                        type="text"
+                        placeholder="Farm name or nearest town"
+                        value={formData.farmLocation}
+                        onChange={e => handleInputChange('farmLocation', e.target.value)}
+                        className="w-full border-2 rounded-xl px-4 py-3 text-gray-900 placeholder-gray-400 transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-blue-200 hover:border-gray-300 border-gray-200 focus:border-blue-500 bg-white"
+                      />
+                    </div>
+                  )}
+                </div>
+
                 {/* Outlier Notes */}
                 <div className="mb-8">
                   <Label htmlFor="outlierNotes" className="flex items-center mb-2 text-sm font-semibold text-gray-700">
@@ -732,6 +1242,36 @@ const DataEntry = () => {
           </CardContent>
         </Card>
       </main>
+      <Dialog open={!!duplicateCheck} onOpenChange={(open) => !open && setDuplicateCheck(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>This looks like a reading you already sent</DialogTitle>
+            <DialogDescription>
+              Logging the same reading twice skews the leaderboards. Send it anyway only if it is a different sample.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-2 text-sm">
+            {duplicateCheck?.matches.map(match => (
+              <li key={match.submissionId} className="p-2 rounded-md bg-amber-50 border border-amber-200">
+                <p className="font-medium text-gray-900">
+                  {match.cropName} · {match.brixValue} BRIX
+                  {match.assessmentDate && ` · ${new Date(match.assessmentDate).toLocaleDateString()}`}
+                </p>
+                {match.placeLabel && <p className="text-gray-600">{match.placeLabel}</p>}
+                <p className="text-amber-800">{match.matchReason}</p>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDuplicateCheck(null)}>
+              Go back
+            </Button>
+            <Button onClick={handleSubmitDespiteDuplicates}>
+              Submit anyway
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
       {/* Sticky footer submit button */}
       <div className="fixed bottom-0 left-0 right-0 bg-white border-t shadow-lg p-4">
       <div className="max-w-5xl mx-auto flex justify-end">
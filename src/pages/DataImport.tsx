@@ -0,0 +1,420 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import Header from '../components/Layout/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Badge } from '../components/ui/badge';
+import { Progress } from '../components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { ArrowLeft, CheckCircle, Clock, FileSpreadsheet, Loader2, Upload, X, XCircle } from 'lucide-react';
+import { useToast } from '../hooks/use-toast';
+import { useStaticData } from '../hooks/useStaticData';
+import {
+  ColumnMapping,
+  FuzzyMatch,
+  IMPORT_FIELDS,
+  ImportField,
+  NamedItem,
+  fuzzyMatchItem,
+  guessColumnMapping,
+  normalizeDateCell,
+  parseCsv,
+} from '../lib/csvImport';
+import { FIELD_LABELS, validateSubmissionFields } from '../lib/validateSubmission';
+import { createBrandsAndStores, postSubmission, SubmissionPayload } from '../lib/submitReading';
+
+// Readings sent to the edge function concurrently
+const IMPORT_BATCH_SIZE = 5;
+const UNMAPPED = '__unmapped__';
+
+interface ImportRow {
+  rowNumber: number; // 1-based line number in the CSV, header included
+  payload: SubmissionPayload;
+  // Names as typed in the CSV, shown next to what they matched
+  raw: { crop: string; brand: string; store: string };
+  cropMatch: FuzzyMatch<NamedItem> | null;
+  brandMatch: FuzzyMatch<NamedItem> | null;
+  storeMatch: FuzzyMatch<NamedItem> | null;
+  errors: string[];
+}
+
+interface RowResult {
+  status: 'verified' | 'pending' | 'error';
+  submissionId?: string;
+  message?: string;
+}
+
+const MatchCell: React.FC<{ raw: string; match: FuzzyMatch<NamedItem> | null; allowNew: boolean }> = ({ raw, match, allowNew }) => {
+  if (!raw) return <span className="text-gray-400">—</span>;
+  if (match?.exact) return <span>{match.item.label || match.item.name}</span>;
+  if (match) {
+    return (
+      <div>
+        <span className="line-through text-gray-400 mr-1">{raw}</span>
+        <span className="font-medium">{match.item.label || match.item.name}</span>
+      </div>
+    );
+  }
+  return allowNew ? (
+    <div className="flex items-center space-x-1">
+      <span>{raw}</span>
+      <Badge variant="secondary" className="text-[10px]">New</Badge>
+    </div>
+  ) : (
+    <span className="text-red-600">{raw}</span>
+  );
+};
+
+const DataImport = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { crops, brands, locations, isLoading: staticDataLoading, refreshData } = useStaticData();
+
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+
+  useEffect(() => {
+    if (!user || (user.role !== 'contributor' && user.role !== 'admin')) {
+      navigate('/');
+    }
+  }, [user, navigate]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      toast({ title: 'Nothing to import', description: 'The file needs a header row and at least one reading.', variant: 'destructive' });
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(rows[0].map(h => h.trim()));
+    setDataRows(rows.slice(1));
+    setMapping(guessColumnMapping(rows[0]));
+    setResults({});
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === UNMAPPED) delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+    setResults({});
+  };
+
+  const importRows: ImportRow[] = useMemo(() => {
+    const cell = (row: string[], field: ImportField) => {
+      const index = mapping[field];
+      return index === undefined ? '' : (row[index] ?? '').trim();
+    };
+
+    return dataRows.map((row, i) => {
+      const cropMatch = fuzzyMatchItem(cell(row, 'cropName'), crops);
+      const brandMatch = fuzzyMatchItem(cell(row, 'brandName'), brands);
+      const storeMatch = fuzzyMatchItem(cell(row, 'store_name'), locations);
+
+      const brandName = brandMatch?.item.name ?? cell(row, 'brandName');
+      const storeName = storeMatch?.item.name ?? cell(row, 'store_name');
+      const brixText = cell(row, 'brixValue');
+      const brixLevel = brixText === '' ? NaN : Number(brixText);
+      const assessmentDate = normalizeDateCell(cell(row, 'assessmentDate'));
+      const purchaseDate = normalizeDateCell(cell(row, 'purchaseDate'));
+      const latitude = Number(cell(row, 'latitude'));
+      const longitude = Number(cell(row, 'longitude'));
+
+      // Same rules as the single-entry form, plus the coordinates the location search would supply there
+      const fieldErrors = validateSubmissionFields({
+        cropType: cropMatch?.item.name ?? '',
+        brand: brandName,
+        store: storeName,
+        location: cell(row, 'locationName'),
+        purchaseDate,
+        measurementDate: assessmentDate,
+        brixLevel,
+        outlierNotes: cell(row, 'outlierNotes'),
+      });
+      if (cell(row, 'cropName') && !cropMatch) {
+        fieldErrors.cropType = `Unknown ${FIELD_LABELS.cropType}: "${cell(row, 'cropName')}"`;
+      }
+      const errors = Object.values(fieldErrors);
+      if (!cell(row, 'latitude') || !cell(row, 'longitude') || !Number.isFinite(latitude) || !Number.isFinite(longitude)
+        || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        errors.push('Please provide valid latitude and longitude');
+      }
+
+      const payload: SubmissionPayload = {
+        cropName: cropMatch?.item.name ?? '',
+        brandName,
+        variety: cell(row, 'variety'),
+        brixValue: Number.isFinite(brixLevel) ? Number(brixLevel.toFixed(2)) : 0,
+        assessmentDate: assessmentDate ? new Date(assessmentDate + 'T00:00:00.000Z').toISOString() : '',
+        purchaseDate: purchaseDate ? new Date(purchaseDate + 'T00:00:00.000Z').toISOString() : '',
+        outlierNotes: cell(row, 'outlierNotes'),
+        userId: user?.id,
+        latitude,
+        longitude,
+        locationName: cell(row, 'locationName'),
+        street_address: cell(row, 'street_address') || null,
+        city: cell(row, 'city') || null,
+        state: cell(row, 'state') || null,
+        country: cell(row, 'country') || null,
+        poi_name: null,
+        business_name: null,
+        normalized_address: null,
+        store_name: storeName,
+      };
+
+      const raw = { crop: cell(row, 'cropName'), brand: cell(row, 'brandName'), store: cell(row, 'store_name') };
+      return { rowNumber: i + 2, payload, raw, cropMatch, brandMatch, storeMatch, errors };
+    });
+  }, [dataRows, mapping, crops, brands, locations, user?.id]);
+
+  const validRows = importRows.filter(r => r.errors.length === 0);
+  const pendingRows = validRows.filter(r => results[r.rowNumber]?.status !== 'verified' && results[r.rowNumber]?.status !== 'pending');
+  const completedCount = Object.keys(results).length;
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+  const handleSubmit = async () => {
+    if (pendingRows.length === 0) return;
+    setIsSubmitting(true);
+
+    try {
+      // Brands and stores that did not match anything are created first, like pending entries on the single form
+      const newBrands = Array.from(new Set(pendingRows.filter(r => !r.brandMatch).map(r => r.payload.brandName)));
+      const newStores = Array.from(new Set(pendingRows.filter(r => !r.storeMatch).map(r => r.payload.store_name)));
+      if (newBrands.length > 0 || newStores.length > 0) {
+        await createBrandsAndStores(newBrands, newStores);
+      }
+
+      for (let start = 0; start < pendingRows.length; start += IMPORT_BATCH_SIZE) {
+        const batch = pendingRows.slice(start, start + IMPORT_BATCH_SIZE);
+        const settled = await Promise.allSettled(batch.map(r => postSubmission(r.payload)));
+
+        setResults(prev => {
+          const next = { ...prev };
+          settled.forEach((outcome, i) => {
+            next[batch[i].rowNumber] = outcome.status === 'fulfilled'
+              ? { status: outcome.value.verified ? 'verified' : 'pending', submissionId: outcome.value.submission_id }
+              : { status: 'error', message: outcome.reason?.message || 'Submission failed' };
+          });
+          return next;
+        });
+      }
+
+      if (newBrands.length > 0 || newStores.length > 0) refreshData();
+      toast({ title: 'Import finished', description: 'Check the results column for any rows that failed.' });
+    } catch (err) {
+      console.error('Import error:', err);
+      toast({ title: err instanceof Error ? err.message : 'Something went wrong', variant: 'destructive' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!user || (user.role !== 'contributor' && user.role !== 'admin')) return null;
+
+  if (staticDataLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center">
+        <div className="text-center p-6">
+          <Loader2 className="w-12 h-12 animate-spin text-blue-500 mx-auto" />
+          <p className="mt-4 text-gray-600">Loading crops, brands and stores...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const renderResult = (row: ImportRow) => {
+    const result = results[row.rowNumber];
+    if (row.errors.length > 0) {
+      return (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {row.errors.map(err => (
+            <li key={err} className="flex items-start"><X className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />{err}</li>
+          ))}
+        </ul>
+      );
+    }
+    if (!result) return <span className="text-xs text-gray-500">Ready</span>;
+    if (result.status === 'verified') {
+      return <Badge className="bg-green-100 text-green-700 hover:bg-green-100"><CheckCircle className="w-3 h-3 mr-1" />Verified</Badge>;
+    }
+    if (result.status === 'pending') {
+      return <Badge className="bg-orange-100 text-orange-700 hover:bg-orange-100"><Clock className="w-3 h-3 mr-1" />Pending review</Badge>;
+    }
+    return (
+      <div className="text-xs text-red-600 flex items-start">
+        <XCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />{result.message}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <Header />
+      <main className="max-w-7xl mx-auto p-4 md:p-6 lg:p-8 pb-24 space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl sm:text-4xl font-bold mb-2 bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+              Import BRIX Measurements
+            </h1>
+            <p className="text-md text-gray-600">
+              Upload a CSV of refractometer readings, check the preview, then submit them all at once
+            </p>
+          </div>
+          <Link to="/data-entry">
+            <Button variant="outline" className="flex items-center space-x-2">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Single entry</span>
+            </Button>
+          </Link>
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-t-xl border-b">
+            <CardTitle className="flex items-center space-x-3 text-xl">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <FileSpreadsheet className="w-6 h-6 text-blue-600" />
+              </div>
+              <span>1. Choose a CSV file</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6 space-y-2">
+            <Label htmlFor="csv-file" className="text-sm font-semibold text-gray-700">CSV file</Label>
+            <Input id="csv-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={isSubmitting} />
+            <p className="text-xs text-gray-500">
+              The first row must contain column headers. Dates can be YYYY-MM-DD; each row needs latitude and longitude for its sample location.
+            </p>
+            {fileName && (
+              <p className="text-sm text-gray-700">
+                Loaded <span className="font-medium">{fileName}</span> with {dataRows.length} reading{dataRows.length === 1 ? '' : 's'}.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {headers.length > 0 && (
+          <Card className="shadow-lg border-0">
+            <CardHeader className="border-b">
+              <CardTitle className="text-xl">2. Map columns</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <Label className="text-sm font-semibold text-gray-700 mb-1 block">
+                    {label} {required && <span className="text-red-600">*</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] === undefined ? UNMAPPED : String(mapping[field])}
+                    onValueChange={(value) => handleMappingChange(field, value)}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>— Not mapped —</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {importRows.length > 0 && (
+          <Card className="shadow-lg border-0">
+            <CardHeader className="border-b flex flex-col md:flex-row md:items-center md:justify-between space-y-2 md:space-y-0">
+              <CardTitle className="text-xl">
+                3. Preview ({validRows.length} of {importRows.length} valid)
+              </CardTitle>
+              <Button
+                onClick={handleSubmit}
+                disabled={isSubmitting || pendingRows.length === 0 || missingRequired.length > 0}
+                className="bg-green-600 hover:bg-green-700 flex items-center space-x-2"
+              >
+                {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                <span>Submit {pendingRows.length} reading{pendingRows.length === 1 ? '' : 's'}</span>
+              </Button>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6 space-y-4">
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Map the required columns first: {missingRequired.map(f => f.label).join(', ')}
+                </p>
+              )}
+              {(isSubmitting || completedCount > 0) && validRows.length > 0 && (
+                <div className="space-y-1">
+                  <Progress value={(completedCount / validRows.length) * 100} />
+                  <p className="text-xs text-gray-500">{completedCount} of {validRows.length} processed</p>
+                </div>
+              )}
+              {completedCount > 0 && !isSubmitting && (
+                <p className="text-sm text-gray-700">
+                  Done? Your imported readings are listed under <Link to="/your-data" className="text-blue-600 hover:underline">Your Data</Link>.
+                </p>
+              )}
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">Row</TableHead>
+                      <TableHead>Crop</TableHead>
+                      <TableHead>Brand</TableHead>
+                      <TableHead className="text-center">BRIX</TableHead>
+                      <TableHead>Store / Location</TableHead>
+                      <TableHead>Assessed</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {importRows.map(row => (
+                      <TableRow key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50/50' : ''}>
+                        <TableCell className="text-xs text-gray-500">{row.rowNumber}</TableCell>
+                        <TableCell>
+                          <MatchCell raw={row.raw.crop} match={row.cropMatch} allowNew={false} />
+                          {row.payload.variety && <div className="text-xs text-gray-500">{row.payload.variety}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <MatchCell raw={row.raw.brand} match={row.brandMatch} allowNew />
+                        </TableCell>
+                        <TableCell className="text-center font-semibold">{row.payload.brixValue}</TableCell>
+                        <TableCell>
+                          <MatchCell raw={row.raw.store} match={row.storeMatch} allowNew />
+                          <div className="text-xs text-gray-500">{row.payload.locationName}</div>
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {row.payload.assessmentDate ? new Date(row.payload.assessmentDate).toLocaleDateString(undefined, { timeZone: 'UTC' }) : '—'}
+                        </TableCell>
+                        <TableCell className="max-w-xs">{renderResult(row)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default DataImport;
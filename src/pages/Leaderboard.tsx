@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Loader2 } from "lucide-react";
 import Header from "../components/Layout/Header";
 import LocationSelector from "../components/common/LocationSelector";
@@ -8,7 +8,9 @@ import {
   fetchLocationLeaderboard,
   fetchBrandLeaderboard,
   fetchUserLeaderboard,
+  fetchValueLeaderboard,
   LeaderboardEntry,
+  ValueLeaderboardEntry,
 } from "../lib/fetchLeaderboards";
 import {
   computeNormalizedScore,
@@ -22,6 +24,10 @@ import {
 } from "../components/ui/card";
 import { useAuth } from "../contexts/AuthContext";
 import { locationService } from "../lib/locationServiceforRegister";
+import BrixTrendChart from "../components/common/BrixTrendChart";
+import { formatValueBasis, formatValueScore } from "../lib/valueScore";
+import { formatPrice } from "../lib/provenance";
+import { SERVER_GRADING_NOTE } from "../lib/thresholdVersions";
 
 const emptyLocation = {
   country: "",
@@ -50,6 +56,8 @@ const LeaderboardPage: React.FC = () => {
   const [locationData, setLocationData] = useState<LeaderboardEntry[]>([]);
   const [brandData, setBrandData] = useState<LeaderboardEntry[]>([]);
   const [userData, setUserData] = useState<LeaderboardEntry[]>([]);
+  const [valueData, setValueData] = useState<ValueLeaderboardEntry[]>([]);
+  const [valueBasis, setValueBasis] = useState("");
   const [brandScope, setBrandScope] = useState<'city' | 'state' | 'country' | 'global'>('city');
   const [loading, setLoading] = useState<boolean>(false);
 
@@ -217,10 +225,14 @@ const LeaderboardPage: React.FC = () => {
           }
         }
 
+        // Best value uses the same regional scope the location and brand cards settled on
+        const value = await fetchValueLeaderboard(filters);
+
         if (mounted) {
           setLocationData(loc || []);
           setBrandData(brand || []);
           setUserData(users || []);
+          setValueData(value || []);
           setBrandScope(scope);
         }
       } catch (err) {
@@ -396,6 +408,15 @@ const LeaderboardPage: React.FC = () => {
                         <div className="mt-1 text-xs text-gray-500 italic">
                           {entry.submission_count ?? 0} submissions
                         </div>
+                        {labelKey === "location" && entry.location_id && (
+                          <Link
+                            to={`/chains/${entry.location_id}`}
+                            onClick={(e) => e.stopPropagation()}
+                            className="mt-1 text-xs text-blue-700 hover:underline"
+                          >
+                            All branches →
+                          </Link>
+                        )}
                       </div>
 
                       {/* Middle: Score or Submissions */}
@@ -431,6 +452,103 @@ const LeaderboardPage: React.FC = () => {
     );
   };
 
+  // Pricing bases present in the value data, most common first
+  const valueBases = Object.entries(
+    valueData.reduce((acc, entry) => {
+      acc[entry.value_basis] = (acc[entry.value_basis] || 0) + entry.submission_count;
+      return acc;
+    }, {} as Record<string, number>)
+  )
+    .sort((a, b) => b[1] - a[1])
+    .map(([basis]) => basis);
+  const activeValueBasis = valueBases.includes(valueBasis) ? valueBasis : valueBases[0] ?? "";
+  const valueEntries = valueData
+    .filter((entry) => entry.value_basis === activeValueBasis)
+    .sort((a, b) => a.rank - b.rank);
+
+  const handleValueNavigate = (entry: ValueLeaderboardEntry) => {
+    const filters: Record<string, string> = {};
+    if (entry.crop_name) filters.crop = entry.crop_name;
+    if (entry.brand_name) filters.brand = entry.brand_name;
+    if (entry.location_name) filters.location = entry.location_name;
+    if (entry.city) filters.city = entry.city;
+    if (entry.state) filters.state = entry.state;
+    if (entry.country) filters.country = entry.country;
+    navigate(`/data?${new URLSearchParams(filters).toString()}`);
+  };
+
+  const renderValueCard = () => (
+    <Card className="w-full shadow-md rounded-lg overflow-hidden">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-semibold text-center">
+          Best Value
+        </CardTitle>
+        <p className="text-sm text-muted-foreground text-center mt-1">
+          Score per unit of price paid
+        </p>
+        {valueBases.length > 1 && (
+          <select
+            value={activeValueBasis}
+            onChange={(e) => setValueBasis(e.target.value)}
+            className="mt-2 w-full rounded border px-2 py-1 text-sm"
+            aria-label="Currency and unit"
+          >
+            {valueBases.map((basis) => (
+              <option key={basis} value={basis}>
+                {formatValueBasis(basis)}
+              </option>
+            ))}
+          </select>
+        )}
+      </CardHeader>
+      <CardContent className="px-0">
+        {loading ? (
+          <div className="text-sm text-gray-500 p-3">Loading…</div>
+        ) : valueEntries.length === 0 ? (
+          <div className="text-sm text-gray-500 p-3">No priced submissions yet.</div>
+        ) : (
+          <div>
+            <div className="grid grid-cols-3 text-xs font-medium text-gray-500 border-b px-4 py-2 bg-gray-50">
+              <span className="text-left">Buy</span>
+              <span className="text-center">Value</span>
+              <span className="text-center">Rank</span>
+            </div>
+            {valueEntries.map((entry, idx) => {
+              const { bgClass } = rankColorFromNormalized(entry.average_normalized_score ?? 1.5);
+              const currency = entry.value_basis.split("/")[0];
+              return (
+                <div
+                  key={`${entry.crop_name}-${entry.brand_name ?? ""}-${entry.location_id}`}
+                  onClick={() => handleValueNavigate(entry)}
+                  className="grid grid-cols-3 items-center px-4 py-2 border-b last:border-0 odd:bg-white even:bg-gray-50 hover:bg-gray-100 text-sm cursor-pointer"
+                >
+                  <div className="flex flex-col min-w-0">
+                    <div className="font-medium">
+                      {entry.crop_label || entry.crop_name}
+                      {(entry.brand_label || entry.brand_name) && ` · ${entry.brand_label || entry.brand_name}`}
+                    </div>
+                    <div className="text-xs text-gray-500">{entry.location_name}</div>
+                    <div className="mt-1 text-xs text-gray-500 italic">
+                      avg {formatPrice(entry.average_price, null, currency)} · {entry.submission_count} submissions
+                    </div>
+                  </div>
+                  <div className="text-center text-gray-800 text-sm">
+                    {formatValueScore(entry.average_value_score)}
+                  </div>
+                  <div className="flex flex-col items-center">
+                    <span className={`px-3 py-1 text-sm font-semibold rounded-full text-white ${bgClass}`}>
+                      {entry.rank ?? idx + 1}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   // Show loading spinner during initial loading
   if (isPageLoading) {
     return (
@@ -476,6 +594,7 @@ const LeaderboardPage: React.FC = () => {
                   ))}
                 </select>
               </div>
+              <p className="text-xs text-muted-foreground">{SERVER_GRADING_NOTE}.</p>
               <div className="flex flex-col space-y-2">
                 <button
                   onClick={() => {
@@ -511,11 +630,26 @@ const LeaderboardPage: React.FC = () => {
                 {dataScopeMessage}
               </div>
             )}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
               {renderLeaderboardCard("Top Locations", locationData, "location")}
               {renderLeaderboardCard("Top Brands", brandData, "brand")}
+              {renderValueCard()}
               {renderLeaderboardCard("Most Submissions", userData, "user")}
             </div>
+
+            <Card className="w-full shadow-md rounded-lg mt-6">
+              <CardContent className="pt-6">
+                <BrixTrendChart
+                  title="Trends"
+                  initialFilter={{
+                    crop,
+                    country: location.country && location.country !== "All countries" ? location.country : undefined,
+                    state: location.state || undefined,
+                    city: location.city || undefined,
+                  }}
+                />
+              </CardContent>
+            </Card>
           </section>
         </div>
       </main>
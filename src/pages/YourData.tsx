@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button';
 import { Table, TableBody, TableHead, TableHeader, TableRow } from '../components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
-import { Plus, Beaker, CheckCircle, MapPin, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { Plus, Beaker, CheckCircle, MapPin, Trash2, Loader2, AlertCircle, XCircle } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { fetchFormattedSubmissions, deleteSubmission } from '../lib/fetchSubmissions';
@@ -13,6 +13,9 @@ import { BrixDataPoint } from '../types';
 import { useToast } from '../hooks/use-toast';
 import DataPointDetailModal from '../components/common/DataPointDetailModal';
 import { useStaticData } from '../hooks/useStaticData'; // New Import
+import { useOutbox } from '../hooks/useOutbox';
+import { OUTBOX_SENT_EVENT } from '../lib/submissionOutbox';
+import OutboxPanel from '../components/common/OutboxPanel';
 
 const YourData: React.FC = () => {
   const { user } = useAuth();
@@ -24,6 +27,10 @@ const YourData: React.FC = () => {
 
   const [userSubmissions, setUserSubmissions] = useState<BrixDataPoint[]>([]);
   const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Readings saved offline on this device, waiting to be sent
+  const outbox = useOutbox(user?.id);
 
   // New state for the modal
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -51,7 +58,26 @@ const YourData: React.FC = () => {
       }
     };
     loadSubmissions();
-  }, [user?.id, toast]);
+  }, [user?.id, toast, reloadKey]);
+
+  // Reload once queued readings have been sent in the background
+  useEffect(() => {
+    const reload = () => setReloadKey(key => key + 1);
+    window.addEventListener(OUTBOX_SENT_EVENT, reload);
+    return () => window.removeEventListener(OUTBOX_SENT_EVENT, reload);
+  }, []);
+
+  const handleRetryOutbox = async () => {
+    try {
+      const sent = await outbox.retry();
+      if (sent > 0) {
+        toast({ title: `${sent} queued reading${sent > 1 ? 's' : ''} sent`, variant: 'default' });
+      }
+    } catch (error) {
+      console.error('Failed to send queued readings:', error);
+      toast({ title: 'Could not send queued readings.', description: 'Please try again later.', variant: 'destructive' });
+    }
+  };
 
   // Handler to open the modal with a specific data point
   const handleOpenModal = (dataPoint: BrixDataPoint) => {
@@ -65,6 +91,12 @@ const YourData: React.FC = () => {
     setSelectedDataPoint(null);
   };
 
+  // Keep the list in sync after an edit (e.g. a rejected reading being resubmitted)
+  const handleUpdate = (updated: BrixDataPoint) => {
+    setUserSubmissions(prev => prev.map(sub => (sub.id === updated.id ? updated : sub)));
+    handleCloseModal();
+  };
+
   // Handler for deletion, now that it's in the modal
   const handleDelete = async (id: string) => {
     try {
@@ -117,6 +149,8 @@ const YourData: React.FC = () => {
     );
   }
 
+  const rejectedSubmissions = userSubmissions.filter(s => s.rejected);
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
@@ -140,6 +174,43 @@ const YourData: React.FC = () => {
           </Link>
         </div>
 
+        <OutboxPanel
+          entries={outbox.entries}
+          isOnline={outbox.isOnline}
+          isRetrying={outbox.isRetrying}
+          onRetry={handleRetryOutbox}
+          onDiscard={outbox.discard}
+        />
+
+        {rejectedSubmissions.length > 0 && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <div className="flex items-center space-x-2 text-red-800 font-semibold mb-2">
+              <XCircle className="w-5 h-5" />
+              <span>
+                {rejectedSubmissions.length} submission{rejectedSubmissions.length > 1 ? 's were' : ' was'} rejected by a reviewer
+              </span>
+            </div>
+            <p className="text-sm text-red-700 mb-3">
+              Open a submission to see the reason, correct it and resubmit it for review.
+            </p>
+            <ul className="space-y-1">
+              {rejectedSubmissions.map(sub => (
+                <li key={sub.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleOpenModal(sub)}
+                    className="text-sm text-left text-red-800 hover:underline"
+                  >
+                    <span className="font-medium">{sub.cropLabel ?? sub.cropType}</span>
+                    {' '}({sub.brixLevel} BRIX, {new Date(sub.submittedAt).toLocaleDateString()})
+                    {sub.rejectionReason && <span className="text-red-600"> — {sub.rejectionReason}</span>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <Tabs defaultValue="submissions" className="space-y-6">
           <TabsList>
             <TabsTrigger value="submissions">My Submissions</TabsTrigger>
@@ -175,7 +246,7 @@ const YourData: React.FC = () => {
                           <TableHead className="w-[10%] text-center">BRIX</TableHead>
                           <TableHead className="w-[20%]">Location / Notes</TableHead>
                           <TableHead className="w-[17%]">Assessment Date</TableHead>
-                          <TableHead className="w-[15%] text-center">Verified?</TableHead>
+                          <TableHead className="w-[15%] text-center">Status</TableHead>
                           <TableHead className="w-[10%] text-center">Actions</TableHead>
                         </TableRow>
                       </TableHeader>
@@ -255,6 +326,7 @@ const YourData: React.FC = () => {
           onDeleteSuccess={(id) => {
             handleDelete(id);
           }}
+          onUpdateSuccess={handleUpdate}
         />
       </main>
     </div>
@@ -1,8 +1,30 @@
 export interface BrixDataPoint {
   id: string;
+  // The mean when the sample was measured more than once (see brixReadings)
   brixLevel: number;
+  brixReadings?: number[] | null;
+  brixMedian?: number | null;
+  brixStdev?: number | null;
   verified: boolean;
   verifiedAt: string | null; // ISO timestamp
+  rejected: boolean;
+  rejectedAt: string | null; // ISO timestamp
+  rejectionReason: string | null;
+  // Modified z-score against verified readings of the same crop; flagged readings need admin review
+  outlierScore?: number | null;
+  outlierReason?: string | null;
+  outlierFlagged?: boolean;
+  // Metres between the photo's EXIF position and the place; see isPhotoLocationMismatch
+  photoDistanceMeters?: number | null;
+  // Provenance; see lib/provenance for the allowed values
+  growingMethod?: string | null;
+  originCountry?: string | null;
+  sampleSource?: string;
+  price?: number | null;
+  priceUnit?: string | null;
+  priceCurrency?: string | null; // ISO 4217
+  farmLocation?: string | null;
+  harvestTime?: string | null; // ISO timestamp
   variety: string;
   cropType: string;
   category: string;
@@ -21,7 +43,9 @@ export interface BrixDataPoint {
   verifiedBy: string;
   submittedAt: string;
   outlier_notes: string;
+  // Storage paths (see lib/imageStorage); thumbnails[i] belongs to images[i]
   images: string[];
+  thumbnails?: string[];
   poorBrix: number | null;
   averageBrix: number | null;
   goodBrix: number | null;
@@ -121,4 +145,7 @@ export interface MapFilter {
   city?: string; // Geographic city filter
   state?: string; // Geographic state filter
   country?: string; // Geographic country filter
+  growingMethod?: string; // See GROWING_METHODS in lib/provenance
+  sampleSource?: string; // 'purchased' or 'farm_picked'
+  originCountry?: string; // Country the sample was grown in
 }
\ No newline at end of file
@@ -0,0 +1,229 @@
+// Turns a submission request into a stored submission: resolves the crop, brand, store and
+// place, runs the verification rules and inserts the row.
+
+import { SubmissionRepository } from './repository.ts';
+import { RuleResult, VerificationConfig, decideVerification } from './rules.ts';
+
+// Request body sent by the app (see SubmissionPayload in src/lib/submitReading.ts)
+export interface SubmissionRequest {
+  cropName: string;
+  brandName: string;
+  variety?: string;
+  brixValue: number;
+  // Replicate readings of the same sample; when present brixValue is their mean
+  brixReadings?: number[] | null;
+  assessmentDate: string;
+  purchaseDate?: string | null;
+  outlierNotes?: string;
+  // Only checked against the session; the stored user always comes from the verified JWT
+  userId?: string;
+  imageCount?: number;
+  // Distance between the photo's EXIF position and the chosen location, when the photo had one
+  photoDistanceMeters?: number | null;
+  // Provenance of the sample; every field is optional and null when unknown
+  growingMethod?: string | null;
+  originCountry?: string | null;
+  sampleSource?: string | null;
+  price?: number | null;
+  priceUnit?: string | null;
+  // ISO 4217 code, e.g. 'USD'
+  priceCurrency?: string | null;
+  farmLocation?: string | null;
+  harvestTime?: string | null;
+  latitude: number;
+  longitude: number;
+  locationName: string;
+  street_address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+  poi_name?: string | null;
+  business_name?: string | null;
+  normalized_address?: string | null;
+  store_name: string;
+}
+
+export interface SubmissionResponse {
+  submission_id: string;
+  verified: boolean;
+  checks: RuleResult[];
+}
+
+// Mirrors the brix_readings CHECK constraint in the 20251004120000 migration, which sets the limit
+export const MAX_BRIX_READINGS = 20;
+
+// Allowed provenance values, matching the check constraints on submissions
+export const GROWING_METHODS = ['organic', 'conventional', 'hydroponic'];
+export const SAMPLE_SOURCES = ['purchased', 'farm_picked'];
+export const PRICE_UNITS = ['each', 'lb', 'oz', 'kg', 'g', 'bunch', 'pack'];
+
+export class SubmissionError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'SubmissionError';
+  }
+}
+
+const isBlank = (value: unknown) => typeof value !== 'string' || value.trim() === '';
+
+const isBrix = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+const isOneOf = (allowed: string[], value: unknown) => typeof value === 'string' && allowed.includes(value);
+
+const trimmedOrNull = (value: string | null | undefined) => value?.trim() || null;
+
+export function validateRequest(body: Partial<SubmissionRequest>): SubmissionRequest {
+  const missing = (['cropName', 'brandName', 'store_name', 'locationName', 'assessmentDate'] as const)
+    .filter(field => isBlank(body[field]));
+  if (missing.length > 0) {
+    throw new SubmissionError(`Missing required fields: ${missing.join(', ')}`);
+  }
+
+  if (body.brixReadings != null) {
+    const readings = body.brixReadings;
+    if (!Array.isArray(readings) || readings.length === 0 || readings.length > MAX_BRIX_READINGS || !readings.every(isBrix)) {
+      throw new SubmissionError(`brixReadings must be 1 to ${MAX_BRIX_READINGS} numbers between 0 and 100`);
+    }
+    // The stored value is always the mean, whatever the client computed
+    body.brixValue = Math.round((readings.reduce((sum, r) => sum + r, 0) / readings.length) * 100) / 100;
+  }
+
+  if (!isBrix(body.brixValue)) {
+    throw new SubmissionError('brixValue must be a number between 0 and 100');
+  }
+
+  if (
+    typeof body.latitude !== 'number' || typeof body.longitude !== 'number' ||
+    Math.abs(body.latitude) > 90 || Math.abs(body.longitude) > 180
+  ) {
+    throw new SubmissionError('latitude and longitude must be valid coordinates');
+  }
+
+  if (isNaN(new Date(body.assessmentDate as string).getTime())) {
+    throw new SubmissionError('assessmentDate must be a valid date');
+  }
+
+  if (body.growingMethod != null && !isOneOf(GROWING_METHODS, body.growingMethod)) {
+    throw new SubmissionError(`growingMethod must be one of: ${GROWING_METHODS.join(', ')}`);
+  }
+  if (body.sampleSource != null && !isOneOf(SAMPLE_SOURCES, body.sampleSource)) {
+    throw new SubmissionError(`sampleSource must be one of: ${SAMPLE_SOURCES.join(', ')}`);
+  }
+  if (body.price != null) {
+    if (typeof body.price !== 'number' || !Number.isFinite(body.price) || body.price < 0) {
+      throw new SubmissionError('price must be a number of at least 0');
+    }
+    if (!isOneOf(PRICE_UNITS, body.priceUnit)) {
+      throw new SubmissionError(`priceUnit must be one of: ${PRICE_UNITS.join(', ')}`);
+    }
+    if (body.priceCurrency != null && !/^[A-Z]{3}$/.test(String(body.priceCurrency))) {
+      throw new SubmissionError('priceCurrency must be a three-letter ISO 4217 code');
+    }
+  }
+  if (body.harvestTime != null && isNaN(new Date(body.harvestTime).getTime())) {
+    throw new SubmissionError('harvestTime must be a valid date');
+  }
+
+  return body as SubmissionRequest;
+}
+
+// Roles allowed to submit readings, the same ones DataEntry lets in
+export const SUBMITTER_ROLES = ['contributor', 'admin'];
+
+/**
+ * @param authenticatedUserId The user from the request's JWT, or null when the request has no
+ *   valid session. It is the only source of the stored user. Requests without a session, and
+ *   users without a submitting role, are refused before anything is written.
+ */
+export async function handleSubmission(
+  request: SubmissionRequest,
+  authenticatedUserId: string | null,
+  repo: SubmissionRepository,
+  config: VerificationConfig,
+): Promise<SubmissionResponse> {
+  if (!authenticatedUserId) {
+    throw new SubmissionError('Sign in to submit readings', 401);
+  }
+  if (request.userId && request.userId !== authenticatedUserId) {
+    throw new SubmissionError('userId does not match the signed-in user', 403);
+  }
+  const userId = authenticatedUserId;
+
+  const contributor = await repo.getContributor(userId);
+  if (!contributor?.role || !SUBMITTER_ROLES.includes(contributor.role)) {
+    throw new SubmissionError('Only contributors can submit readings', 403);
+  }
+
+  const crop = await repo.findCropByName(request.cropName.trim());
+  if (!crop) {
+    throw new SubmissionError(`Unknown crop: ${request.cropName}`);
+  }
+
+  const brandId = await repo.findOrCreateBrand(request.brandName.trim());
+  const locationId = await repo.findOrCreateLocation(request.store_name.trim());
+  const placeId = await repo.findOrCreatePlace({
+    label: request.poi_name || request.business_name || request.locationName,
+    latitude: request.latitude,
+    longitude: request.longitude,
+    streetAddress: request.street_address ?? null,
+    city: request.city ?? null,
+    state: request.state ?? null,
+    country: request.country ?? null,
+    normalizedAddress: request.normalized_address ?? null,
+    locationId,
+  });
+
+  const assessmentDate = new Date(request.assessmentDate).toISOString();
+  const duplicateCount = await repo.countDuplicates({
+    userId,
+    cropId: crop.id,
+    placeId,
+    assessmentDay: assessmentDate.slice(0, 10),
+  });
+
+  const decision = decideVerification(
+    {
+      brixValue: request.brixValue,
+      thresholds: crop.thresholds,
+      contributor,
+      imageCount: request.imageCount ?? 0,
+      duplicateCount,
+    },
+    config,
+  );
+
+  // Informational only (shown to reviewers), so a bad value is dropped rather than rejected
+  const photoDistance = typeof request.photoDistanceMeters === 'number' &&
+      Number.isFinite(request.photoDistanceMeters) && request.photoDistanceMeters >= 0
+    ? Math.round(request.photoDistanceMeters)
+    : null;
+
+  const inserted = await repo.insertSubmission({
+    cropId: crop.id,
+    brandId,
+    locationId,
+    placeId,
+    userId,
+    brixValue: request.brixValue,
+    brixReadings: request.brixReadings?.length ? request.brixReadings : null,
+    variety: request.variety?.trim() || null,
+    assessmentDate,
+    purchaseDate: request.purchaseDate && !isNaN(new Date(request.purchaseDate).getTime())
+      ? new Date(request.purchaseDate).toISOString()
+      : null,
+    outlierNotes: request.outlierNotes?.trim() || null,
+    photoDistanceMeters: photoDistance,
+    growingMethod: request.growingMethod ?? null,
+    originCountry: trimmedOrNull(request.originCountry),
+    sampleSource: request.sampleSource ?? 'purchased',
+    price: request.price ?? null,
+    priceUnit: request.price != null ? request.priceUnit ?? null : null,
+    priceCurrency: request.price != null ? request.priceCurrency ?? null : null,
+    farmLocation: trimmedOrNull(request.farmLocation),
+    harvestTime: request.harvestTime ? new Date(request.harvestTime).toISOString() : null,
+    verified: decision.verified,
+  });
+
+  return { submission_id: inserted.id, verified: inserted.verified, checks: decision.results };
+}
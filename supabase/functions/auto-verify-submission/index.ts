@@ -0,0 +1,54 @@
+// auto-verify-submission: stores a BRIX reading sent by the app and decides whether it can be
+// verified automatically. The decision itself lives in rules.ts.
+
+import { createClient } from '@supabase/supabase-js';
+import { SubmissionError, SubmissionRequest, handleSubmission, validateRequest } from './handler.ts';
+import { parseVerificationConfig } from './rules.ts';
+import { createSupabaseRepository } from './supabaseRepository.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+
+  try {
+    let body: Partial<SubmissionRequest>;
+    try {
+      body = await req.json();
+    } catch {
+      throw new SubmissionError('Request body must be JSON');
+    }
+    const request = validateRequest(body);
+
+    // Requests signed with the publishable key rather than a user session are refused by the handler
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: auth } = token ? await client.auth.getUser(token) : { data: null };
+    const authenticatedUserId = auth?.user?.id ?? null;
+
+    const config = parseVerificationConfig(Deno.env.get('AUTO_VERIFY_CONFIG'));
+    const result = await handleSubmission(request, authenticatedUserId, createSupabaseRepository(client), config);
+    return json(result);
+  } catch (err) {
+    if (err instanceof SubmissionError) {
+      return json({ error: err.message }, err.status);
+    }
+    console.error('auto-verify-submission failed:', err);
+    return json({ error: 'Failed to save submission', details: err instanceof Error ? err.message : String(err) }, 500);
+  }
+});
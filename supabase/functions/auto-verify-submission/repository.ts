@@ -0,0 +1,69 @@
+// Data access needed by the submission handler. The function uses the Supabase-backed
+// implementation in supabaseRepository.ts; tests use an in-memory one.
+
+import { ContributorProfile, CropThresholds } from './rules.ts';
+
+export interface CropRecord {
+  id: string;
+  thresholds: CropThresholds;
+}
+
+export interface PlaceInput {
+  label: string;
+  latitude: number;
+  longitude: number;
+  streetAddress: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  normalizedAddress: string | null;
+  locationId: string | null;
+}
+
+export interface DuplicateQuery {
+  userId: string;
+  cropId: string;
+  placeId: string;
+  // YYYY-MM-DD of the assessment
+  assessmentDay: string;
+}
+
+export interface NewSubmission {
+  cropId: string;
+  brandId: string | null;
+  locationId: string | null;
+  placeId: string;
+  userId: string | null;
+  brixValue: number;
+  brixReadings: number[] | null;
+  variety: string | null;
+  assessmentDate: string;
+  purchaseDate: string | null;
+  outlierNotes: string | null;
+  photoDistanceMeters: number | null;
+  growingMethod: string | null;
+  originCountry: string | null;
+  sampleSource: string;
+  price: number | null;
+  priceUnit: string | null;
+  priceCurrency: string | null;
+  farmLocation: string | null;
+  harvestTime: string | null;
+  verified: boolean;
+}
+
+export interface InsertedSubmission {
+  id: string;
+  // As stored, which can differ from the request (the outlier trigger may hold it back)
+  verified: boolean;
+}
+
+export interface SubmissionRepository {
+  findCropByName(name: string): Promise<CropRecord | null>;
+  findOrCreateBrand(name: string): Promise<string>;
+  findOrCreateLocation(name: string): Promise<string>;
+  findOrCreatePlace(place: PlaceInput): Promise<string>;
+  getContributor(userId: string): Promise<ContributorProfile | null>;
+  countDuplicates(query: DuplicateQuery): Promise<number>;
+  insertSubmission(submission: NewSubmission): Promise<InsertedSubmission>;
+}
@@ -0,0 +1,185 @@
+// Pure verification rules for auto-verify-submission. Nothing in here touches the database,
+// so the decision can be tested on its own and tuned through VerificationConfig.
+
+export interface VerificationConfig {
+  // Readings may sit this fraction of the poor→excellent span outside the crop thresholds
+  thresholdMargin: number;
+  // Roles whose readings are trusted regardless of history
+  trustedRoles: string[];
+  // Other contributors need this many earlier submissions...
+  minTrustedSubmissions: number;
+  // ...and no more than this many rejected ones
+  maxRejectedSubmissions: number;
+  requireImages: boolean;
+  minImages: number;
+  // Hold readings that repeat an earlier one (same contributor, crop, place and day)
+  rejectDuplicates: boolean;
+}
+
+export const DEFAULT_VERIFICATION_CONFIG: VerificationConfig = {
+  thresholdMargin: 0,
+  trustedRoles: ['admin'],
+  minTrustedSubmissions: 5,
+  maxRejectedSubmissions: 0,
+  requireImages: true,
+  minImages: 1,
+  rejectDuplicates: true,
+};
+
+export interface CropThresholds {
+  poor: number | null;
+  excellent: number | null;
+}
+
+export interface ContributorProfile {
+  role: string | null;
+  submissionCount: number;
+  rejectedCount: number;
+}
+
+export interface VerificationInput {
+  brixValue: number;
+  thresholds: CropThresholds | null;
+  // null when the request is not tied to an authenticated user
+  contributor: ContributorProfile | null;
+  imageCount: number;
+  duplicateCount: number;
+}
+
+export type VerificationRule = 'threshold_range' | 'contributor_trust' | 'images_present' | 'duplicate_check';
+
+export interface RuleResult {
+  rule: VerificationRule;
+  passed: boolean;
+  detail: string;
+}
+
+export interface VerificationDecision {
+  verified: boolean;
+  results: RuleResult[];
+}
+
+export function checkThresholdRange(input: VerificationInput, config: VerificationConfig): RuleResult {
+  const { poor, excellent } = input.thresholds ?? { poor: null, excellent: null };
+  if (poor === null || excellent === null || excellent === poor) {
+    return { rule: 'threshold_range', passed: false, detail: 'Crop has no usable BRIX thresholds' };
+  }
+
+  // Some crops are graded on a descending scale (excellent below poor)
+  const low = Math.min(poor, excellent);
+  const high = Math.max(poor, excellent);
+  const margin = (high - low) * config.thresholdMargin;
+  const min = low - margin;
+  const max = high + margin;
+  const passed = input.brixValue >= min && input.brixValue <= max;
+  return {
+    rule: 'threshold_range',
+    passed,
+    detail: passed
+      ? `BRIX ${input.brixValue} is within ${min}–${max}`
+      : `BRIX ${input.brixValue} is outside the expected range ${min}–${max}`,
+  };
+}
+
+export function checkContributorTrust(input: VerificationInput, config: VerificationConfig): RuleResult {
+  const contributor = input.contributor;
+  if (!contributor) {
+    return { rule: 'contributor_trust', passed: false, detail: 'Submission is not from an authenticated contributor' };
+  }
+
+  if (contributor.role && config.trustedRoles.includes(contributor.role)) {
+    return { rule: 'contributor_trust', passed: true, detail: `Role "${contributor.role}" is trusted` };
+  }
+
+  if (contributor.role === 'viewer') {
+    return { rule: 'contributor_trust', passed: false, detail: 'Viewers cannot be auto-verified' };
+  }
+
+  if (contributor.rejectedCount > config.maxRejectedSubmissions) {
+    return {
+      rule: 'contributor_trust',
+      passed: false,
+      detail: `Contributor has ${contributor.rejectedCount} rejected submissions`,
+    };
+  }
+
+  const passed = contributor.submissionCount >= config.minTrustedSubmissions;
+  return {
+    rule: 'contributor_trust',
+    passed,
+    detail: passed
+      ? `Contributor has ${contributor.submissionCount} earlier submissions`
+      : `Contributor needs ${config.minTrustedSubmissions} earlier submissions (has ${contributor.submissionCount})`,
+  };
+}
+
+export function checkImagesPresent(input: VerificationInput, config: VerificationConfig): RuleResult {
+  if (!config.requireImages) {
+    return { rule: 'images_present', passed: true, detail: 'Images are not required' };
+  }
+  const passed = input.imageCount >= config.minImages;
+  return {
+    rule: 'images_present',
+    passed,
+    detail: passed
+      ? `${input.imageCount} image(s) attached`
+      : `At least ${config.minImages} image(s) required (has ${input.imageCount})`,
+  };
+}
+
+export function checkDuplicate(input: VerificationInput, config: VerificationConfig): RuleResult {
+  if (!config.rejectDuplicates) {
+    return { rule: 'duplicate_check', passed: true, detail: 'Duplicate check disabled' };
+  }
+  const passed = input.duplicateCount === 0;
+  return {
+    rule: 'duplicate_check',
+    passed,
+    detail: passed
+      ? 'No matching earlier reading'
+      : `${input.duplicateCount} earlier reading(s) for the same crop, place and day`,
+  };
+}
+
+/**
+ * Runs every rule; the submission is auto-verified only when all of them pass.
+ */
+export function decideVerification(
+  input: VerificationInput,
+  config: VerificationConfig = DEFAULT_VERIFICATION_CONFIG,
+): VerificationDecision {
+  const results = [
+    checkThresholdRange(input, config),
+    checkContributorTrust(input, config),
+    checkImagesPresent(input, config),
+    checkDuplicate(input, config),
+  ];
+  return { verified: results.every(r => r.passed), results };
+}
+
+/**
+ * Reads overrides from a JSON object (e.g. the AUTO_VERIFY_CONFIG secret) on top of the
+ * defaults. Unknown keys and values of the wrong type are ignored.
+ */
+export function parseVerificationConfig(raw: string | undefined | null): VerificationConfig {
+  if (!raw) return { ...DEFAULT_VERIFICATION_CONFIG };
+
+  let overrides: Record<string, unknown>;
+  try {
+    overrides = JSON.parse(raw);
+  } catch {
+    console.warn('AUTO_VERIFY_CONFIG is not valid JSON, using defaults');
+    return { ...DEFAULT_VERIFICATION_CONFIG };
+  }
+
+  const config = { ...DEFAULT_VERIFICATION_CONFIG };
+  for (const key of Object.keys(config) as (keyof VerificationConfig)[]) {
+    const value = overrides?.[key];
+    const expected = config[key];
+    const matches = Array.isArray(expected)
+      ? Array.isArray(value) && value.every(v => typeof v === 'string')
+      : typeof value === typeof expected;
+    if (matches) Object.assign(config, { [key]: value });
+  }
+  return config;
+}
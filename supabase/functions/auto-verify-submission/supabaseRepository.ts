@@ -0,0 +1,164 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CropRecord,
+  DuplicateQuery,
+  InsertedSubmission,
+  NewSubmission,
+  PlaceInput,
+  SubmissionRepository,
+} from './repository.ts';
+import { ContributorProfile } from './rules.ts';
+
+// Places of the same store this close together (degrees, ~50m) are treated as one place
+const PLACE_MATCH_TOLERANCE = 0.0005;
+
+// Case-insensitive equality: an ilike pattern without wildcards.
+const exactPattern = (value: string) => value.replace(/[%_\\]/g, c => `\\${c}`);
+
+function raise(context: string, error: { message: string }): never {
+  console.error(`${context}:`, error);
+  throw new Error(`${context}: ${error.message}`);
+}
+
+async function findOrCreateByName(client: SupabaseClient, table: 'brands' | 'locations', name: string): Promise<string> {
+  const { data: existing, error: findError } = await client
+    .from(table)
+    .select('id')
+    .ilike('name', exactPattern(name))
+    .limit(1)
+    .maybeSingle();
+  if (findError) raise(`Error looking up ${table}`, findError);
+  if (existing) return existing.id;
+
+  const { data: created, error: insertError } = await client
+    .from(table)
+    .insert({ name })
+    .select('id')
+    .single();
+  if (insertError) raise(`Error creating ${table}`, insertError);
+  return created.id;
+}
+
+export function createSupabaseRepository(client: SupabaseClient): SubmissionRepository {
+  return {
+    async findCropByName(name: string): Promise<CropRecord | null> {
+      const { data, error } = await client
+        .from('crops')
+        .select('id, poor_brix, excellent_brix')
+        .or(`name.ilike.${exactPattern(name)},label.ilike.${exactPattern(name)}`)
+        .limit(1)
+        .maybeSingle();
+      if (error) raise('Error looking up crop', error);
+      if (!data) return null;
+      return { id: data.id, thresholds: { poor: data.poor_brix, excellent: data.excellent_brix } };
+    },
+
+    async findOrCreateBrand(name: string): Promise<string> {
+      // Matches spelling variants and the aliases left by merging duplicate brands
+      const { data: resolved, error } = await client.rpc('resolve_brand_id', { p_name: name });
+      if (error) raise('Error resolving brand', error);
+      if (resolved) return resolved;
+      return findOrCreateByName(client, 'brands', name);
+    },
+
+    findOrCreateLocation: (name: string) => findOrCreateByName(client, 'locations', name),
+
+    async findOrCreatePlace(place: PlaceInput): Promise<string> {
+      let query = client
+        .from('places')
+        .select('id')
+        .gte('latitude', place.latitude - PLACE_MATCH_TOLERANCE)
+        .lte('latitude', place.latitude + PLACE_MATCH_TOLERANCE)
+        .gte('longitude', place.longitude - PLACE_MATCH_TOLERANCE)
+        .lte('longitude', place.longitude + PLACE_MATCH_TOLERANCE);
+      query = place.locationId ? query.eq('location_id', place.locationId) : query.is('location_id', null);
+
+      const { data: existing, error: findError } = await query.limit(1).maybeSingle();
+      if (findError) raise('Error looking up place', findError);
+      if (existing) return existing.id;
+
+      const { data: created, error: insertError } = await client
+        .from('places')
+        .insert({
+          label: place.label,
+          latitude: place.latitude,
+          longitude: place.longitude,
+          street_address: place.streetAddress,
+          city: place.city,
+          state: place.state,
+          country: place.country,
+          normalized_address: place.normalizedAddress,
+          location_id: place.locationId,
+        })
+        .select('id')
+        .single();
+      if (insertError) raise('Error creating place', insertError);
+      return created.id;
+    },
+
+    async getContributor(userId: string): Promise<ContributorProfile | null> {
+      const { data: user, error } = await client
+        .from('users')
+        .select('role, submission_count')
+        .eq('id', userId)
+        .maybeSingle();
+      if (error) raise('Error looking up contributor', error);
+      if (!user) return null;
+
+      const { count, error: countError } = await client
+        .from('submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('rejected', true);
+      if (countError) raise('Error counting rejected submissions', countError);
+
+      return { role: user.role, submissionCount: user.submission_count ?? 0, rejectedCount: count ?? 0 };
+    },
+
+    async countDuplicates({ userId, cropId, placeId, assessmentDay }: DuplicateQuery): Promise<number> {
+      const { count, error } = await client
+        .from('submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('crop_id', cropId)
+        .eq('place_id', placeId)
+        .gte('assessment_date', `${assessmentDay}T00:00:00.000Z`)
+        .lte('assessment_date', `${assessmentDay}T23:59:59.999Z`);
+      if (error) raise('Error checking for duplicates', error);
+      return count ?? 0;
+    },
+
+    async insertSubmission(submission: NewSubmission): Promise<InsertedSubmission> {
+      const { data, error } = await client
+        .from('submissions')
+        .insert({
+          crop_id: submission.cropId,
+          brand_id: submission.brandId,
+          location_id: submission.locationId,
+          place_id: submission.placeId,
+          user_id: submission.userId,
+          brix_value: submission.brixValue,
+          brix_readings: submission.brixReadings,
+          crop_variety: submission.variety,
+          assessment_date: submission.assessmentDate,
+          purchase_date: submission.purchaseDate,
+          outlier_notes: submission.outlierNotes,
+          photo_distance_m: submission.photoDistanceMeters,
+          growing_method: submission.growingMethod,
+          origin_country: submission.originCountry,
+          sample_source: submission.sampleSource,
+          price: submission.price,
+          price_unit: submission.priceUnit,
+          price_currency: submission.priceCurrency,
+          farm_location: submission.farmLocation,
+          harvest_time: submission.harvestTime,
+          verified: submission.verified,
+          verified_at: submission.verified ? new Date().toISOString() : null,
+        })
+        .select('id, verified')
+        .single();
+      if (error) raise('Error inserting submission', error);
+      return { id: data.id, verified: data.verified };
+    },
+  };
+}
@@ -0,0 +1,203 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { SubmissionError, SubmissionRequest, handleSubmission, validateRequest } from '../handler.ts';
+import { DEFAULT_VERIFICATION_CONFIG } from '../rules.ts';
+import { MemoryRepository } from './memoryRepository.ts';
+
+const USER_ID = 'user-1';
+
+const request: SubmissionRequest = {
+  cropName: 'strawberry',
+  brandName: 'Sunny Farms',
+  variety: 'Albion',
+  brixValue: 11,
+  assessmentDate: '2025-06-01T00:00:00.000Z',
+  purchaseDate: '2025-05-31T00:00:00.000Z',
+  outlierNotes: '',
+  userId: USER_ID,
+  imageCount: 2,
+  latitude: 42.2808,
+  longitude: -83.743,
+  locationName: 'Main Street Market',
+  street_address: '1 Main St',
+  city: 'Ann Arbor',
+  state: 'Michigan',
+  country: 'United States',
+  poi_name: null,
+  business_name: null,
+  normalized_address: '1 main st',
+  store_name: 'main_street_market',
+};
+
+function setup() {
+  const repo = new MemoryRepository();
+  repo.addCrop('strawberry', 6, 14);
+  repo.addUser({ id: USER_ID, submissionCount: 12 });
+  return repo;
+}
+
+Deno.test('stores a trusted reading as verified and reuses brands, stores and places', async () => {
+  const repo = setup();
+  const first = await handleSubmission(request, USER_ID, repo, DEFAULT_VERIFICATION_CONFIG);
+  assertEquals(first.verified, true);
+
+  // Same store a few metres away on another day: same place, not a duplicate
+  const second = await handleSubmission(
+    { ...request, assessmentDate: '2025-06-08T00:00:00.000Z', latitude: 42.2809, brandName: 'sunny farms' },
+    USER_ID,
+    repo,
+    DEFAULT_VERIFICATION_CONFIG,
+  );
+  assertEquals(second.verified, true);
+  assertEquals(repo.brands.size, 1);
+  assertEquals(repo.locations.size, 1);
+  assertEquals(repo.places.length, 1);
+  assertEquals(repo.submissions.length, 2);
+});
+
+Deno.test('brand spelling variants and aliases of merged brands reuse the existing brand', async () => {
+  const repo = setup();
+  await handleSubmission(request, USER_ID, repo, DEFAULT_VERIFICATION_CONFIG);
+  const brandId = repo.submissions[0].brandId!;
+  repo.addBrandAlias('Sunny Farm Produce', brandId);
+
+  for (const brandName of ['Sunny-Farms', 'sunny farm produce']) {
+    await handleSubmission(
+      { ...request, brandName, assessmentDate: `2025-06-0${repo.submissions.length + 2}T00:00:00.000Z` },
+      USER_ID,
+      repo,
+      DEFAULT_VERIFICATION_CONFIG,
+    );
+  }
+  assertEquals(repo.brands.size, 1);
+  assertEquals(repo.submissions.map(s => s.brandId), [brandId, brandId, brandId]);
+});
+
+Deno.test('a second reading for the same crop, place and day is held for review', async () => {
+  const repo = setup();
+  await handleSubmission(request, USER_ID, repo, DEFAULT_VERIFICATION_CONFIG);
+  const repeat = await handleSubmission({ ...request, brixValue: 11.2 }, USER_ID, repo, DEFAULT_VERIFICATION_CONFIG);
+  assertEquals(repeat.verified, false);
+  assertEquals(repeat.checks.find(c => c.rule === 'duplicate_check')?.passed, false);
+});
+
+Deno.test('requests without a session are refused before anything is written', async () => {
+  const repo = setup();
+  for (const body of [{ ...request, userId: undefined }, request]) {
+    const error = await assertRejects(
+      () => handleSubmission(body, null, repo, DEFAULT_VERIFICATION_CONFIG),
+      SubmissionError,
+      'Sign in',
+    );
+    assertEquals(error.status, 401);
+  }
+  assertEquals([repo.brands.size, repo.locations.size, repo.places.length, repo.submissions.length], [0, 0, 0, 0]);
+});
+
+Deno.test('viewers and users without a profile cannot submit', async () => {
+  const repo = setup();
+  repo.addUser({ id: 'viewer-1', role: 'viewer' });
+  for (const userId of ['viewer-1', 'no-profile']) {
+    const error = await assertRejects(
+      () => handleSubmission({ ...request, userId }, userId, repo, DEFAULT_VERIFICATION_CONFIG),
+      SubmissionError,
+      'Only contributors',
+    );
+    assertEquals(error.status, 403);
+  }
+  assertEquals([repo.brands.size, repo.locations.size, repo.places.length, repo.submissions.length], [0, 0, 0, 0]);
+});
+
+Deno.test('rejects a userId that differs from the signed-in user', async () => {
+  const repo = setup();
+  await assertRejects(
+    () => handleSubmission(request, 'someone-else', repo, DEFAULT_VERIFICATION_CONFIG),
+    SubmissionError,
+    'does not match',
+  );
+  assertEquals(repo.submissions.length, 0);
+});
+
+Deno.test('stores the photo distance rounded, and ignores invalid values', async () => {
+  const repo = setup();
+  await handleSubmission({ ...request, photoDistanceMeters: 1234.6 }, USER_ID, repo, DEFAULT_VERIFICATION_CONFIG);
+  await handleSubmission(
+    { ...request, assessmentDate: '2025-06-02T00:00:00.000Z', photoDistanceMeters: -5 },
+    USER_ID,
+    repo,
+    DEFAULT_VERIFICATION_CONFIG,
+  );
+  assertEquals(repo.submissions.map(s => s.photoDistanceMeters), [1235, null]);
+});
+
+Deno.test('unknown crops are rejected before anything is written', async () => {
+  const repo = setup();
+  await assertRejects(
+    () => handleSubmission({ ...request, cropName: 'durian' }, USER_ID, repo, DEFAULT_VERIFICATION_CONFIG),
+    SubmissionError,
+    'Unknown crop',
+  );
+  assertEquals(repo.brands.size, 0);
+});
+
+Deno.test('replicate readings are stored and their mean becomes the BRIX value', async () => {
+  const repo = setup();
+  const body = validateRequest({ ...request, brixValue: 0, brixReadings: [10, 11, 12.5] });
+  assertEquals(body.brixValue, 11.17);
+  await handleSubmission(body, USER_ID, repo, DEFAULT_VERIFICATION_CONFIG);
+  assertEquals(repo.submissions[0].brixReadings, [10, 11, 12.5]);
+  assertEquals(repo.submissions[0].brixValue, 11.17);
+});
+
+Deno.test('provenance is stored, and a sample counts as purchased unless stated', async () => {
+  const repo = setup();
+  await handleSubmission(request, USER_ID, repo, DEFAULT_VERIFICATION_CONFIG);
+  await handleSubmission(
+    {
+      ...request,
+      assessmentDate: '2025-06-02T00:00:00.000Z',
+      growingMethod: 'organic',
+      originCountry: ' Mexico ',
+      sampleSource: 'farm_picked',
+      price: 4.99,
+      priceUnit: 'lb',
+      priceCurrency: 'USD',
+      farmLocation: 'Row 4, Sunny Farms',
+      harvestTime: '2025-06-01',
+    },
+    USER_ID,
+    repo,
+    DEFAULT_VERIFICATION_CONFIG,
+  );
+  assertEquals(repo.submissions[0].sampleSource, 'purchased');
+  assertEquals(repo.submissions[0].price, null);
+  const picked = repo.submissions[1];
+  assertEquals(
+    [picked.growingMethod, picked.originCountry, picked.sampleSource, picked.price, picked.priceUnit, picked.priceCurrency, picked.farmLocation],
+    ['organic', 'Mexico', 'farm_picked', 4.99, 'lb', 'USD', 'Row 4, Sunny Farms'],
+  );
+  assertEquals(picked.harvestTime, '2025-06-01T00:00:00.000Z');
+});
+
+Deno.test('validateRequest reports missing fields and bad values', () => {
+  try {
+    validateRequest({ ...request, cropName: ' ', store_name: '' });
+    throw new Error('expected validation to fail');
+  } catch (err) {
+    assertEquals((err as Error).message, 'Missing required fields: cropName, store_name');
+  }
+
+  for (const bad of [
+    { brixValue: -1 }, { latitude: 91 }, { assessmentDate: 'yesterday' }, { brixReadings: [12, 101] }, { brixReadings: [] },
+    { growingMethod: 'biodynamic' }, { sampleSource: 'gifted' }, { price: -1, priceUnit: 'lb' }, { price: 2 },
+    { price: 2, priceUnit: 'lb', priceCurrency: 'usd' },
+    { harvestTime: 'last week' },
+  ]) {
+    let failed = false;
+    try {
+      validateRequest({ ...request, ...bad });
+    } catch (err) {
+      failed = err instanceof SubmissionError;
+    }
+    assertEquals(failed, true);
+  }
+});
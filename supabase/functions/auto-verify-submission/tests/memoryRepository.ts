@@ -0,0 +1,112 @@
+// In-memory stand-in for the tables the handler reads and writes.
+
+import {
+  CropRecord,
+  DuplicateQuery,
+  InsertedSubmission,
+  NewSubmission,
+  PlaceInput,
+  SubmissionRepository,
+} from '../repository.ts';
+import { ContributorProfile } from '../rules.ts';
+
+export interface MemoryUser extends ContributorProfile {
+  id: string;
+}
+
+export interface MemorySubmission extends NewSubmission {
+  id: string;
+  rejected: boolean;
+}
+
+// Mirrors normalize_brand_name: lower case, apostrophes dropped, other punctuation as spaces
+const brandKey = (name: string) =>
+  name.toLowerCase().replace(/['’`]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+export class MemoryRepository implements SubmissionRepository {
+  crops = new Map<string, CropRecord & { name: string }>();
+  brands = new Map<string, string>();
+  // Names left behind by merging brands, keyed like brands
+  brandAliases = new Map<string, string>();
+  locations = new Map<string, string>();
+  places: (PlaceInput & { id: string })[] = [];
+  users = new Map<string, MemoryUser>();
+  submissions: MemorySubmission[] = [];
+  private nextId = 1;
+
+  private id(prefix: string) {
+    return `${prefix}-${this.nextId++}`;
+  }
+
+  addCrop(name: string, poor: number | null, excellent: number | null) {
+    const id = this.id('crop');
+    this.crops.set(name.toLowerCase(), { id, name, thresholds: { poor, excellent } });
+    return id;
+  }
+
+  addBrandAlias(alias: string, brandId: string) {
+    this.brandAliases.set(brandKey(alias), brandId);
+  }
+
+  addUser(user: Partial<MemoryUser> & { id: string }) {
+    this.users.set(user.id, { role: 'contributor', submissionCount: 0, rejectedCount: 0, ...user });
+  }
+
+  findCropByName(name: string) {
+    return Promise.resolve(this.crops.get(name.toLowerCase()) ?? null);
+  }
+
+  private findOrCreate(table: Map<string, string>, prefix: string, name: string) {
+    const key = name.toLowerCase();
+    if (!table.has(key)) table.set(key, this.id(prefix));
+    return Promise.resolve(table.get(key)!);
+  }
+
+  findOrCreateBrand(name: string) {
+    const alias = this.brandAliases.get(brandKey(name));
+    if (alias) return Promise.resolve(alias);
+    return this.findOrCreate(this.brands, 'brand', brandKey(name));
+  }
+
+  findOrCreateLocation(name: string) {
+    return this.findOrCreate(this.locations, 'location', name);
+  }
+
+  findOrCreatePlace(place: PlaceInput) {
+    const existing = this.places.find(p =>
+      p.locationId === place.locationId &&
+      Math.abs(p.latitude - place.latitude) <= 0.0005 &&
+      Math.abs(p.longitude - place.longitude) <= 0.0005
+    );
+    if (existing) return Promise.resolve(existing.id);
+    const id = this.id('place');
+    this.places.push({ ...place, id });
+    return Promise.resolve(id);
+  }
+
+  getContributor(userId: string) {
+    const user = this.users.get(userId);
+    if (!user) return Promise.resolve(null);
+    const rejectedCount = this.submissions.filter(s => s.userId === userId && s.rejected).length;
+    return Promise.resolve({
+      role: user.role,
+      submissionCount: user.submissionCount,
+      rejectedCount: user.rejectedCount + rejectedCount,
+    });
+  }
+
+  countDuplicates({ userId, cropId, placeId, assessmentDay }: DuplicateQuery) {
+    return Promise.resolve(this.submissions.filter(s =>
+      s.userId === userId &&
+      s.cropId === cropId &&
+      s.placeId === placeId &&
+      s.assessmentDate.slice(0, 10) === assessmentDay
+    ).length);
+  }
+
+  insertSubmission(submission: NewSubmission): Promise<InsertedSubmission> {
+    const id = this.id('submission');
+    this.submissions.push({ ...submission, id, rejected: false });
+    return Promise.resolve({ id, verified: submission.verified });
+  }
+}
@@ -0,0 +1,85 @@
+import { assertEquals } from '@std/assert';
+import {
+  DEFAULT_VERIFICATION_CONFIG,
+  VerificationInput,
+  decideVerification,
+  parseVerificationConfig,
+} from '../rules.ts';
+
+const trustedInput: VerificationInput = {
+  brixValue: 12,
+  thresholds: { poor: 6, excellent: 18 },
+  contributor: { role: 'contributor', submissionCount: 10, rejectedCount: 0 },
+  imageCount: 1,
+  duplicateCount: 0,
+};
+
+const failedRules = (input: VerificationInput, config = DEFAULT_VERIFICATION_CONFIG) =>
+  decideVerification(input, config).results.filter(r => !r.passed).map(r => r.rule);
+
+Deno.test('verifies a reading that passes every rule', () => {
+  assertEquals(decideVerification(trustedInput).verified, true);
+});
+
+Deno.test('threshold range: rejects readings outside the crop thresholds', () => {
+  assertEquals(failedRules({ ...trustedInput, brixValue: 25 }), ['threshold_range']);
+  assertEquals(failedRules({ ...trustedInput, brixValue: 3 }), ['threshold_range']);
+});
+
+Deno.test('threshold range: the margin widens the accepted range', () => {
+  const config = { ...DEFAULT_VERIFICATION_CONFIG, thresholdMargin: 0.25 };
+  // span 12, margin 3 → 3..21
+  assertEquals(failedRules({ ...trustedInput, brixValue: 20 }, config), []);
+  assertEquals(failedRules({ ...trustedInput, brixValue: 22 }, config), ['threshold_range']);
+});
+
+Deno.test('threshold range: descending crops accept readings between excellent and poor', () => {
+  const descending = { poor: 18, excellent: 6 };
+  assertEquals(failedRules({ ...trustedInput, thresholds: descending }), []);
+  assertEquals(failedRules({ ...trustedInput, thresholds: descending, brixValue: 3 }), ['threshold_range']);
+  assertEquals(failedRules({ ...trustedInput, thresholds: descending, brixValue: 25 }), ['threshold_range']);
+});
+
+Deno.test('threshold range: crops without thresholds are never auto-verified', () => {
+  assertEquals(failedRules({ ...trustedInput, thresholds: { poor: null, excellent: 18 } }), ['threshold_range']);
+  assertEquals(failedRules({ ...trustedInput, thresholds: null }), ['threshold_range']);
+});
+
+Deno.test('contributor trust: new, anonymous, viewer and previously rejected contributors need review', () => {
+  const base = trustedInput.contributor!;
+  assertEquals(failedRules({ ...trustedInput, contributor: { ...base, submissionCount: 2 } }), ['contributor_trust']);
+  assertEquals(failedRules({ ...trustedInput, contributor: null }), ['contributor_trust']);
+  assertEquals(failedRules({ ...trustedInput, contributor: { ...base, role: 'viewer' } }), ['contributor_trust']);
+  assertEquals(failedRules({ ...trustedInput, contributor: { ...base, rejectedCount: 1 } }), ['contributor_trust']);
+});
+
+Deno.test('contributor trust: trusted roles skip the history requirement', () => {
+  const admin = { role: 'admin', submissionCount: 0, rejectedCount: 3 };
+  assertEquals(failedRules({ ...trustedInput, contributor: admin }), []);
+});
+
+Deno.test('images present: required by default, optional when disabled', () => {
+  assertEquals(failedRules({ ...trustedInput, imageCount: 0 }), ['images_present']);
+  const config = { ...DEFAULT_VERIFICATION_CONFIG, requireImages: false };
+  assertEquals(failedRules({ ...trustedInput, imageCount: 0 }, config), []);
+});
+
+Deno.test('duplicate check: repeated readings are held unless disabled', () => {
+  assertEquals(failedRules({ ...trustedInput, duplicateCount: 1 }), ['duplicate_check']);
+  const config = { ...DEFAULT_VERIFICATION_CONFIG, rejectDuplicates: false };
+  assertEquals(failedRules({ ...trustedInput, duplicateCount: 1 }, config), []);
+});
+
+Deno.test('parseVerificationConfig: applies valid overrides and ignores the rest', () => {
+  const config = parseVerificationConfig(JSON.stringify({
+    minImages: 2,
+    requireImages: 'yes',
+    trustedRoles: ['admin', 'contributor'],
+    unknown: true,
+  }));
+  assertEquals(config.minImages, 2);
+  assertEquals(config.requireImages, DEFAULT_VERIFICATION_CONFIG.requireImages);
+  assertEquals(config.trustedRoles, ['admin', 'contributor']);
+  assertEquals(parseVerificationConfig('not json'), DEFAULT_VERIFICATION_CONFIG);
+  assertEquals(parseVerificationConfig(undefined), DEFAULT_VERIFICATION_CONFIG);
+});
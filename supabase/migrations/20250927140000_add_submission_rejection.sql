@@ -0,0 +1,30 @@
+-- Migration: rejection workflow for submissions
+-- Admins can reject an unverified reading with a reason instead of deleting it.
+-- The contributor sees the reason, edits the reading and resubmits it, which
+-- clears the rejection and puts it back into the admin review queue.
+
+-- 1. Rejection columns alongside verified / verified_at
+ALTER TABLE public.submissions
+  ADD COLUMN IF NOT EXISTS rejected boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS rejected_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS rejected_at timestamptz,
+  ADD COLUMN IF NOT EXISTS rejection_reason text;
+
+-- A reading cannot be verified and rejected at the same time
+ALTER TABLE public.submissions
+  DROP CONSTRAINT IF EXISTS submissions_verified_or_rejected;
+ALTER TABLE public.submissions
+  ADD CONSTRAINT submissions_verified_or_rejected CHECK (NOT (verified AND rejected));
+
+-- 2. Index for the admin review queue (unverified, not rejected)
+CREATE INDEX IF NOT EXISTS idx_submissions_review_queue
+  ON public.submissions (assessment_date)
+  WHERE verified = false AND rejected = false;
+
+-- 3. Owners may edit their own unverified readings (pending or rejected) so they can resubmit.
+-- The WITH CHECK keeps them from verifying their own reading.
+DROP POLICY IF EXISTS "Owners can update their unverified submissions" ON public.submissions;
+CREATE POLICY "Owners can update their unverified submissions" ON public.submissions
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id AND verified = false)
+  WITH CHECK (auth.uid() = user_id AND verified = false AND verified_by IS NULL);
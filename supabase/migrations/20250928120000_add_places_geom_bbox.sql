@@ -0,0 +1,48 @@
+-- Migration: spatial lookup of places for the map viewport
+-- The map only loads places inside the visible bounds instead of every submission,
+-- so places get a PostGIS point column kept in sync with latitude/longitude and a
+-- GiST index, plus an RPC that returns the places inside a bounding box.
+
+-- 1. Point geometry derived from the existing coordinates
+ALTER TABLE public.places
+  ADD COLUMN IF NOT EXISTS geom geometry(Point, 4326)
+  GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_places_geom ON public.places USING gist (geom);
+
+-- 2. Places inside a bounding box (WGS84 degrees), optionally capped
+CREATE OR REPLACE FUNCTION public.get_places_in_bbox(
+  min_lng double precision,
+  min_lat double precision,
+  max_lng double precision,
+  max_lat double precision,
+  max_results integer DEFAULT 5000
+)
+RETURNS TABLE(
+  id uuid,
+  label text,
+  latitude double precision,
+  longitude double precision,
+  location_id uuid,
+  city text,
+  state text,
+  country text
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT
+    p.id,
+    p.label,
+    p.latitude,
+    p.longitude,
+    p.location_id,
+    p.city,
+    p.state,
+    p.country
+  FROM public.places p
+  WHERE p.geom && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)
+  LIMIT max_results;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_places_in_bbox(double precision, double precision, double precision, double precision, integer) TO anon, authenticated;
@@ -0,0 +1,50 @@
+-- Migration: BRIX trend over time
+-- Averages verified readings per week or month of assessment_date, using the same
+-- 1..2 normalization as the leaderboards so trends are comparable across crops.
+-- Every filter is optional; text filters match crop/brand/store names or labels
+-- case-insensitively.
+
+-- 1. Trend buckets for the given filters
+CREATE OR REPLACE FUNCTION public.get_brix_trend(
+  bucket text DEFAULT 'month',
+  crop_filter text DEFAULT NULL,
+  brand_filter text DEFAULT NULL,
+  location_filter text DEFAULT NULL,
+  place_id_filter uuid DEFAULT NULL,
+  country_filter text DEFAULT NULL,
+  state_filter text DEFAULT NULL,
+  city_filter text DEFAULT NULL
+)
+RETURNS TABLE(
+  period date,
+  average_normalized_score numeric,
+  average_brix numeric,
+  submission_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT
+    date_trunc(CASE WHEN bucket = 'week' THEN 'week' ELSE 'month' END, s.assessment_date)::date AS period,
+    AVG(get_normalized_brix_1_to_2(s.crop_id, s.brix_value)) AS average_normalized_score,
+    AVG(s.brix_value) AS average_brix,
+    COUNT(*) AS submission_count
+  FROM public.submissions s
+  JOIN public.crops c ON c.id = s.crop_id
+  JOIN public.places p ON p.id = s.place_id
+  LEFT JOIN public.brands b ON b.id = s.brand_id
+  LEFT JOIN public.locations l ON l.id = p.location_id
+  WHERE s.verified = TRUE
+    AND s.assessment_date IS NOT NULL
+    AND (crop_filter IS NULL OR lower(crop_filter) IN (lower(c.name), lower(c.label)))
+    AND (brand_filter IS NULL OR lower(brand_filter) IN (lower(b.name), lower(b.label)))
+    AND (location_filter IS NULL OR lower(location_filter) IN (lower(l.name), lower(l.label)))
+    AND (place_id_filter IS NULL OR p.id = place_id_filter)
+    AND (country_filter IS NULL OR lower(p.country) = lower(country_filter))
+    AND (state_filter IS NULL OR lower(p.state) = lower(state_filter))
+    AND (city_filter IS NULL OR lower(p.city) = lower(city_filter))
+  GROUP BY 1
+  ORDER BY 1;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_brix_trend(text, text, text, text, uuid, text, text, text) TO anon, authenticated;
@@ -0,0 +1,62 @@
+-- Migration: seasonal BRIX norms per crop
+-- Crop thresholds are static, but expected sweetness shifts through the year. This
+-- computes BRIX percentiles per crop, calendar month of assessment_date and hemisphere
+-- (from places.latitude) over verified submissions, so a reading can be compared with
+-- what is normal for that crop at that time of year.
+
+-- 1. Percentile distribution per crop / month / hemisphere, optionally narrowed
+CREATE OR REPLACE FUNCTION public.get_crop_seasonality(
+  crop_filter text DEFAULT NULL,
+  month_filter integer DEFAULT NULL,
+  hemisphere_filter text DEFAULT NULL
+)
+RETURNS TABLE(
+  crop_id uuid,
+  crop_name text,
+  month integer,
+  hemisphere text,
+  p10 numeric,
+  p25 numeric,
+  p50 numeric,
+  p75 numeric,
+  p90 numeric,
+  submission_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  WITH readings AS (
+    SELECT
+      c.id AS crop_id,
+      c.name AS crop_name,
+      EXTRACT(MONTH FROM s.assessment_date)::integer AS month,
+      CASE WHEN p.latitude >= 0 THEN 'north' ELSE 'south' END AS hemisphere,
+      s.brix_value
+    FROM public.submissions s
+    JOIN public.crops c ON c.id = s.crop_id
+    JOIN public.places p ON p.id = s.place_id
+    WHERE s.verified = TRUE
+      AND s.assessment_date IS NOT NULL
+      AND s.brix_value IS NOT NULL
+      AND p.latitude IS NOT NULL
+      AND (crop_filter IS NULL OR lower(crop_filter) IN (lower(c.name), lower(c.label)))
+  )
+  SELECT
+    r.crop_id,
+    r.crop_name,
+    r.month,
+    r.hemisphere,
+    percentile_cont(0.10) WITHIN GROUP (ORDER BY r.brix_value)::numeric AS p10,
+    percentile_cont(0.25) WITHIN GROUP (ORDER BY r.brix_value)::numeric AS p25,
+    percentile_cont(0.50) WITHIN GROUP (ORDER BY r.brix_value)::numeric AS p50,
+    percentile_cont(0.75) WITHIN GROUP (ORDER BY r.brix_value)::numeric AS p75,
+    percentile_cont(0.90) WITHIN GROUP (ORDER BY r.brix_value)::numeric AS p90,
+    COUNT(*) AS submission_count
+  FROM readings r
+  WHERE (month_filter IS NULL OR r.month = month_filter)
+    AND (hemisphere_filter IS NULL OR r.hemisphere = lower(hemisphere_filter))
+  GROUP BY r.crop_id, r.crop_name, r.month, r.hemisphere
+  ORDER BY r.crop_name, r.hemisphere, r.month;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_crop_seasonality(text, integer, text) TO anon, authenticated;
@@ -0,0 +1,168 @@
+-- Migration: robust outlier scoring for submissions
+-- The old submission_with_outliers view only compared readings against the crop
+-- thresholds. Readings are now scored with a modified z-score (median/MAD) against
+-- verified readings of the same crop, narrowed to the same country and month when
+-- there is enough data. The score and a human-readable reason are stored on the
+-- submission, and high scores hold the reading back for admin review instead of
+-- letting it be auto-verified.
+
+-- 1. Outlier columns
+ALTER TABLE public.submissions
+  ADD COLUMN IF NOT EXISTS outlier_score numeric,
+  ADD COLUMN IF NOT EXISTS outlier_reason text,
+  ADD COLUMN IF NOT EXISTS outlier_flagged boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_submissions_outlier_flagged
+  ON public.submissions (outlier_flagged)
+  WHERE outlier_flagged;
+
+-- 2. Modified z-score of a reading: 0.6745 * (x - median) / MAD.
+--    Peer groups are tried from narrowest to widest; the first with enough readings wins.
+CREATE OR REPLACE FUNCTION public.score_submission_outlier(
+  p_crop_id uuid,
+  p_brix numeric,
+  p_place_id uuid,
+  p_assessment_date timestamptz,
+  p_exclude_id uuid DEFAULT NULL
+)
+RETURNS TABLE(score numeric, reason text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  min_samples constant integer := 8;
+  v_country text;
+  v_month integer := EXTRACT(MONTH FROM p_assessment_date)::integer;
+  v_crop_label text;
+  v_scope record;
+  v_median numeric;
+  v_mad numeric;
+  v_count integer;
+BEGIN
+  IF p_brix IS NULL OR p_crop_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT lower(p.country) INTO v_country FROM places p WHERE p.id = p_place_id;
+  SELECT COALESCE(c.label, c.name) INTO v_crop_label FROM crops c WHERE c.id = p_crop_id;
+
+  FOR v_scope IN
+    SELECT * FROM (VALUES
+      (1, true, true, 'same country and month'),
+      (2, false, true, 'same month'),
+      (3, false, false, 'all verified readings')
+    ) AS scopes(priority, by_country, by_month, description)
+    ORDER BY priority
+  LOOP
+    CONTINUE WHEN v_scope.by_country AND v_country IS NULL;
+    CONTINUE WHEN v_scope.by_month AND v_month IS NULL;
+
+    WITH peers AS (
+      SELECT s.brix_value
+      FROM submissions s
+      JOIN places p ON p.id = s.place_id
+      WHERE s.crop_id = p_crop_id
+        AND s.verified = TRUE
+        AND (p_exclude_id IS NULL OR s.id <> p_exclude_id)
+        AND (NOT v_scope.by_country OR lower(p.country) = v_country)
+        AND (NOT v_scope.by_month OR EXTRACT(MONTH FROM s.assessment_date)::integer = v_month)
+    ),
+    med AS (
+      SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY brix_value)::numeric AS median, COUNT(*)::integer AS n
+      FROM peers
+    )
+    SELECT
+      med.median,
+      (SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY abs(peers.brix_value - med.median))::numeric FROM peers),
+      med.n
+    INTO v_median, v_mad, v_count
+    FROM med;
+
+    IF v_count >= min_samples AND v_mad > 0 THEN
+      score := round(0.6745 * (p_brix - v_median) / v_mad, 2);
+      reason := format(
+        'BRIX %s is %s the median of %s for %s (%s, n=%s)',
+        p_brix,
+        CASE WHEN p_brix >= v_median THEN 'above' ELSE 'below' END,
+        round(v_median, 1),
+        v_crop_label,
+        v_scope.description,
+        v_count
+      );
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END LOOP;
+END;
+$function$;
+
+-- 3. Score on write; flagged readings cannot be verified except by an admin
+CREATE OR REPLACE FUNCTION public.apply_submission_outlier_score()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  flag_threshold constant numeric := 3.5;
+  v_score numeric;
+  v_reason text;
+BEGIN
+  SELECT o.score, o.reason INTO v_score, v_reason
+  FROM score_submission_outlier(NEW.crop_id, NEW.brix_value, NEW.place_id, NEW.assessment_date, NEW.id) o;
+
+  NEW.outlier_score := v_score;
+  NEW.outlier_reason := v_reason;
+  NEW.outlier_flagged := COALESCE(abs(v_score) >= flag_threshold, false);
+
+  IF NEW.outlier_flagged AND NEW.verified AND NOT is_admin() THEN
+    NEW.verified := false;
+    NEW.verified_at := NULL;
+    NEW.verified_by := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS score_submission_outlier ON public.submissions;
+CREATE TRIGGER score_submission_outlier
+  BEFORE INSERT OR UPDATE OF brix_value, crop_id, place_id, assessment_date, verified
+  ON public.submissions
+  FOR EACH ROW EXECUTE FUNCTION public.apply_submission_outlier_score();
+
+-- 4. Backfill existing rows (only touches the outlier columns, so the trigger does not fire)
+UPDATE public.submissions s
+SET (outlier_score, outlier_reason) = (
+  SELECT o.score, o.reason
+  FROM public.score_submission_outlier(s.crop_id, s.brix_value, s.place_id, s.assessment_date, s.id) o
+);
+
+UPDATE public.submissions
+SET outlier_flagged = COALESCE(abs(outlier_score) >= 3.5, false);
+
+-- 5. Rebuild the view on the stored scores
+DROP VIEW IF EXISTS public.submission_with_outliers;
+
+CREATE VIEW public.submission_with_outliers AS
+SELECT
+  s.id,
+  s.assessment_date AS "timestamp",
+  s.crop_id,
+  s.place_id AS location_id,
+  s.location_id AS store_id,
+  s.brand_id,
+  s.crop_variety AS label,
+  s.brix_value,
+  c.poor_brix,
+  c.average_brix,
+  c.good_brix,
+  c.excellent_brix,
+  c.category,
+  s.outlier_score,
+  s.outlier_reason,
+  s.outlier_flagged AS is_outlier
+FROM public.submissions s
+JOIN public.crops c ON s.crop_id = c.id;
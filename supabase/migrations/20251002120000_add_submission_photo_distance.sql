@@ -0,0 +1,12 @@
+-- Migration: distance between a reading's photo and its store
+-- DataEntry reads the GPS position from the photo's EXIF and compares it with the
+-- location the contributor picked. Only the distance is stored (the photo's own
+-- position is stripped before upload); reviewers see a warning when it is large.
+
+-- 1. Column
+ALTER TABLE public.submissions
+  ADD COLUMN IF NOT EXISTS photo_distance_m integer
+    CHECK (photo_distance_m IS NULL OR photo_distance_m >= 0);
+
+COMMENT ON COLUMN public.submissions.photo_distance_m IS
+  'Metres between the photo EXIF GPS position and the chosen place, when the photo had one.';
@@ -0,0 +1,19 @@
+-- Migration: image metadata and thumbnails for submission_images
+-- Photos are now resized and re-encoded to WebP in the browser before upload, with a
+-- small thumbnail stored next to them for tables and map popups. The stored dimensions
+-- let the UI reserve space before an image loads, and the content hash (SHA-256 of the
+-- photo as the contributor selected it) identifies the same photo uploaded twice.
+
+-- 1. Metadata columns (all nullable: rows uploaded before this change have none)
+ALTER TABLE public.submission_images
+  ADD COLUMN IF NOT EXISTS thumbnail_url text,
+  ADD COLUMN IF NOT EXISTS width integer,
+  ADD COLUMN IF NOT EXISTS height integer,
+  ADD COLUMN IF NOT EXISTS byte_size integer,
+  ADD COLUMN IF NOT EXISTS content_type text,
+  ADD COLUMN IF NOT EXISTS content_hash text;
+
+-- 2. Lookups by hash
+CREATE INDEX IF NOT EXISTS idx_submission_images_content_hash
+  ON public.submission_images (content_hash)
+  WHERE content_hash IS NOT NULL;
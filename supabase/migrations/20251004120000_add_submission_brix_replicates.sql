@@ -0,0 +1,50 @@
+-- Migration: replicate BRIX readings per submission
+-- Contributors can enter several refractometer readings of the same sample. The readings
+-- are kept in brix_readings and brix_value holds their mean, so every existing consumer of
+-- brix_value (grading, normalized scores, leaderboards, trends, outlier scoring) uses the
+-- aggregate without changes. Median and sample standard deviation are stored alongside.
+
+-- 1. Columns
+ALTER TABLE public.submissions
+  ADD COLUMN IF NOT EXISTS brix_readings numeric[]
+    CHECK (brix_readings IS NULL OR cardinality(brix_readings) BETWEEN 1 AND 20),
+  ADD COLUMN IF NOT EXISTS brix_median numeric,
+  ADD COLUMN IF NOT EXISTS brix_stdev numeric;
+
+-- 2. Keep brix_value, brix_median and brix_stdev in step with the readings.
+--    Named so it sorts (and therefore fires) before the score_submission_outlier trigger,
+--    which then scores the aggregated value.
+CREATE OR REPLACE FUNCTION public.aggregate_submission_brix_readings()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Editing brix_value on its own (e.g. from the detail modal) replaces the replicates
+  IF TG_OP = 'UPDATE'
+     AND NEW.brix_value IS DISTINCT FROM OLD.brix_value
+     AND NEW.brix_readings IS NOT DISTINCT FROM OLD.brix_readings THEN
+    NEW.brix_readings := NULL;
+  END IF;
+
+  IF NEW.brix_readings IS NULL OR cardinality(NEW.brix_readings) = 0 THEN
+    NEW.brix_readings := NULL;
+    NEW.brix_median := NULL;
+    NEW.brix_stdev := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT round(avg(r), 2),
+         round(percentile_cont(0.5) WITHIN GROUP (ORDER BY r)::numeric, 2),
+         round(stddev_samp(r), 2)
+    INTO NEW.brix_value, NEW.brix_median, NEW.brix_stdev
+    FROM unnest(NEW.brix_readings) AS r;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS aggregate_submission_brix_readings ON public.submissions;
+CREATE TRIGGER aggregate_submission_brix_readings
+  BEFORE INSERT OR UPDATE OF brix_readings, brix_value ON public.submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.aggregate_submission_brix_readings();
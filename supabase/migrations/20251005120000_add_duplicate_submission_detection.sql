@@ -0,0 +1,232 @@
+-- Migration: duplicate submission detection
+-- The same contributor logging the same crop at the same place on the same day more than
+-- once inflates the location and brand leaderboards. Two signals mark a likely duplicate:
+-- the same contributor, crop, place and assessment day with a near-identical BRIX value,
+-- or a photo whose content hash (submission_images.content_hash) is already stored.
+-- DataEntry checks a reading before sending it; admins review and resolve the existing
+-- duplicates as clusters and can merge them into one submission.
+
+-- 1. Lookup index for the same contributor/crop/place/day signal
+CREATE INDEX IF NOT EXISTS idx_submissions_duplicate_key
+  ON public.submissions (user_id, crop_id, place_id, assessment_date);
+
+-- 2. Likely duplicates of a reading that is about to be submitted by the current user.
+--    The place is not created yet, so it is matched by distance to the entered coordinates.
+CREATE OR REPLACE FUNCTION public.find_possible_duplicate_submissions(
+  p_crop_name text,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_assessment_date date,
+  p_brix numeric,
+  p_image_hashes text[] DEFAULT '{}',
+  p_brix_tolerance numeric DEFAULT 0.5,
+  p_radius_m double precision DEFAULT 100
+)
+RETURNS TABLE(
+  submission_id uuid,
+  crop_name text,
+  place_label text,
+  assessment_date timestamptz,
+  brix_value numeric,
+  is_own boolean,
+  match_reason text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  WITH same_reading AS (
+    SELECT s.id, 'You already logged this crop here on this day'::text AS reason
+    FROM submissions s
+    JOIN crops c ON c.id = s.crop_id
+    JOIN places p ON p.id = s.place_id
+    WHERE s.user_id = auth.uid()
+      AND lower(c.name) = lower(p_crop_name)
+      AND (s.assessment_date AT TIME ZONE 'UTC')::date = p_assessment_date
+      AND abs(s.brix_value - p_brix) <= p_brix_tolerance
+      AND p.geom IS NOT NULL
+      AND ST_DWithin(
+        p.geom::geography,
+        ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326)::geography,
+        p_radius_m
+      )
+  ),
+  same_photo AS (
+    SELECT DISTINCT i.submission_id AS id, 'A photo is identical to one already submitted'::text AS reason
+    FROM submission_images i
+    WHERE i.content_hash = ANY(COALESCE(p_image_hashes, '{}'))
+  ),
+  matches AS (
+    SELECT m.id, string_agg(m.reason, '; ' ORDER BY m.reason) AS reason
+    FROM (SELECT * FROM same_reading UNION ALL SELECT * FROM same_photo) m
+    GROUP BY m.id
+  )
+  SELECT
+    s.id,
+    COALESCE(c.label, c.name),
+    COALESCE(p.label, l.label, l.name),
+    s.assessment_date,
+    s.brix_value,
+    s.user_id = auth.uid(),
+    matches.reason
+  FROM matches
+  JOIN submissions s ON s.id = matches.id
+  JOIN crops c ON c.id = s.crop_id
+  LEFT JOIN places p ON p.id = s.place_id
+  LEFT JOIN locations l ON l.id = s.location_id
+  ORDER BY s.assessment_date DESC NULLS LAST
+  LIMIT 10;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.find_possible_duplicate_submissions(text, double precision, double precision, date, numeric, text[], numeric, double precision) TO anon, authenticated;
+
+-- 3. Existing duplicates grouped into clusters, one row per member (admins only).
+--    A submission can appear in a same-day cluster and in a same-photo cluster.
+CREATE OR REPLACE FUNCTION public.get_duplicate_submission_clusters(
+  p_brix_tolerance numeric DEFAULT 0.5
+)
+RETURNS TABLE(
+  cluster_key text,
+  match_reason text,
+  submission_id uuid,
+  user_id uuid,
+  user_name text,
+  crop_name text,
+  place_label text,
+  brand_name text,
+  assessment_date timestamptz,
+  brix_value numeric,
+  verified boolean,
+  image_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can list duplicate submissions' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH same_day AS (
+    SELECT
+      s.id,
+      concat_ws(':', 'day', s.user_id, s.crop_id, s.place_id, (s.assessment_date AT TIME ZONE 'UTC')::date) AS key,
+      'Same contributor, crop, place and day'::text AS reason
+    FROM submissions s
+    WHERE s.user_id IS NOT NULL
+      AND s.assessment_date IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM submissions o
+        WHERE o.id <> s.id
+          AND o.user_id = s.user_id
+          AND o.crop_id = s.crop_id
+          AND o.place_id = s.place_id
+          AND (o.assessment_date AT TIME ZONE 'UTC')::date = (s.assessment_date AT TIME ZONE 'UTC')::date
+          AND abs(o.brix_value - s.brix_value) <= p_brix_tolerance
+      )
+  ),
+  same_photo AS (
+    SELECT DISTINCT i.submission_id AS id, 'image:' || i.content_hash AS key, 'Identical photo'::text AS reason
+    FROM submission_images i
+    WHERE i.content_hash IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM submission_images o
+        WHERE o.content_hash = i.content_hash AND o.submission_id <> i.submission_id
+      )
+  ),
+  members AS (
+    SELECT * FROM same_day UNION ALL SELECT * FROM same_photo
+  )
+  SELECT
+    m.key,
+    m.reason,
+    s.id,
+    s.user_id,
+    u.display_name,
+    COALESCE(c.label, c.name),
+    COALESCE(p.label, l.label, l.name),
+    COALESCE(b.label, b.name),
+    s.assessment_date,
+    s.brix_value,
+    s.verified,
+    (SELECT COUNT(*) FROM submission_images si WHERE si.submission_id = s.id)::integer
+  FROM members m
+  JOIN submissions s ON s.id = m.id
+  JOIN crops c ON c.id = s.crop_id
+  LEFT JOIN users u ON u.id = s.user_id
+  LEFT JOIN places p ON p.id = s.place_id
+  LEFT JOIN locations l ON l.id = s.location_id
+  LEFT JOIN brands b ON b.id = s.brand_id
+  ORDER BY m.key, s.assessment_date, s.id;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_duplicate_submission_clusters(numeric) TO authenticated;
+
+-- 4. Merges duplicates into the submission that is kept (admins only). Details missing on the
+--    kept submission are taken from the duplicates, their photos are moved over unless the
+--    same photo is already attached, and the duplicates are deleted.
+CREATE OR REPLACE FUNCTION public.merge_duplicate_submissions(
+  p_keep_id uuid,
+  p_duplicate_ids uuid[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ids uuid[] := array_remove(p_duplicate_ids, p_keep_id);
+  v_deleted integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge submissions' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM submissions WHERE id = p_keep_id) THEN
+    RAISE EXCEPTION 'Submission % does not exist', p_keep_id USING ERRCODE = 'P0002';
+  END IF;
+  IF COALESCE(array_length(v_ids, 1), 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE submissions k
+  SET
+    brand_id = COALESCE(k.brand_id, d.brand_id),
+    crop_variety = COALESCE(k.crop_variety, d.crop_variety),
+    purchase_date = COALESCE(k.purchase_date, d.purchase_date),
+    outlier_notes = COALESCE(k.outlier_notes, d.outlier_notes)
+  FROM (
+    SELECT
+      (array_agg(brand_id) FILTER (WHERE brand_id IS NOT NULL))[1] AS brand_id,
+      (array_agg(crop_variety) FILTER (WHERE crop_variety IS NOT NULL))[1] AS crop_variety,
+      (array_agg(purchase_date) FILTER (WHERE purchase_date IS NOT NULL))[1] AS purchase_date,
+      (array_agg(outlier_notes) FILTER (WHERE outlier_notes IS NOT NULL))[1] AS outlier_notes
+    FROM submissions
+    WHERE id = ANY(v_ids)
+  ) d
+  WHERE k.id = p_keep_id;
+
+  UPDATE submission_images i
+  SET submission_id = p_keep_id
+  WHERE i.submission_id = ANY(v_ids)
+    AND (
+      i.content_hash IS NULL
+      OR NOT EXISTS (
+        SELECT 1 FROM submission_images k
+        WHERE k.submission_id = p_keep_id AND k.content_hash = i.content_hash
+      )
+    );
+
+  DELETE FROM submission_images WHERE submission_id = ANY(v_ids);
+  DELETE FROM submissions WHERE id = ANY(v_ids);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  RETURN v_deleted;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.merge_duplicate_submissions(uuid, uuid[]) TO authenticated;
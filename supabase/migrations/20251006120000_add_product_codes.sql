@@ -0,0 +1,58 @@
+-- Migration: product codes (UPC/EAN barcodes and produce PLU codes)
+-- Contributors can scan a barcode or enter a PLU in DataEntry instead of typing the brand,
+-- which kept producing near-duplicate brand rows. Each code points at a brand and/or crop.
+-- Codes contributors register start as 'pending' and only become visible to everyone once
+-- an admin approves them.
+-- GTINs are stored as 13 digits (UPC-A gets a leading zero) so UPC and EAN scans of the same
+-- product match; EAN-8 and PLU codes are stored as scanned.
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS public.product_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  code_type text NOT NULL CHECK (code_type IN ('gtin', 'ean8', 'plu')),
+  brand_id uuid REFERENCES public.brands(id) ON DELETE SET NULL,
+  crop_id uuid REFERENCES public.crops(id) ON DELETE SET NULL,
+  variety text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  submitted_by uuid REFERENCES public.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  reviewed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (brand_id IS NOT NULL OR crop_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_codes_status ON public.product_codes (status);
+
+-- 2. Row level security
+ALTER TABLE public.product_codes ENABLE ROW LEVEL SECURITY;
+
+-- Approved codes are public; contributors also see the codes they registered
+DROP POLICY IF EXISTS "Read approved or own product codes" ON public.product_codes;
+CREATE POLICY "Read approved or own product codes" ON public.product_codes
+  FOR SELECT TO authenticated
+  USING (status = 'approved' OR submitted_by = auth.uid() OR is_admin());
+
+-- Contributors register codes for review; only admins can insert them pre-approved
+DROP POLICY IF EXISTS "Contributors can register product codes" ON public.product_codes;
+CREATE POLICY "Contributors can register product codes" ON public.product_codes
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (
+      status = 'pending'
+      AND submitted_by = auth.uid()
+      AND EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('contributor', 'admin'))
+    )
+    OR is_admin()
+  );
+
+DROP POLICY IF EXISTS "Admins can review product codes" ON public.product_codes;
+CREATE POLICY "Admins can review product codes" ON public.product_codes
+  FOR UPDATE TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins can delete product codes" ON public.product_codes;
+CREATE POLICY "Admins can delete product codes" ON public.product_codes
+  FOR DELETE TO authenticated
+  USING (is_admin());
@@ -0,0 +1,30 @@
+-- Migration: sample provenance and purchase metadata on submissions
+-- Records how the sample was grown, where it came from, what it cost and whether it was bought
+-- or picked at the farm. farm_location and harvest_time already exist and are now written for
+-- farm-picked samples. Every field is optional except sample_source, which defaults to
+-- 'purchased' because every earlier submission went through the purchase flow.
+
+-- 1. Columns
+ALTER TABLE public.submissions
+  ADD COLUMN IF NOT EXISTS growing_method text
+    CHECK (growing_method IN ('organic', 'conventional', 'hydroponic')),
+  ADD COLUMN IF NOT EXISTS origin_country text,
+  ADD COLUMN IF NOT EXISTS sample_source text NOT NULL DEFAULT 'purchased'
+    CHECK (sample_source IN ('purchased', 'farm_picked')),
+  ADD COLUMN IF NOT EXISTS price numeric CHECK (price >= 0),
+  ADD COLUMN IF NOT EXISTS price_unit text
+    CHECK (price_unit IN ('each', 'lb', 'oz', 'kg', 'g', 'bunch', 'pack'));
+
+-- 2. A price is meaningless without its unit
+ALTER TABLE public.submissions
+  DROP CONSTRAINT IF EXISTS submissions_price_has_unit;
+ALTER TABLE public.submissions
+  ADD CONSTRAINT submissions_price_has_unit CHECK (price IS NULL OR price_unit IS NOT NULL);
+
+-- 3. Indexes for the map and data browser filters
+CREATE INDEX IF NOT EXISTS idx_submissions_growing_method
+  ON public.submissions (growing_method)
+  WHERE growing_method IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_submissions_sample_source
+  ON public.submissions (sample_source);
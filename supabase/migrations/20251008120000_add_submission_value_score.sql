@@ -0,0 +1,123 @@
+-- Migration: value metric (normalized score per unit price) and best-value leaderboard
+-- Adds the currency a price was paid in and ranks purchases by sweetness per unit of money.
+-- Prices are never converted between currencies or between count and weight units: a value
+-- is only compared with others on the same basis, e.g. 'USD/kg' or 'EUR/each'. Weight prices
+-- are converted to per kilogram so lb, oz, g and kg readings rank together.
+-- value_score mirrors computeValueScore in src/lib/valueScore.ts.
+
+-- 1. Currency of the price (ISO 4217)
+ALTER TABLE public.submissions
+  ADD COLUMN IF NOT EXISTS price_currency text
+    CHECK (price_currency ~ '^[A-Z]{3}$');
+
+-- 2. Pricing basis: currency plus kg for weight units, or the count unit itself
+CREATE OR REPLACE FUNCTION public.value_basis(s public.submissions)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN s.price IS NULL OR s.price <= 0 OR s.price_currency IS NULL OR s.price_unit IS NULL THEN NULL
+    WHEN s.price_unit IN ('lb', 'oz', 'g', 'kg') THEN s.price_currency || '/kg'
+    ELSE s.price_currency || '/' || s.price_unit
+  END;
+$$;
+
+-- 3. Normalized score (1..2) per unit of currency on that basis; higher is better value
+CREATE OR REPLACE FUNCTION public.value_score(s public.submissions)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN public.value_basis(s) IS NULL THEN NULL
+    ELSE get_normalized_brix_1_to_2(s.crop_id, s.brix_value)
+      / (s.price / CASE s.price_unit
+           WHEN 'lb' THEN 0.45359237
+           WHEN 'oz' THEN 0.028349523125
+           WHEN 'g' THEN 0.001
+           ELSE 1
+         END)
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.value_basis(public.submissions) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.value_score(public.submissions) TO anon, authenticated;
+
+-- 4. Best-value leaderboard: crop + brand + store combinations ranked within each basis
+CREATE OR REPLACE FUNCTION public.get_value_leaderboard(
+  country_filter text default null,
+  state_filter text default null,
+  city_filter text default null,
+  crop_filter text default null
+)
+RETURNS TABLE (
+  value_basis text,
+  crop_name text,
+  crop_label text,
+  brand_name text,
+  brand_label text,
+  location_id uuid,
+  location_name text,
+  city text,
+  state text,
+  country text,
+  average_value_score numeric,
+  average_normalized_score numeric,
+  average_price numeric,
+  submission_count bigint,
+  rank integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH base AS (
+    SELECT
+      public.value_basis(s) AS value_basis,
+      c.name AS crop_name,
+      c.label AS crop_label,
+      b.name AS brand_name,
+      b.label AS brand_label,
+      p.id AS location_id,
+      COALESCE(l.name, p.label, concat_ws(', ', p.city, p.state, p.country)) AS location_name,
+      p.city,
+      p.state,
+      p.country,
+      AVG(public.value_score(s)) AS average_value_score,
+      AVG(get_normalized_brix_1_to_2(s.crop_id, s.brix_value)) AS average_normalized_score,
+      AVG(s.price) AS average_price,
+      COUNT(*) AS submission_count
+    FROM submissions s
+    JOIN crops c ON s.crop_id = c.id
+    JOIN places p ON s.place_id = p.id
+    LEFT JOIN locations l ON p.location_id = l.id
+    LEFT JOIN brands b ON s.brand_id = b.id
+    WHERE
+      s.verified = TRUE
+      AND public.value_basis(s) IS NOT NULL
+      AND (country_filter IS NULL OR lower(p.country) = lower(country_filter))
+      AND (state_filter IS NULL OR lower(p.state) = lower(state_filter))
+      AND (city_filter IS NULL OR lower(p.city) = lower(city_filter))
+      AND (crop_filter IS NULL OR lower(c.name) = lower(crop_filter))
+    GROUP BY public.value_basis(s), c.name, c.label, b.name, b.label, p.id, l.name, p.label, p.city, p.state, p.country
+  )
+  SELECT
+    value_basis,
+    crop_name,
+    crop_label,
+    brand_name,
+    brand_label,
+    location_id,
+    location_name,
+    city,
+    state,
+    country,
+    average_value_score,
+    average_normalized_score,
+    average_price,
+    submission_count,
+    RANK() OVER (PARTITION BY value_basis ORDER BY average_value_score DESC)::integer AS rank
+  FROM base;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_value_leaderboard(text, text, text, text) TO anon, authenticated;
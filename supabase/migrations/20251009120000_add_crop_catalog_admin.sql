@@ -0,0 +1,33 @@
+-- Migration: admin editing of the crop catalog
+-- Crops and their BRIX thresholds were only changed through seed files. Admins can now create
+-- crops and edit labels, categories and thresholds from /admin/crops.
+-- Thresholds must be strictly monotonic: ascending (higher BRIX is better) or descending
+-- (lower is better), the two scales getBrixQuality understands. The check is NOT VALID so any
+-- existing crop that breaks the rule keeps loading until an admin fixes it.
+
+-- 1. Admin write access
+DROP POLICY IF EXISTS "Admins can insert crops" ON public.crops;
+CREATE POLICY "Admins can insert crops" ON public.crops
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS "Admins can update crops" ON public.crops;
+CREATE POLICY "Admins can update crops" ON public.crops
+  FOR UPDATE TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- 2. Thresholds are all set or all empty, and ordered in one direction
+ALTER TABLE public.crops
+  DROP CONSTRAINT IF EXISTS crops_thresholds_monotonic;
+ALTER TABLE public.crops
+  ADD CONSTRAINT crops_thresholds_monotonic CHECK (
+    (poor_brix IS NULL AND average_brix IS NULL AND good_brix IS NULL AND excellent_brix IS NULL)
+    OR (
+      poor_brix IS NOT NULL AND average_brix IS NOT NULL AND good_brix IS NOT NULL AND excellent_brix IS NOT NULL
+      AND (
+        (poor_brix < average_brix AND average_brix < good_brix AND good_brix < excellent_brix)
+        OR (poor_brix > average_brix AND average_brix > good_brix AND good_brix > excellent_brix)
+      )
+    )
+  ) NOT VALID;
@@ -0,0 +1,80 @@
+-- Migration: time-versioned crop thresholds
+-- Changing a crop's thresholds used to re-grade every historical reading. Each threshold change
+-- is now kept as a version with the date it took effect and its source or citation, so readings
+-- can be graded either by the current thresholds or by those in force on their assessment date.
+-- crops.threshold_source holds the citation for the current thresholds; a trigger copies it into
+-- the version rows, so seed scripts and the admin crop catalog are both recorded.
+
+-- 1. Citation for the current thresholds
+ALTER TABLE public.crops
+  ADD COLUMN IF NOT EXISTS threshold_source text;
+
+-- 2. Versions
+CREATE TABLE IF NOT EXISTS public.crop_threshold_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  crop_id uuid NOT NULL REFERENCES public.crops(id) ON DELETE CASCADE,
+  poor_brix numeric,
+  average_brix numeric,
+  good_brix numeric,
+  excellent_brix numeric,
+  source text,
+  effective_from timestamptz NOT NULL DEFAULT now(),
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crop_threshold_versions_crop_effective
+  ON public.crop_threshold_versions (crop_id, effective_from DESC);
+
+ALTER TABLE public.crop_threshold_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read crop threshold versions" ON public.crop_threshold_versions;
+CREATE POLICY "Public can read crop threshold versions" ON public.crop_threshold_versions
+  FOR SELECT TO public
+  USING (true);
+
+-- 3. Existing thresholds become each crop's first version. They were in force for every
+-- reading so far, so they apply from the start of the data.
+INSERT INTO public.crop_threshold_versions (crop_id, poor_brix, average_brix, good_brix, excellent_brix, source, effective_from)
+SELECT c.id, c.poor_brix, c.average_brix, c.good_brix, c.excellent_brix, c.threshold_source, '1970-01-01T00:00:00Z'
+FROM public.crops c
+WHERE NOT EXISTS (SELECT 1 FROM public.crop_threshold_versions v WHERE v.crop_id = c.id);
+
+-- 4. Record a version whenever a crop's thresholds change; a citation-only edit updates the
+-- current version instead of starting a new one
+CREATE OR REPLACE FUNCTION public.record_crop_threshold_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.poor_brix IS DISTINCT FROM OLD.poor_brix
+    OR NEW.average_brix IS DISTINCT FROM OLD.average_brix
+    OR NEW.good_brix IS DISTINCT FROM OLD.good_brix
+    OR NEW.excellent_brix IS DISTINCT FROM OLD.excellent_brix
+  THEN
+    INSERT INTO public.crop_threshold_versions
+      (crop_id, poor_brix, average_brix, good_brix, excellent_brix, source, created_by)
+    VALUES
+      (NEW.id, NEW.poor_brix, NEW.average_brix, NEW.good_brix, NEW.excellent_brix, NEW.threshold_source, auth.uid());
+  ELSIF NEW.threshold_source IS DISTINCT FROM OLD.threshold_source THEN
+    UPDATE public.crop_threshold_versions
+    SET source = NEW.threshold_source
+    WHERE id = (
+      SELECT v.id FROM public.crop_threshold_versions v
+      WHERE v.crop_id = NEW.id
+      ORDER BY v.effective_from DESC
+      LIMIT 1
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_record_crop_threshold_version ON public.crops;
+CREATE TRIGGER trg_record_crop_threshold_version
+  AFTER INSERT OR UPDATE OF poor_brix, average_brix, good_brix, excellent_brix, threshold_source ON public.crops
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_crop_threshold_version();
@@ -0,0 +1,126 @@
+-- Migration: brand aliases and merging duplicate brands
+-- Free-text brand entry has produced near-duplicates such as "Driscoll's", "Driscolls" and
+-- "driscoll's berries", which split a brand's readings across several leaderboard rows.
+-- Admins review clusters of similar brands at /admin/brands and merge each into the brand that
+-- is kept: submissions and product codes are repointed and the merged names are kept as aliases.
+-- New submissions resolve names through the aliases, so a merged spelling is not created again.
+
+-- 1. Name normalization shared by alias matching and brand lookups: lower case, apostrophes
+-- dropped, other punctuation treated as spaces
+CREATE OR REPLACE FUNCTION public.normalize_brand_name(p_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT TRIM(REGEXP_REPLACE(
+    REGEXP_REPLACE(REGEXP_REPLACE(LOWER(COALESCE(p_name, '')), '[''’`]', '', 'g'), '[^a-z0-9]+', ' ', 'g'),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.normalize_brand_name(text) TO anon, authenticated;
+
+-- 2. Aliases
+CREATE TABLE IF NOT EXISTS public.brand_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand_id uuid NOT NULL REFERENCES public.brands(id) ON DELETE CASCADE,
+  alias text NOT NULL,
+  alias_normalized text GENERATED ALWAYS AS (public.normalize_brand_name(alias)) STORED,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (alias_normalized)
+);
+
+CREATE INDEX IF NOT EXISTS idx_brand_aliases_brand_id ON public.brand_aliases (brand_id);
+
+ALTER TABLE public.brand_aliases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read brand aliases" ON public.brand_aliases;
+CREATE POLICY "Public can read brand aliases" ON public.brand_aliases
+  FOR SELECT TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can delete brand aliases" ON public.brand_aliases;
+CREATE POLICY "Admins can delete brand aliases" ON public.brand_aliases
+  FOR DELETE TO authenticated
+  USING (public.is_admin());
+
+-- 3. Resolve a typed brand name to an existing brand: its name or label, or an alias left by a
+-- merge. Returns null when nothing matches.
+CREATE OR REPLACE FUNCTION public.resolve_brand_id(p_name text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id FROM (
+    SELECT b.id, 0 AS priority
+    FROM brands b
+    WHERE normalize_brand_name(b.name) = normalize_brand_name(p_name)
+       OR normalize_brand_name(b.label) = normalize_brand_name(p_name)
+    UNION ALL
+    SELECT a.brand_id, 1
+    FROM brand_aliases a
+    WHERE a.alias_normalized = normalize_brand_name(p_name)
+  ) matches
+  WHERE normalize_brand_name(p_name) <> ''
+  ORDER BY priority
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_brand_id(text) TO anon, authenticated;
+
+-- 4. Merge brands into the one that is kept. The merged brands' names, labels and aliases
+-- become aliases of the kept brand, then the merged brands are deleted.
+CREATE OR REPLACE FUNCTION public.merge_brands(
+  p_keep_id uuid,
+  p_merge_ids uuid[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ids uuid[] := array_remove(p_merge_ids, p_keep_id);
+  v_moved integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge brands' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM brands WHERE id = p_keep_id) THEN
+    RAISE EXCEPTION 'Brand % does not exist', p_keep_id USING ERRCODE = 'P0002';
+  END IF;
+  IF COALESCE(array_length(v_ids, 1), 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE submissions SET brand_id = p_keep_id WHERE brand_id = ANY(v_ids);
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  UPDATE product_codes SET brand_id = p_keep_id WHERE brand_id = ANY(v_ids);
+
+  UPDATE brand_aliases SET brand_id = p_keep_id WHERE brand_id = ANY(v_ids);
+
+  INSERT INTO brand_aliases (brand_id, alias)
+  SELECT DISTINCT ON (normalize_brand_name(n.alias)) p_keep_id, n.alias
+  FROM brands b
+  CROSS JOIN LATERAL (VALUES (b.name), (b.label)) AS n(alias)
+  WHERE b.id = ANY(v_ids)
+    AND normalize_brand_name(n.alias) <> ''
+  ON CONFLICT (alias_normalized) DO NOTHING;
+
+  -- The kept brand's own name and label already resolve to it
+  DELETE FROM brand_aliases a
+  USING brands k
+  WHERE k.id = p_keep_id
+    AND a.brand_id = p_keep_id
+    AND a.alias_normalized IN (normalize_brand_name(k.name), normalize_brand_name(k.label));
+
+  DELETE FROM brands WHERE id = ANY(v_ids);
+
+  RETURN v_moved;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.merge_brands(uuid, uuid[]) TO authenticated;
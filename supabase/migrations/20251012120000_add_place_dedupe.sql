@@ -0,0 +1,168 @@
+-- Migration: merging duplicate places and store chains
+-- A place is created for each new submission location and a store chain (locations) from the
+-- free-text store name, so one supermarket can show up as several map markers and one chain
+-- under several spellings. Admins review candidates at /admin/places:
+--   * places close together are paired by the scan below; the client keeps the pairs whose
+--     normalized addresses are similar and groups them into clusters (lib/duplicatePlaces)
+--   * merging places repoints their submissions to the kept place and links it to the chosen chain
+--   * merging chains repoints places and submissions to the kept chain
+
+-- 1. Places near each other, with what the admin needs to compare them. One row per place that
+-- has at least one neighbour; `neighbours` lists them as [{ "id": uuid, "distance_m": number }].
+CREATE OR REPLACE FUNCTION public.get_nearby_place_candidates(
+  p_max_distance_m double precision DEFAULT 100
+)
+RETURNS TABLE(
+  place_id uuid,
+  label text,
+  street_address text,
+  city text,
+  state text,
+  normalized_address text,
+  latitude double precision,
+  longitude double precision,
+  location_id uuid,
+  location_name text,
+  submission_count integer,
+  neighbours jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can scan for duplicate places' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH pairs AS (
+    SELECT a.id AS a_id, b.id AS b_id,
+      ST_Distance(a.geom::geography, b.geom::geography) AS distance_m
+    FROM places a
+    JOIN places b ON a.id <> b.id
+      -- Degrees at this latitude for the GiST index, then the exact distance in metres
+      AND ST_DWithin(a.geom, b.geom, p_max_distance_m / (111320.0 * GREATEST(cos(radians(a.latitude)), 0.01)))
+      AND ST_DWithin(a.geom::geography, b.geom::geography, p_max_distance_m)
+  ),
+  grouped AS (
+    SELECT a_id, jsonb_agg(jsonb_build_object('id', b_id, 'distance_m', round(distance_m::numeric, 1))) AS neighbours
+    FROM pairs
+    GROUP BY a_id
+  )
+  SELECT
+    p.id,
+    p.label,
+    p.street_address,
+    p.city,
+    p.state,
+    COALESCE(p.normalized_address, normalize_address(p.street_address)),
+    p.latitude,
+    p.longitude,
+    p.location_id,
+    COALESCE(l.label, l.name),
+    (SELECT count(*)::integer FROM submissions s WHERE s.place_id = p.id),
+    g.neighbours
+  FROM grouped g
+  JOIN places p ON p.id = g.a_id
+  LEFT JOIN locations l ON l.id = p.location_id;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_nearby_place_candidates(double precision) TO authenticated;
+
+-- 2. Merge places into the one that is kept and link it to a chain. Submissions of the merged
+-- places move to the kept place, and every submission there is moved to the chain.
+CREATE OR REPLACE FUNCTION public.merge_places(
+  p_keep_id uuid,
+  p_merge_ids uuid[],
+  p_location_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ids uuid[] := array_remove(p_merge_ids, p_keep_id);
+  v_moved integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge places' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM places WHERE id = p_keep_id) THEN
+    RAISE EXCEPTION 'Place % does not exist', p_keep_id USING ERRCODE = 'P0002';
+  END IF;
+  IF p_location_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM locations WHERE id = p_location_id) THEN
+    RAISE EXCEPTION 'Store chain % does not exist', p_location_id USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE submissions SET place_id = p_keep_id WHERE place_id = ANY(v_ids);
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  -- Merged places go first so the kept place can join their chain without clashing on
+  -- (location_id, normalized_address)
+  DELETE FROM places WHERE id = ANY(v_ids);
+
+  UPDATE places SET location_id = p_location_id
+  WHERE id = p_keep_id AND location_id IS DISTINCT FROM p_location_id;
+
+  UPDATE submissions SET location_id = p_location_id
+  WHERE place_id = p_keep_id AND location_id IS DISTINCT FROM p_location_id;
+
+  RETURN v_moved;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.merge_places(uuid, uuid[], uuid) TO authenticated;
+
+-- 3. Merge store chains into the one that is kept. A place of a merged chain at an address the
+-- kept chain already has is folded into that place, since (location_id, normalized_address)
+-- is unique.
+CREATE OR REPLACE FUNCTION public.merge_locations(
+  p_keep_id uuid,
+  p_merge_ids uuid[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ids uuid[] := array_remove(p_merge_ids, p_keep_id);
+  v_moved integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge store chains' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = p_keep_id) THEN
+    RAISE EXCEPTION 'Store chain % does not exist', p_keep_id USING ERRCODE = 'P0002';
+  END IF;
+  IF COALESCE(array_length(v_ids, 1), 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE submissions s SET place_id = k.id
+  FROM places m
+  JOIN places k ON k.location_id = p_keep_id AND k.normalized_address = m.normalized_address
+  WHERE m.location_id = ANY(v_ids) AND s.place_id = m.id;
+
+  DELETE FROM places m
+  USING places k
+  WHERE m.location_id = ANY(v_ids)
+    AND k.location_id = p_keep_id
+    AND k.normalized_address = m.normalized_address;
+
+  UPDATE places SET location_id = p_keep_id WHERE location_id = ANY(v_ids);
+
+  UPDATE submissions SET location_id = p_keep_id WHERE location_id = ANY(v_ids);
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  DELETE FROM locations WHERE id = ANY(v_ids);
+
+  RETURN v_moved;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.merge_locations(uuid, uuid[]) TO authenticated;
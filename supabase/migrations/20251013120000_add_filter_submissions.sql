@@ -0,0 +1,68 @@
+-- Migration: server-side submission filtering
+-- The Data Browser used to resolve crop, brand, store and submitter filters to id lists
+-- and send them back as `in.(...)` filters. Those lookups were capped at PostgREST's row
+-- limit and long lists overflowed the URL, so broad filters silently dropped matches.
+-- This applies every MapFilter in one query instead. It returns submissions rows, so
+-- callers can still embed related tables, sort, count and page through PostgREST.
+-- The function runs with the caller's rights, so row level security still applies.
+
+-- 1. Submissions matching the given filters
+-- Keys (all optional): verified_only, min_brix, max_brix, start_date, end_date (yyyy-mm-dd,
+-- inclusive), crop_names (array), category, brand, submitted_by, city, state, country,
+-- growing_method, sample_source, origin_country, place, location, has_image, search and
+-- place_ids (array). Text filters on names match substrings case-insensitively; city, state,
+-- country and origin_country must match exactly, ignoring case.
+CREATE OR REPLACE FUNCTION public.filter_submissions(filters jsonb DEFAULT '{}'::jsonb)
+RETURNS SETOF public.submissions
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT s.*
+  FROM public.submissions s
+  LEFT JOIN public.crops c ON c.id = s.crop_id
+  LEFT JOIN public.brands b ON b.id = s.brand_id
+  LEFT JOIN public.places p ON p.id = s.place_id
+  LEFT JOIN public.locations l ON l.id = s.location_id
+  LEFT JOIN public.users u ON u.id = s.user_id
+  WHERE (NOT COALESCE((filters->>'verified_only')::boolean, TRUE) OR s.verified = TRUE)
+    AND (filters->>'min_brix' IS NULL OR s.brix_value >= (filters->>'min_brix')::numeric)
+    AND (filters->>'max_brix' IS NULL OR s.brix_value <= (filters->>'max_brix')::numeric)
+    AND (filters->>'start_date' IS NULL OR s.assessment_date >= (filters->>'start_date')::date)
+    AND (filters->>'end_date' IS NULL OR s.assessment_date < (filters->>'end_date')::date + 1)
+    AND (COALESCE(jsonb_array_length(filters->'crop_names'), 0) = 0 OR filters->'crop_names' ? c.name)
+    AND (filters->>'category' IS NULL OR c.category::text = filters->>'category')
+    AND (filters->>'brand' IS NULL
+      OR strpos(lower(b.name), lower(filters->>'brand')) > 0
+      OR strpos(lower(b.label), lower(filters->>'brand')) > 0)
+    AND (filters->>'submitted_by' IS NULL OR strpos(lower(u.display_name), lower(filters->>'submitted_by')) > 0)
+    AND (filters->>'city' IS NULL OR lower(p.city) = lower(filters->>'city'))
+    AND (filters->>'state' IS NULL OR lower(p.state) = lower(filters->>'state'))
+    AND (filters->>'country' IS NULL OR lower(p.country) = lower(filters->>'country'))
+    AND (filters->>'growing_method' IS NULL OR s.growing_method = filters->>'growing_method')
+    AND (filters->>'sample_source' IS NULL OR s.sample_source = filters->>'sample_source')
+    AND (filters->>'origin_country' IS NULL OR lower(s.origin_country) = lower(filters->>'origin_country'))
+    -- `place` and the legacy `location` filter both match the store name or the place label
+    AND (filters->>'place' IS NULL
+      OR strpos(lower(l.name), lower(filters->>'place')) > 0
+      OR strpos(lower(l.label), lower(filters->>'place')) > 0
+      OR strpos(lower(p.label), lower(filters->>'place')) > 0)
+    AND (filters->>'location' IS NULL
+      OR strpos(lower(l.name), lower(filters->>'location')) > 0
+      OR strpos(lower(l.label), lower(filters->>'location')) > 0
+      OR strpos(lower(p.label), lower(filters->>'location')) > 0)
+    AND (NOT COALESCE((filters->>'has_image')::boolean, FALSE)
+      OR EXISTS (SELECT 1 FROM public.submission_images i WHERE i.submission_id = s.id))
+    -- Free-text search across crop, submitter, store, brand and notes
+    AND (filters->>'search' IS NULL
+      OR strpos(lower(c.name), lower(filters->>'search')) > 0
+      OR strpos(lower(c.label), lower(filters->>'search')) > 0
+      OR strpos(lower(u.display_name), lower(filters->>'search')) > 0
+      OR strpos(lower(l.name), lower(filters->>'search')) > 0
+      OR strpos(lower(l.label), lower(filters->>'search')) > 0
+      OR strpos(lower(b.name), lower(filters->>'search')) > 0
+      OR strpos(lower(b.label), lower(filters->>'search')) > 0
+      OR strpos(lower(s.outlier_notes), lower(filters->>'search')) > 0)
+    AND (filters->'place_ids' IS NULL OR filters->'place_ids' ? s.place_id::text);
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.filter_submissions(jsonb) TO anon, authenticated;
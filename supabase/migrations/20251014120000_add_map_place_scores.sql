@@ -0,0 +1,106 @@
+-- Migration: per-place scores for the map viewport
+-- The map used to download every matching submission at the places in view and average
+-- them in the browser. This returns one row per place instead, with its submission count,
+-- average normalized score and last assessment date. Submissions are only loaded when a
+-- place's drawer opens. Results are capped, so the RPC also reports how many places
+-- matched in total. That lets the map say when some places were left out.
+
+-- 1. Filtered per-place aggregates inside a bounding box (WGS84 degrees)
+-- `filters` takes the same keys as filter_submissions. When the cap is hit, the places with
+-- the most readings are kept.
+CREATE OR REPLACE FUNCTION public.get_place_scores_in_bbox(
+  min_lng double precision,
+  min_lat double precision,
+  max_lng double precision,
+  max_lat double precision,
+  filters jsonb DEFAULT '{}'::jsonb,
+  max_results integer DEFAULT 2000
+)
+RETURNS TABLE(
+  id uuid,
+  label text,
+  latitude double precision,
+  longitude double precision,
+  location_id uuid,
+  location_name text,
+  street_address text,
+  city text,
+  state text,
+  country text,
+  submission_count bigint,
+  average_normalized_score numeric,
+  last_assessed timestamptz,
+  outlier_count bigint,
+  total_places bigint
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  WITH place_scores AS (
+    SELECT
+      p.id,
+      p.label,
+      p.latitude,
+      p.longitude,
+      p.location_id,
+      COALESCE(l.label, l.name) AS location_name,
+      p.street_address,
+      p.city,
+      p.state,
+      p.country,
+      COUNT(*) AS submission_count,
+      AVG(get_normalized_brix_1_to_2(s.crop_id, s.brix_value)) AS average_normalized_score,
+      MAX(s.assessment_date) AS last_assessed,
+      COUNT(*) FILTER (WHERE s.outlier_flagged) AS outlier_count
+    FROM public.filter_submissions(filters) s
+    JOIN public.places p ON p.id = s.place_id
+    LEFT JOIN public.locations l ON l.id = p.location_id
+    WHERE p.geom && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)
+    GROUP BY p.id, l.id
+  )
+  SELECT
+    ps.*,
+    COUNT(*) OVER () AS total_places
+  FROM place_scores ps
+  ORDER BY ps.submission_count DESC, ps.last_assessed DESC NULLS LAST, ps.id
+  LIMIT max_results;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_place_scores_in_bbox(double precision, double precision, double precision, double precision, jsonb, integer) TO anon, authenticated;
+
+-- 2. The plain place lookup keeps its cap but now drops the places furthest from the centre of
+-- the box, rather than an arbitrary set
+CREATE OR REPLACE FUNCTION public.get_places_in_bbox(
+  min_lng double precision,
+  min_lat double precision,
+  max_lng double precision,
+  max_lat double precision,
+  max_results integer DEFAULT 5000
+)
+RETURNS TABLE(
+  id uuid,
+  label text,
+  latitude double precision,
+  longitude double precision,
+  location_id uuid,
+  city text,
+  state text,
+  country text
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT
+    p.id,
+    p.label,
+    p.latitude,
+    p.longitude,
+    p.location_id,
+    p.city,
+    p.state,
+    p.country
+  FROM public.places p
+  WHERE p.geom && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)
+  ORDER BY p.geom <-> ST_SetSRID(ST_MakePoint((min_lng + max_lng) / 2, (min_lat + max_lat) / 2), 4326), p.id
+  LIMIT max_results;
+$function$;
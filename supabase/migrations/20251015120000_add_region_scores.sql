@@ -0,0 +1,32 @@
+-- Migration: average scores per region for the map choropleth
+-- Region colours used to be averaged from the submissions loaded for the current viewport,
+-- so a region changed colour as the map was panned. This groups every matching submission
+-- by its place's country, or country and state, so the colour only depends on the filters.
+
+-- 1. Per-region averages; `filters` takes the same keys as filter_submissions
+CREATE OR REPLACE FUNCTION public.get_region_scores(
+  level text DEFAULT 'country',
+  filters jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(
+  country text,
+  state text,
+  average_normalized_score numeric,
+  submission_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT
+    MIN(p.country) AS country,
+    CASE WHEN level = 'state' THEN MIN(p.state) END AS state,
+    AVG(get_normalized_brix_1_to_2(s.crop_id, s.brix_value)) AS average_normalized_score,
+    COUNT(*) AS submission_count
+  FROM public.filter_submissions(filters) s
+  JOIN public.places p ON p.id = s.place_id
+  WHERE NULLIF(trim(p.country), '') IS NOT NULL
+    AND (level <> 'state' OR NULLIF(trim(p.state), '') IS NOT NULL)
+  GROUP BY lower(trim(p.country)), CASE WHEN level = 'state' THEN lower(trim(p.state)) END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_region_scores(text, jsonb) TO anon, authenticated;
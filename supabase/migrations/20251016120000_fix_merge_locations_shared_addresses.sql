@@ -0,0 +1,69 @@
+-- Migration: merge store chains whose places share addresses among themselves
+-- merge_locations only folded a merged chain's place into the kept chain's place at the same
+-- normalized address. When two merged chains both had a place at an address the kept chain
+-- did not, repointing both to the kept chain broke the unique (location_id, normalized_address)
+-- index and the whole merge failed. Places are now folded per address across all the chains
+-- involved before they are repointed.
+
+-- 1. One place per address survives, preferring the kept chain's own place; the others are
+-- folded into it
+CREATE OR REPLACE FUNCTION public.merge_locations(
+  p_keep_id uuid,
+  p_merge_ids uuid[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ids uuid[] := array_remove(p_merge_ids, p_keep_id);
+  v_moved integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge store chains' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = p_keep_id) THEN
+    RAISE EXCEPTION 'Store chain % does not exist', p_keep_id USING ERRCODE = 'P0002';
+  END IF;
+  IF COALESCE(array_length(v_ids, 1), 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  WITH survivors AS (
+    SELECT DISTINCT ON (p.normalized_address) p.normalized_address, p.id
+    FROM places p
+    WHERE (p.location_id = p_keep_id OR p.location_id = ANY(v_ids))
+      AND p.normalized_address IS NOT NULL
+    ORDER BY p.normalized_address, (p.location_id = p_keep_id) DESC, p.id
+  )
+  UPDATE submissions s SET place_id = sv.id
+  FROM places m
+  JOIN survivors sv ON sv.normalized_address = m.normalized_address
+  WHERE m.location_id = ANY(v_ids) AND m.id <> sv.id AND s.place_id = m.id;
+
+  WITH survivors AS (
+    SELECT DISTINCT ON (p.normalized_address) p.normalized_address, p.id
+    FROM places p
+    WHERE (p.location_id = p_keep_id OR p.location_id = ANY(v_ids))
+      AND p.normalized_address IS NOT NULL
+    ORDER BY p.normalized_address, (p.location_id = p_keep_id) DESC, p.id
+  )
+  DELETE FROM places m
+  USING survivors sv
+  WHERE m.location_id = ANY(v_ids)
+    AND m.normalized_address = sv.normalized_address
+    AND m.id <> sv.id;
+
+  UPDATE places SET location_id = p_keep_id WHERE location_id = ANY(v_ids);
+
+  UPDATE submissions SET location_id = p_keep_id WHERE location_id = ANY(v_ids);
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  DELETE FROM locations WHERE id = ANY(v_ids);
+
+  RETURN v_moved;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.merge_locations(uuid, uuid[]) TO authenticated;
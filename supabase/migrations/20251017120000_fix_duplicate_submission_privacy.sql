@@ -0,0 +1,154 @@
+-- Migration: keep the duplicate check from exposing other contributors' pending readings
+-- find_possible_duplicate_submissions runs as its owner so it can look past row level
+-- security, and its photo signal matched any submission with the same image hash. Anyone
+-- holding a photo could learn the crop, place, date and BRIX value of another contributor's
+-- unverified reading. Photo matches are now limited to verified submissions and the caller's
+-- own, and the check is no longer open to anonymous callers (only signed-in contributors
+-- submit readings).
+-- merge_duplicate_submissions also moved every copy of a photo when two of the duplicates
+-- carried it, so the kept submission ended up with the same image twice. Only one copy per
+-- content hash is moved now.
+
+-- 1. Photo matches only against readings the caller may already see
+CREATE OR REPLACE FUNCTION public.find_possible_duplicate_submissions(
+  p_crop_name text,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_assessment_date date,
+  p_brix numeric,
+  p_image_hashes text[] DEFAULT '{}',
+  p_brix_tolerance numeric DEFAULT 0.5,
+  p_radius_m double precision DEFAULT 100
+)
+RETURNS TABLE(
+  submission_id uuid,
+  crop_name text,
+  place_label text,
+  assessment_date timestamptz,
+  brix_value numeric,
+  is_own boolean,
+  match_reason text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  WITH same_reading AS (
+    SELECT s.id, 'You already logged this crop here on this day'::text AS reason
+    FROM submissions s
+    JOIN crops c ON c.id = s.crop_id
+    JOIN places p ON p.id = s.place_id
+    WHERE s.user_id = auth.uid()
+      AND lower(c.name) = lower(p_crop_name)
+      AND (s.assessment_date AT TIME ZONE 'UTC')::date = p_assessment_date
+      AND abs(s.brix_value - p_brix) <= p_brix_tolerance
+      AND p.geom IS NOT NULL
+      AND ST_DWithin(
+        p.geom::geography,
+        ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326)::geography,
+        p_radius_m
+      )
+  ),
+  same_photo AS (
+    SELECT DISTINCT i.submission_id AS id, 'A photo is identical to one already submitted'::text AS reason
+    FROM submission_images i
+    JOIN submissions s ON s.id = i.submission_id
+    WHERE i.content_hash = ANY(COALESCE(p_image_hashes, '{}'))
+      AND (s.verified OR s.user_id = auth.uid())
+  ),
+  matches AS (
+    SELECT m.id, string_agg(m.reason, '; ' ORDER BY m.reason) AS reason
+    FROM (SELECT * FROM same_reading UNION ALL SELECT * FROM same_photo) m
+    GROUP BY m.id
+  )
+  SELECT
+    s.id,
+    COALESCE(c.label, c.name),
+    COALESCE(p.label, l.label, l.name),
+    s.assessment_date,
+    s.brix_value,
+    s.user_id = auth.uid(),
+    matches.reason
+  FROM matches
+  JOIN submissions s ON s.id = matches.id
+  JOIN crops c ON c.id = s.crop_id
+  LEFT JOIN places p ON p.id = s.place_id
+  LEFT JOIN locations l ON l.id = s.location_id
+  ORDER BY s.assessment_date DESC NULLS LAST
+  LIMIT 10;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.find_possible_duplicate_submissions(text, double precision, double precision, date, numeric, text[], numeric, double precision) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.find_possible_duplicate_submissions(text, double precision, double precision, date, numeric, text[], numeric, double precision) TO authenticated;
+
+-- 2. When several duplicates carry the same photo, the earliest upload is moved and the
+--    other copies are deleted with their submissions
+CREATE OR REPLACE FUNCTION public.merge_duplicate_submissions(
+  p_keep_id uuid,
+  p_duplicate_ids uuid[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ids uuid[] := array_remove(p_duplicate_ids, p_keep_id);
+  v_deleted integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge submissions' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM submissions WHERE id = p_keep_id) THEN
+    RAISE EXCEPTION 'Submission % does not exist', p_keep_id USING ERRCODE = 'P0002';
+  END IF;
+  IF COALESCE(array_length(v_ids, 1), 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE submissions k
+  SET
+    brand_id = COALESCE(k.brand_id, d.brand_id),
+    crop_variety = COALESCE(k.crop_variety, d.crop_variety),
+    purchase_date = COALESCE(k.purchase_date, d.purchase_date),
+    outlier_notes = COALESCE(k.outlier_notes, d.outlier_notes)
+  FROM (
+    SELECT
+      (array_agg(brand_id) FILTER (WHERE brand_id IS NOT NULL))[1] AS brand_id,
+      (array_agg(crop_variety) FILTER (WHERE crop_variety IS NOT NULL))[1] AS crop_variety,
+      (array_agg(purchase_date) FILTER (WHERE purchase_date IS NOT NULL))[1] AS purchase_date,
+      (array_agg(outlier_notes) FILTER (WHERE outlier_notes IS NOT NULL))[1] AS outlier_notes
+    FROM submissions
+    WHERE id = ANY(v_ids)
+  ) d
+  WHERE k.id = p_keep_id;
+
+  UPDATE submission_images i
+  SET submission_id = p_keep_id
+  WHERE i.submission_id = ANY(v_ids)
+    AND (
+      i.content_hash IS NULL
+      OR (
+        NOT EXISTS (
+          SELECT 1 FROM submission_images k
+          WHERE k.submission_id = p_keep_id AND k.content_hash = i.content_hash
+        )
+        AND i.id = (
+          SELECT o.id FROM submission_images o
+          WHERE o.submission_id = ANY(v_ids) AND o.content_hash = i.content_hash
+          ORDER BY o.uploaded_at, o.id
+          LIMIT 1
+        )
+      )
+    );
+
+  DELETE FROM submission_images WHERE submission_id = ANY(v_ids);
+  DELETE FROM submissions WHERE id = ANY(v_ids);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  RETURN v_deleted;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.merge_duplicate_submissions(uuid, uuid[]) TO authenticated;
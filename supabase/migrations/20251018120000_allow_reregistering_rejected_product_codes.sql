@@ -0,0 +1,16 @@
+-- Migration: let contributors register a product code again after it was rejected
+-- product_codes.code was unique across every status, so once an admin rejected a code (for
+-- example because it pointed at the wrong brand) nobody could register the correct mapping.
+-- Codes are now only unique among pending and approved rows. Rejected rows stay as the
+-- review history, and lookups return the newest row for a code.
+
+-- 1. Uniqueness only among codes that are not rejected
+ALTER TABLE public.product_codes DROP CONSTRAINT IF EXISTS product_codes_code_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_codes_code_active
+  ON public.product_codes (code)
+  WHERE status <> 'rejected';
+
+-- 2. Lookup index covering rejected rows as well, newest first
+CREATE INDEX IF NOT EXISTS idx_product_codes_code_created_at
+  ON public.product_codes (code, created_at DESC);
@@ -0,0 +1,61 @@
+-- Migration: merge places into a chain that already has a place at the same address
+-- merge_places deleted the merged places before linking the kept place to the chosen chain,
+-- but a different place of that chain at the same normalized address was left alone. Linking
+-- the kept place then broke the unique (location_id, normalized_address) index and the whole
+-- merge failed. That place is now folded into the kept one as well, like a merged place.
+
+-- 1. The chain's own place at the kept place's address joins the merge
+CREATE OR REPLACE FUNCTION public.merge_places(
+  p_keep_id uuid,
+  p_merge_ids uuid[],
+  p_location_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ids uuid[] := array_remove(p_merge_ids, p_keep_id);
+  v_moved integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge places' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM places WHERE id = p_keep_id) THEN
+    RAISE EXCEPTION 'Place % does not exist', p_keep_id USING ERRCODE = 'P0002';
+  END IF;
+  IF p_location_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM locations WHERE id = p_location_id) THEN
+    RAISE EXCEPTION 'Store chain % does not exist', p_location_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_location_id IS NOT NULL THEN
+    v_ids := v_ids || ARRAY(
+      SELECT o.id
+      FROM places o
+      JOIN places k ON k.id = p_keep_id
+      WHERE o.location_id = p_location_id
+        AND o.normalized_address = k.normalized_address
+        AND o.id <> p_keep_id
+        AND NOT o.id = ANY(v_ids)
+    );
+  END IF;
+
+  UPDATE submissions SET place_id = p_keep_id WHERE place_id = ANY(v_ids);
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  -- Merged places go first so the kept place can join their chain without clashing on
+  -- (location_id, normalized_address)
+  DELETE FROM places WHERE id = ANY(v_ids);
+
+  UPDATE places SET location_id = p_location_id
+  WHERE id = p_keep_id AND location_id IS DISTINCT FROM p_location_id;
+
+  UPDATE submissions SET location_id = p_location_id
+  WHERE place_id = p_keep_id AND location_id IS DISTINCT FROM p_location_id;
+
+  RETURN v_moved;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.merge_places(uuid, uuid[], uuid) TO authenticated;
@@ -0,0 +1,18 @@
+-- Migration: keep contributors from clearing their own outlier flags
+-- The outlier trigger only ran when brix_value, crop_id, place_id, assessment_date or verified
+-- changed. A contributor may update any column of their own unverified submission, so setting
+-- outlier_flagged = false (or editing outlier_score / outlier_reason) took the reading out of
+-- outlier review. The score is now recomputed on every update, which also overwrites any value
+-- written to the outlier columns directly.
+-- score_submission_outlier runs as its owner and reads every verified reading regardless of row
+-- level security, so it is no longer callable through the API; the trigger still uses it.
+
+-- 1. Score on every insert and update
+DROP TRIGGER IF EXISTS score_submission_outlier ON public.submissions;
+CREATE TRIGGER score_submission_outlier
+  BEFORE INSERT OR UPDATE
+  ON public.submissions
+  FOR EACH ROW EXECUTE FUNCTION public.apply_submission_outlier_score();
+
+-- 2. Only the trigger (running as the owner) may compute scores
+REVOKE EXECUTE ON FUNCTION public.score_submission_outlier(uuid, numeric, uuid, timestamptz, uuid) FROM PUBLIC, anon, authenticated;